@@ -1,10 +1,28 @@
 import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
-import type { CourseData, GeneratedSlide, GeneralCourseSlide, MicrolearningSlide, KbStatus, AgenticMode, SlideGenState } from './types';
+import type { CourseData, GeneratedSlide, GeneralCourseSlide, MicrolearningSlide, KbStatus, AgenticMode, SlideGenState, SavedProject, SyncConflict, SyncStatus, StreamReconnect, ExportFormat, HandoutLayout, SlideNotes, BankQuestion, UnreadSlide, RetrievalBackend, SourcePassage, AttachedKnowledgeBase, KnowledgeBase as KnowledgeBaseItem } from './types';
 import { CourseType, StructureMethod } from './types';
-import { MIN_SLIDES_GENERAL, MIN_SLIDES_MICRO, ALL_GENERAL_CONTENT_TYPES, ALL_MICROLEARNING_CONTENT_TYPES } from './constants';
-import { addPage, updatePage } from './glmApi';
-import { upsertDocument, retrieveGroundTruth, SlideRequestInfo } from './n8nApi';
-import JSZip from 'jszip';
+import { WIZARD_STEPS, ACCENT_COLOR, MIN_SLIDES_GENERAL, MIN_SLIDES_MICRO, ALL_GENERAL_CONTENT_TYPES, ALL_MICROLEARNING_CONTENT_TYPES, TARGET_SLIDE_SECONDS, NARRATION_WORDS_PER_MINUTE } from './constants';
+import { getProvider, loadProviderSettings, saveProviderSettings } from './providers';
+import { retrieveGroundTruth, SlideRequestInfo, ProjectConflictError } from './n8nApi';
+import { retrieveGroundTruthLocally } from './localRetrieval';
+import { buildKnowledgeBase, attachedKnowledgeBases, withKnowledgeBases } from './knowledgeBase';
+import { describeSource, sourceSummary, sourceTopic, type SourceInput } from './documentSources';
+import { buildSourcesGuide, checkSlideGrounding, groundingBySlide, groundTruthContext, revisionSourcesNote, unsupportedClaims } from './grounding';
+import { saveLocalProject, listLocalProjects, getLocalProject } from './projectStore';
+import { pushProject, isProjectDirty, pullProject, adoptRemoteProject, mergeWithRemote, importRemoteProject, queueProjectSync, syncLocalProject } from './projectSync';
+import { parseSlideDocument } from './extractSlides';
+import { SLIDE_MODEL_SCHEMA, SLIDE_MODEL_SCRIPT_ID, slideModelEnvelope } from './slideModel';
+import { renderGeneratedSlide } from './slideTemplates';
+import { INTERACTIVE_RULES, INTERACTIVE_SCHEMAS, INTERACTIVE_SPEC_TYPES, InteractiveType, checkRequestedInteractives, interactiveSourceHtml } from './interactives';
+import { buildSlidesZip, buildCaptionsZip } from './exporters/zip';
+import { buildScormPackage } from './exporters/scorm';
+import { buildXapiPackage } from './exporters/xapi';
+import { buildCommonCartridge } from './exporters/commonCartridge';
+import { buildPptx } from './exporters/pptx';
+import { printHandout } from './exporters/handout';
+import { buildPresentation } from './exporters/presentation';
+import { downloadBlob, safeFileName, ExportDeck } from './exporters/shared';
+import { questionBankPrompt, questionsFromAi } from './exporters/questionBank';
 
 import StepIndicator from './components/StepIndicator';
 import Step1_CourseType from './screens/Step1_CourseType';
@@ -13,6 +31,9 @@ import Step3_ContentConfiguration from './screens/Step3_ContentConfiguration';
 import Step4_PreviewAndGenerate from './screens/Step4_PreviewAndGenerate';
 import Step5_Slides from './screens/Step5_Slides';
 import Step6_ExportWP from './screens/Step6_ExportWP';
+import MyProjects from './screens/MyProjects';
+import KnowledgeBase from './screens/KnowledgeBase';
+import SyncConflictDialog, { ConflictResolution } from './components/SyncConflictDialog';
 import { SparklesIcon } from './components/icons/SparklesIcon';
 import IconButton from './components/IconButton';
 import { CodeBracketIcon } from './components/icons/CodeBracketIcon';
@@ -23,25 +44,10 @@ import { ChevronRightIcon } from './components/icons/ChevronRightIcon';
 import { currentUser, logout, User } from './auth';
 import { LoginView } from './screens/Auth';
 
-const WIZARD_STEPS = [
-    "Course Type",
-    "Structure",
-    "Configuration",
-    "Generate",
-    "Slides",
-    "Export"
-];
-
-// --- FOR TESTING ONLY ---
-// WARNING: This is a hardcoded API key for temporary testing.
-// For production, you MUST use environment variables to keep your key secure.
-// const apiKey = process.env.API_KEY!;
-const apiKey = '678f5fbf0e0a40e78d6ae129f1ba6f7f.BTae6Sf2vyo0skFq';
-
 const buildStyleGuide = (mode: AgenticMode) => {
   let out = [
     'STYLE GUIDE (applies to all slides)',
-    '- Use a clean corporate look with #219ebc as the primary accent.',
+    `- Use a clean corporate look with ${ACCENT_COLOR} as the primary accent.`,
     '- Each slide should have a clear heading (e.g., <h2>) and concise body content (<ul> or <p>).',
     '- Output policy: return exactly one final HTML document per slide. No markdown, no code fences, no explanations.',
     ''
@@ -65,6 +71,48 @@ const buildStyleGuide = (mode: AgenticMode) => {
   return out;
 };
 
+// Notes travel inside each slide's HTML so every provider's stream carries them; splitSlideNotes
+// (extractSlides.ts) takes them out again.
+const buildNotesGuide = (courseType: CourseType) => {
+  const seconds = TARGET_SLIDE_SECONDS[courseType] ?? TARGET_SLIDE_SECONDS[CourseType.GENERAL];
+  const words = Math.round((seconds / 60) * NARRATION_WORDS_PER_MINUTE);
+  return [
+    'SPEAKER NOTES (every slide)',
+    '- In the <head> of each slide, add its notes as <script type="application/json" id="slide-notes">{"points": [...], "narration": "...", "durationSeconds": N}</script>.',
+    '- points: 2-5 short talking points for the presenter that add to the slide text rather than repeat it.',
+    `- narration: a voice-over script in plain spoken sentences (no markup), about ${words} words.`,
+    `- durationSeconds: the target speaking time for the slide, about ${seconds}.`,
+    ''
+  ].join('\n');
+};
+
+// Structured mode: the model returns data only and slideTemplates.ts does the layout, so the HTML
+// style and notes guides are replaced by the schema. Notes ride along inside the JSON.
+const buildStructuredGuide = (courseType: CourseType) => {
+  const seconds = TARGET_SLIDE_SECONDS[courseType] ?? TARGET_SLIDE_SECONDS[CourseType.GENERAL];
+  const words = Math.round((seconds / 60) * NARRATION_WORDS_PER_MINUTE);
+  return [
+    'OUTPUT FORMAT (structured slides)',
+    `- Return one document per slide: <!DOCTYPE html><html><head><meta charset="utf-8"></head><body><script type="application/json" id="${SLIDE_MODEL_SCRIPT_ID}">{...}</script></body></html>`,
+    '- The JSON must match this TypeScript type exactly. Plain text only in every field: no HTML, CSS or markdown.',
+    SLIDE_MODEL_SCHEMA,
+    ...Object.entries(INTERACTIVE_RULES).map(([type, rule]) => `- interactive "${type}": ${rule}.`),
+    '- Choose the layout that fits: "title" for the opening slide, "media" when the slide leans on an image or video, "two-column" for comparisons.',
+    `- notes: 2-5 talking points that add to the slide text, a narration script of about ${words} words, durationSeconds about ${seconds}.`,
+    '- No markdown fences and no commentary.',
+    ''
+  ].join('\n');
+};
+
+// Free-form slides carry interactives as data too; interactives.ts renders them.
+const buildInteractiveGuide = (types: InteractiveType[]) => [
+  'INTERACTIVE ELEMENTS',
+  '- Do not write HTML, CSS or JavaScript for interactive elements; the studio renders them.',
+  '- Where the element belongs in the slide, put its data in <script type="application/json" data-interactive="TYPE">{...}</script>.',
+  '- The JSON must validate against the JSON Schema for its type:',
+  ...types.map(type => `${type}: ${JSON.stringify(INTERACTIVE_SCHEMAS[type])}${INTERACTIVE_RULES[type] ? `\n  Also: ${INTERACTIVE_RULES[type]}.` : ''}`),
+  ''
+].join('\n');
 
 const payloadToPrompt = (payload: CourseData, opts: { mode: AgenticMode; groundTruth?: string }): string => {
   const { courseType, courseTopic, slideCount, slides } = payload;
@@ -78,13 +126,24 @@ const payloadToPrompt = (payload: CourseData, opts: { mode: AgenticMode; groundT
 
   if (groundTruth) {
       out += `IMPORTANT CONTEXT: You MUST use the following text as the sole source of truth for generating the slides. All facts, figures, and concepts must come from this text. Do not use general knowledge.\n---BEGIN CONTEXT---\n${groundTruth}\n---END CONTEXT---\n\n`;
+      out += buildSourcesGuide() + '\n';
   } else if (payload.structureMethod === StructureMethod.DOCUMENT && payload.fileNames && payload.fileNames.length > 0) {
       out +=
-      `IMPORTANT CONTEXT: The user uploaded "${payload.fileNames.join(', ')}". ` +
-      `Use ONLY content derived from this document for facts and figures.\n\n`;
+      `IMPORTANT CONTEXT: The user provided "${sourceSummary({ fileNames: payload.fileNames, sources: payload.documentSources })}". ` +
+      `Use ONLY content derived from these sources for facts and figures.\n\n`;
   }
 
-  out += buildStyleGuide(mode) + '\n';
+  const structured = payload.slideFormat === 'structured';
+  if (structured) {
+    out += buildStructuredGuide(courseType) + '\n';
+  } else {
+    out += buildStyleGuide(mode) + '\n';
+    out += buildNotesGuide(courseType) + '\n';
+    const requested = courseType === CourseType.MICROLEARNING
+      ? Array.from(new Set((slides as MicrolearningSlide[]).flatMap(slide => slide.interactives ?? []).map(el => INTERACTIVE_SPEC_TYPES[el])))
+      : [];
+    if (requested.length) out += buildInteractiveGuide(requested) + '\n';
+  }
 
   slides.forEach((slide, i) => {
     const n = i + 1;
@@ -108,10 +167,12 @@ const payloadToPrompt = (payload: CourseData, opts: { mode: AgenticMode; groundT
     const needsInteractive = courseType === CourseType.MICROLEARNING && Array.isArray(microSlide.interactives) && microSlide.interactives.length > 0;
     
     if (needsInteractive) {
-      const list = microSlide.interactives.join(', ');
-      out += `Interactive requirement: implement a working ${list} element for this slide (no placeholders).\n`;
+      const types = microSlide.interactives.map(el => `"${INTERACTIVE_SPEC_TYPES[el]}"`).join(', ');
+      out += structured
+        ? `Interactive requirement: set "interactives" to one entry each, in this order: ${types}, fully filled in.\n`
+        : `Interactive requirement: one data block each, in this order: ${types} (see INTERACTIVE ELEMENTS), fully filled in.\n`;
     } else {
-      out += `No interactive element for this slide.\n`;
+      out += structured ? `No "interactives" for this slide.\n` : `No interactive element for this slide.\n`;
     }
   });
 
@@ -155,29 +216,91 @@ const buildSlidesRequestPayload = (slides: (GeneralCourseSlide | MicrolearningSl
     if (!slides) return [];
 
     return slides.map(slide => {
-        const microSlide = slide as MicrolearningSlide;
-        const interactive = (microSlide.interactives && microSlide.interactives.length > 0)
-            ? microSlide.interactives[0]
-            : 'None';
-        
+        const interactives = (slide as MicrolearningSlide).interactives ?? [];
+
         return {
             id: slide.id,
             contentType: slide.contentType,
             autoMode: slide.autoMode,
             userContent: slide.userContent,
-            interactive: interactive,
+            interactive: interactives[0] ?? 'None',
+            interactives,
         };
     });
 };
 
 
-const WizardFlow: React.FC = () => {
-    const [state, setState] = useState<SlideGenState>({
+// Document mode retrieves from n8n unless the course chose the in-browser index; both sides take
+// and return the same shapes, so callers only pick one. Uploads go through buildKnowledgeBase.
+const documentBackend = (retrieval: RetrievalBackend | undefined) => retrieval === 'local'
+    ? { retrieve: retrieveGroundTruthLocally, label: 'locally' }
+    : { retrieve: retrieveGroundTruth, label: 'via n8n' };
+
+// Fields parsed out of a slide document (parseSlideDocument); cleared before a new document's
+// are applied, so a revision that comes back in the other format doesn't keep stale data.
+// `sources` is not among them: it comes from retrieval and stays with the slide.
+const NO_DOCUMENT_FIELDS: Partial<GeneratedSlide> = { model: undefined, modelErrors: undefined, interactives: undefined, interactiveErrors: undefined, references: undefined, groundingCheck: undefined };
+
+// Every passage the deck was given, once; a slide is checked against all of them (see grounding.ts).
+const deckPassages = (sources: SourcePassage[][]): SourcePassage[] =>
+  Array.from(new Map(sources.flat().map(p => [p.id, p])).values());
+
+const withGroundingCheck = (slide: GeneratedSlide, passages: SourcePassage[]): GeneratedSlide =>
+  slide.html && slide.sources?.length ? { ...slide, groundingCheck: checkSlideGrounding(slide, passages) } : slide;
+
+const logGroundingCheck = (slides: GeneratedSlide[], onLog: (message: string) => void) => {
+  slides.forEach(slide => {
+    const flagged = unsupportedClaims(slide);
+    if (flagged.length) onLog(`[App] Slide ${slide.pageNumber}: ${flagged.length} sentence(s) not found in the source document.`);
+  });
+};
+
+// A finished slide document -> slide fields. Structured envelopes are rendered with the course theme.
+const completedSlide = (slide: GeneratedSlide, html: string, themeId: string | undefined): GeneratedSlide =>
+  renderGeneratedSlide({ ...slide, ...NO_DOCUMENT_FIELDS, ...parseSlideDocument(html), draft: html, complete: true }, themeId);
+
+// Microlearning slides are checked against the interactives Step 3 asked for, in order.
+const checkRequested = (slide: GeneratedSlide, courseData: Partial<CourseData>): GeneratedSlide => {
+  if (courseData.courseType !== CourseType.MICROLEARNING) return slide;
+  const requested = (courseData.slides?.[slide.pageNumber - 1] as MicrolearningSlide | undefined)?.interactives ?? [];
+  const problems = checkRequestedInteractives(requested.map(el => INTERACTIVE_SPEC_TYPES[el]), slide.interactives ?? []);
+  return problems.length ? { ...slide, interactiveErrors: [...(slide.interactiveErrors ?? []), ...problems] } : slide;
+};
+
+const validationProblems = (slide: GeneratedSlide) => [...(slide.modelErrors ?? []), ...(slide.interactiveErrors ?? [])];
+
+// Keeps MicrolearningSlide.generatedInteractives in step with the generated slides.
+const withGeneratedInteractives = (courseData: Partial<CourseData>, slides: GeneratedSlide[]): Partial<CourseData> => {
+  if (courseData.courseType !== CourseType.MICROLEARNING || !courseData.slides) return courseData;
+  const byPage = new Map(slides.map(s => [s.pageNumber, s.interactives ?? []]));
+  return {
+    ...courseData,
+    slides: courseData.slides.map((slide, i) => (byPage.has(i + 1) ? { ...slide, generatedInteractives: byPage.get(i + 1) } : slide)),
+  };
+};
+
+const AUTOSAVE_DELAY_MS = 800;
+const SYNC_DELAY_MS = 3000;
+
+const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+    idle: '',
+    syncing: 'Syncing…',
+    synced: 'Saved to server',
+    conflict: 'Sync conflict',
+    error: 'Sync failed — saved locally',
+};
+
+const createInitialState = (): SlideGenState => ({
         step: 1,
+        projectId: null,
+        syncStatus: 'idle',
+        syncConflict: null,
         courseData: {},
         kbStatus: 'idle',
+        kbProgress: null,
         kbError: null,
         mode: 'free',
+        provider: loadProviderSettings(),
         isLoading: false,
         isRetrievingContent: false,
         isExporting: false,
@@ -187,16 +310,25 @@ const WizardFlow: React.FC = () => {
         error: null,
         lastPrompt: '',
         apiLogs: [],
+        streamReconnects: [],
         isExportingWp: false,
         exportSuccessMessage: null,
-    });
+});
+
+const WizardFlow: React.FC<{ user: User }> = ({ user }) => {
+    const [state, setState] = useState<SlideGenState>(createInitialState);
     
     const [showDebug, setShowDebug] = useState(false);
     
     const abortControllerRef = useRef<AbortController | null>(null);
-    const pollingIntervalRef = useRef<number | null>(null);
+    const kbAbortRef = useRef<AbortController | null>(null); // stops waiting on a knowledge base upload
+    const autosaveTimerRef = useRef<number | null>(null);
+    const pendingSaveRef = useRef<(() => Promise<SavedProject>) | null>(null);
+    const syncTimerRef = useRef<number | null>(null);
+    const syncConflictRef = useRef<SyncConflict | null>(null);
+    const [isResolvingConflict, setIsResolvingConflict] = useState(false);
 
-    const { step, courseData, kbStatus, kbError, mode, isLoading, isRetrievingContent, isExporting, generatedSlides, runId, glmConversationId, error } = state;
+    const { step, projectId, courseData, kbStatus, kbError, mode, isLoading, isRetrievingContent, isExporting, generatedSlides, runId, glmConversationId, error } = state;
 
     useEffect(() => {
         if (!state.runId) {
@@ -204,15 +336,25 @@ const WizardFlow: React.FC = () => {
         }
     }, [state.runId]);
 
+    // Land on "My Projects" when the user already has saved work to resume.
+    useEffect(() => {
+        let cancelled = false;
+        listLocalProjects(user.id)
+            .then(projects => {
+                if (cancelled || projects.length === 0) return;
+                setState(prev => (prev.step === 1 && !prev.projectId ? { ...prev, step: 0 } : prev));
+            })
+            .catch(err => console.warn('Could not list saved projects:', err));
+        return () => { cancelled = true; };
+    }, [user.id]);
+
 
     useEffect(() => {
         return () => {
             if (abortControllerRef.current) {
                 abortControllerRef.current.abort();
             }
-             if (pollingIntervalRef.current) {
-                clearInterval(pollingIntervalRef.current);
-            }
+            kbAbortRef.current?.abort();
         };
     }, []);
 
@@ -232,7 +374,78 @@ const WizardFlow: React.FC = () => {
         setState(prev => ({ ...prev, apiLogs: [...prev.apiLogs, `[${new Date().toLocaleTimeString()}] ${logString}`].slice(-500) }));
     }, []);
 
-    const handleFileUpload = useCallback(async (files: File[]) => {
+    const onReconnect = useCallback((info: StreamReconnect) => {
+        setState(prev => ({ ...prev, streamReconnects: [...prev.streamReconnects, info] }));
+    }, []);
+
+    // The reconnect was answered with a new stream rather than resumed; the Debug Panel says so.
+    const onRestart = useCallback((info: StreamReconnect) => {
+        setState(prev => ({ ...prev, streamReconnects: prev.streamReconnects.map(r => (r.attempt === info.attempt ? info : r)) }));
+    }, []);
+
+    const syncProject = useCallback(async (project: SavedProject) => {
+        // Hold further saves until the user has resolved an open conflict.
+        if (syncConflictRef.current || !isProjectDirty(project)) return;
+        setState(prev => ({ ...prev, syncStatus: 'syncing' }));
+        try {
+            // Pushes the stored record rather than `project`, which an earlier push may have made stale.
+            await syncLocalProject(project.userId, project.id, handleLog);
+            setState(prev => ({ ...prev, syncStatus: 'synced' }));
+        } catch (err: any) {
+            if (err instanceof ProjectConflictError) {
+                const local = (await getLocalProject(project.userId, project.id)) ?? project;
+                handleLog(`[Sync] Conflict on project ${local.id}: server revision ${err.remote.revision}, local base ${local.revision}.`);
+                const conflict = { local, remote: err.remote };
+                syncConflictRef.current = conflict;
+                setState(prev => ({ ...prev, syncStatus: 'conflict', syncConflict: conflict }));
+            } else {
+                handleLog(`[Sync] Error syncing project ${project.id}: ${err.message}`);
+                setState(prev => ({ ...prev, syncStatus: 'error' }));
+            }
+        }
+    }, [handleLog]);
+
+    // Autosave the wizard to IndexedDB (debounced), then sync it to n8n (debounced further).
+    // A pending local save is flushed on unmount, e.g. on idle logout.
+    useEffect(() => {
+        if (!projectId || step <= 0) return;
+        const snapshot = {
+            id: projectId,
+            userId: user.id,
+            step,
+            courseData,
+            generatedSlides,
+            mode,
+            runId,
+            glmConversationId,
+        };
+        pendingSaveRef.current = () => saveLocalProject(snapshot);
+        if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
+        autosaveTimerRef.current = window.setTimeout(() => {
+            autosaveTimerRef.current = null;
+            const save = pendingSaveRef.current;
+            pendingSaveRef.current = null;
+            save?.()
+                .then(saved => {
+                    if (syncTimerRef.current) clearTimeout(syncTimerRef.current);
+                    syncTimerRef.current = window.setTimeout(() => {
+                        syncTimerRef.current = null;
+                        syncProject(saved);
+                    }, SYNC_DELAY_MS);
+                })
+                .catch(err => console.warn('Autosave failed:', err));
+        }, AUTOSAVE_DELAY_MS);
+    }, [projectId, user.id, step, courseData, generatedSlides, mode, runId, glmConversationId, syncProject]);
+
+    useEffect(() => {
+        return () => {
+            if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
+            if (syncTimerRef.current) clearTimeout(syncTimerRef.current);
+            pendingSaveRef.current?.().catch(err => console.warn('Autosave failed:', err));
+        };
+    }, []);
+
+    const handleAddSources = useCallback(async (inputs: SourceInput[]) => {
         if (!runId) {
             handleLog('[Doc Flow] Error: runId is missing.');
             setState(prev => ({
@@ -242,36 +455,62 @@ const WizardFlow: React.FC = () => {
             }));
             return;
         }
-        if (files.length === 0) {
+        if (inputs.length === 0) {
             return;
         }
-        setState(prev => ({...prev, apiLogs: [], kbError: null, kbStatus: 'uploading'}));
+        setState(prev => ({...prev, apiLogs: [], kbError: null, kbStatus: 'uploading', kbProgress: null}));
+        kbAbortRef.current?.abort();
+        const controller = new AbortController();
+        kbAbortRef.current = controller;
         
-        const topic = files[0].name.split('.').slice(0, -1).join('.').replace(/_/g, ' ');
-        const fileNames = files.map(f => f.name);
+        const sources = inputs.map(describeSource);
+        const topic = sourceTopic(sources[0]);
+        const backend = documentBackend(courseData.retrieval);
 
-        handleUpdateCourseData({ fileNames: fileNames, courseTopic: topic, kbId: undefined });
-        handleLog(`[Doc Flow] Starting document processing for: ${fileNames.join(', ')} with n8n.`);
+        handleLog(`[Doc Flow] Starting document processing for: ${sourceSummary({ fileNames: [], sources })} ${backend.label}.`);
 
         try {
-            const { sourceId } = await upsertDocument(
-                files,
-                { runId, topic },
-                handleLog
-            );
+            const kb = await buildKnowledgeBase(inputs, { runId, topic, userId: user.id }, courseData.retrieval ?? 'n8n', {
+                onLog: handleLog,
+                signal: controller.signal,
+                onStatus: (status, progress) => setState(prev => ({ ...prev, kbStatus: status, kbProgress: progress ?? null })),
+            });
             
-            handleUpdateCourseData({ kbId: sourceId });
-            handleLog(`[Doc Flow] Document processed successfully via n8n. Source ID: ${sourceId}`);
-            setState(prev => ({...prev, kbStatus: 'ready' }));
+            // Added to the knowledge bases already attached; the first one names the course.
+            setState(prev => {
+                const attached = [...attachedKnowledgeBases(prev.courseData), kb];
+                const courseTopic = attached.length === 1 ? topic : prev.courseData.courseTopic;
+                return { ...prev, courseData: { ...prev.courseData, ...withKnowledgeBases(attached), courseTopic } as Partial<CourseData>, kbStatus: 'ready', kbProgress: null };
+            });
+            handleLog(`[Doc Flow] Document processed successfully ${backend.label}. Source ID: ${kb.id}`);
         } catch (err: any) {
+            if (controller.signal.aborted) return;
             handleLog(`[Doc Flow] Error: ${err.message}`);
             setState(prev => ({
                 ...prev,
                 kbError: err.message || 'An unknown error occurred during document processing.',
-                kbStatus: 'error'
+                kbStatus: 'error',
+                kbProgress: null
             }));
         }
-    }, [handleLog, handleUpdateCourseData, runId]);
+    }, [handleLog, runId, user.id, courseData.retrieval]);
+
+    const handleAttachKnowledgeBase = useCallback((kb: AttachedKnowledgeBase) => {
+        setState(prev => {
+            const attached = attachedKnowledgeBases(prev.courseData);
+            if (attached.some(k => k.id === kb.id)) return prev;
+            const courseTopic = prev.courseData.courseTopic || kb.name;
+            return { ...prev, courseData: { ...prev.courseData, ...withKnowledgeBases([...attached, kb]), courseTopic } as Partial<CourseData>, kbStatus: 'ready', kbError: null };
+        });
+        handleLog(`[Doc Flow] Attached knowledge base ${kb.id} (${sourceSummary(kb)}).`);
+    }, [handleLog]);
+
+    const handleDetachKnowledgeBase = useCallback((id: string) => {
+        setState(prev => {
+            const attached = attachedKnowledgeBases(prev.courseData).filter(k => k.id !== id);
+            return { ...prev, courseData: { ...prev.courseData, ...withKnowledgeBases(attached) } as Partial<CourseData>, kbStatus: attached.length ? 'ready' : 'idle' };
+        });
+    }, []);
     
     const handleRetrieveContent = useCallback(async () => {
         if (!runId || !courseData.kbId || !courseData.courseTopic || !courseData.slides || !courseData.courseType) {
@@ -281,15 +520,17 @@ const WizardFlow: React.FC = () => {
             return;
         }
 
+        const backend = documentBackend(courseData.retrieval);
         setState(prev => ({ ...prev, isRetrievingContent: true, error: null }));
-        handleLog('[App] Retrieving auto-generated content from document via n8n...');
+        handleLog(`[App] Retrieving auto-generated content from document ${backend.label}...`);
         
         const slidesPayload = buildSlidesRequestPayload(courseData.slides as (GeneralCourseSlide | MicrolearningSlide)[]);
 
         try {
-            const items = await retrieveGroundTruth({
+            const items = await backend.retrieve({
                 runId,
                 sourceId: courseData.kbId,
+                sourceIds: attachedKnowledgeBases(courseData).map(kb => kb.id),
                 topic: courseData.courseTopic,
                 courseType: courseData.courseType,
                 slides: slidesPayload,
@@ -306,7 +547,7 @@ const WizardFlow: React.FC = () => {
                     const slideNumber = index + 1;
                     const retrievedContent = contentById.get(slideNumber);
 
-                    // Only update slides that were in auto-mode and have content from n8n
+                    // Only update slides that were in auto-mode and have retrieved content
                     if (retrievedContent && existingSlide.autoMode) {
                         return {
                             ...existingSlide,
@@ -319,9 +560,9 @@ const WizardFlow: React.FC = () => {
                 return { ...prev, courseData: { ...currentCourseData, slides: newSlides } };
             });
 
-            handleLog('[App] Successfully updated slides with generated content from n8n.');
+            handleLog(`[App] Successfully updated slides with content retrieved ${backend.label}.`);
         } catch (err: any) {
-            const message = err.message || 'Failed to retrieve content from n8n.';
+            const message = err.message || `Failed to retrieve content ${backend.label}.`;
             setState(prev => ({ ...prev, error: message }));
             handleLog(`[App] Error retrieving content: ${message}`);
         } finally {
@@ -354,11 +595,15 @@ const WizardFlow: React.FC = () => {
     }, [step, courseData.structureMethod]);
 
     const handleSelectCourseType = (type: CourseType) => {
+        // A course started from the Knowledge Base screen keeps its documents and their topic.
+        const hasDocuments = attachedKnowledgeBases(courseData).length > 0;
+        const start = hasDocuments
+            ? { courseTopic: courseData.courseTopic ?? '', structureMethod: StructureMethod.DOCUMENT }
+            : { courseTopic: '', structureMethod: StructureMethod.AI };
         if (type === CourseType.GENERAL) {
             handleUpdateCourseData({
                 courseType: type,
-                courseTopic: '',
-                structureMethod: StructureMethod.AI,
+                ...start,
                 selectedContentTypes: ALL_GENERAL_CONTENT_TYPES,
                 slideCount: MIN_SLIDES_GENERAL,
                 slides: [],
@@ -366,15 +611,142 @@ const WizardFlow: React.FC = () => {
         } else {
             handleUpdateCourseData({
                 courseType: type,
-                courseTopic: '',
-                structureMethod: StructureMethod.AI,
+                ...start,
                 slideCount: MIN_SLIDES_MICRO,
                 selectedContentTypes: ALL_MICROLEARNING_CONTENT_TYPES,
                 slides: [],
             });
         }
-        setState(prev => ({ ...prev, kbStatus: 'idle', kbError: null, step: 2 }));
+        setState(prev => ({ ...prev, projectId: prev.projectId ?? prev.runId ?? crypto.randomUUID(), kbStatus: hasDocuments ? 'ready' : 'idle', kbError: null, step: 2 }));
     };
+
+    const loadProjectIntoState = useCallback((project: SavedProject) => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        kbAbortRef.current?.abort();
+        // Slides that were still streaming when the project was saved can't be resumed.
+        const slides = project.generatedSlides.filter(s => s.complete && s.html);
+        setState(prev => ({
+            ...createInitialState(),
+            apiLogs: prev.apiLogs,
+            syncStatus: prev.syncStatus,
+            syncConflict: prev.syncConflict,
+            projectId: project.id,
+            step: project.step || 1,
+            courseData: project.courseData,
+            generatedSlides: slides,
+            mode: project.mode,
+            runId: project.runId,
+            glmConversationId: project.glmConversationId,
+            kbStatus: attachedKnowledgeBases(project.courseData).length ? 'ready' : 'idle',
+        }));
+    }, []);
+
+    const handleOpenProject = useCallback(async (project: SavedProject) => {
+        if (project.id === projectId) {
+            // Resuming the open project: in-memory state is newer than the last autosave.
+            setState(prev => ({ ...prev, step: project.step || 1 }));
+            return;
+        }
+        let toOpen = project;
+        try {
+            const pulled = await pullProject(project, handleLog);
+            toOpen = pulled.project;
+            if (pulled.conflict) {
+                const conflict = { local: project, remote: pulled.conflict };
+                syncConflictRef.current = conflict;
+                setState(prev => ({ ...prev, syncStatus: 'conflict', syncConflict: conflict }));
+            } else if (toOpen !== project) {
+                handleLog(`[Sync] Opened newer server revision ${toOpen.revision} of project ${project.id}.`);
+            }
+        } catch (err: any) {
+            // Offline or n8n unavailable: the local copy is still usable.
+            handleLog(`[Sync] Could not check server copy of ${project.id}: ${err.message}`);
+        }
+        loadProjectIntoState(toOpen);
+        handleLog(`[Projects] Opened project ${toOpen.id} at step ${toOpen.step}.`);
+    }, [handleLog, loadProjectIntoState, projectId]);
+
+    const handleOpenRemoteProject = useCallback(async (remoteRunId: string) => {
+        const project = await importRemoteProject(user.id, remoteRunId, handleLog);
+        loadProjectIntoState(project);
+        handleLog(`[Projects] Imported project ${project.id} (revision ${project.revision}) from the server.`);
+    }, [user.id, handleLog, loadProjectIntoState]);
+
+    const handleResolveConflict = useCallback(async (resolution: ConflictResolution) => {
+        const conflict = syncConflictRef.current;
+        if (!conflict) return;
+        setIsResolvingConflict(true);
+        try {
+            await queueProjectSync(conflict.local.id, async () => {
+                // Pick up edits autosaved after the conflict was detected.
+                const local = (await getLocalProject(user.id, conflict.local.id)) ?? conflict.local;
+                if (resolution === 'overwrite') {
+                    await pushProject(local, handleLog, { baseRevision: conflict.remote.revision });
+                    handleLog(`[Sync] Overwrote server revision ${conflict.remote.revision} of ${local.id}.`);
+                } else if (resolution === 'theirs') {
+                    const adopted = await adoptRemoteProject(user.id, conflict.remote);
+                    if (local.id === projectId) loadProjectIntoState(adopted);
+                    handleLog(`[Sync] Replaced local copy of ${local.id} with server revision ${conflict.remote.revision}.`);
+                } else {
+                    const { project, conflicts } = await mergeWithRemote(local, conflict.remote, handleLog);
+                    if (local.id === projectId) loadProjectIntoState(project);
+                    handleLog(`[Sync] Merged ${local.id} into revision ${project.revision}.${conflicts.length ? ` Kept local values for: ${conflicts.join(', ')}` : ''}`);
+                }
+            });
+            syncConflictRef.current = null;
+            setState(prev => ({ ...prev, syncStatus: 'synced', syncConflict: null }));
+        } catch (err: any) {
+            handleLog(`[Sync] Failed to resolve conflict: ${err.message}`);
+            if (err instanceof ProjectConflictError) {
+                // Someone saved yet again; offer the choice against the newest server copy.
+                const next = { local: conflict.local, remote: err.remote };
+                syncConflictRef.current = next;
+                setState(prev => ({ ...prev, syncConflict: next }));
+            } else {
+                setState(prev => ({ ...prev, error: `Could not resolve sync conflict: ${err.message}` }));
+            }
+        } finally {
+            setIsResolvingConflict(false);
+        }
+    }, [user.id, projectId, handleLog, loadProjectIntoState]);
+
+    const handleNewProject = useCallback(() => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        kbAbortRef.current?.abort();
+        setState(prev => ({ ...createInitialState(), apiLogs: prev.apiLogs }));
+    }, []);
+
+    // A new course that starts out in document mode with `kb` attached.
+    const handleNewCourseFromKnowledgeBase = useCallback((kb: KnowledgeBaseItem) => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        kbAbortRef.current?.abort();
+        setState(prev => ({
+            ...createInitialState(),
+            apiLogs: prev.apiLogs,
+            courseData: {
+                courseTopic: kb.name,
+                structureMethod: StructureMethod.DOCUMENT,
+                retrieval: kb.backend,
+                ...withKnowledgeBases([{ id: kb.id, name: kb.name, fileNames: kb.fileNames, sources: kb.sources }]),
+            },
+            kbStatus: 'ready',
+        }));
+        handleLog(`[Projects] New course from knowledge base ${kb.id}.`);
+    }, [handleLog]);
+
+    const handleProjectDeleted = useCallback((deletedId: string) => {
+        if (projectId !== deletedId) return;
+        // Drop saves already queued for the deleted project, then detach from it so autosave doesn't resurrect it.
+        if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
+        if (syncTimerRef.current) clearTimeout(syncTimerRef.current);
+        autosaveTimerRef.current = null;
+        syncTimerRef.current = null;
+        pendingSaveRef.current = null;
+        setState(prev => (prev.projectId === deletedId ? { ...createInitialState(), apiLogs: prev.apiLogs, step: 0 } : prev));
+    }, [projectId]);
     
     const handleGenerate = useCallback(async () => {
         if (abortControllerRef.current) {
@@ -383,14 +755,21 @@ const WizardFlow: React.FC = () => {
         abortControllerRef.current = new AbortController();
         const controller = abortControllerRef.current;
         
-        setState(prev => ({ ...prev, isLoading: true, error: null, generatedSlides: [], glmConversationId: null, apiLogs: [], step: 5 }));
+        setState(prev => ({ ...prev, isLoading: true, error: null, generatedSlides: [], glmConversationId: null, apiLogs: [], streamReconnects: [], step: 5 }));
 
         const generationTimeout = setTimeout(() => {
             handleLog('[App] Generation timed out after 5 minutes.');
             controller.abort();
         }, 300000); // 5 minute timeout
 
-        const onPartial = ({ pos, html, complete }: { pos: number; html: string; complete: boolean }) => {
+        // Document mode: the passages retrieved for each slide, kept on the slide for the Sources
+        // drawer; each finished slide is checked against them.
+        let grounding: Map<number, SourcePassage[]> | null = null;
+        let passages: SourcePassage[] = [];
+        const withSources = (slide: GeneratedSlide): GeneratedSlide =>
+            grounding?.get(slide.pageNumber)?.length ? withGroundingCheck({ ...slide, sources: grounding.get(slide.pageNumber) }, passages) : slide;
+
+        const onPartial = (pos: number, html: string, complete: boolean) => {
             setState(s => {
                 const slides = [...s.generatedSlides];
                 const i = (pos ?? 1) - 1;
@@ -400,12 +779,8 @@ const WizardFlow: React.FC = () => {
                 }
 
                 const prev = slides[i] || { pageNumber: pos, html: '' };
-                slides[i] = {
-                    ...prev,
-                    pageNumber: pos,
-                    draft: html,
-                    ...(complete ? { html, complete: true } : {}),
-                };
+                const next = { ...prev, pageNumber: pos, draft: html };
+                slides[i] = complete ? withSources(completedSlide(next, html, courseData.themeId)) : next;
                 return { ...s, generatedSlides: slides };
             });
         };
@@ -413,25 +788,26 @@ const WizardFlow: React.FC = () => {
         try {
             let groundTruth: string | undefined = undefined;
             if (courseData.structureMethod === StructureMethod.DOCUMENT && courseData.kbId && runId && courseData.courseType) {
-                handleLog('[App] Retrieving ground truth from document via n8n...');
+                const backend = documentBackend(courseData.retrieval);
+                handleLog(`[App] Retrieving ground truth from document ${backend.label}...`);
                 try {
                     const slidesPayload = buildSlidesRequestPayload(courseData.slides as (GeneralCourseSlide | MicrolearningSlide)[]);
-                    const items = await retrieveGroundTruth({
+                    const items = await backend.retrieve({
                         runId,
                         sourceId: courseData.kbId,
+                        sourceIds: attachedKnowledgeBases(courseData).map(kb => kb.id),
                         topic: courseData.courseTopic!,
                         courseType: courseData.courseType,
                         slides: slidesPayload,
                     }, handleLog);
                     
-                    const sortedItems = items.sort((a, b) => a.id - b.id);
-                    groundTruth = sortedItems
-                        .map(item => `### Slide ${item.id}\n${item.SlideContent}`)
-                        .join('\n\n---\n\n');
+                    grounding = groundingBySlide(items, courseData.fileNames);
+                    passages = deckPassages(Array.from(grounding.values()));
+                    groundTruth = groundTruthContext(grounding);
 
                 } catch (e: any) {
                     clearTimeout(generationTimeout);
-                    setState(prev => ({ ...prev, error: `Failed to retrieve context from document via n8n: ${e.message}`, isLoading: false }));
+                    setState(prev => ({ ...prev, error: `Failed to retrieve context from document ${backend.label}: ${e.message}`, isLoading: false }));
                     return;
                 }
             }
@@ -439,12 +815,19 @@ const WizardFlow: React.FC = () => {
             const prompt = payloadToPrompt(courseData as CourseData, { mode, groundTruth });
             setState(prev => ({...prev, lastPrompt: prompt}));
 
-            addPage({
+            const provider = getProvider(state.provider);
+            handleLog(`[App] Generating with provider: ${provider.label}`);
+            provider.generateDeck({
                 prompt,
-                apiKey,
                 signal: controller.signal,
                 onLog: handleLog,
                 onPartial,
+                onReconnect,
+                // The generation starts over, so the slides streamed so far are dropped.
+                onRestart: info => {
+                    onRestart(info);
+                    setState(prev => ({ ...prev, generatedSlides: [] }));
+                },
                 kbId: courseData.kbId,
                 onComplete: (convId, slides) => {
                     clearTimeout(generationTimeout);
@@ -453,7 +836,19 @@ const WizardFlow: React.FC = () => {
                         scope: "render.pipeline",
                         msg: `Received ${slides.length} slides; slide[0] bytes=${slides[0]?.html?.length ?? 0}, doctype=${/^\s*<!doctype/i.test(slides[0]?.html || "")}, hasEscapes=${/\\n|\\"/.test(slides[0]?.html || "")}`
                     });
-                    setState(prev => ({...prev, glmConversationId: convId, isLoading: false, generatedSlides: slides }));
+                    const rendered = slides.map(slide => withSources(checkRequested(renderGeneratedSlide(slide, courseData.themeId), courseData)));
+                    rendered.forEach(slide => {
+                        const problems = validationProblems(slide);
+                        if (problems.length) handleLog(`[App] Slide ${slide.pageNumber} did not validate: ${problems.join('; ')}`);
+                    });
+                    logGroundingCheck(rendered, handleLog);
+                    setState(prev => ({
+                        ...prev,
+                        glmConversationId: convId,
+                        isLoading: false,
+                        generatedSlides: rendered,
+                        courseData: withGeneratedInteractives(prev.courseData, rendered),
+                    }));
                     if (slides.length === 0) {
                         handleLog(`[App] Stream complete, but no slide data was received.`);
                         setState(prev => ({...prev, error: "Generation finished, but the AI did not produce any slides. This might be due to a restrictive prompt or an API issue. Please try modifying your request or starting over."}));
@@ -477,11 +872,27 @@ const WizardFlow: React.FC = () => {
             setState(prev => ({...prev, error: err.message, isLoading: false }));
             handleLog(`[App] Error during generation setup: ${err.message}`);
         }
-    }, [courseData, handleLog, mode, runId]);
+    }, [courseData, handleLog, onReconnect, onRestart, mode, runId, state.provider]);
     
+    const handleUpdateSlideNotes = useCallback((slideIndex: number, notes: SlideNotes) => {
+        setState(prev => ({
+            ...prev,
+            generatedSlides: prev.generatedSlides.map((s, i) => (i === slideIndex ? { ...s, notes } : s)),
+        }));
+    }, []);
+
+    // Structured slides keep their model, so a theme change re-renders them without another AI call.
+    const handleChangeTheme = useCallback((themeId: string) => {
+        setState(prev => ({
+            ...prev,
+            courseData: { ...prev.courseData, themeId } as Partial<CourseData>,
+            generatedSlides: prev.generatedSlides.map(s => renderGeneratedSlide(s, themeId)),
+        }));
+    }, []);
+
     const handleUpdateSlide = useCallback((slideIndex: number, instruction: string) => {
         if (!glmConversationId) {
-            setState(prev => ({...prev, error: "Cannot update slide. Missing GLM Conversation ID."}));
+            setState(prev => ({...prev, error: "Cannot update slide. Missing conversation ID."}));
             return;
         }
 
@@ -490,9 +901,18 @@ const WizardFlow: React.FC = () => {
         }
         abortControllerRef.current = new AbortController();
         const controller = abortControllerRef.current;
-        setState(prev => ({...prev, isLoading: true, error: null, apiLogs: []}));
+        setState(prev => ({...prev, isLoading: true, error: null, apiLogs: [], streamReconnects: []}));
         
-        const prompt = `Update slide ${slideIndex + 1} with the following revised content/instruction:\n${instruction}`;
+        const target = generatedSlides[slideIndex];
+        const pageNumber = target?.pageNumber ?? slideIndex + 1;
+        // Structured slides are revised as data: the model sees the current JSON and answers in kind.
+        const currentModel = target?.model ? slideModelEnvelope({ ...target.model, notes: target.notes }, pageNumber) : null;
+        const structured = !!(target?.model || target?.modelErrors);
+        const prompt = `Update slide ${slideIndex + 1} with the following revised content/instruction:\n${instruction}\n` + (structured
+            ? `Return the slide in the same structured format: one document whose <script type="application/json" id="${SLIDE_MODEL_SCRIPT_ID}"> holds JSON matching this type, plain text only, with "notes" updated for the revised slide.\n${SLIDE_MODEL_SCHEMA}`
+            : `In its <head>, include the <script type="application/json" id="slide-notes"> block with "points", "narration" and "durationSeconds", updated for the revised slide. ` +
+              `Keep interactive elements as <script type="application/json" data-interactive="..."> data blocks; do not write their HTML or JavaScript.`) +
+            (target?.sources?.length ? revisionSourcesNote(target.sources) : '');
         setState(prev => ({...prev, lastPrompt: prompt}));
 
         const updateTimeout = setTimeout(() => {
@@ -500,29 +920,35 @@ const WizardFlow: React.FC = () => {
             controller.abort();
         }, 120000); // 2 minute timeout
 
-        const onPartial = ({ pos, html, complete }: { pos: number; html: string; complete: boolean }) => {
+        const onPartial = (pos: number, html: string, complete: boolean) => {
             setState(s => {
                 const slides = [...s.generatedSlides];
                 const i = (pos ?? 1) - 1;
                 if (i >= slides.length) return s;
     
                 const prev = slides[i];
-                slides[i] = {
-                    ...prev,
-                    draft: html,
-                    ...(complete ? { html, complete: true } : {}),
-                };
+                slides[i] = complete
+                    ? withGroundingCheck(checkRequested(completedSlide(prev, html, courseData.themeId), courseData), deckPassages(slides.map(sl => sl.sources ?? [])))
+                    : { ...prev, draft: html };
                 return { ...s, generatedSlides: slides };
             });
         };
 
-        updatePage({
+        getProvider(state.provider).revisePage({
             prompt,
-            apiKey,
             conversationId: glmConversationId,
+            pageNumber,
+            currentHtml: currentModel ?? interactiveSourceHtml(target?.html ?? ''),
             signal: controller.signal,
             onLog: handleLog,
             onPartial,
+            onReconnect,
+            // The revision starts over, so the slide goes back to how it was before.
+            onRestart: info => {
+                onRestart(info);
+                if (!target) return;
+                setState(prev => ({ ...prev, generatedSlides: prev.generatedSlides.map((s, i) => (i === slideIndex ? target : s)) }));
+            },
             kbId: courseData.kbId,
             onComplete: (convId, slides) => {
                 clearTimeout(updateTimeout);
@@ -533,17 +959,29 @@ const WizardFlow: React.FC = () => {
                     msg: `Received ${slides.length} updated slides; slide[0] bytes=${slides[0]?.html?.length ?? 0}, doctype=${/^\s*<!doctype/i.test(slides[0]?.html || "")}, hasEscapes=${/\\n|\\"/.test(slides[0]?.html || "")}`
                 });
 
+                // A revised slide keeps the passages it was generated from and is checked against them, and
+                // against the interactives Step 3 asked for, again.
+                const passages = deckPassages(generatedSlides.map(s => s.sources ?? []));
+                const rendered = slides.map(slide => {
+                    const sources = generatedSlides.find(s => s.pageNumber === slide.pageNumber)?.sources;
+                    return withGroundingCheck(checkRequested({ ...renderGeneratedSlide(slide, courseData.themeId), ...(sources ? { sources } : {}) }, courseData), passages);
+                });
+                rendered.forEach(slide => {
+                    const problems = validationProblems(slide);
+                    if (problems.length) handleLog(`[App] Slide ${slide.pageNumber} did not validate: ${problems.join('; ')}`);
+                });
+                logGroundingCheck(rendered, handleLog);
                 setState(prev => {
                     const newSlides = [...prev.generatedSlides];
                     let updated = false;
-                    slides.forEach(updatedSlide => {
+                    rendered.forEach(updatedSlide => {
                         const index = newSlides.findIndex(s => s.pageNumber === updatedSlide.pageNumber);
                         if (index !== -1) {
-                            newSlides[index] = { ...updatedSlide, draft: updatedSlide.html, complete: true };
+                            newSlides[index] = { ...newSlides[index], ...NO_DOCUMENT_FIELDS, ...updatedSlide, draft: updatedSlide.html, complete: true };
                             updated = true;
                         }
                     });
-                     return { ...prev, glmConversationId: convId, isLoading: false, generatedSlides: newSlides };
+                     return { ...prev, glmConversationId: convId, isLoading: false, generatedSlides: newSlides, courseData: withGeneratedInteractives(prev.courseData, rendered) };
                 });
 
                 if (slides.length === 0) {
@@ -564,7 +1002,7 @@ const WizardFlow: React.FC = () => {
                 abortControllerRef.current = null;
             }
         });
-    }, [glmConversationId, handleLog, courseData.kbId]);
+    }, [glmConversationId, handleLog, onReconnect, onRestart, courseData, generatedSlides, state.provider]);
 
     const handleCancelGeneration = useCallback(() => {
         if (abortControllerRef.current) {
@@ -607,7 +1045,7 @@ const WizardFlow: React.FC = () => {
         }
     }, [handleLog]);
 
-    const handleExport = useCallback(async () => {
+    const handleExport = useCallback(async (format: ExportFormat, handoutLayout: HandoutLayout = 'full') => {
         if (generatedSlides.length === 0) {
             setState(prev => ({...prev, error: "No slides to export."}));
             return;
@@ -615,10 +1053,9 @@ const WizardFlow: React.FC = () => {
         setState(prev => ({...prev, isExporting: true, error: null}));
         
         try {
-            const zip = new JSZip();
             let slidesToExport = generatedSlides;
 
-            handleLog(`[App] Starting client-side export in ${mode.toUpperCase()} mode...`);
+            handleLog(`[App] Starting client-side ${format} export in ${mode.toUpperCase()} mode...`);
 
             if (mode === 'strict') {
                 handleLog('[Strict Mode] Preparing slides for offline export...');
@@ -630,68 +1067,83 @@ const WizardFlow: React.FC = () => {
                     })
                 );
                 slidesToExport = processedSlides;
-            }
-            
-            slidesToExport.forEach((slide) => {
-                const fullHtml = slide.html.includes('<!DOCTYPE html>') 
-                    ? slide.html 
-                    : `<!DOCTYPE html>
-                       <html lang="en">
-                         <head>
-                           <meta charset="UTF-8">
-                           <meta name="viewport" content="width=device-width, initial-scale=1.0">
-                           <title>Slide ${slide.pageNumber}</title>
-                           ${mode === 'free' ? '<script src="https://cdn.tailwindcss.com?plugins=typography"></script>' : ''}
-                         </head>
-                         <body>${slide.html}</body>
-                       </html>`;
-                zip.file(`slide_${slide.pageNumber}.html`, fullHtml);
-            });
-            
-            if (mode === 'strict') {
-                const manifest = `<?xml version="1.0" encoding="UTF-8"?>
-<manifest identifier="com.ankabutlabs.aigen.course" version="1.2"
-          xmlns="http://www.imsglobal.org/xsd/imsccv1p2_imscp_v1p1"
-          xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
-          xsi:schemaLocation="http://www.imsglobal.org/xsd/imsccv1p2_imscp_v1p1 http://www.imsglobal.org/xsd/imscp_v1p1.xsd">
-  <organizations default="org">
-    <organization identifier="org">
-      <title>${courseData.courseTopic || 'Generated Course'}</title>
-      <item identifier="item1" identifierref="res1">
-        <title>Course Content</title>
-      </item>
-    </organization>
-  </organizations>
-  <resources>
-    <resource identifier="res1" type="webcontent" href="slide_1.html">
-      ${slidesToExport.map(slide => `<file href="slide_${slide.pageNumber}.html"/>`).join('\n      ')}
-    </resource>
-  </resources>
-</manifest>`;
-                zip.file('imsmanifest.xml', manifest);
-                handleLog('[App] Added imsmanifest.xml for SCORM compatibility.');
+            } else if (format === 'pptx') {
+                // PowerPoint embeds its pictures, so remote images are fetched now as in strict mode.
+                slidesToExport = await Promise.all(
+                    generatedSlides.map(async (slide) => ({ ...slide, html: await inlineImagesAsDataURI(slide.html, handleLog) }))
+                );
             }
 
-            const content = await zip.generateAsync({ type: "blob" });
-            
-            const link = document.createElement("a");
-            link.href = URL.createObjectURL(content);
-            const safeTopic = courseData.courseTopic?.replace(/[\W_]+/g,"_") || 'slides';
-            link.download = `${safeTopic}.zip`;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
-            URL.revokeObjectURL(link.href);
+            const deck: ExportDeck = {
+                title: courseData.courseTopic || 'Generated Course',
+                slides: slidesToExport,
+                mode,
+                onLog: handleLog,
+            };
+            const baseName = safeFileName(courseData.courseTopic);
+            const packageId = runId ?? crypto.randomUUID();
+
+            switch (format) {
+                case 'scorm12':
+                    downloadBlob(await buildScormPackage(deck, '1.2', packageId), `${baseName}_scorm12.zip`);
+                    break;
+                case 'scorm2004':
+                    downloadBlob(await buildScormPackage(deck, '2004', packageId), `${baseName}_scorm2004.zip`);
+                    break;
+                case 'xapi':
+                    downloadBlob(await buildXapiPackage(deck, packageId), `${baseName}_cmi5.zip`);
+                    break;
+                case 'imscc':
+                    downloadBlob(await buildCommonCartridge(deck, packageId), `${baseName}.imscc`);
+                    break;
+                case 'pptx':
+                    downloadBlob(await buildPptx(deck), `${baseName}.pptx`);
+                    break;
+                case 'presentation':
+                    downloadBlob(await buildPresentation(deck), `${baseName}_presentation.html`);
+                    break;
+                case 'captions':
+                    downloadBlob(await buildCaptionsZip(deck), `${baseName}_captions.zip`);
+                    break;
+                case 'pdf':
+                    await printHandout(deck, handoutLayout);
+                    break;
+                case 'zip':
+                default:
+                    downloadBlob(await buildSlidesZip(deck), `${baseName}.zip`);
+            }
 
             handleLog('[App] Export successful.');
         } catch (err: any) {
-            const message = err.message || "Failed to create ZIP file.";
+            const message = err.message || "Failed to create the export file.";
             setState(prev => ({...prev, error: message}));
             handleLog(`[App] Export error: ${message}`);
         } finally {
             setState(prev => ({...prev, isExporting: false}));
         }
-    }, [generatedSlides, courseData.courseTopic, handleLog, mode, validateAndCleanStrictHTML]);
+    }, [generatedSlides, courseData.courseTopic, handleLog, mode, runId, validateAndCleanStrictHTML]);
+
+    // Question bank fallback: slides the extractor couldn't read go to the current provider, which
+    // restates their questions as interactive data blocks (see questionBankPrompt).
+    const handleExtractQuestionsWithAi = useCallback((unread: UnreadSlide[]) => new Promise<BankQuestion[]>((resolve, reject) => {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), 120000);
+        const provider = getProvider(state.provider);
+        handleLog(`[App] Reading questions from ${unread.length} slide(s) with ${provider.label}...`);
+        provider.generateDeck({
+            prompt: questionBankPrompt(generatedSlides, unread),
+            signal: controller.signal,
+            onLog: handleLog,
+            onComplete: (_convId, slides) => {
+                clearTimeout(timeout);
+                resolve(questionsFromAi(generatedSlides, unread, slides));
+            },
+            onError: (err) => {
+                clearTimeout(timeout);
+                reject(new Error(controller.signal.aborted ? 'Reading the questions timed out. Please try again.' : err));
+            },
+        });
+    }), [generatedSlides, handleLog, state.provider]);
 
     const handleStartOver = useCallback(() => {
         const nextStep = courseData.structureMethod === StructureMethod.AI ? 2 : 3;
@@ -727,15 +1179,39 @@ const WizardFlow: React.FC = () => {
 
     const renderStep = () => {
         switch (step) {
+            case -1:
+                return <KnowledgeBase
+                            userId={user.id}
+                            onNewCourse={handleNewCourseFromKnowledgeBase}
+                            isGenerating={isLoading}
+                            onLog={handleLog}
+                        />;
+            case 0:
+                return <MyProjects
+                            userId={user.id}
+                            currentProjectId={projectId}
+                            onOpen={handleOpenProject}
+                            onOpenRemote={handleOpenRemoteProject}
+                            onNew={handleNewProject}
+                            onDeleted={handleProjectDeleted}
+                            onRenamed={syncProject}
+                            isGenerating={isLoading}
+                            onLog={handleLog}
+                        />;
             case 1:
                 return <Step1_CourseType onSelect={handleSelectCourseType} />;
             case 2:
                 return <Step2_StructureDefinition 
                             courseData={courseData as CourseData} 
                             updateCourseData={handleUpdateCourseData}
-                            onFileUpload={handleFileUpload}
+                            onAddSources={handleAddSources}
+                            onAttachKnowledgeBase={handleAttachKnowledgeBase}
+                            onDetachKnowledgeBase={handleDetachKnowledgeBase}
                             kbStatus={kbStatus}
+                            kbProgress={state.kbProgress}
                             kbError={kbError}
+                            userId={user.id}
+                            onLog={handleLog}
                         />;
             case 3:
                 return <Step3_ContentConfiguration 
@@ -750,6 +1226,12 @@ const WizardFlow: React.FC = () => {
                             onGenerate={handleGenerate} 
                             mode={mode} 
                             setMode={(m) => setState(prev => ({...prev, mode: m}))} 
+                            provider={state.provider}
+                            setProvider={(p) => {
+                                saveProviderSettings(p);
+                                setState(prev => ({...prev, provider: p}));
+                            }}
+                            onUpdateCourseData={handleUpdateCourseData}
                         />;
             case 5:
                 return <Step5_Slides
@@ -757,9 +1239,14 @@ const WizardFlow: React.FC = () => {
                             isLoading={isLoading}
                             error={error}
                             onUpdateSlide={handleUpdateSlide}
+                            onUpdateNotes={handleUpdateSlideNotes}
+                            themeId={courseData.themeId}
+                            onChangeTheme={handleChangeTheme}
+                            courseTitle={courseData.courseTopic || 'Generated Course'}
                             onStartOver={handleStartOver}
                             conversationId={glmConversationId}
                             onExport={handleExport}
+                            onExtractQuestionsWithAi={handleExtractQuestionsWithAi}
                             isExporting={isExporting}
                             onCancelGeneration={handleCancelGeneration}
                             mode={mode}
@@ -794,6 +1281,23 @@ const WizardFlow: React.FC = () => {
                     </div>
                 </div>
                 <p className="text-lg text-[#219ebc] mt-2">Craft professional courses with the power of AI</p>
+                <div className="mt-4 flex justify-center items-center gap-3">
+                    {step !== 0 && (
+                        <Button onClick={() => setState(prev => ({ ...prev, step: 0 }))} variant="secondary" className="text-sm px-3 py-1">
+                            My Projects
+                        </Button>
+                    )}
+                    {step !== -1 && (
+                        <Button onClick={() => setState(prev => ({ ...prev, step: -1 }))} variant="secondary" className="text-sm px-3 py-1">
+                            Knowledge Base
+                        </Button>
+                    )}
+                    {step > 0 && projectId && state.syncStatus !== 'idle' && (
+                        <span className={`text-xs ${state.syncStatus === 'error' || state.syncStatus === 'conflict' ? 'text-red-600' : 'text-gray-500'}`}>
+                            {SYNC_STATUS_LABELS[state.syncStatus]}
+                        </span>
+                    )}
+                </div>
             </header>
             
             {step > 0 && step <= WIZARD_STEPS.length && (
@@ -824,6 +1328,13 @@ const WizardFlow: React.FC = () => {
                     <CodeBracketIcon />
                 </IconButton>
             </div>
+            {state.syncConflict && (
+                <SyncConflictDialog
+                    conflict={state.syncConflict}
+                    isResolving={isResolvingConflict}
+                    onResolve={handleResolveConflict}
+                />
+            )}
             {showDebug && (
                 <DebugPanel 
                     onClose={() => setShowDebug(false)}
@@ -909,7 +1420,7 @@ export default function App() {
       </header>
       
       <main className="flex-1 w-full p-4 sm:p-8 flex flex-col items-center">
-        <WizardFlow />
+        <WizardFlow user={user} />
       </main>
 
       <footer className="border-t border-gray-200 bg-white/85 p-2.5 text-center text-xs text-gray-500">
@@ -5,6 +5,7 @@
 export type User = { id: string; name: string; email: string };
 const STORAGE_KEY = "ai_slide_studio_user";
 const DB_KEY = "ai_slide_studio_users_db"; // demo-only local DB for register/login
+const SESSION_KEY = "ai_slide_studio_session"; // proxy session token, see server/proxy.ts
 
 // FIX: Safely access Vite environment variables. `import.meta.env` may not be defined
 // in all execution contexts. This check prevents a runtime error and allows the app to
@@ -13,6 +14,8 @@ const DB_KEY = "ai_slide_studio_users_db"; // demo-only local DB for register/lo
 // types are not available. Optional chaining (`?.`) safely handles cases where `env` is undefined.
 const LOGIN_URL = (import.meta as any).env?.VITE_N8N_AUTH_LOGIN_URL;
 const REGISTER_URL = (import.meta as any).env?.VITE_N8N_AUTH_REGISTER_URL;
+// The credential-holding proxy. Same origin by default (Vite forwards /api in dev).
+export const PROXY_BASE_URL: string = (import.meta as any).env?.VITE_PROXY_URL || "/api";
 
 function readDB(): Record<string, { id: string; name: string; email: string; password: string }> {
   try {
@@ -47,9 +50,49 @@ export function currentUser(): User | null {
 }
 export function logout() {
   localStorage.removeItem(STORAGE_KEY);
+  localStorage.removeItem(SESSION_KEY);
 }
 
-export async function register(name: string, email: string, password: string): Promise<User> {
+type ProxySession = { token: string; expiresAt: string };
+
+// Bearer token for proxy requests, or null when signed out or expired.
+export function sessionToken(): string | null {
+  try {
+    const session: ProxySession | null = JSON.parse(localStorage.getItem(SESSION_KEY) || "null");
+    if (!session || Date.parse(session.expiresAt) <= Date.now()) return null;
+    return session.token;
+  } catch {
+    return null;
+  }
+}
+
+// The proxy checks the same credentials server-side before handing out a session. Without a
+// session every generation would fail, so sign-in fails with it.
+async function requestProxySession(path: "session" | "register", body: Record<string, string>): Promise<User> {
+  localStorage.removeItem(SESSION_KEY);
+  let res: Response;
+  try {
+    res = await fetch(`${PROXY_BASE_URL}/auth/${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  } catch {
+    throw new Error("The generation proxy is not reachable. Start it with `npm run proxy` and try again.");
+  }
+  if (!res.ok) {
+    const { error } = await res.json().catch(() => ({ error: `status ${res.status}` }));
+    throw new Error(`The generation proxy refused the sign-in: ${error}`);
+  }
+  const { token, expiresAt, user } = await res.json();
+  localStorage.setItem(SESSION_KEY, JSON.stringify({ token, expiresAt }));
+  return user;
+}
+
+const startProxySession = (email: string, password: string) => requestProxySession("session", { email, password });
+
+// `inviteCode` is only needed when the proxy registers the account (PROXY_INVITE_CODE).
+export async function register(name: string, email: string, password: string, inviteCode = ""): Promise<User> {
   if (REGISTER_URL) {
     const res = await fetch(REGISTER_URL, {
       method: "POST",
@@ -59,18 +102,20 @@ export async function register(name: string, email: string, password: string): P
     if (!res.ok) throw new Error(`Register failed (${res.status})`);
     const data = await res.json();
     const user: User = { id: data.id ?? crypto.randomUUID(), name: data.name ?? name, email: data.email ?? email };
+    await startProxySession(email, password);
     localStorage.setItem(STORAGE_KEY, JSON.stringify(user));
     return user;
   }
 
-  // fallback: local demo
+  // fallback: local demo. The proxy has no access to this browser's accounts, so it registers the
+  // account too and hands out the id both use.
   const key = email.toLowerCase();
   const db = readDB();
   if (db[key]) throw new Error("Email already registered");
-  const newUser = { id: crypto.randomUUID(), name, email, password };
-  db[key] = newUser;
+  const { id } = await requestProxySession("register", { name, email, password, inviteCode });
+  db[key] = { id, name, email, password };
   writeDB(db);
-  const user: User = { id: newUser.id, name, email };
+  const user: User = { id, name, email };
   localStorage.setItem(STORAGE_KEY, JSON.stringify(user));
   return user;
 }
@@ -85,6 +130,7 @@ export async function login(email: string, password: string): Promise<User> {
     if (!res.ok) throw new Error(`Login failed (${res.status})`);
     const data = await res.json();
     const user: User = { id: data.id ?? crypto.randomUUID(), name: data.name ?? data.email?.split("@")[0] ?? "", email: data.email ?? email };
+    await startProxySession(email, password);
     localStorage.setItem(STORAGE_KEY, JSON.stringify(user));
     return user;
   }
@@ -95,6 +141,7 @@ export async function login(email: string, password: string): Promise<User> {
   const found = db[key];
   if (!found || found.password !== password) throw new Error("Invalid credentials");
   const user: User = { id: found.id, name: found.name, email: found.email };
+  await startProxySession(email, password);
   localStorage.setItem(STORAGE_KEY, JSON.stringify(user));
   return user;
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import type { SlideGenState } from '../types';
 import LogAnalysisPanel from './LogAnalysisPanel';
+import { loadMockFixture, saveMockFixture, clearMockFixture } from '../providers/mockFixtures';
 
 interface DebugPanelProps {
     onClose: () => void;
@@ -12,8 +13,10 @@ const DebugPanel: React.FC<DebugPanelProps> = ({ onClose, state }) => {
     const [autoScroll, setAutoScroll] = useState(true);
     const logBoxRef = useRef<HTMLDivElement>(null);
     const [activeTab, setActiveTab] = useState<'logs' | 'analysis'>('logs');
+    const [hasMockFixture, setHasMockFixture] = useState(() => !!loadMockFixture());
 
-    const { lastPrompt, apiLogs, ...restOfState } = state;
+    const { lastPrompt, apiLogs, streamReconnects, ...rest } = state;
+    const restOfState = { ...rest, provider: { ...rest.provider, apiKey: rest.provider.apiKey ? '•••' : undefined } };
     
     const sseLast: {runId: string, raw: string} | undefined = typeof window !== 'undefined' ? (window as any).__SSE_LAST__ : undefined;
 
@@ -62,6 +65,20 @@ const DebugPanel: React.FC<DebugPanelProps> = ({ onClose, state }) => {
                             <h4 className="font-bold text-[#49b5d1] mb-1">Last Prompt:</h4>
                             <pre className="bg-gray-900 p-2 rounded whitespace-pre-wrap">{lastPrompt || 'No prompt sent yet.'}</pre>
                         </div>
+                        <div className="mb-4">
+                            <h4 className="font-bold text-[#49b5d1] mb-1">Stream Reconnects:</h4>
+                            {streamReconnects.length === 0 ? (
+                                <p className="bg-gray-900 p-2 rounded">No reconnects during the last generation.</p>
+                            ) : (
+                                <ul className="bg-gray-900 p-2 rounded space-y-1">
+                                    {streamReconnects.map(r => (
+                                        <li key={r.attempt}>
+                                            #{r.attempt} at {new Date(r.at).toLocaleTimeString()} • {r.reason} • Last-Event-ID={r.lastEventId ?? 'none'} • retry in {r.delayMs}ms{r.restarted ? ' • restarted: the server sent a new stream' : ''}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
                         <div>
                             <h4 className="font-bold text-[#49b5d1] mb-1">API Logs:</h4>
                             <div className="flex gap-2 items-center my-2">
@@ -88,6 +105,20 @@ const DebugPanel: React.FC<DebugPanelProps> = ({ onClose, state }) => {
                                     chars: {sseLast.raw.length.toLocaleString()}
                                     {sseLast.runId ? ` • runId=${sseLast.runId}` : ""}
                                 </small>
+                                <div className="flex gap-2 my-1">
+                                    <button
+                                        onClick={() => { saveMockFixture(sseLast.raw); setHasMockFixture(true); }}
+                                        className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600"
+                                        title="The offline mock provider (?debug=mock) replays this stream instead of its templates"
+                                    >
+                                        Save as mock fixture
+                                    </button>
+                                    {hasMockFixture && (
+                                        <button onClick={() => { clearMockFixture(); setHasMockFixture(false); }} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600">
+                                            Clear mock fixture
+                                        </button>
+                                    )}
+                                </div>
 
                                 <textarea
                                     readOnly
@@ -0,0 +1,270 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { GeneratedSlide, SlideNotes } from '../types';
+import Button from './Button';
+import ScaledSlideFrame from './ScaledSlideFrame';
+import { PRESENTER_MINUTES_PER_SLIDE } from '../constants';
+import { titleFromHtml } from '../utils/topicTitle';
+import { emptyNotes, formatDuration, slideSeconds } from '../utils/speakerNotes';
+import type { PresenterMessage, SlideInteraction } from '../utils/presenterChannel';
+import { audienceUrl, frameEvent, presenterChannel, recordInteraction, replayInFrame, withPresenterBridge } from '../utils/presenterChannel';
+
+interface PresenterModeProps {
+    title: string;
+    slides: GeneratedSlide[];
+    startIndex?: number;
+    onUpdateNotes: (slideIndex: number, notes: SlideNotes) => void;
+    onClose: () => void;
+    onLog?: (log: any) => void;
+}
+
+// One audience window per browser: presenting again reuses (and re-targets) it.
+const AUDIENCE_WINDOW = 'slides-audience';
+
+const clock = (ms: number) => {
+    const total = Math.floor(Math.abs(ms) / 1000);
+    const h = Math.floor(total / 3600);
+    const mmss = `${String(Math.floor(total / 60) % 60).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+    return `${ms < 0 ? '-' : ''}${h ? `${h}:` : ''}${mmss}`;
+};
+
+const PresenterMode: React.FC<PresenterModeProps> = ({ title, slides, startIndex = 0, onUpdateNotes, onClose, onLog }) => {
+    const [index, setIndex] = useState(Math.max(0, Math.min(startIndex, slides.length - 1)));
+    const [blank, setBlank] = useState(false);
+    const [audienceConnected, setAudienceConnected] = useState(false);
+    // Slides without a target duration get the default talk time.
+    const [targetMinutes, setTargetMinutes] = useState(() => Math.ceil(
+        slides.reduce((sum, s) => sum + (slideSeconds(s.notes) || PRESENTER_MINUTES_PER_SLIDE * 60), 0) / 60));
+    // `elapsed` holds the time banked before the last start, so pausing doesn't lose it.
+    const [timer, setTimer] = useState({ startedAt: Date.now(), elapsed: 0, running: true });
+    const [now, setNow] = useState(Date.now());
+
+    const session = useMemo(() => crypto.randomUUID(), []);
+    const channelRef = useRef<BroadcastChannel | null>(null);
+    const audienceRef = useRef<Window | null>(null);
+    const interactionsRef = useRef<SlideInteraction[][]>(slides.map(() => []));
+    const frameWindowRef = useRef<Window | null>(null);
+    const latest = useRef({ index, blank, slides });
+    latest.current = { index, blank, slides };
+
+    const post = useCallback((message: PresenterMessage) => channelRef.current?.postMessage(message), []);
+
+    const sendDeck = useCallback(() => {
+        const { index, blank, slides } = latest.current;
+        post({ type: 'deck', title, slides: slides.map(s => s.html), index, interactions: interactionsRef.current, blank });
+    }, [post, title]);
+
+    useEffect(() => {
+        const channel = presenterChannel(session);
+        channelRef.current = channel;
+        channel.onmessage = (e: MessageEvent<PresenterMessage>) => {
+            if (e.data.type !== 'hello') return;
+            setAudienceConnected(true);
+            sendDeck();
+        };
+        return () => {
+            channel.postMessage({ type: 'end' } satisfies PresenterMessage);
+            channel.close();
+            channelRef.current = null;
+        };
+    }, [session, sendDeck]);
+
+    const openAudience = useCallback(() => {
+        const win = window.open(audienceUrl(session), AUDIENCE_WINDOW, 'popup,width=1280,height=760');
+        if (!win) {
+            onLog?.('[Presenter] The audience window was blocked. Allow pop-ups for this site, then use "Open audience window".');
+            return;
+        }
+        audienceRef.current = win;
+        onLog?.('[Presenter] Audience window opened. Move it to the projector and press F there for full screen.');
+    }, [session, onLog]);
+
+    useEffect(() => { openAudience(); }, [openAudience]);
+
+    useEffect(() => {
+        const id = window.setInterval(() => {
+            setNow(Date.now());
+            if (audienceRef.current?.closed) {
+                audienceRef.current = null;
+                setAudienceConnected(false);
+            }
+        }, 500);
+        return () => clearInterval(id);
+    }, []);
+
+    const goTo = useCallback((i: number) => {
+        if (i < 0 || i >= latest.current.slides.length || i === latest.current.index) return;
+        setIndex(i);
+        post({ type: 'goto', index: i });
+    }, [post]);
+
+    const toggleBlank = useCallback(() => {
+        const on = !latest.current.blank;
+        setBlank(on);
+        post({ type: 'blank', on });
+    }, [post]);
+
+    const toggleTimer = () => setTimer(t => t.running
+        ? { ...t, elapsed: t.elapsed + Date.now() - t.startedAt, running: false }
+        : { ...t, startedAt: Date.now(), running: true });
+    const resetTimer = () => setTimer(t => ({ ...t, startedAt: Date.now(), elapsed: 0 }));
+
+    const onKey = useRef<(e: KeyboardEvent) => void>(() => {});
+    onKey.current = (e: KeyboardEvent) => {
+        if (e.defaultPrevented || e.altKey || e.ctrlKey || e.metaKey) return;
+        const target = e.target as HTMLElement | null;
+        const tag = target?.tagName;
+        if (tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT' || target?.isContentEditable) {
+            if (e.key === 'Escape') target?.blur();
+            return;
+        }
+        if (tag === 'BUTTON' && e.key === ' ') return; // Space presses the focused button
+        switch (e.key) {
+            case 'ArrowRight': case 'PageDown': case ' ': goTo(index + 1); break;
+            case 'ArrowLeft': case 'PageUp': goTo(index - 1); break;
+            case 'Home': goTo(0); break;
+            case 'End': goTo(slides.length - 1); break;
+            case 'b': case 'B': case '.': toggleBlank(); break;
+            case 'p': case 'P': toggleTimer(); break;
+            case 't': case 'T': resetTimer(); break;
+            case 'Escape': onClose(); break;
+            default: return;
+        }
+        e.preventDefault();
+    };
+
+    useEffect(() => {
+        const handler = (e: KeyboardEvent) => onKey.current(e);
+        window.addEventListener('keydown', handler);
+        return () => window.removeEventListener('keydown', handler);
+    }, []);
+
+    // Messages from the current slide frame: what was done on it (mirrored to the audience), keys
+    // pressed while it has focus, and branching scenarios asking to continue on another slide.
+    useEffect(() => {
+        const onMessage = (e: MessageEvent) => {
+            const event = frameEvent(e, frameWindowRef.current);
+            if (event?.type === 'interaction') {
+                const slideIndex = latest.current.index;
+                interactionsRef.current[slideIndex] = recordInteraction(interactionsRef.current[slideIndex] ?? [], event.interaction);
+                post({ type: 'interaction', index: slideIndex, interaction: event.interaction });
+            } else if (event?.type === 'key') {
+                onKey.current(new KeyboardEvent('keydown', { key: event.key }));
+            } else if (e.data?.source === 'slides-interactive' && e.data.type === 'goto' && e.source === frameWindowRef.current) {
+                const target = latest.current.slides.findIndex(s => s.pageNumber === e.data.slide);
+                if (target !== -1) goTo(target);
+            }
+        };
+        window.addEventListener('message', onMessage);
+        return () => window.removeEventListener('message', onMessage);
+    }, [goTo, post]);
+
+    // The slide frame is remounted per slide: restore what was done on it so far, then have it
+    // report new clicks, typing and scrolling.
+    const handleFrameLoad = (slideIndex: number, frame: Window) => {
+        frameWindowRef.current = frame;
+        replayInFrame(frame, interactionsRef.current[slideIndex] ?? [], true);
+    };
+
+    const slide = slides[index];
+    const next = slides[index + 1];
+    const elapsed = timer.elapsed + (timer.running ? now - timer.startedAt : 0);
+    const remaining = targetMinutes * 60_000 - elapsed;
+    if (!slide) return null;
+
+    return (
+        <div className="fixed inset-0 z-50 flex flex-col bg-gray-900 text-gray-100" role="dialog" aria-label="Presenter view">
+            <header className="flex items-center gap-4 px-4 py-2 bg-gray-800 border-b border-gray-700">
+                <div className="flex-1 min-w-0">
+                    <p className="text-xs uppercase tracking-wider text-gray-400">Presenter view</p>
+                    <h2 className="font-semibold truncate">{title}</h2>
+                </div>
+                <div className="flex items-center gap-4 font-mono" aria-live="off">
+                    <div className="text-right">
+                        <p className="text-xs font-sans text-gray-400">Elapsed{timer.running ? '' : ' (paused)'}</p>
+                        <p className="text-2xl">{clock(elapsed)}</p>
+                    </div>
+                    <div className="text-right">
+                        <p className="text-xs font-sans text-gray-400">Remaining</p>
+                        <p className={`text-2xl ${remaining < 0 ? 'text-red-400' : remaining < 60_000 ? 'text-amber-400' : ''}`}>{clock(remaining)}</p>
+                    </div>
+                    <label className="text-xs font-sans text-gray-400">
+                        Target (min)
+                        <input
+                            type="number"
+                            min={1}
+                            value={targetMinutes}
+                            onChange={e => setTargetMinutes(Math.max(1, Number(e.target.value) || 1))}
+                            className="block w-16 mt-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-gray-100 focus:ring-[#219ebc] focus:border-[#219ebc]"
+                        />
+                    </label>
+                </div>
+                <div className="flex items-center gap-2">
+                    <Button variant="secondary" onClick={toggleTimer} className="text-sm px-3 py-1">{timer.running ? 'Pause' : 'Resume'}</Button>
+                    <Button variant="secondary" onClick={resetTimer} className="text-sm px-3 py-1">Reset</Button>
+                    <Button variant="secondary" onClick={openAudience} className="text-sm px-3 py-1">
+                        {audienceConnected ? 'Audience connected' : 'Open audience window'}
+                    </Button>
+                    <Button onClick={onClose} className="text-sm px-3 py-1">Exit</Button>
+                </div>
+            </header>
+
+            <div className="flex-1 min-h-0 grid grid-cols-3 gap-4 p-4">
+                <section className="col-span-2 flex flex-col min-h-0">
+                    <div className="flex justify-between items-center text-sm mb-2">
+                        <span className="font-semibold truncate">{index + 1}. {titleFromHtml(slide.html, `Slide ${index + 1}`)}</span>
+                        <span className="text-gray-400 shrink-0 ml-4">
+                            {slideSeconds(slide.notes) > 0 && `Target ${formatDuration(slideSeconds(slide.notes))} · `}{index + 1} / {slides.length}
+                        </span>
+                    </div>
+                    <ScaledSlideFrame
+                        key={index}
+                        html={withPresenterBridge(slide.html)}
+                        title={`Current slide ${index + 1}`}
+                        onFrameLoad={frame => handleFrameLoad(index, frame)}
+                        className={`flex-1 min-h-0 rounded bg-black ${blank ? 'ring-4 ring-amber-500' : ''}`}
+                    />
+                    {blank && <p className="mt-2 text-sm text-amber-400">The audience screen is blanked. Press B to show the slide again.</p>}
+                </section>
+
+                <aside className="flex flex-col min-h-0 gap-4">
+                    <div>
+                        <p className="text-sm text-gray-400 mb-2 truncate">
+                            Next: {next ? titleFromHtml(next.html, `Slide ${index + 2}`) : 'end of presentation'}
+                        </p>
+                        {next ? (
+                            <ScaledSlideFrame key={`next-${index}`} html={next.html} title={`Next slide ${index + 2}`} interactive={false} className="aspect-video rounded bg-black" />
+                        ) : (
+                            <div className="aspect-video rounded bg-black flex items-center justify-center text-gray-500 text-sm">No more slides</div>
+                        )}
+                    </div>
+                    <label className="flex-1 flex flex-col min-h-0">
+                        <span className="text-sm text-gray-400 mb-2">Speaker notes (one point per line)</span>
+                        <textarea
+                            value={(slide.notes?.points ?? []).join('\n')}
+                            onChange={e => onUpdateNotes(index, { ...(slide.notes ?? emptyNotes()), points: e.target.value.split('\n') })}
+                            placeholder="Notes for this slide. Only you see them; they're saved with the slide."
+                            className="flex-1 min-h-[120px] w-full bg-gray-800 border border-gray-700 rounded-md p-3 text-base leading-relaxed text-gray-100 resize-none focus:ring-[#219ebc] focus:border-[#219ebc]"
+                        />
+                    </label>
+                    {slide.notes?.narration.trim() && (
+                        <div className="max-h-[30%] overflow-y-auto rounded-md bg-gray-800 border border-gray-700 p-3">
+                            <p className="text-xs uppercase tracking-wider text-gray-400 mb-1">Narration script</p>
+                            <p className="text-sm leading-relaxed whitespace-pre-line">{slide.notes.narration}</p>
+                        </div>
+                    )}
+                </aside>
+            </div>
+
+            <footer className="flex items-center gap-2 px-4 py-2 bg-gray-800 border-t border-gray-700 text-xs text-gray-400">
+                <Button variant="secondary" onClick={() => goTo(index - 1)} disabled={index === 0} className="text-sm px-3 py-1">&larr; Previous</Button>
+                <Button onClick={() => goTo(index + 1)} disabled={!next} className="text-sm px-3 py-1">Next &rarr;</Button>
+                <Button variant="secondary" onClick={toggleBlank} className="text-sm px-3 py-1">{blank ? 'Show slide' : 'Blank screen'}</Button>
+                <span className="ml-auto">
+                    ←/→ Space PageUp/PageDown navigate · Home/End · B blank · P pause timer · T reset timer · Esc exit
+                </span>
+            </footer>
+        </div>
+    );
+};
+
+export default PresenterMode;
@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from 'react';
+import type { BankQuestion, GeneratedSlide, UnreadSlide } from '../types';
+import Button from './Button';
+import { extractQuestionBank } from '../exporters/questionBank';
+import { buildQtiPackage, printAnswerKey, toGift, toMoodleXml } from '../exporters/assessment';
+import { downloadBlob, safeFileName } from '../exporters/shared';
+
+type BankExport = 'answer-key' | 'gift' | 'moodle' | 'qti';
+
+const BANK_EXPORTS: { id: BankExport; label: string; description: string }[] = [
+    { id: 'answer-key', label: 'Answer key (PDF)', description: 'Every question with its answer, printed or saved as PDF' },
+    { id: 'gift', label: 'GIFT', description: 'Moodle question import, plain text' },
+    { id: 'moodle', label: 'Moodle XML', description: 'Moodle question import, with feedback' },
+    { id: 'qti', label: 'QTI 2.1', description: 'Items and a test for QTI quiz engines' },
+];
+
+const KIND_LABELS: Record<BankQuestion['kind'], string> = {
+    choice: 'Multiple choice',
+    'true-false': 'True/False',
+    matching: 'Matching',
+};
+
+interface QuestionBankProps {
+    title: string;
+    slides: GeneratedSlide[];
+    onExtractWithAi: (unread: UnreadSlide[]) => Promise<BankQuestion[]>;
+    onClose: () => void;
+    onLog: (message: string) => void;
+}
+
+const QuestionAnswers: React.FC<{ question: BankQuestion }> = ({ question }) => {
+    switch (question.kind) {
+        case 'true-false':
+            return <p className="text-sm font-semibold text-green-700">Answer: {question.answer ? 'True' : 'False'}</p>;
+        case 'matching':
+            return (
+                <ul className="text-sm space-y-1">
+                    {question.pairs.map((p, i) => (
+                        <li key={i}>{p.left} <span className="text-gray-400">→</span> <span className="font-semibold text-green-700">{p.right}</span></li>
+                    ))}
+                </ul>
+            );
+        case 'choice':
+            return (
+                <ul className="text-sm space-y-1">
+                    {question.options.map((o, i) => (
+                        <li key={i} className={o.correct ? 'font-semibold text-green-700' : 'text-gray-600'}>
+                            {o.correct ? '✓ ' : '✗ '}{o.text}
+                            {!o.correct && <span className="ml-2 text-xs text-gray-400">distractor</span>}
+                        </li>
+                    ))}
+                </ul>
+            );
+    }
+};
+
+const QuestionBank: React.FC<QuestionBankProps> = ({ title, slides, onExtractWithAi, onClose, onLog }) => {
+    const extracted = useMemo(() => extractQuestionBank(slides), [slides]);
+    const [aiQuestions, setAiQuestions] = useState<BankQuestion[]>([]);
+    const [aiRead, setAiRead] = useState<number[]>([]);
+    const [excluded, setExcluded] = useState<string[]>([]);
+    const [isExtracting, setIsExtracting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const questions = useMemo(
+        () => [...extracted.questions, ...aiQuestions].sort((a, b) => a.pageNumber - b.pageNumber),
+        [extracted.questions, aiQuestions],
+    );
+    const unread = extracted.unread.filter(u => !aiRead.includes(u.pageNumber));
+    const included = questions.filter(q => !excluded.includes(q.id));
+
+    const toggle = (id: string) => setExcluded(ex => (ex.includes(id) ? ex.filter(x => x !== id) : [...ex, id]));
+
+    const handleExtractWithAi = async () => {
+        setIsExtracting(true);
+        setError(null);
+        try {
+            const found = await onExtractWithAi(unread);
+            setAiQuestions(prev => [...prev, ...found]);
+            setAiRead(prev => [...prev, ...unread.map(u => u.pageNumber)]);
+            onLog(`[QuestionBank] AI read ${found.length} question(s) from ${unread.length} slide(s).`);
+        } catch (err: any) {
+            setError(err.message);
+            onLog(`[QuestionBank] AI extraction failed: ${err.message}`);
+        } finally {
+            setIsExtracting(false);
+        }
+    };
+
+    const handleExport = async (format: BankExport) => {
+        const baseName = `${safeFileName(title)}_questions`;
+        setError(null);
+        try {
+            switch (format) {
+                case 'answer-key':
+                    await printAnswerKey(title, included, onLog);
+                    return;
+                case 'gift':
+                    downloadBlob(new Blob([toGift(title, included)], { type: 'text/plain' }), `${baseName}.gift.txt`);
+                    break;
+                case 'moodle':
+                    downloadBlob(new Blob([toMoodleXml(title, included)], { type: 'application/xml' }), `${baseName}_moodle.xml`);
+                    break;
+                case 'qti':
+                    downloadBlob(await buildQtiPackage(title, included, crypto.randomUUID()), `${baseName}_qti21.zip`);
+                    break;
+            }
+            onLog(`[QuestionBank] Exported ${included.length} question(s) as ${format}.`);
+        } catch (err: any) {
+            setError(err.message);
+            onLog(`[QuestionBank] Export failed: ${err.message}`);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 p-4">
+            <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+                <div className="flex items-start justify-between p-6 pb-4 border-b border-gray-200">
+                    <div>
+                        <h3 className="text-xl font-bold text-gray-900">Question bank</h3>
+                        <p className="text-sm text-gray-500 mt-1">
+                            {questions.length} question{questions.length === 1 ? '' : 's'} from {new Set(questions.map(q => q.pageNumber)).size} slide(s) · {included.length} included in exports
+                        </p>
+                    </div>
+                    <Button onClick={onClose} variant="secondary" className="text-sm px-3 py-1">Close</Button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                    {error && <p className="rounded-md border border-red-300 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</p>}
+                    {unread.length > 0 && (
+                        <div className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                            <p className="font-semibold">Some slides look like they hold questions that could not be read:</p>
+                            <ul className="list-disc pl-5 my-1">
+                                {unread.map(u => <li key={u.pageNumber}>Slide {u.pageNumber}: {u.reason}</li>)}
+                            </ul>
+                            <Button onClick={handleExtractWithAi} disabled={isExtracting} variant="secondary" className="text-sm px-3 py-1 mt-1">
+                                {isExtracting ? 'Reading with AI...' : 'Read them with AI'}
+                            </Button>
+                        </div>
+                    )}
+                    {questions.length === 0 && (
+                        <p className="text-sm text-gray-500 text-center py-8">No quiz, true/false or matching questions were found in this deck.</p>
+                    )}
+                    {questions.map((q, i) => {
+                        const heading = i === 0 || questions[i - 1].pageNumber !== q.pageNumber ? (
+                            <h4 className="text-sm font-semibold text-[#219ebc] pt-2">Slide {q.pageNumber}: {q.slideTitle}</h4>
+                        ) : null;
+                        const isIncluded = !excluded.includes(q.id);
+                        return (
+                            <React.Fragment key={q.id}>
+                                {heading}
+                                <div className={`border rounded-lg p-3 ${isIncluded ? 'border-gray-200' : 'border-dashed border-gray-300 opacity-60'}`}>
+                                    <div className="flex items-start gap-3">
+                                        <input
+                                            type="checkbox"
+                                            checked={isIncluded}
+                                            onChange={() => toggle(q.id)}
+                                            aria-label="Include in exports"
+                                            className="mt-1 w-4 h-4 text-[#219ebc] border-gray-300 rounded focus:ring-[#219ebc]"
+                                        />
+                                        <div className="flex-1 space-y-2">
+                                            <div className="flex flex-wrap items-center gap-2 text-xs">
+                                                <span className="px-2 py-0.5 rounded-full bg-[#e3f6fa] text-[#023047]">{KIND_LABELS[q.kind]}</span>
+                                                {q.source === 'ai' && (
+                                                    <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800" title="Read by the AI; check it against the slide">AI-read</span>
+                                                )}
+                                            </div>
+                                            <p className="text-sm font-medium text-gray-900">{q.prompt}</p>
+                                            <QuestionAnswers question={q} />
+                                            {q.explanation && <p className="text-xs italic text-gray-500">{q.explanation}</p>}
+                                        </div>
+                                    </div>
+                                </div>
+                            </React.Fragment>
+                        );
+                    })}
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 p-6 pt-4 border-t border-gray-200">
+                    <span className="text-sm text-gray-600 mr-2">Export:</span>
+                    {BANK_EXPORTS.map(f => (
+                        <Button
+                            key={f.id}
+                            onClick={() => handleExport(f.id)}
+                            disabled={included.length === 0}
+                            variant={f.id === 'answer-key' ? 'primary' : 'secondary'}
+                            title={f.description}
+                            className="text-sm px-3 py-1"
+                        >
+                            {f.label}
+                        </Button>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default QuestionBank;
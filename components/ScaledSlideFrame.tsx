@@ -0,0 +1,62 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+// Slides are laid out at 1280x720 and scaled to fit, so the speaker view and the audience window
+// show the same layout whatever their sizes. No allow-same-origin: slide scripts must not reach the
+// app's storage (which holds the proxy session) or DOM, so the app talks to the frame by postMessage.
+export const SLIDE_FRAME_W = 1280;
+export const SLIDE_FRAME_H = 720;
+
+interface ScaledSlideFrameProps {
+    html: string;
+    title: string;
+    onFrameLoad?: (frame: Window) => void;
+    frameRef?: React.RefObject<HTMLIFrameElement | null>;
+    interactive?: boolean;
+    className?: string;
+}
+
+const ScaledSlideFrame: React.FC<ScaledSlideFrameProps> = ({ html, title, onFrameLoad, frameRef, interactive = true, className = '' }) => {
+    const boxRef = useRef<HTMLDivElement>(null);
+    const [box, setBox] = useState({ width: 0, height: 0 });
+
+    useEffect(() => {
+        const el = boxRef.current;
+        if (!el) return;
+        const observer = new ResizeObserver(([entry]) => {
+            setBox({ width: entry.contentRect.width, height: entry.contentRect.height });
+        });
+        observer.observe(el);
+        return () => observer.disconnect();
+    }, []);
+
+    const scale = Math.min(box.width / SLIDE_FRAME_W, box.height / SLIDE_FRAME_H) || 0;
+
+    return (
+        <div ref={boxRef} className={`relative overflow-hidden ${className}`}>
+            <iframe
+                ref={frameRef}
+                title={title}
+                srcDoc={html}
+                sandbox="allow-scripts allow-forms"
+                referrerPolicy="no-referrer"
+                tabIndex={interactive ? 0 : -1}
+                className="absolute border-none bg-white"
+                style={{
+                    width: SLIDE_FRAME_W,
+                    height: SLIDE_FRAME_H,
+                    left: (box.width - SLIDE_FRAME_W * scale) / 2,
+                    top: (box.height - SLIDE_FRAME_H * scale) / 2,
+                    transform: `scale(${scale})`,
+                    transformOrigin: '0 0',
+                    pointerEvents: interactive ? 'auto' : 'none',
+                }}
+                onLoad={e => {
+                    const frame = e.currentTarget.contentWindow;
+                    if (frame && onFrameLoad) onFrameLoad(frame);
+                }}
+            />
+        </div>
+    );
+};
+
+export default ScaledSlideFrame;
@@ -0,0 +1,65 @@
+import React from 'react';
+import type { SlideNotes } from '../types';
+import { emptyNotes, formatDuration, narrationSeconds, wordCount } from '../utils/speakerNotes';
+
+interface SlideNotesEditorProps {
+    notes?: SlideNotes;
+    onChange: (notes: SlideNotes) => void;
+    disabled?: boolean;
+}
+
+const inputClasses = 'w-full bg-white border border-gray-300 rounded-md py-2 px-3 text-sm text-gray-900 focus:ring-[#219ebc] focus:border-[#219ebc]';
+
+const SlideNotesEditor: React.FC<SlideNotesEditorProps> = ({ notes, onChange, disabled }) => {
+    const current = notes ?? emptyNotes();
+    const update = (patch: Partial<SlideNotes>) => onChange({ ...current, ...patch });
+    const estimate = narrationSeconds(current.narration);
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block">
+                <span className="block text-sm font-medium text-gray-700 mb-1">Speaker notes (one point per line)</span>
+                <textarea
+                    value={current.points.join('\n')}
+                    onChange={e => update({ points: e.target.value.split('\n') })}
+                    disabled={disabled}
+                    className={`${inputClasses} min-h-[120px]`}
+                    placeholder="Talking points for the presenter"
+                />
+            </label>
+            <div>
+                <label className="block">
+                    <span className="block text-sm font-medium text-gray-700 mb-1">Narration script</span>
+                    <textarea
+                        value={current.narration}
+                        onChange={e => update({ narration: e.target.value })}
+                        disabled={disabled}
+                        className={`${inputClasses} min-h-[120px]`}
+                        placeholder="Voice-over text, written to be read aloud. Captions use it; when empty they read the slide's visible text."
+                    />
+                </label>
+                <div className="flex items-center gap-3 mt-2 text-xs text-gray-500">
+                    <label className="flex items-center gap-2">
+                        Target duration (s)
+                        <input
+                            type="number"
+                            min={0}
+                            value={current.durationSeconds || ''}
+                            onChange={e => update({ durationSeconds: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                            disabled={disabled}
+                            className="w-20 bg-white border border-gray-300 rounded-md py-1 px-2 text-sm text-gray-900 focus:ring-[#219ebc] focus:border-[#219ebc]"
+                        />
+                    </label>
+                    <span>
+                        {wordCount(current.narration)} words · about {formatDuration(estimate)} read aloud
+                        {current.durationSeconds > 0 && estimate > current.durationSeconds * 1.2 && (
+                            <span className="text-amber-600"> (longer than the target)</span>
+                        )}
+                    </span>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SlideNotesEditor;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import type { GeneratedSlide, SlideReference, SourcePassage } from '../types';
+import Button from './Button';
+import { slideTitle } from '../exporters/shared';
+import { passageLabel, supportingSpan } from '../grounding';
+
+interface SourcesDrawerProps {
+    slide: GeneratedSlide;
+    onClose: () => void;
+}
+
+const PassageText: React.FC<{ passage: SourcePassage; reference?: SlideReference }> = ({ passage, reference }) => {
+    const span = reference ? supportingSpan(passage.text, reference) : null;
+    if (!span) return <p className="text-sm text-gray-700 whitespace-pre-wrap">{passage.text}</p>;
+    return (
+        <p className="text-sm text-gray-700 whitespace-pre-wrap">
+            {passage.text.slice(0, span.start)}
+            <mark className="bg-yellow-200 text-gray-900 rounded px-0.5">{passage.text.slice(span.start, span.end)}</mark>
+            {passage.text.slice(span.end)}
+        </p>
+    );
+};
+
+const SourcesDrawer: React.FC<SourcesDrawerProps> = ({ slide, onClose }) => {
+    const sources = slide.sources ?? [];
+    const references = slide.references ?? [];
+    const [selected, setSelected] = useState(0);
+    const reference = references[selected];
+    const passage = reference && sources.find(p => p.id === reference.id);
+    const citedIds = new Set(references.map(r => r.id));
+
+    return (
+        <div className="fixed inset-0 z-50 flex justify-end bg-gray-900/30" onClick={onClose}>
+            <aside className="bg-white w-full max-w-xl h-full shadow-2xl flex flex-col" onClick={e => e.stopPropagation()} aria-label="Sources">
+                <div className="flex items-start justify-between p-6 pb-4 border-b border-gray-200">
+                    <div>
+                        <h3 className="text-xl font-bold text-gray-900">Sources</h3>
+                        <p className="text-sm text-gray-500 mt-1">Slide {slide.pageNumber}: {slideTitle(slide)}</p>
+                    </div>
+                    <Button onClick={onClose} variant="secondary" className="text-sm px-3 py-1">Close</Button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-6">
+                    <section>
+                        <h4 className="text-sm font-semibold text-gray-700 mb-2">Cited on this slide</h4>
+                        {references.length === 0 ? (
+                            <p className="text-sm text-gray-500">The AI did not cite any passages for this slide. The passages it was given are listed below.</p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {references.map((ref, i) => {
+                                    const source = sources.find(p => p.id === ref.id);
+                                    return (
+                                        <li key={`${ref.id}-${i}`}>
+                                            <button
+                                                onClick={() => setSelected(i)}
+                                                className={`w-full text-left border-2 rounded-lg p-3 transition-colors ${i === selected ? 'border-[#219ebc] bg-[#e3f6fa]' : 'border-gray-200 hover:border-gray-300'}`}
+                                            >
+                                                <span className="block text-sm text-gray-900">{ref.claim || ref.quote || 'No claim given'}</span>
+                                                <span className={`block text-xs mt-1 ${source ? 'text-gray-500' : 'text-amber-700'}`}>
+                                                    [{ref.id}] {source ? passageLabel(source) : 'not one of the retrieved passages'}
+                                                </span>
+                                            </button>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </section>
+
+                    {reference && (
+                        <section>
+                            <h4 className="text-sm font-semibold text-gray-700 mb-2">Supporting passage</h4>
+                            {passage ? (
+                                <div className="border border-gray-200 rounded-lg p-3 bg-gray-50">
+                                    <p className="text-xs font-semibold text-[#219ebc] mb-2">[{passage.id}] {passageLabel(passage)}</p>
+                                    <PassageText passage={passage} reference={reference} />
+                                </div>
+                            ) : (
+                                <p className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                                    "{reference.id}" was not retrieved for this slide, so this claim can't be traced to the document.
+                                    {reference.quote && <> The AI quoted: "{reference.quote}"</>}
+                                </p>
+                            )}
+                        </section>
+                    )}
+
+                    <section>
+                        <h4 className="text-sm font-semibold text-gray-700 mb-2">Retrieved for this slide ({sources.length})</h4>
+                        <div className="space-y-2">
+                            {sources.map(p => (
+                                <details key={p.id} className="border border-gray-200 rounded-lg p-3" open={references.length === 0}>
+                                    <summary className="text-sm cursor-pointer">
+                                        <span className="font-semibold text-gray-900">[{p.id}]</span> <span className="text-gray-600">{passageLabel(p)}</span>
+                                        {citedIds.has(p.id) && <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">cited</span>}
+                                    </summary>
+                                    <div className="mt-2">
+                                        <PassageText passage={p} />
+                                    </div>
+                                </details>
+                            ))}
+                        </div>
+                    </section>
+                </div>
+            </aside>
+        </div>
+    );
+};
+
+export default SourcesDrawer;
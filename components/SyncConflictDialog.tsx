@@ -0,0 +1,58 @@
+import React from 'react';
+import type { SyncConflict } from '../types';
+import { projectDisplayName } from '../projectStore';
+import Button from './Button';
+
+export type ConflictResolution = 'merge' | 'overwrite' | 'theirs';
+
+interface SyncConflictDialogProps {
+    conflict: SyncConflict;
+    isResolving: boolean;
+    onResolve: (resolution: ConflictResolution) => void;
+}
+
+const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({ conflict, isResolving, onResolve }) => {
+    const { local, remote } = conflict;
+    const localSlides = local.generatedSlides.length;
+    const remoteSlides = remote.project.generatedSlides.length;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 p-4">
+            <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-6">
+                <h3 className="text-xl font-bold text-gray-900 mb-2">This project was changed elsewhere</h3>
+                <p className="text-sm text-gray-600 mb-4">
+                    "{projectDisplayName(local)}" was saved from another browser while you were editing it here.
+                    Choose how to combine the two versions.
+                </p>
+                <div className="grid grid-cols-2 gap-4 mb-6 text-sm">
+                    <div className="border border-gray-200 rounded-lg p-3 bg-gray-50">
+                        <h4 className="font-semibold text-gray-800 mb-1">This browser</h4>
+                        <p className="text-gray-600">Step {local.step} • {localSlides} slide{localSlides === 1 ? '' : 's'}</p>
+                        <p className="text-xs text-gray-500 mt-1">Edited {new Date(local.updatedAt).toLocaleString()}</p>
+                    </div>
+                    <div className="border border-gray-200 rounded-lg p-3 bg-gray-50">
+                        <h4 className="font-semibold text-gray-800 mb-1">Server (revision {remote.revision})</h4>
+                        <p className="text-gray-600">Step {remote.project.step} • {remoteSlides} slide{remoteSlides === 1 ? '' : 's'}</p>
+                        <p className="text-xs text-gray-500 mt-1">Saved {new Date(remote.updatedAt).toLocaleString()}</p>
+                    </div>
+                </div>
+                <div className="space-y-2">
+                    <Button onClick={() => onResolve('merge')} disabled={isResolving} className="w-full">
+                        {isResolving ? 'Resolving...' : 'Merge changes'}
+                    </Button>
+                    <p className="text-xs text-gray-500 text-center">Keeps edits from both sides; where both changed the same thing, this browser wins.</p>
+                    <div className="flex gap-2 pt-2">
+                        <Button onClick={() => onResolve('overwrite')} disabled={isResolving} variant="secondary" className="flex-1 text-sm">
+                            Overwrite server copy
+                        </Button>
+                        <Button onClick={() => onResolve('theirs')} disabled={isResolving} variant="secondary" className="flex-1 text-sm">
+                            Use server copy
+                        </Button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SyncConflictDialog;
@@ -1,4 +1,17 @@
-import { GeneralContentType, MicrolearningContentType, InteractiveElement } from './types';
+import { CourseType, GeneralContentType, MicrolearningContentType, InteractiveElement } from './types';
+import type { ExportFormat, HandoutLayout, SlideTheme } from './types';
+
+export const WIZARD_STEPS = [
+  "Course Type",
+  "Structure",
+  "Configuration",
+  "Generate",
+  "Slides",
+  "Export"
+];
+
+// Primary accent of the style guide sent to the model; exports reuse it for their own chrome.
+export const ACCENT_COLOR = '#219ebc';
 
 export const MIN_SLIDES_GENERAL = 1;
 export const MAX_SLIDES_GENERAL = 10;
@@ -23,4 +36,46 @@ export const ALL_INTERACTIVE_ELEMENTS: InteractiveElement[] = [
   InteractiveElement.INFOGRAPHICS,
   InteractiveElement.QUIZ,
   InteractiveElement.MATCHING,
-];
\ No newline at end of file
+  InteractiveElement.ORDERING,
+  InteractiveElement.FILL_IN_THE_BLANK,
+  InteractiveElement.HOTSPOT,
+  InteractiveElement.TRUE_FALSE,
+  InteractiveElement.SCENARIO,
+];
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; description: string }[] = [
+  { id: 'zip', label: 'HTML files (ZIP)', description: 'One standalone HTML file per slide, with captions, a transcript and the speaker notes.' },
+  { id: 'presentation', label: 'Presentation (single HTML)', description: 'One self-contained file with keyboard and swipe navigation, overview grid, fullscreen and presenter notes.' },
+  { id: 'scorm12', label: 'SCORM 1.2', description: 'LMS package with a player; tracks completion, quiz score and bookmark per slide.' },
+  { id: 'scorm2004', label: 'SCORM 2004 (4th Ed.)', description: 'Like SCORM 1.2, plus sequencing so Previous/Next move through the LMS.' },
+  { id: 'xapi', label: 'xAPI / cmi5', description: 'cmi5 course package; sends slide views, quiz answers, completion and pass/fail to the LRS from the launch URL.' },
+  { id: 'pptx', label: 'PowerPoint (.pptx)', description: 'Editable slides with title and bullet placeholders and embedded images; interactive parts are explained in the speaker notes.' },
+  { id: 'pdf', label: 'PDF handout / print', description: 'Printable handout with a cover page and contents; save it as PDF from the print dialog.' },
+  { id: 'imscc', label: 'Common Cartridge 1.3', description: 'Course module for Canvas, Moodle or Blackboard: one page per slide, plus a QTI quiz for each slide with quiz questions.' },
+  { id: 'captions', label: 'Captions and transcript', description: 'WebVTT and SRT captions for a narrated video of the deck (whole course and per slide), a chapter track and a plain-text transcript.' },
+];
+
+export const HANDOUT_LAYOUTS: { id: HandoutLayout; label: string }[] = [
+  { id: 'full', label: 'One slide per page' },
+  { id: 'three-up', label: 'Three per page with note lines' },
+  { id: 'notes', label: 'Notes only (text outline)' },
+];
+
+// Presenter mode's default talk time for slides without a target duration.
+export const PRESENTER_MINUTES_PER_SLIDE = 2;
+
+// Narration pacing: the prompt asks for this much speaking time per slide, and durations are
+// estimated from word counts at this rate.
+export const TARGET_SLIDE_SECONDS: Record<CourseType, number> = {
+  [CourseType.GENERAL]: 90,
+  [CourseType.MICROLEARNING]: 45,
+};
+export const NARRATION_WORDS_PER_MINUTE = 150;
+
+// Themes for structured slides. Changing the theme re-renders those slides from their models.
+export const SLIDE_THEMES: SlideTheme[] = [
+  { id: 'studio', label: 'Studio', accent: ACCENT_COLOR, background: '#f8fafc', surface: '#ffffff', text: '#1f2937', muted: '#6b7280', font: "'Segoe UI', Arial, sans-serif", headingFont: "'Segoe UI', Arial, sans-serif" },
+  { id: 'midnight', label: 'Midnight', accent: '#8ecae6', background: '#0f172a', surface: '#1e293b', text: '#e2e8f0', muted: '#94a3b8', font: "'Segoe UI', Arial, sans-serif", headingFont: "'Segoe UI', Arial, sans-serif" },
+  { id: 'sunrise', label: 'Sunrise', accent: '#fb8500', background: '#fffaf3', surface: '#ffffff', text: '#3d2c1e', muted: '#8a7560', font: "Georgia, 'Times New Roman', serif", headingFont: "'Trebuchet MS', Arial, sans-serif" },
+  { id: 'forest', label: 'Forest', accent: '#2a9d8f', background: '#f4f9f7', surface: '#ffffff', text: '#1d3331', muted: '#5f7a76', font: "Verdana, Arial, sans-serif", headingFont: "Verdana, Arial, sans-serif" },
+];
+export const DEFAULT_THEME_ID = 'studio';
@@ -0,0 +1,197 @@
+// documentSources.ts
+// What document mode can index: uploaded files, web pages by address and pasted text. Every
+// source becomes a File first (a fetched page, or the pasted text as .txt), and its text is read
+// in the browser (utils/documentText.ts). The local index takes that text as it is; the n8n
+// workflow reads only PDF, Word and plain text itself, so PowerPoint, HTML and Markdown reach it
+// as a .txt file of the text extracted here.
+import type { DocumentSource, DocumentSourceType } from './types';
+import { extractDocumentText, extensionOf, type DocumentSection } from './utils/documentText';
+import { PROXY_BASE_URL, sessionToken } from './auth';
+import { debugFetch } from './utils/debug';
+
+export type SourceInput =
+  | { kind: 'file'; file: File }
+  | { kind: 'url'; url: string }
+  | { kind: 'text'; title: string; text: string };
+
+export interface ExtractedSource {
+  source: DocumentSource;
+  sections: DocumentSection[];
+  sizeBytes: number;
+}
+
+// File types the n8n upsert workflow parses itself; uploaded as they are.
+export const N8N_FILE_EXTENSIONS = ['pdf', 'doc', 'docx', 'txt'];
+
+// Proxy route that fetches pages the browser can't read cross-origin, see server/proxy.ts.
+const PAGE_FETCH_URL = `${PROXY_BASE_URL}/fetch-page`;
+
+export const SOURCE_TYPE_LABELS: Record<DocumentSourceType, string> = {
+  pdf: 'PDF',
+  word: 'Word',
+  powerpoint: 'PowerPoint',
+  html: 'HTML',
+  markdown: 'Markdown',
+  text: 'Text',
+  url: 'Web page',
+  pasted: 'Pasted text',
+};
+
+const TYPE_BY_EXTENSION: Record<string, DocumentSourceType> = {
+  pdf: 'pdf',
+  doc: 'word',
+  docx: 'word',
+  ppt: 'powerpoint',
+  pptx: 'powerpoint',
+  html: 'html',
+  htm: 'html',
+  md: 'markdown',
+  markdown: 'markdown',
+};
+
+// Extensions for a fetched page, by the Content-Type it was served with.
+const EXTENSION_BY_CONTENT_TYPE: Record<string, string> = {
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'text/markdown': 'md',
+  'text/plain': 'txt',
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+};
+
+const log = (onLog?: (s: string) => void, msg = "") => {
+  if (!onLog) return;
+  onLog(`[${new Date().toISOString()}] [Sources] ${msg}`);
+};
+
+export const sourceTypeOf = (fileName: string): DocumentSourceType => TYPE_BY_EXTENSION[extensionOf(fileName)] ?? 'text';
+
+export function describeSource(input: SourceInput): DocumentSource {
+  if (input.kind === 'file') return { name: input.file.name, type: sourceTypeOf(input.file.name) };
+  if (input.kind === 'url') return { name: input.url, type: 'url' };
+  return { name: input.title.trim() || 'Pasted text', type: 'pasted' };
+}
+
+// "guide.pdf (PDF), https://example.com/faq (Web page)"; knowledge bases from before source
+// types only have file names.
+export function sourceSummary(kb: { fileNames: string[]; sources?: DocumentSource[] }): string {
+  if (!kb.sources) return kb.fileNames.join(', ');
+  return kb.sources.map(s => `${s.name} (${SOURCE_TYPE_LABELS[s.type]})`).join(', ');
+}
+
+// A course topic for a source: the file name without its extension, the page's last path
+// segment (or its host), or the title of pasted text.
+export function sourceTopic(source: DocumentSource): string {
+  if (source.type === 'pasted') return source.name;
+  if (source.type === 'url') {
+    try {
+      const url = new URL(source.name);
+      const segment = url.pathname.split('/').filter(Boolean).pop();
+      return segment ? decodeURIComponent(segment).replace(/\.[a-z0-9]+$/i, '').replace(/[-_]+/g, ' ') : url.hostname;
+    } catch {
+      return source.name;
+    }
+  }
+  return source.name.split('.').slice(0, -1).join('.').replace(/_/g, ' ') || source.name;
+}
+
+// Only http(s) addresses; anything else is refused before a request is made.
+export function parsePageUrl(text: string): URL | null {
+  try {
+    const url = new URL(text.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+function pageFileName(url: string, contentType: string): string {
+  const { hostname, pathname } = new URL(url);
+  const base = `${hostname}${pathname}`.replace(/\.[a-z0-9]+$/i, '').replace(/[^\w.-]+/g, '_').replace(/_+$/, '');
+  const ext = EXTENSION_BY_CONTENT_TYPE[contentType] ?? (TYPE_BY_EXTENSION[extensionOf(pathname)] ? extensionOf(pathname) : 'html');
+  return `${base}.${ext}`;
+}
+
+// Straight from the browser when the site allows cross-origin reads; otherwise through the proxy,
+// which hands the page back as it was served. Either way the text is extracted here.
+async function fetchPage(url: string, onLog?: (message: string) => void): Promise<File> {
+  let response: Response;
+  try {
+    response = await debugFetch(url, { method: 'GET' }, onLog, { label: 'fetch-page', bodyPreview: false });
+  } catch {
+    log(onLog, `${url} can't be read from the browser directly; fetching it through the proxy.`);
+    const token = sessionToken();
+    if (!token) {
+      throw new Error(`${url} doesn't allow reading from the browser and there is no proxy session. Sign in again, or save the page and upload the file.`);
+    }
+    response = await debugFetch(PAGE_FETCH_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+      body: JSON.stringify({ url }),
+    }, onLog, { label: 'proxy-fetch-page', bodyPreview: false });
+  }
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Could not fetch ${url}: ${response.status} - ${errorText.slice(0, 200)}`);
+  }
+  const contentType = (response.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+  const file = new File([await response.blob()], pageFileName(url, contentType), { type: contentType });
+  log(onLog, `Fetched ${url} as ${file.name} (${file.size} bytes)`);
+  return file;
+}
+
+async function sourceFile(input: SourceInput, onLog?: (message: string) => void): Promise<File> {
+  if (input.kind === 'file') return input.file;
+  if (input.kind === 'url') return fetchPage(input.url, onLog);
+  return new File([input.text], `${describeSource(input).name.replace(/[^\w.-]+/g, '_')}.txt`, { type: 'text/plain' });
+}
+
+async function extractFile(source: DocumentSource, file: File, onLog?: (message: string) => void): Promise<ExtractedSource> {
+  const sections = await extractDocumentText(file);
+  const length = sections.reduce((n, s) => n + s.text.trim().length, 0);
+  log(onLog, `${source.name}: ${sections.length} section(s), ${length} characters of text`);
+  if (!length) throw new Error(`No text could be read from ${source.name}. Scanned PDFs need OCR first.`);
+  return { source, sections, sizeBytes: file.size };
+}
+
+// The text of every source, for the local index. onProgress gets the share of sources done.
+export async function extractSources(
+  inputs: SourceInput[],
+  onLog?: (message: string) => void,
+  onProgress?: (done: number) => void
+): Promise<ExtractedSource[]> {
+  const extracted: ExtractedSource[] = [];
+  for (const [i, input] of inputs.entries()) {
+    onProgress?.(i / inputs.length);
+    extracted.push(await extractFile(describeSource(input), await sourceFile(input, onLog), onLog));
+  }
+  return extracted;
+}
+
+// Text with each section's page or slide in front of it, unless the section opens with its heading.
+function plainText(sections: DocumentSection[]): string {
+  return sections
+    .map(s => (s.location && !s.text.startsWith(s.location) ? `${s.location}\n${s.text}` : s.text).trim())
+    .join('\n\n');
+}
+
+// The files to send to the n8n upsert webhook, one per source.
+export async function filesForUpload(
+  inputs: SourceInput[],
+  onLog?: (message: string) => void,
+  onProgress?: (done: number) => void
+): Promise<File[]> {
+  const files: File[] = [];
+  for (const [i, input] of inputs.entries()) {
+    onProgress?.(i / inputs.length);
+    const file = await sourceFile(input, onLog);
+    if (N8N_FILE_EXTENSIONS.includes(extensionOf(file.name))) {
+      files.push(file);
+      continue;
+    }
+    const { sections } = await extractFile(describeSource(input), file, onLog);
+    files.push(new File([plainText(sections)], `${file.name}.txt`, { type: 'text/plain' }));
+  }
+  return files;
+}
@@ -0,0 +1,97 @@
+// exporters/assessment.test.ts
+// The question bank as GIFT, Moodle XML and a QTI 2.1 package.
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import type { BankQuestion } from '../types';
+import { buildQtiPackage, toGift, toMoodleXml } from './assessment';
+
+const base = { pageNumber: 2, slideTitle: 'Safety', source: 'interactive' as const };
+
+const questions: BankQuestion[] = [
+  {
+    ...base,
+    id: 's2_q1',
+    kind: 'choice',
+    prompt: 'Which gas is inert: N2 or {O2}?',
+    explanation: 'Nitrogen barely reacts.',
+    options: [{ text: 'Nitrogen', correct: true }, { text: 'Oxygen', correct: false }],
+  },
+  {
+    ...base,
+    id: 's2_q2',
+    kind: 'choice',
+    prompt: 'Pick the noble gases',
+    options: [{ text: 'Argon', correct: true }, { text: 'Neon', correct: true }, { text: 'Chlorine', correct: false }],
+  },
+  { ...base, pageNumber: 3, slideTitle: 'Quiz', id: 's3_q1', kind: 'true-false', prompt: 'Water boils at 100 °C at sea level', answer: true },
+  { ...base, pageNumber: 3, slideTitle: 'Quiz', id: 's3_q2', kind: 'matching', prompt: 'Match the symbols', pairs: [{ left: 'Fe', right: 'Iron' }, { left: 'Au', right: 'Gold' }] },
+];
+
+describe('toGift', () => {
+  const gift = toGift('Chemistry 101', questions);
+
+  it('opens with the course category and heads each slide once', () => {
+    expect(gift).toMatch(/^\/\/ Chemistry 101: question bank\n\$CATEGORY: \$course\$\/top\/Chemistry 101\n/);
+    expect(gift.match(/\/\/ Slide 2: Safety/g)).toHaveLength(1);
+    expect(gift.match(/\/\/ Slide 3: Quiz/g)).toHaveLength(1);
+  });
+
+  it('escapes GIFT control characters', () => {
+    expect(gift).toContain('::Q1::Which gas is inert\\: N2 or \\{O2\\}? {\n=Nitrogen\n~Oxygen\n####Nitrogen barely reacts.\n}');
+  });
+
+  it('splits the marks of multiple-response questions and writes true/false and matching answers', () => {
+    expect(gift).toContain('~%50%Argon\n~%50%Neon\n~%-50%Chlorine');
+    expect(gift).toContain('::Q3::Water boils at 100 °C at sea level {T}');
+    expect(gift).toContain('{\n=Fe -> Iron\n=Au -> Gold\n}');
+  });
+});
+
+describe('toMoodleXml', () => {
+  const xml = toMoodleXml('Chemistry 101', questions);
+
+  it('writes one question element per question, after the category', () => {
+    expect(xml).toContain('<category><text>$course$/top/Chemistry 101</text></category>');
+    expect(xml.match(/<question type="multichoice">/g)).toHaveLength(2);
+    expect(xml).toContain('<question type="truefalse">');
+    expect(xml).toContain('<question type="matching">');
+  });
+
+  it('grades single and multiple-response options', () => {
+    expect(xml).toContain('<single>true</single>');
+    expect(xml).toContain('<answer fraction="100" format="html"><text>Nitrogen</text>');
+    expect(xml).toContain('<single>false</single>');
+    expect(xml).toContain('<answer fraction="-50" format="html"><text>Chlorine</text>');
+    expect(xml).toContain('<answer fraction="100" format="html"><text>true</text>');
+  });
+
+  it('escapes question HTML for the XML around it', () => {
+    const [q] = questions;
+    const xmlWithTags = toMoodleXml('T', [{ ...q, prompt: 'Is <b> bold?' }]);
+    expect(xmlWithTags).toContain('<questiontext format="html"><text>Is &amp;lt;b&amp;gt; bold?</text></questiontext>');
+  });
+});
+
+describe('buildQtiPackage', () => {
+  it('packages an item per question, a test and a manifest', async () => {
+    const blob = await buildQtiPackage('Chemistry 101', questions, 'run-1');
+    const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+    expect(Object.keys(zip.files).sort()).toEqual([
+      'assessment.xml', 'imsmanifest.xml', 'items/', 'items/s2_q1.xml', 'items/s2_q2.xml', 'items/s3_q1.xml', 'items/s3_q2.xml',
+    ]);
+    const single = await zip.file('items/s2_q1.xml')!.async('string');
+    expect(single).toContain('cardinality="single" baseType="identifier"');
+    expect(single).toContain('<correctResponse><value>C1</value></correctResponse>');
+    expect(single).toContain('<modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">Nitrogen barely reacts.</modalFeedback>');
+    const multiple = await zip.file('items/s2_q2.xml')!.async('string');
+    expect(multiple).toContain('<correctResponse><value>C1</value><value>C2</value></correctResponse>');
+    const matching = await zip.file('items/s3_q2.xml')!.async('string');
+    expect(matching).toContain('cardinality="multiple" baseType="directedPair"');
+    expect(matching).toContain('<value>L1 R1</value><value>L2 R2</value>');
+    const test = await zip.file('assessment.xml')!.async('string');
+    expect(test).toContain('identifier="TEST_run-1"');
+    expect(test.match(/<assessmentItemRef /g)).toHaveLength(4);
+    const manifest = await zip.file('imsmanifest.xml')!.async('string');
+    expect(manifest).toContain('<resource identifier="RES_s3_q1" type="imsqti_item_xmlv2p1" href="items/s3_q1.xml">');
+  });
+});
@@ -0,0 +1,323 @@
+// exporters/assessment.ts
+// The question bank (questionBank.ts) in LMS quiz formats: GIFT and Moodle XML for Moodle's
+// question import, a QTI 2.1 package (one item per question plus a test) for other quiz engines,
+// and an answer key printed to PDF like the handout. Multiple-response questions split the marks
+// evenly over the right options and take the same share off for each wrong one.
+import JSZip from 'jszip';
+import type { BankQuestion } from '../types';
+import { escapeXml } from './shared';
+import { ACCENT_COLOR } from '../constants';
+
+const LOAD_TIMEOUT_MS = 8000;
+
+// Moodle only accepts grades from a fixed list; 100/n is on it for every n up to 10.
+const share = (n: number) => Number((100 / n).toFixed(5));
+
+const correctOf = (q: BankQuestion & { kind: 'choice' }) => q.options.filter(o => o.correct);
+
+// Moodle reads "/" in a category path as a subcategory.
+const category = (title: string) => `$course$/top/${title.replace(/[/\n]+/g, ' ').trim()}`;
+
+// --- GIFT ---
+
+const gift = (s: string) => s.replace(/([~=#{}:\\])/g, '\\$1').replace(/\n/g, '\\n');
+
+function giftQuestion(q: BankQuestion, index: number): string {
+  const head = `::Q${index + 1}::${gift(q.prompt)}`;
+  const general = q.explanation ? `\n####${gift(q.explanation)}` : '';
+  switch (q.kind) {
+    case 'true-false':
+      return `${head} {${q.answer ? 'T' : 'F'}${general}}`;
+    case 'matching':
+      return `${head} {\n${q.pairs.map(p => `=${gift(p.left)} -> ${gift(p.right)}`).join('\n')}${general}\n}`;
+    case 'choice': {
+      const right = correctOf(q).length;
+      const answers = q.options.map(o => right === 1
+        ? `${o.correct ? '=' : '~'}${gift(o.text)}`
+        : `~%${o.correct ? share(right) : -share(right)}%${gift(o.text)}`);
+      return `${head} {\n${answers.join('\n')}${general}\n}`;
+    }
+  }
+}
+
+export function toGift(title: string, questions: BankQuestion[]): string {
+  let slide = 0;
+  const blocks = questions.map((q, i) => {
+    const heading = q.pageNumber !== slide ? `// Slide ${q.pageNumber}: ${q.slideTitle.replace(/\n/g, ' ')}\n` : '';
+    slide = q.pageNumber;
+    return `${heading}${giftQuestion(q, i)}`;
+  });
+  return [`// ${title}: question bank`, `$CATEGORY: ${category(title)}`, '', blocks.join('\n\n'), ''].join('\n');
+}
+
+// --- Moodle XML ---
+
+// Question text is HTML in Moodle, so text is escaped for HTML and then for the XML around it.
+const moodleText = (s: string) => `<text>${escapeXml(escapeXml(s))}</text>`;
+const moodleAnswer = (fraction: number, text: string, raw = false) =>
+  `    <answer fraction="${fraction}" format="html">${raw ? `<text>${text}</text>` : moodleText(text)}<feedback format="html"><text></text></feedback></answer>`;
+
+function moodleQuestion(q: BankQuestion, index: number): string {
+  const type = q.kind === 'choice' ? 'multichoice' : q.kind === 'true-false' ? 'truefalse' : 'matching';
+  const head = [
+    `  <question type="${type}">`,
+    `    <name><text>${escapeXml(`Q${index + 1} (slide ${q.pageNumber})`)}</text></name>`,
+    `    <questiontext format="html">${moodleText(q.prompt)}</questiontext>`,
+    `    <generalfeedback format="html">${moodleText(q.explanation ?? '')}</generalfeedback>`,
+    '    <defaultgrade>1</defaultgrade>',
+    '    <penalty>0.3333333</penalty>',
+    '    <hidden>0</hidden>',
+  ];
+  let body: string[];
+  switch (q.kind) {
+    case 'true-false':
+      body = [moodleAnswer(q.answer ? 100 : 0, 'true', true), moodleAnswer(q.answer ? 0 : 100, 'false', true)];
+      break;
+    case 'matching':
+      body = [
+        '    <shuffleanswers>true</shuffleanswers>',
+        ...q.pairs.map(p => `    <subquestion format="html">${moodleText(p.left)}<answer><text>${escapeXml(p.right)}</text></answer></subquestion>`),
+      ];
+      break;
+    case 'choice': {
+      const right = correctOf(q).length;
+      body = [
+        `    <single>${right === 1}</single>`,
+        '    <shuffleanswers>true</shuffleanswers>',
+        '    <answernumbering>abc</answernumbering>',
+        ...q.options.map(o => moodleAnswer(o.correct ? share(right) : right === 1 ? 0 : -share(right), o.text)),
+      ];
+      break;
+    }
+  }
+  return [...head, ...body, '  </question>'].join('\n');
+}
+
+export function toMoodleXml(title: string, questions: BankQuestion[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<quiz>
+  <question type="category">
+    <category><text>${escapeXml(category(title))}</text></category>
+  </question>
+${questions.map(moodleQuestion).join('\n')}
+</quiz>
+`;
+}
+
+// --- QTI 2.1 ---
+
+const QTI_NS = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const QTI_SCHEMA_LOCATION = `${QTI_NS} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1p2.xsd`;
+const CP_NS = 'http://www.imsglobal.org/xsd/imscp_v1p1';
+const MATCH_CORRECT = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct';
+
+// match_correct written out, so it can also always show the explanation.
+const MATCH_CORRECT_WITH_FEEDBACK = `<responseProcessing>
+    <responseCondition>
+      <responseIf>
+        <match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>
+        <setOutcomeValue identifier="SCORE"><baseValue baseType="float">1</baseValue></setOutcomeValue>
+      </responseIf>
+      <responseElse>
+        <setOutcomeValue identifier="SCORE"><baseValue baseType="float">0</baseValue></setOutcomeValue>
+      </responseElse>
+    </responseCondition>
+    <setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">EXPLANATION</baseValue></setOutcomeValue>
+  </responseProcessing>`;
+
+// Identifiers are xs:NCName values.
+const ident = (s: string) => s.replace(/[^A-Za-z0-9_.-]/g, '_').replace(/^(?=[^A-Za-z_])/, '_');
+
+function qtiBody(q: BankQuestion): { cardinality: string; baseType: string; correct: string[]; interaction: string } {
+  const prompt = `<prompt>${escapeXml(q.prompt)}</prompt>`;
+  switch (q.kind) {
+    case 'true-false':
+      return {
+        cardinality: 'single',
+        baseType: 'identifier',
+        correct: [q.answer ? 'TRUE' : 'FALSE'],
+        interaction: `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">${prompt}
+        <simpleChoice identifier="TRUE">True</simpleChoice>
+        <simpleChoice identifier="FALSE">False</simpleChoice>
+      </choiceInteraction>`,
+      };
+    case 'matching': {
+      const sources = q.pairs.map((p, i) => `<simpleAssociableChoice identifier="L${i + 1}" matchMax="1">${escapeXml(p.left)}</simpleAssociableChoice>`);
+      const targets = q.pairs.map((p, i) => `<simpleAssociableChoice identifier="R${i + 1}" matchMax="1">${escapeXml(p.right)}</simpleAssociableChoice>`);
+      return {
+        cardinality: 'multiple',
+        baseType: 'directedPair',
+        correct: q.pairs.map((_p, i) => `L${i + 1} R${i + 1}`),
+        interaction: `<matchInteraction responseIdentifier="RESPONSE" shuffle="true" maxAssociations="${q.pairs.length}">${prompt}
+        <simpleMatchSet>${sources.join('')}</simpleMatchSet>
+        <simpleMatchSet>${targets.join('')}</simpleMatchSet>
+      </matchInteraction>`,
+      };
+    }
+    case 'choice': {
+      const right = correctOf(q).length;
+      return {
+        cardinality: right === 1 ? 'single' : 'multiple',
+        baseType: 'identifier',
+        correct: q.options.flatMap((o, i) => (o.correct ? [`C${i + 1}`] : [])),
+        interaction: `<choiceInteraction responseIdentifier="RESPONSE" shuffle="true" maxChoices="${right === 1 ? 1 : 0}">${prompt}
+        ${q.options.map((o, i) => `<simpleChoice identifier="C${i + 1}">${escapeXml(o.text)}</simpleChoice>`).join('\n        ')}
+      </choiceInteraction>`,
+      };
+    }
+  }
+}
+
+function qtiItem(q: BankQuestion): string {
+  const { cardinality, baseType, correct, interaction } = qtiBody(q);
+  const feedback = q.explanation
+    ? `\n  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${escapeXml(q.explanation)}</modalFeedback>`
+    : '';
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="${QTI_NS}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA_LOCATION}"
+                identifier="${ident(q.id)}" title="${escapeXml(q.prompt.slice(0, 80))}" adaptive="false" timeDependent="false">
+  <responseDeclaration identifier="RESPONSE" cardinality="${cardinality}" baseType="${baseType}">
+    <correctResponse>${correct.map(v => `<value>${v}</value>`).join('')}</correctResponse>
+  </responseDeclaration>
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>${feedback ? `
+  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>` : ''}
+  <itemBody>
+    <div>
+      ${interaction}
+    </div>
+  </itemBody>
+  ${feedback ? MATCH_CORRECT_WITH_FEEDBACK : `<responseProcessing template="${MATCH_CORRECT}"/>`}${feedback}
+</assessmentItem>`;
+}
+
+function qtiTest(testId: string, title: string, questions: BankQuestion[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentTest xmlns="${QTI_NS}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA_LOCATION}"
+                identifier="${testId}" title="${escapeXml(title)}">
+  <testPart identifier="PART1" navigationMode="nonlinear" submissionMode="simultaneous">
+    <assessmentSection identifier="SECTION1" title="${escapeXml(title)}" visible="true">
+${questions.map(q => `      <assessmentItemRef identifier="${ident(q.id)}" href="items/${ident(q.id)}.xml"/>`).join('\n')}
+    </assessmentSection>
+  </testPart>
+</assessmentTest>`;
+}
+
+function qtiManifest(manifestId: string, testId: string, questions: BankQuestion[]): string {
+  const items = questions.map(q => {
+    const id = ident(q.id);
+    return `    <resource identifier="RES_${id}" type="imsqti_item_xmlv2p1" href="items/${id}.xml">
+      <file href="items/${id}.xml"/>
+    </resource>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${manifestId}" xmlns="${CP_NS}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+          xsi:schemaLocation="${CP_NS} http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+    <resource identifier="RES_${testId}" type="imsqti_test_xmlv2p1" href="assessment.xml">
+      <file href="assessment.xml"/>
+${questions.map(q => `      <dependency identifierref="RES_${ident(q.id)}"/>`).join('\n')}
+    </resource>
+${items.join('\n')}
+  </resources>
+</manifest>`;
+}
+
+export async function buildQtiPackage(title: string, questions: BankQuestion[], identifier: string): Promise<Blob> {
+  const zip = new JSZip();
+  const testId = ident(`TEST_${identifier}`);
+  questions.forEach(q => zip.file(`items/${ident(q.id)}.xml`, qtiItem(q)));
+  zip.file('assessment.xml', qtiTest(testId, title, questions));
+  zip.file('imsmanifest.xml', qtiManifest(ident(`QTI_${identifier}`), testId, questions));
+  return zip.generateAsync({ type: 'blob' });
+}
+
+// --- Answer key ---
+
+const html = (s: string) => escapeXml(s);
+
+function answerKeyQuestion(q: BankQuestion, index: number): string {
+  let answers: string;
+  switch (q.kind) {
+    case 'true-false':
+      answers = `<p class="answer">Answer: ${q.answer ? 'True' : 'False'}</p>`;
+      break;
+    case 'matching':
+      answers = `<table>${q.pairs.map(p => `<tr><td>${html(p.left)}</td><td class="arrow">→</td><td class="answer">${html(p.right)}</td></tr>`).join('')}</table>`;
+      break;
+    case 'choice':
+      answers = `<ol type="a">${q.options.map(o => `<li class="${o.correct ? 'answer' : 'distractor'}">${o.correct ? '✓ ' : ''}${html(o.text)}</li>`).join('')}</ol>`;
+      break;
+  }
+  return `<article>
+    <h3>${index + 1}. ${html(q.prompt)}</h3>
+    ${answers}
+    ${q.explanation ? `<p class="explanation">${html(q.explanation)}</p>` : ''}
+  </article>`;
+}
+
+function answerKeyDocument(title: string, questions: BankQuestion[]): string {
+  let slide = 0;
+  const body = questions.map((q, i) => {
+    const heading = q.pageNumber !== slide ? `<h2>Slide ${q.pageNumber}: ${html(q.slideTitle)}</h2>` : '';
+    slide = q.pageNumber;
+    return heading + answerKeyQuestion(q, i);
+  }).join('');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${html(title)} - Answer key</title>
+  <style>
+    @page { size: A4 portrait; margin: 15mm; }
+    html, body { margin: 0; font-family: 'Segoe UI', Arial, sans-serif; color: #1f2937; font-size: 11pt; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    h1 { color: ${ACCENT_COLOR}; font-size: 22pt; margin: 0 0 2mm; }
+    h2 { color: ${ACCENT_COLOR}; font-size: 13pt; border-bottom: 1px solid #d1d5db; padding-bottom: 1mm; margin: 8mm 0 3mm; }
+    h3 { font-size: 11pt; margin: 0 0 2mm; }
+    article { break-inside: avoid; page-break-inside: avoid; margin-bottom: 5mm; }
+    ol { margin: 0; padding-left: 8mm; }
+    .answer { font-weight: 600; color: #166534; }
+    .distractor { color: #6b7280; }
+    .explanation { font-style: italic; color: #4b5563; margin: 1mm 0 0; }
+    table { border-collapse: collapse; }
+    td { padding: 0.5mm 2mm 0.5mm 0; vertical-align: top; }
+    .arrow { color: #9ca3af; }
+    .muted { color: #6b7280; }
+  </style>
+</head>
+<body>
+  <h1>${html(title)}</h1>
+  <p class="muted">Answer key · ${questions.length} question${questions.length === 1 ? '' : 's'}</p>
+  ${body}
+</body>
+</html>`;
+}
+
+// Printed from a hidden iframe, like the handout; "Save as PDF" in the print dialog keeps a file.
+export async function printAnswerKey(title: string, questions: BankQuestion[], onLog: (message: string) => void): Promise<void> {
+  const host = document.createElement('iframe');
+  host.setAttribute('aria-hidden', 'true');
+  host.style.cssText = 'position:fixed;left:-10000px;top:0;width:900px;height:900px;border:0;';
+  document.body.appendChild(host);
+  try {
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, LOAD_TIMEOUT_MS);
+      host.addEventListener('load', () => { clearTimeout(timer); resolve(); }, { once: true });
+      host.srcdoc = answerKeyDocument(title, questions);
+    });
+    onLog(`[Export] Answer key: ${questions.length} questions; opening the print dialog. Choose "Save as PDF" to keep a file.`);
+    const win = host.contentWindow!;
+    const cleanup = () => host.remove();
+    win.addEventListener('afterprint', cleanup, { once: true });
+    win.focus();
+    win.print();
+    setTimeout(cleanup, 60_000);
+  } catch (err) {
+    host.remove();
+    throw err;
+  }
+}
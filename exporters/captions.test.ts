@@ -0,0 +1,61 @@
+// exporters/captions.test.ts
+// Cue timing from narration scripts, and the WebVTT / SRT formatting of the tracks.
+import { describe, expect, it } from 'vitest';
+import type { GeneratedSlide } from '../types';
+import { narrateDeck, slideCaptions, toSrt, toWebVtt } from './captions';
+
+const slide = (pageNumber: number, narration: string, durationSeconds = 0): GeneratedSlide => ({
+  html: '<p>unused when there is a narration script</p>',
+  pageNumber,
+  model: { title: `Slide ${pageNumber}`, layout: 'content', blocks: [] },
+  notes: { points: [], narration, durationSeconds },
+});
+
+// 15 words: six seconds at 150 words per minute.
+const FIFTEEN_WORDS = `${'Word '.repeat(14)}word.`;
+
+describe('narrateDeck', () => {
+  it('times cues by word count and runs the slides one after another', () => {
+    const [first, second] = narrateDeck([slide(1, FIFTEEN_WORDS), slide(2, 'Short.')]);
+    expect(first.cues).toHaveLength(1);
+    expect(first.cues[0]).toMatchObject({ start: 0, end: 6 });
+    expect(first.end).toBe(6);
+    // A one-word cue lasts the minimum second; the slide stays up for the two-second minimum.
+    expect(second.cues[0]).toMatchObject({ start: 6, end: 7 });
+    expect(second.end).toBe(8);
+  });
+
+  it('holds a slide for its target duration', () => {
+    const [first, second] = narrateDeck([slide(1, 'Short.', 30), slide(2, 'Next.')]);
+    expect(first.end).toBe(30);
+    expect(second.start).toBe(30);
+  });
+
+  it('splits long sentences into cues of at most two 42-character lines', () => {
+    const words = Array.from({ length: 40 }, (_, i) => `word${i}`).join(' ');
+    const [narrated] = narrateDeck([slide(1, `${words}.`)]);
+    expect(narrated.cues.length).toBeGreaterThan(1);
+    for (const cue of narrated.cues) {
+      const lines = cue.text.split('\n');
+      expect(lines.length).toBeLessThanOrEqual(2);
+      lines.forEach(line => expect(line.length).toBeLessThanOrEqual(42));
+    }
+  });
+});
+
+describe('caption formats', () => {
+  const cues = [{ start: 0, end: 1.5, text: 'Hello' }, { start: 3661.25, end: 3662, text: 'Later' }];
+
+  it('writes WebVTT timestamps with a dot', () => {
+    expect(toWebVtt(cues)).toBe('WEBVTT\n\n1\n00:00:00.000 --> 00:00:01.500\nHello\n\n2\n01:01:01.250 --> 01:01:02.000\nLater\n');
+  });
+
+  it('writes SRT timestamps with a comma', () => {
+    expect(toSrt(cues)).toBe('1\n00:00:00,000 --> 00:00:01,500\nHello\n\n2\n01:01:01,250 --> 01:01:02,000\nLater\n');
+  });
+
+  it('starts per-slide tracks at zero', () => {
+    const [, second] = narrateDeck([slide(1, FIFTEEN_WORDS), slide(2, 'Short.')]);
+    expect(slideCaptions(second).srt).toBe('1\n00:00:00,000 --> 00:00:01,000\nShort.\n');
+  });
+});
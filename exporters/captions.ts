@@ -0,0 +1,147 @@
+// exporters/captions.ts
+// Captions and transcript for narrated videos of the deck. Each slide is narrated from its narration
+// script (Step 5 speaker notes) or, without one, from its visible text. Cues are timed at
+// NARRATION_WORDS_PER_MINUTE; a slide with a longer target duration stays up for that long.
+import type { GeneratedSlide } from '../types';
+import type { ExportDeck } from './shared';
+import { slideTitle } from './shared';
+import { htmlToParagraphs } from './outline';
+import { wordCount } from '../utils/speakerNotes';
+import { NARRATION_WORDS_PER_MINUTE } from '../constants';
+
+export interface CaptionCue {
+  start: number; // seconds
+  end: number;
+  text: string;
+}
+
+export interface NarratedSlide {
+  title: string;
+  text: string;
+  source: 'narration' | 'slide';
+  start: number; // seconds from the start of the course
+  end: number;
+  cues: CaptionCue[]; // course timing
+}
+
+const MAX_LINE = 42; // common broadcast limit; two lines per cue
+const MIN_CUE_SECONDS = 1;
+const MIN_SLIDE_SECONDS = 2;
+
+const collapse = (s: string) => s.replace(/\s+/g, ' ').trim();
+const sentence = (s: string) => (/[.!?:;…]["')\]]?$/.test(s) ? s : `${s}.`);
+
+function visibleText(slide: GeneratedSlide): string {
+  const doc = new DOMParser().parseFromString(slide.html, 'text/html');
+  return htmlToParagraphs(doc, null)
+    .map(p => collapse(p.runs.map(r => r.text).join('').replace(/^☐\s*/, '').replace(/\s\|\s/g, ', ')))
+    .filter(Boolean)
+    .map(sentence)
+    .join(' ');
+}
+
+export function narrationFor(slide: GeneratedSlide): { text: string; source: NarratedSlide['source'] } {
+  const script = collapse(slide.notes?.narration ?? '');
+  return script ? { text: script, source: 'narration' } : { text: visibleText(slide), source: 'slide' };
+}
+
+// Sentences, cut at word boundaries into cues of at most two lines.
+function cueTexts(text: string): string[] {
+  const cues: string[] = [];
+  for (const s of text.split(/(?<=[.!?…])\s+/)) {
+    let current = '';
+    for (const word of s.split(' ').filter(Boolean)) {
+      if (current && current.length + 1 + word.length > MAX_LINE * 2) {
+        cues.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+    if (current) cues.push(current);
+  }
+  return cues;
+}
+
+function wrapCue(text: string): string {
+  if (text.length <= MAX_LINE) return text;
+  const words = text.split(' ');
+  let first = '';
+  while (words.length && (first ? first.length + 1 : 0) + words[0].length <= MAX_LINE) {
+    first = first ? `${first} ${words.shift()}` : words.shift()!;
+  }
+  return words.length ? `${first}\n${words.join(' ')}` : first;
+}
+
+export function narrateDeck(slides: GeneratedSlide[]): NarratedSlide[] {
+  let clock = 0;
+  return slides.map(slide => {
+    const { text, source } = narrationFor(slide);
+    const start = clock;
+    let t = start;
+    const cues = cueTexts(text).map(cue => {
+      const length = Math.max(MIN_CUE_SECONDS, (wordCount(cue) / NARRATION_WORDS_PER_MINUTE) * 60);
+      const c = { start: t, end: t + length, text: wrapCue(cue) };
+      t = c.end;
+      return c;
+    });
+    clock = Math.max(t, start + (slide.notes?.durationSeconds ?? 0), start + MIN_SLIDE_SECONDS);
+    return { title: slideTitle(slide), text, source, start, end: clock, cues };
+  });
+}
+
+const timestamp = (seconds: number, separator: '.' | ',') => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, w = 2) => String(n).padStart(w, '0');
+  return `${pad(Math.floor(ms / 3_600_000))}:${pad(Math.floor(ms / 60_000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+// Cues shifted so the track starts at `offset` (a single slide's captions start at 0).
+const shifted = (cues: CaptionCue[], offset: number) => cues.map(c => ({ ...c, start: c.start - offset, end: c.end - offset }));
+
+export const toWebVtt = (cues: CaptionCue[], offset = 0) =>
+  `WEBVTT\n\n${shifted(cues, offset).map((c, i) => `${i + 1}\n${timestamp(c.start, '.')} --> ${timestamp(c.end, '.')}\n${c.text}\n`).join('\n')}`;
+
+export const toSrt = (cues: CaptionCue[], offset = 0) =>
+  shifted(cues, offset).map((c, i) => `${i + 1}\n${timestamp(c.start, ',')} --> ${timestamp(c.end, ',')}\n${c.text}\n`).join('\n');
+
+// WebVTT chapter track: one cue per slide, for players that show a chapter menu.
+export const chaptersVtt = (narrated: NarratedSlide[]) =>
+  `WEBVTT\n\n${narrated.map((s, i) => `chapter-${i + 1}\n${timestamp(s.start, '.')} --> ${timestamp(s.end, '.')}\n${i + 1}. ${s.title}\n`).join('\n')}`;
+
+export function transcriptText(title: string, narrated: NarratedSlide[]): string {
+  const total = narrated.length ? narrated[narrated.length - 1].end : 0;
+  const chapters = narrated.map((s, i) => [
+    `Chapter ${i + 1}: ${s.title} [${timestamp(s.start, '.').slice(0, 8)}]`,
+    '',
+    s.text || '(no narration)',
+    '',
+  ].join('\n'));
+  return [`${title}`, `Transcript · ${narrated.length} chapters · ${timestamp(total, '.').slice(0, 8)}`, '', ...chapters].join('\n');
+}
+
+// Per-slide tracks start at 0, for topics that each carry their own video.
+export const slideCaptions = (slide: NarratedSlide) => ({
+  vtt: toWebVtt(slide.cues, slide.start),
+  srt: toSrt(slide.cues, slide.start),
+});
+
+// The caption set as file path -> content, for the ZIP export.
+export function captionFiles(deck: ExportDeck): Record<string, string> {
+  const narrated = narrateDeck(deck.slides);
+  const cues = narrated.flatMap(s => s.cues);
+  const files: Record<string, string> = {
+    'captions/course.vtt': toWebVtt(cues),
+    'captions/course.srt': toSrt(cues),
+    'captions/chapters.vtt': chaptersVtt(narrated),
+    'captions/transcript.txt': transcriptText(deck.title, narrated),
+  };
+  narrated.forEach((s, i) => {
+    const { vtt, srt } = slideCaptions(s);
+    files[`captions/slide_${deck.slides[i].pageNumber}.vtt`] = vtt;
+    files[`captions/slide_${deck.slides[i].pageNumber}.srt`] = srt;
+  });
+  const fromSlides = narrated.filter(s => s.source === 'slide').length;
+  deck.onLog(`[Export] Captions: ${cues.length} cues over ${timestamp(narrated.at(-1)?.end ?? 0, '.').slice(0, 8)}; ${fromSlides} of ${narrated.length} slides narrated from their visible text.`);
+  return files;
+}
@@ -0,0 +1,159 @@
+// exporters/commonCartridge.ts
+// IMS Common Cartridge 1.3 (.imscc) for Canvas, Moodle, Blackboard and other CC importers.
+// One module mirrors the deck: each slide is a webcontent resource, and a slide with quiz markup
+// is followed by a QTI 1.2 assessment (CC profile) built from its questions.
+import JSZip from 'jszip';
+import type { ExportDeck } from './shared';
+import { escapeXml, slideFileName, slideTitle, standaloneSlideHtml } from './shared';
+import type { QuizQuestion } from './quiz';
+import { extractQuizQuestions } from './quiz';
+
+const WEB_DIR = 'web_resources/slides';
+
+const CC_SCHEMA_LOCATIONS = [
+  'http://www.imsglobal.org/xsd/imsccv1p3/imscp_v1p1 http://www.imsglobal.org/profile/cc/ccv1p3/ccv1p3_imscp_v1p2_v1p0.xsd',
+  'http://ltsc.ieee.org/xsd/imsccv1p3/LOM/manifest http://www.imsglobal.org/profile/cc/ccv1p3/LOM/ccv1p3_lommanifest_v1p0.xsd',
+].join(' ');
+
+const QTI_SCHEMA_LOCATION =
+  'http://www.imsglobal.org/xsd/ims_qtiasiv1p2 http://www.imsglobal.org/profile/cc/ccv1p3/ccv1p3_qtiasiv1p2p1_v1p0.xsd';
+
+interface ModuleEntry {
+  itemId: string;
+  resourceId: string;
+  title: string;
+}
+
+const metadataField = (label: string, entry: string) =>
+  `<qtimetadatafield><fieldlabel>${label}</fieldlabel><fieldentry>${escapeXml(entry)}</fieldentry></qtimetadatafield>`;
+
+const mattext = (text: string) => `<material><mattext texttype="text/plain">${escapeXml(text)}</mattext></material>`;
+
+// Multiple choice when exactly one option is right; multiple response otherwise (all right ones, none of the rest).
+function qtiItem(question: QuizQuestion, ident: string): string {
+  const correct = question.options.filter(o => o.correct);
+  const single = correct.length === 1;
+  const labels = question.options.map((_o, i) => `${ident}_A${i + 1}`);
+  const condition = single
+    ? `<varequal respident="response1">${labels[question.options.indexOf(correct[0])]}</varequal>`
+    : `<and>${question.options.map((o, i) => o.correct
+      ? `<varequal respident="response1">${labels[i]}</varequal>`
+      : `<not><varequal respident="response1">${labels[i]}</varequal></not>`).join('')}</and>`;
+
+  return `      <item ident="${ident}" title="${escapeXml(question.prompt.slice(0, 80))}">
+        <itemmetadata>
+          <qtimetadata>
+            ${metadataField('cc_profile', single ? 'cc.multiple_choice.v0p1' : 'cc.multiple_response.v0p1')}
+            ${metadataField('cc_weighting', '1')}
+          </qtimetadata>
+        </itemmetadata>
+        <presentation>
+          ${mattext(question.prompt)}
+          <response_lid ident="response1" rcardinality="${single ? 'Single' : 'Multiple'}">
+            <render_choice>
+${question.options.map((o, i) => `              <response_label ident="${labels[i]}">${mattext(o.text)}</response_label>`).join('\n')}
+            </render_choice>
+          </response_lid>
+        </presentation>
+        <resprocessing>
+          <outcomes>
+            <decvar varname="SCORE" vartype="Decimal" minvalue="0" maxvalue="100"/>
+          </outcomes>
+          <respcondition continue="No">
+            <conditionvar>${condition}</conditionvar>
+            <setvar varname="SCORE" action="Set">100</setvar>
+          </respcondition>
+        </resprocessing>
+      </item>`;
+}
+
+function assessmentXml(ident: string, title: string, questions: QuizQuestion[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<questestinterop xmlns="http://www.imsglobal.org/xsd/ims_qtiasiv1p2"
+                 xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+                 xsi:schemaLocation="${QTI_SCHEMA_LOCATION}">
+  <assessment ident="${ident}" title="${escapeXml(title)}">
+    <qtimetadata>
+      ${metadataField('cc_profile', 'cc.exam.v0p1')}
+      ${metadataField('qmd_assessmenttype', 'Examination')}
+      ${metadataField('cc_maxattempts', 'unlimited')}
+    </qtimetadata>
+    <section ident="${ident}_S">
+${questions.map((q, i) => qtiItem(q, `${ident}_Q${i + 1}`)).join('\n')}
+    </section>
+  </assessment>
+</questestinterop>`;
+}
+
+function manifestXml(identifier: string, title: string, description: string, module: ModuleEntry[], resources: string[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifier}"
+          xmlns="http://www.imsglobal.org/xsd/imsccv1p3/imscp_v1p1"
+          xmlns:lomimscc="http://ltsc.ieee.org/xsd/imsccv1p3/LOM/manifest"
+          xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+          xsi:schemaLocation="${CC_SCHEMA_LOCATIONS}">
+  <metadata>
+    <schema>IMS Common Cartridge</schema>
+    <schemaversion>1.3.0</schemaversion>
+    <lomimscc:lom>
+      <lomimscc:general>
+        <lomimscc:title><lomimscc:string language="en">${escapeXml(title)}</lomimscc:string></lomimscc:title>
+        <lomimscc:description><lomimscc:string language="en">${escapeXml(description)}</lomimscc:string></lomimscc:description>
+      </lomimscc:general>
+    </lomimscc:lom>
+  </metadata>
+  <organizations>
+    <organization identifier="ORG" structure="rooted-hierarchy">
+      <item identifier="ROOT">
+        <item identifier="MODULE">
+          <title>${escapeXml(title)}</title>
+${module.map(m => `          <item identifier="${m.itemId}" identifierref="${m.resourceId}">
+            <title>${escapeXml(m.title)}</title>
+          </item>`).join('\n')}
+        </item>
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+${resources.join('\n')}
+  </resources>
+</manifest>`;
+}
+
+export async function buildCommonCartridge(deck: ExportDeck, identifier: string): Promise<Blob> {
+  const zip = new JSZip();
+  const module: ModuleEntry[] = [];
+  const resources: string[] = [];
+  let quizCount = 0;
+
+  for (const slide of deck.slides) {
+    const n = slide.pageNumber;
+    const title = slideTitle(slide);
+    const href = `${WEB_DIR}/${slideFileName(slide)}`;
+    zip.file(href, standaloneSlideHtml(slide, deck.mode));
+    module.push({ itemId: `ITEM_SLIDE_${n}`, resourceId: `RES_SLIDE_${n}`, title });
+    resources.push(`    <resource identifier="RES_SLIDE_${n}" type="webcontent" href="${href}">
+      <file href="${href}"/>
+    </resource>`);
+
+    // Questions without options can't be scored, so they stay in the slide only.
+    const questions = extractQuizQuestions(slide).filter(q => q.options.length > 1 && q.options.some(o => o.correct));
+    if (!questions.length) continue;
+    const ident = `RES_QUIZ_${n}`;
+    const quizTitle = `${title} - Quiz`;
+    zip.file(`${ident}/assessment.xml`, assessmentXml(ident, quizTitle, questions));
+    module.push({ itemId: `ITEM_QUIZ_${n}`, resourceId: ident, title: quizTitle });
+    resources.push(`    <resource identifier="${ident}" type="imsqti_xmlv1p2/imscc_xmlv1p3/assessment">
+      <file href="${ident}/assessment.xml"/>
+    </resource>`);
+    quizCount++;
+  }
+
+  const description = `${deck.slides.length} slides${quizCount ? `, ${quizCount} quizzes` : ''}.`;
+  // Manifest identifiers are xs:ID values, which may not start with a digit.
+  const manifestId = `CC_${identifier.replace(/[^A-Za-z0-9_.-]/g, '_')}`;
+  zip.file('imsmanifest.xml', manifestXml(manifestId, deck.title, description, module, resources));
+  deck.onLog(`[Export] Common Cartridge 1.3: ${deck.slides.length} web content pages, ${quizCount} QTI assessments.`);
+
+  return zip.generateAsync({ type: 'blob' });
+}
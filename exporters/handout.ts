@@ -0,0 +1,265 @@
+// exporters/handout.ts
+// Printable handout, saved as PDF from the browser's print dialog (no PDF library or server).
+// The handout is a print document in a hidden iframe: a cover page, a table of contents, then the
+// slides in the chosen layout. Thumbnails reuse the Step 5 preview approach: each slide renders in
+// its own srcdoc iframe at 1280px wide and is scaled down to fit its box. Those frames are sandboxed
+// without same-origin access, so each slide reports its own height by postMessage.
+import type { GeneratedSlide, HandoutLayout } from '../types';
+import type { ExportDeck } from './shared';
+import { escapeXml } from './shared';
+import type { Paragraph } from './outline';
+import { htmlToParagraphs } from './outline';
+import { titleFromHtml } from '../utils/topicTitle';
+import { ACCENT_COLOR } from '../constants';
+
+const FRAME_W = 1280;
+const FRAME_MIN_H = 720;
+const SLIDE_LOAD_TIMEOUT_MS = 8000;
+const NOTE_LINES = { 'three-up': 7, notes: 5 };
+// A4 less the 12mm @page margins.
+const PAGE_CONTENT_MM = { portrait: { w: 186, h: 273 }, landscape: { w: 273, h: 186 } };
+const TOC_HEADING_MM = 16;
+const TOC_ENTRY_MM = 8; // every contents entry is one line of this height, so pages hold a known number
+const NOTES_GAP_MM = 8;
+const MM_TO_PX = 96 / 25.4;
+
+type Orientation = keyof typeof PAGE_CONTENT_MM;
+const orientationOf = (layout: HandoutLayout): Orientation => (layout === 'full' ? 'landscape' : 'portrait');
+
+const html = (s: string) => escapeXml(s);
+
+const tocTitle = (slide: GeneratedSlide) => titleFromHtml(slide.html, `Slide ${slide.pageNumber}`);
+
+function outlineHtml(slide: GeneratedSlide): string {
+  const doc = new DOMParser().parseFromString(slide.html, 'text/html');
+  const paragraphs = htmlToParagraphs(doc, doc.querySelector('h1, h2, h3'));
+  const runs = (p: Paragraph) => p.runs.map(r => {
+    let out = html(r.text);
+    if (r.bold || p.kind === 'heading') out = `<b>${out}</b>`;
+    if (r.italic) out = `<i>${out}</i>`;
+    return out;
+  }).join('');
+  return paragraphs.map(p => p.kind === 'bullet'
+    ? `<p class="bullet" style="margin-left:${5 + p.level * 6}mm">${runs(p)}</p>`
+    : `<p>${runs(p)}</p>`).join('');
+}
+
+const noteLines = (count: number) => `<div class="lines">${'<div></div>'.repeat(count)}</div>`;
+
+// Appended to each slide: reports its full height to the handout (THUMB_LISTENER), which can't
+// measure a frame from another origin.
+const THUMB_SIZE_SCRIPT = `<script>addEventListener('load', function () {
+  var body = document.body;
+  if (!body) return;
+  body.style.margin = '0';
+  body.style.overflow = 'hidden';
+  parent.postMessage({ source: 'handout-thumb', height: body.scrollHeight }, '*');
+});</script>`;
+
+// Runs in the handout document before the thumbnails load, so no report is missed.
+const THUMB_LISTENER = `<script>addEventListener('message', function (e) {
+  if (!e.data || e.data.source !== 'handout-thumb') return;
+  document.querySelectorAll('.thumb iframe').forEach(function (frame) {
+    if (frame.contentWindow !== e.source) return;
+    frame.setAttribute('data-height', String(e.data.height));
+    frame.dispatchEvent(new Event('measured'));
+  });
+});</script>`;
+
+// The slide HTML goes into srcdoc, so it only needs attribute escaping. No allow-same-origin: the
+// generated HTML must not reach the app's storage or DOM.
+const thumb = (slide: GeneratedSlide) =>
+  `<div class="thumb"><iframe sandbox="allow-scripts" referrerpolicy="no-referrer" srcdoc="${html(slide.html + THUMB_SIZE_SCRIPT)}" title="Slide ${slide.pageNumber}"></iframe></div>`;
+
+const tocEntriesPerPage = (layout: HandoutLayout) =>
+  Math.floor((PAGE_CONTENT_MM[orientationOf(layout)].h - TOC_HEADING_MM) / TOC_ENTRY_MM) - 1; // a line spare for rounding
+
+const tocPageCount = (layout: HandoutLayout, count: number) => Math.max(1, Math.ceil(count / tocEntriesPerPage(layout)));
+
+// Page the slides start on, after the cover and the contents pages.
+const firstSlidePage = (layout: HandoutLayout, count: number) => 2 + tocPageCount(layout, count);
+
+// First page each slide lands on, for the table of contents. The notes layout flows, so its pages
+// are only known once it is laid out (numberNotesPages).
+function pageNumbers(layout: HandoutLayout, count: number): (number | null)[] {
+  const first = firstSlidePage(layout, count);
+  return Array.from({ length: count }, (_v, i) =>
+    layout === 'full' ? first + i : layout === 'three-up' ? first + Math.floor(i / 3) : null);
+}
+
+function bodyHtml(deck: ExportDeck, layout: HandoutLayout): string {
+  const pages = pageNumbers(layout, deck.slides.length);
+  const perPage = tocEntriesPerPage(layout);
+  const date = new Date().toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+  const cover = `<section class="page cover">
+    <div class="bar"></div>
+    <h1>${html(deck.title)}</h1>
+    <p>${deck.slides.length} slides · Learner handout</p>
+    <p class="muted">${html(date)}</p>
+  </section>`;
+
+  let toc = '';
+  for (let page = 0; page < tocPageCount(layout, deck.slides.length); page++) {
+    const entries = deck.slides.slice(page * perPage, (page + 1) * perPage).map((s, j) => {
+      const i = page * perPage + j;
+      return `<li><span class="title">${html(tocTitle(s))}</span><span class="dots"></span><span data-toc-page="${i}">${pages[i] ?? ''}</span></li>`;
+    }).join('');
+    toc += `<section class="page toc">
+    <h2>Contents${page ? ' (continued)' : ''}</h2>
+    <ol>${entries}</ol>
+  </section>`;
+  }
+
+  let slides = '';
+  if (layout === 'full') {
+    slides = deck.slides.map((s, i) => `<section class="page full">
+      <div class="caption"><span>${i + 1}. ${html(tocTitle(s))}</span><span class="muted">${html(deck.title)}</span></div>
+      ${thumb(s)}
+    </section>`).join('');
+  } else if (layout === 'three-up') {
+    for (let i = 0; i < deck.slides.length; i += 3) {
+      const rows = deck.slides.slice(i, i + 3).map((s, j) => `<div class="row">
+        <div><div class="caption">${i + j + 1}. ${html(tocTitle(s))}</div>${thumb(s)}</div>
+        ${noteLines(NOTE_LINES['three-up'])}
+      </div>`).join('');
+      slides += `<section class="page three-up">${rows}</section>`;
+    }
+  } else {
+    slides = `<section class="notes">${deck.slides.map((s, i) => `<article data-slide-index="${i}">
+      <h3>${i + 1}. ${html(tocTitle(s))}</h3>
+      <div class="outline">${outlineHtml(s)}</div>
+      <div class="muted small">Notes</div>
+      ${noteLines(NOTE_LINES.notes)}
+    </article>`).join('')}</section>`;
+  }
+  return cover + toc + slides;
+}
+
+function handoutDocument(deck: ExportDeck, layout: HandoutLayout): string {
+  const orientation = orientationOf(layout);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${html(deck.title)} - Handout</title>
+  <style>
+    @page { size: A4 ${orientation}; margin: 12mm; }
+    * { box-sizing: border-box; }
+    html, body { margin: 0; font-family: 'Segoe UI', Arial, sans-serif; color: #1f2937; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    .page { break-after: page; page-break-after: always; }
+    .muted { color: #6b7280; }
+    .small { font-size: 9pt; margin-top: 3mm; }
+    .cover { padding-top: 60mm; }
+    .cover .bar { width: 40mm; height: 3mm; background: ${ACCENT_COLOR}; margin-bottom: 8mm; }
+    .cover h1 { font-size: 28pt; margin: 0 0 6mm; color: ${ACCENT_COLOR}; }
+    .cover p { font-size: 13pt; margin: 0 0 2mm; }
+    .toc h2 { color: ${ACCENT_COLOR}; font-size: 18pt; height: ${TOC_HEADING_MM - 4}mm; margin: 0 0 4mm; }
+    .toc ol { list-style: none; padding: 0; margin: 0; font-size: 11pt; }
+    .toc li { display: flex; gap: 2mm; align-items: flex-end; height: ${TOC_ENTRY_MM}mm; padding-bottom: 1.5mm; white-space: nowrap; }
+    .toc .title { overflow: hidden; text-overflow: ellipsis; }
+    .toc .dots { flex: 1; border-bottom: 1px dotted #9ca3af; margin-bottom: 1mm; }
+    .caption { display: flex; justify-content: space-between; font-size: 10pt; font-weight: 600; margin-bottom: 2mm; }
+    .thumb { position: relative; overflow: hidden; border: 1px solid #d1d5db; background: #fff; }
+    .thumb iframe { position: absolute; top: 0; left: 0; width: ${FRAME_W}px; height: ${FRAME_MIN_H}px; border: 0; transform-origin: 0 0; }
+    .full .thumb { width: 270mm; height: 170mm; }
+    .three-up .row { display: flex; gap: 8mm; height: 88mm; align-items: flex-start; }
+    .three-up .thumb { width: 105mm; height: 70mm; }
+    .three-up .lines { flex: 1; padding-top: 7mm; }
+    .lines div { border-bottom: 1px solid #cbd5e1; height: 8.5mm; }
+    .notes { width: ${PAGE_CONTENT_MM.portrait.w}mm; }
+    .notes article { break-inside: avoid; page-break-inside: avoid; margin-bottom: ${NOTES_GAP_MM}mm; }
+    .notes h3 { color: ${ACCENT_COLOR}; font-size: 13pt; margin: 0 0 2mm; }
+    .outline { font-size: 10pt; }
+    .outline p { margin: 0 0 1.5mm; }
+    .outline .bullet::before { content: '• '; color: ${ACCENT_COLOR}; }
+  </style>
+  ${THUMB_LISTENER}
+</head>
+<body>${bodyHtml(deck, layout)}</body>
+</html>`;
+}
+
+const waitForLoad = (frame: HTMLIFrameElement) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, SLIDE_LOAD_TIMEOUT_MS);
+  frame.addEventListener('load', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+// Resolves once the slide has reported its height, or after SLIDE_LOAD_TIMEOUT_MS.
+const waitForHeight = (frame: HTMLIFrameElement, onLog: (message: string) => void) => new Promise<void>(resolve => {
+  if (frame.hasAttribute('data-height')) return resolve();
+  const timer = setTimeout(() => {
+    onLog(`[Export] Handout: ${frame.title} did not report its height; using ${FRAME_MIN_H}px.`);
+    resolve();
+  }, SLIDE_LOAD_TIMEOUT_MS);
+  frame.addEventListener('measured', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+// Scales a slide frame to fit its box, using the slide's full scroll height like the Step 5 auto-height.
+function fitThumbnail(frame: HTMLIFrameElement) {
+  const box = frame.parentElement!;
+  const contentH = Math.max(FRAME_MIN_H, Number(frame.getAttribute('data-height')) || 0);
+  const scale = Math.min(box.clientWidth / FRAME_W, box.clientHeight / contentH);
+  frame.style.height = `${contentH}px`;
+  frame.style.left = `${(box.clientWidth - FRAME_W * scale) / 2}px`;
+  frame.style.transform = `scale(${scale})`;
+}
+
+// Fills in the contents page numbers of the notes layout by paginating it the way print does:
+// articles aren't split, so one that doesn't fit the rest of a page starts the next. The notes
+// section is laid out at the printed width, so the measured heights carry over.
+function numberNotesPages(doc: Document, firstPage: number) {
+  const pageH = PAGE_CONTENT_MM.portrait.h * MM_TO_PX;
+  const gap = NOTES_GAP_MM * MM_TO_PX;
+  let page = firstPage;
+  let used = 0;
+  doc.querySelectorAll<HTMLElement>('.notes article').forEach(article => {
+    const height = article.getBoundingClientRect().height;
+    if (used > 0 && used + height > pageH) {
+      page++;
+      used = 0;
+    }
+    const entry = doc.querySelector(`[data-toc-page="${article.dataset.slideIndex}"]`);
+    if (entry) entry.textContent = String(page);
+    used += height + gap;
+    // An article taller than a page runs on to the next ones.
+    while (used > pageH) {
+      page++;
+      used -= pageH;
+    }
+  });
+}
+
+export async function printHandout(deck: ExportDeck, layout: HandoutLayout): Promise<void> {
+  const host = document.createElement('iframe');
+  host.setAttribute('aria-hidden', 'true');
+  // Off screen but laid out at a real width, so thumbnail boxes have sizes to measure.
+  host.style.cssText = 'position:fixed;left:-10000px;top:0;width:1200px;height:900px;border:0;';
+  document.body.appendChild(host);
+
+  try {
+    const loaded = waitForLoad(host);
+    host.srcdoc = handoutDocument(deck, layout);
+    await loaded;
+    const doc = host.contentDocument!;
+    const frames = Array.from(doc.querySelectorAll<HTMLIFrameElement>('.thumb iframe'));
+    await Promise.all(frames.map(async frame => {
+      await waitForHeight(frame, deck.onLog);
+      fitThumbnail(frame);
+    }));
+    await doc.fonts?.ready;
+    if (layout === 'notes') numberNotesPages(doc, firstSlidePage(layout, deck.slides.length));
+
+    deck.onLog(`[Export] Handout (${layout}): ${deck.slides.length} slides; opening the print dialog. Choose "Save as PDF" to keep a file.`);
+    const win = host.contentWindow!;
+    const cleanup = () => host.remove();
+    win.addEventListener('afterprint', cleanup, { once: true });
+    win.focus();
+    win.print();
+    // Browsers without a blocking print() still get the afterprint event; this catches the rest.
+    setTimeout(cleanup, 60_000);
+  } catch (err) {
+    host.remove();
+    throw err;
+  }
+}
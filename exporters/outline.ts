@@ -0,0 +1,132 @@
+// exporters/outline.ts
+// Reads slide HTML back into a text outline: headings, plain paragraphs and bullet levels, with bold
+// and italic runs. Scripts, media and control buttons are dropped; quiz options ([data-correct])
+// become "☐" bullets under their question. Used by the PowerPoint and handout exports.
+
+export interface Run {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export interface Paragraph {
+  kind: 'heading' | 'text' | 'bullet';
+  level: number;
+  runs: Run[];
+}
+
+const SKIP = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'CANVAS', 'IFRAME', 'VIDEO', 'AUDIO', 'IMG', 'INPUT', 'SELECT', 'TEXTAREA', 'HEAD']);
+const INLINE = new Set(['SPAN', 'STRONG', 'B', 'EM', 'I', 'U', 'A', 'CODE', 'SMALL', 'SUP', 'SUB', 'MARK', 'ABBR', 'TIME', 'Q', 'CITE', 'BR', 'KBD', 'S']);
+const TEXT_BLOCKS = new Set(['P', 'BLOCKQUOTE', 'FIGCAPTION', 'DT', 'DD', 'SUMMARY', 'LABEL', 'CAPTION', 'PRE', 'ADDRESS', 'LEGEND']);
+const HEADINGS = new Set(['H1', 'H2', 'H3', 'H4', 'H5', 'H6']);
+
+export const cleanText = (s: string) => s.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+const isOption = (el: Element) => el.hasAttribute('data-correct');
+
+function collectRuns(node: Node, fmt: { bold?: boolean; italic?: boolean }, out: Run[]) {
+  if (node.nodeType === Node.TEXT_NODE) {
+    out.push({ text: node.textContent ?? '', ...fmt });
+    return;
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return;
+  const el = node as Element;
+  if (SKIP.has(el.tagName) || el.tagName === 'UL' || el.tagName === 'OL') return;
+  if (el.tagName === 'BUTTON' && !isOption(el)) return;
+  if (el.tagName === 'BR') {
+    out.push({ text: ' ', ...fmt });
+    return;
+  }
+  const next = {
+    bold: fmt.bold || ['STRONG', 'B'].includes(el.tagName) || HEADINGS.has(el.tagName),
+    italic: fmt.italic || ['EM', 'I', 'CITE'].includes(el.tagName),
+  };
+  el.childNodes.forEach(child => collectRuns(child, next, out));
+}
+
+// Collapses whitespace across runs, drops empty ones and merges neighbours with the same formatting.
+function normalizeRuns(runs: Run[]): Run[] {
+  const out: Run[] = [];
+  for (const run of runs) {
+    let text = cleanText(run.text).replace(/\s+/g, ' ');
+    const prev = out[out.length - 1];
+    if (!prev || prev.text.endsWith(' ')) text = text.replace(/^ /, '');
+    if (!text) continue;
+    if (prev && !!prev.bold === !!run.bold && !!prev.italic === !!run.italic) prev.text += text;
+    else out.push({ ...run, text });
+  }
+  const last = out[out.length - 1];
+  if (last) last.text = last.text.replace(/ $/, '');
+  return out.filter(r => r.text);
+}
+
+export function htmlToParagraphs(doc: Document, titleEl: Element | null): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+  const push = (kind: Paragraph['kind'], level: number, runs: Run[]) => {
+    const normalized = normalizeRuns(runs);
+    if (normalized.length) paragraphs.push({ kind, level: Math.min(level, 8), runs: normalized });
+  };
+
+  const walk = (el: Element, listDepth: number) => {
+    if (SKIP.has(el.tagName) || el === titleEl) return;
+    if (el.tagName === 'BUTTON' && !isOption(el)) return; // "Next", "Flip" etc. are controls, not content
+
+    if (isOption(el)) {
+      const runs: Run[] = [{ text: '☐ ' }];
+      collectRuns(el, {}, runs);
+      push('bullet', Math.max(listDepth - 1, 0) + 1, runs);
+      return;
+    }
+    if (HEADINGS.has(el.tagName)) {
+      const runs: Run[] = [];
+      collectRuns(el, {}, runs);
+      push('heading', 0, runs);
+      return;
+    }
+    if (el.tagName === 'LI') {
+      const runs: Run[] = [];
+      collectRuns(el, {}, runs);
+      push('bullet', Math.max(listDepth - 1, 0), runs);
+      Array.from(el.children).filter(c => c.tagName === 'UL' || c.tagName === 'OL').forEach(c => walk(c, listDepth));
+      return;
+    }
+    if (el.tagName === 'UL' || el.tagName === 'OL') {
+      Array.from(el.children).forEach(c => walk(c, listDepth + 1));
+      return;
+    }
+    if (TEXT_BLOCKS.has(el.tagName)) {
+      const runs: Run[] = [];
+      collectRuns(el, {}, runs);
+      push('text', 0, runs);
+      return;
+    }
+    if (el.tagName === 'TR') {
+      const cells = Array.from(el.children).map(c => cleanText(c.textContent ?? '').replace(/\s+/g, ' ').trim());
+      push('text', 0, [{ text: cells.filter(Boolean).join(' | ') }]);
+      return;
+    }
+
+    // Generic container: loose text and inline elements form paragraphs between block children.
+    let inline: Run[] = [];
+    const flush = () => {
+      push(listDepth > 0 ? 'bullet' : 'text', Math.max(listDepth - 1, 0), inline);
+      inline = [];
+    };
+    el.childNodes.forEach(child => {
+      if (child.nodeType === Node.TEXT_NODE) {
+        inline.push({ text: child.textContent ?? '' });
+      } else if (child.nodeType === Node.ELEMENT_NODE) {
+        const c = child as Element;
+        if (INLINE.has(c.tagName) && !isOption(c) && !c.querySelector('ul, ol, p, div, li, h1, h2, h3, h4, h5, h6, [data-correct]')) {
+          collectRuns(c, {}, inline);
+        } else {
+          flush();
+          walk(c, listDepth);
+        }
+      }
+    });
+    flush();
+  };
+
+  walk(doc.body, 0);
+  return paragraphs;
+}
@@ -0,0 +1,82 @@
+// exporters/player.ts
+// The navigable player shell shared by the LMS packages: index.html + player.js, with each slide
+// copied to slides/ and given tracking-bridge.js so quiz answers reach the tracker.
+import type JSZip from 'jszip';
+import type { ExportDeck } from './shared';
+import { escapeXml, slideFileName, slideTitle, standaloneSlideHtml, injectBeforeBodyEnd, fetchExportAsset } from './shared';
+import { ACCENT_COLOR } from '../constants';
+
+export const PLAYER_FILES = {
+  index: 'index.html',
+  player: 'player/player.js',
+  bridge: 'player/tracking-bridge.js',
+};
+
+export interface PlayerOptions {
+  trackerScripts?: { path: string; source: string }[]; // e.g. scorm-api.js, loaded before player.js
+  courseConfig?: Record<string, unknown>; // merged into window.COURSE for the tracker
+}
+
+// Writes the player and slides into `zip`; returns every file path written, for manifests.
+export async function writePlayer(zip: JSZip, deck: ExportDeck, opts: PlayerOptions = {}): Promise<string[]> {
+  const files: string[] = [];
+  const add = (path: string, content: string) => {
+    zip.file(path, content);
+    files.push(path);
+  };
+
+  const slides = deck.slides.map(slide => ({ href: `slides/${slideFileName(slide)}`, title: slideTitle(slide) }));
+  deck.slides.forEach((slide, i) => {
+    const html = injectBeforeBodyEnd(standaloneSlideHtml(slide, deck.mode), `<script src="../${PLAYER_FILES.bridge}"></script>`);
+    add(slides[i].href, html);
+  });
+
+  add(PLAYER_FILES.player, await fetchExportAsset('runtime/player.js'));
+  add(PLAYER_FILES.bridge, await fetchExportAsset('runtime/tracking-bridge.js'));
+  for (const script of opts.trackerScripts ?? []) add(script.path, script.source);
+
+  const course = { title: deck.title, slides, ...opts.courseConfig };
+  // `<` is escaped so slide titles can't close the script element.
+  const courseJson = JSON.stringify(course).replace(/</g, '\\u003c');
+  const title = escapeXml(deck.title);
+  add(PLAYER_FILES.index, `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+  <style>
+    * { box-sizing: border-box; }
+    html, body { height: 100%; margin: 0; font-family: 'Segoe UI', Arial, sans-serif; background: #f1f5f9; color: #1f2937; }
+    body { display: flex; flex-direction: column; }
+    header { display: flex; align-items: center; gap: 16px; padding: 10px 20px; background: #fff; border-bottom: 1px solid #e5e7eb; }
+    header h1 { font-size: 16px; margin: 0; color: ${ACCENT_COLOR}; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+    header span { margin-left: auto; font-size: 13px; color: #6b7280; white-space: nowrap; }
+    #slide-title { font-weight: 600; font-size: 14px; flex: 1; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+    .track { height: 4px; background: #e5e7eb; }
+    #progress { height: 100%; width: 0; background: ${ACCENT_COLOR}; transition: width .3s; }
+    main { flex: 1; min-height: 0; padding: 16px; }
+    iframe { width: 100%; height: 100%; border: 0; border-radius: 8px; background: #fff; box-shadow: 0 1px 4px rgba(0,0,0,.08); }
+    footer { display: flex; justify-content: space-between; align-items: center; padding: 10px 20px; background: #fff; border-top: 1px solid #e5e7eb; min-height: 56px; }
+    button { padding: 8px 20px; border: 0; border-radius: 6px; background: ${ACCENT_COLOR}; color: #fff; font-size: 14px; cursor: pointer; }
+    button[hidden] { display: none; }
+    #next { margin-left: auto; }
+    #notice { font-size: 13px; color: #6b7280; }
+  </style>
+</head>
+<body>
+  <header><h1>${title}</h1><div id="slide-title"></div><span id="counter"></span></header>
+  <div class="track"><div id="progress"></div></div>
+  <main><iframe id="slide-frame" title="Slide"></iframe></main>
+  <footer>
+    <button id="prev" hidden>&larr; Previous</button>
+    <span id="notice" hidden>Use the course menu to continue.</span>
+    <button id="next" hidden>Next &rarr;</button>
+  </footer>
+  <script>window.COURSE = ${courseJson};</script>
+${(opts.trackerScripts ?? []).map(s => `  <script src="${s.path}"></script>\n`).join('')}  <script src="${PLAYER_FILES.player}"></script>
+</body>
+</html>`);
+
+  return files;
+}
@@ -0,0 +1,297 @@
+// exporters/pptx.ts
+// Editable PowerPoint (.pptx) built in the browser with JSZip. Each slide's HTML is read back into
+// PowerPoint parts: the heading fills the title placeholder, lists become bullet levels, other text
+// becomes plain paragraphs and images are embedded beside the text. Interactive elements can't run in
+// PowerPoint, so their text stays on the slide and the speaker notes say what was interactive.
+import JSZip from 'jszip';
+import type { GeneratedSlide } from '../types';
+import type { ExportDeck } from './shared';
+import { escapeXml, slideTitle } from './shared';
+import { quizAnswerKey } from './quiz';
+import { notesLines } from '../utils/speakerNotes';
+import type { Paragraph, Run } from './outline';
+import { cleanText, htmlToParagraphs } from './outline';
+import { ACCENT_COLOR } from '../constants';
+
+const NS = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const CT = 'application/vnd.openxmlformats-officedocument.presentationml';
+
+// 16:9 in EMU; the body area matches the master's content placeholder.
+const SLIDE_W = 12192000;
+const SLIDE_H = 6858000;
+const BODY = { x: 838200, y: 1825625, w: 10515600, h: 4351338 };
+const TEXT_BESIDE_IMAGES_W = 6096000;
+const GAP = 228600;
+
+const IMAGE_MIME: Record<string, string> = { png: 'image/png', jpeg: 'image/jpeg', gif: 'image/gif' };
+
+interface SlideImage {
+  bytes: ArrayBuffer;
+  ext: string;
+  width: number;
+  height: number;
+  alt: string;
+}
+
+interface SlideContent {
+  title: string;
+  paragraphs: Paragraph[];
+  images: SlideImage[];
+  speakerNotes: string[];
+  notes: string[]; // what the PowerPoint version leaves out
+}
+
+// --- Images ---
+
+const blobToImage = (blob: Blob) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const url = URL.createObjectURL(blob);
+  const img = new Image();
+  img.onload = () => { URL.revokeObjectURL(url); resolve(img); };
+  img.onerror = () => { URL.revokeObjectURL(url); reject(new Error('The image could not be decoded.')); };
+  img.src = url;
+});
+
+// PowerPoint takes PNG/JPEG/GIF as is; anything else (SVG, WebP...) is rasterised to PNG first.
+async function loadImage(src: string, alt: string): Promise<SlideImage> {
+  const res = await fetch(src);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  let blob = await res.blob();
+  const img = await blobToImage(blob);
+  const width = img.naturalWidth || 800;
+  const height = img.naturalHeight || 600;
+  let ext = Object.keys(IMAGE_MIME).find(k => IMAGE_MIME[k] === blob.type || (k === 'jpeg' && blob.type === 'image/jpg'));
+  if (!ext) {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')!.drawImage(img, 0, 0, width, height);
+    blob = await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(b => (b ? resolve(b) : reject(new Error('The image could not be converted to PNG.'))), 'image/png'));
+    ext = 'png';
+  }
+  return { bytes: await blob.arrayBuffer(), ext, width, height, alt };
+}
+
+// --- Slide reading ---
+
+function interactiveNotes(slide: GeneratedSlide, doc: Document): string[] {
+  const notes: string[] = [];
+  const answerKey = quizAnswerKey(slide);
+  if (answerKey.length) {
+    notes.push('Quiz: interactive in the web version. Answer options are shown with ☐ boxes.', ...answerKey);
+  }
+  const controls = doc.querySelectorAll('button:not([data-correct]), input, select, textarea, details, [onclick], [draggable="true"], canvas').length;
+  if (controls) {
+    notes.push(`This slide has ${controls} interactive control${controls === 1 ? '' : 's'} in the web version (flip cards, drag and drop, buttons...). PowerPoint shows their content as static text.`);
+  }
+  return notes;
+}
+
+async function readSlide(slide: GeneratedSlide, onLog: (message: string) => void): Promise<SlideContent> {
+  const doc = new DOMParser().parseFromString(slide.html, 'text/html');
+  const titleEl = doc.querySelector('h1, h2, h3');
+  const notes = interactiveNotes(slide, doc);
+  const images: SlideImage[] = [];
+  for (const img of Array.from(doc.querySelectorAll('img'))) {
+    const src = img.getAttribute('src');
+    if (!src) continue;
+    try {
+      images.push(await loadImage(src, img.getAttribute('alt') || ''));
+    } catch (e: any) {
+      onLog(`[Export] PPTX slide ${slide.pageNumber}: image not embedded (${src.slice(0, 80)}): ${e.message}`);
+      notes.push(`Image not embedded: ${src.startsWith('data:') ? 'inline image' : src}`);
+    }
+  }
+  return { title: slideTitle(slide), paragraphs: htmlToParagraphs(doc, titleEl), images, speakerNotes: notesLines(slide.notes), notes };
+}
+
+// --- DrawingML / PresentationML parts ---
+
+const t = (s: string) => escapeXml(cleanText(s));
+
+function runXml(run: Run): string {
+  return `<a:r><a:rPr lang="en-US"${run.bold ? ' b="1"' : ''}${run.italic ? ' i="1"' : ''} dirty="0"/><a:t>${t(run.text)}</a:t></a:r>`;
+}
+
+function paragraphXml(p: Paragraph): string {
+  const pPr = p.kind === 'bullet'
+    ? (p.level ? `<a:pPr lvl="${p.level}"/>` : '')
+    : '<a:pPr marL="0" indent="0"><a:buNone/></a:pPr>';
+  const runs = p.kind === 'heading' ? p.runs.map(r => ({ ...r, bold: true })) : p.runs;
+  return `<a:p>${pPr}${runs.map(runXml).join('')}</a:p>`;
+}
+
+// Rough fit: PowerPoint only re-flows autofit text once it is edited, so the shrink is estimated up front.
+function fontScale(paragraphs: Paragraph[], width: number): number {
+  const charsPerLine = Math.max(20, Math.round(width / BODY.w * 64));
+  const lines = paragraphs.reduce((n, p) => n + Math.max(1, Math.ceil(p.runs.reduce((l, r) => l + r.text.length, 0) / charsPerLine)), 0);
+  const capacity = 10;
+  return lines <= capacity ? 1 : Math.max(0.4, Math.sqrt(capacity / lines));
+}
+
+const groupHeader = `<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>`;
+
+const xfrm = (x: number, y: number, w: number, h: number) =>
+  `<a:xfrm><a:off x="${Math.round(x)}" y="${Math.round(y)}"/><a:ext cx="${Math.round(w)}" cy="${Math.round(h)}"/></a:xfrm>`;
+
+function slideXml(content: SlideContent, imageRelIds: string[]): string {
+  const hasText = content.paragraphs.length > 0;
+  const hasImages = content.images.length > 0;
+  const textW = hasImages ? TEXT_BESIDE_IMAGES_W : BODY.w;
+  const shapes: string[] = [];
+
+  shapes.push(`<p:sp><p:nvSpPr><p:cNvPr id="2" name="Title 1"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr><p:spPr/><p:txBody><a:bodyPr><a:normAutofit/></a:bodyPr><a:lstStyle/><a:p><a:r><a:rPr lang="en-US" dirty="0"/><a:t>${t(content.title)}</a:t></a:r></a:p></p:txBody></p:sp>`);
+
+  if (hasText) {
+    const scale = fontScale(content.paragraphs, textW);
+    const autofit = scale < 1 ? `<a:normAutofit fontScale="${Math.round(scale * 1000) * 100}" lnSpcReduction="10000"/>` : '<a:normAutofit/>';
+    const spPr = hasImages ? `<p:spPr>${xfrm(BODY.x, BODY.y, textW, BODY.h)}</p:spPr>` : '<p:spPr/>';
+    shapes.push(`<p:sp><p:nvSpPr><p:cNvPr id="3" name="Content Placeholder 2"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph idx="1"/></p:nvPr></p:nvSpPr>${spPr}<p:txBody><a:bodyPr>${autofit}</a:bodyPr><a:lstStyle/>${content.paragraphs.map(paragraphXml).join('')}</p:txBody></p:sp>`);
+  }
+
+  // Images share the column right of the text (or the whole body area), stacked and fitted to their boxes.
+  const areaX = hasText ? BODY.x + textW + GAP : BODY.x;
+  const areaW = hasText ? BODY.w - textW - GAP : BODY.w;
+  const boxH = (BODY.h - GAP * (content.images.length - 1)) / Math.max(content.images.length, 1);
+  content.images.forEach((img, i) => {
+    const scale = Math.min(areaW / img.width, boxH / img.height);
+    const w = img.width * scale;
+    const h = img.height * scale;
+    const x = areaX + (areaW - w) / 2;
+    const y = BODY.y + i * (boxH + GAP) + (boxH - h) / 2;
+    shapes.push(`<p:pic><p:nvPicPr><p:cNvPr id="${10 + i}" name="Picture ${i + 1}" descr="${t(img.alt)}"/><p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr><p:blipFill><a:blip r:embed="${imageRelIds[i]}"/><a:stretch><a:fillRect/></a:stretch></p:blipFill><p:spPr>${xfrm(x, y, w, h)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>`);
+  });
+
+  return `${XML_HEAD}<p:sld ${NS}><p:cSld><p:spTree>${groupHeader}${shapes.join('')}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`;
+}
+
+function notesXml(notes: string[]): string {
+  const paragraphs = notes.length ? notes.map(n => `<a:p><a:r><a:rPr lang="en-US" dirty="0"/><a:t>${t(n)}</a:t></a:r></a:p>`).join('') : '<a:p><a:endParaRPr lang="en-US"/></a:p>';
+  return `${XML_HEAD}<p:notes ${NS}><p:cSld><p:spTree>${groupHeader}<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr><p:nvPr><p:ph type="sldImg"/></p:nvPr></p:nvSpPr><p:spPr/></p:sp><p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:spPr/><p:txBody><a:bodyPr/><a:lstStyle/>${paragraphs}</p:txBody></p:sp></p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:notes>`;
+}
+
+function themeXml(): string {
+  const accent = ACCENT_COLOR.replace('#', '').toUpperCase();
+  const solid = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>';
+  return `${XML_HEAD}<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="AI Slide Studio"><a:themeElements><a:clrScheme name="AI Slide Studio"><a:dk1><a:srgbClr val="1F2937"/></a:dk1><a:lt1><a:srgbClr val="FFFFFF"/></a:lt1><a:dk2><a:srgbClr val="023047"/></a:dk2><a:lt2><a:srgbClr val="F1F5F9"/></a:lt2><a:accent1><a:srgbClr val="${accent}"/></a:accent1><a:accent2><a:srgbClr val="8ECAE6"/></a:accent2><a:accent3><a:srgbClr val="FFB703"/></a:accent3><a:accent4><a:srgbClr val="FB8500"/></a:accent4><a:accent5><a:srgbClr val="023047"/></a:accent5><a:accent6><a:srgbClr val="6B7280"/></a:accent6><a:hlink><a:srgbClr val="${accent}"/></a:hlink><a:folHlink><a:srgbClr val="023047"/></a:folHlink></a:clrScheme><a:fontScheme name="AI Slide Studio"><a:majorFont><a:latin typeface="Segoe UI Semibold"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont><a:minorFont><a:latin typeface="Segoe UI"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont></a:fontScheme><a:fmtScheme name="AI Slide Studio"><a:fillStyleLst>${solid}${solid}${solid}</a:fillStyleLst><a:lnStyleLst><a:ln w="6350">${solid}</a:ln><a:ln w="12700">${solid}</a:ln><a:ln w="19050">${solid}</a:ln></a:lnStyleLst><a:effectStyleLst><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle></a:effectStyleLst><a:bgFillStyleLst>${solid}${solid}${solid}</a:bgFillStyleLst></a:fmtScheme></a:themeElements><a:objectDefaults/><a:extraClrSchemeLst/></a:theme>`;
+}
+
+const textLevel = (lvl: number, marL: number, size: number, bullet: string) =>
+  `<a:lvl${lvl}pPr marL="${marL}" indent="-228600" algn="l" defTabSz="914400" rtl="0" eaLnBrk="1" latinLnBrk="0" hangingPunct="1"><a:lnSpc><a:spcPct val="90000"/></a:lnSpc><a:spcBef><a:spcPts val="1000"/></a:spcBef><a:buClr><a:schemeClr val="accent1"/></a:buClr><a:buFont typeface="Arial" panose="020B0604020202020204" pitchFamily="34" charset="0"/><a:buChar char="${bullet}"/><a:defRPr sz="${size}" kern="1200"><a:solidFill><a:schemeClr val="tx1"/></a:solidFill><a:latin typeface="+mn-lt"/><a:ea typeface="+mn-ea"/><a:cs typeface="+mn-cs"/></a:defRPr></a:lvl${lvl}pPr>`;
+
+function slideMasterXml(): string {
+  const levels = Array.from({ length: 9 }, (_v, i) => textLevel(i + 1, 228600 + i * 457200, [2400, 2000, 1800, 1600][Math.min(i, 3)], i % 2 ? '–' : '•')).join('');
+  return `${XML_HEAD}<p:sldMaster ${NS}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>${groupHeader}<p:sp><p:nvSpPr><p:cNvPr id="2" name="Title Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr><p:spPr>${xfrm(BODY.x, 365125, BODY.w, 1325563)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr><p:txBody><a:bodyPr vert="horz" lIns="91440" tIns="45720" rIns="91440" bIns="45720" rtlCol="0" anchor="ctr"><a:normAutofit/></a:bodyPr><a:lstStyle/><a:p><a:r><a:rPr lang="en-US"/><a:t>Click to edit Master title style</a:t></a:r></a:p></p:txBody></p:sp><p:sp><p:nvSpPr><p:cNvPr id="3" name="Text Placeholder 2"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:spPr>${xfrm(BODY.x, BODY.y, BODY.w, BODY.h)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr><p:txBody><a:bodyPr vert="horz" lIns="91440" tIns="45720" rIns="91440" bIns="45720" rtlCol="0"><a:normAutofit/></a:bodyPr><a:lstStyle/><a:p><a:pPr lvl="0"/><a:r><a:rPr lang="en-US"/><a:t>Click to edit Master text styles</a:t></a:r></a:p></p:txBody></p:sp></p:spTree></p:cSld><p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/><p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst><p:txStyles><p:titleStyle><a:lvl1pPr algn="l" defTabSz="914400" rtl="0" eaLnBrk="1" latinLnBrk="0" hangingPunct="1"><a:lnSpc><a:spcPct val="90000"/></a:lnSpc><a:spcBef><a:spcPct val="0"/></a:spcBef><a:buNone/><a:defRPr sz="3600" b="1" kern="1200"><a:solidFill><a:schemeClr val="accent1"/></a:solidFill><a:latin typeface="+mj-lt"/><a:ea typeface="+mj-ea"/><a:cs typeface="+mj-cs"/></a:defRPr></a:lvl1pPr></p:titleStyle><p:bodyStyle>${levels}</p:bodyStyle><p:otherStyle><a:defPPr><a:defRPr lang="en-US"/></a:defPPr></p:otherStyle></p:txStyles></p:sldMaster>`;
+}
+
+function slideLayoutXml(): string {
+  return `${XML_HEAD}<p:sldLayout ${NS} type="obj" preserve="1"><p:cSld name="Title and Content"><p:spTree>${groupHeader}<p:sp><p:nvSpPr><p:cNvPr id="2" name="Title 1"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr><p:spPr/><p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:r><a:rPr lang="en-US"/><a:t>Click to edit Master title style</a:t></a:r></a:p></p:txBody></p:sp><p:sp><p:nvSpPr><p:cNvPr id="3" name="Content Placeholder 2"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph idx="1"/></p:nvPr></p:nvSpPr><p:spPr/><p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:pPr lvl="0"/><a:r><a:rPr lang="en-US"/><a:t>Click to edit Master text styles</a:t></a:r></a:p></p:txBody></p:sp></p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>`;
+}
+
+function notesMasterXml(): string {
+  return `${XML_HEAD}<p:notesMaster ${NS}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>${groupHeader}<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr><p:nvPr><p:ph type="sldImg" idx="2"/></p:nvPr></p:nvSpPr><p:spPr>${xfrm(685800, 1143000, 5486400, 3086100)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:sp><p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="body" sz="quarter" idx="3"/></p:nvPr></p:nvSpPr><p:spPr>${xfrm(685800, 4400550, 5486400, 3600450)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr><p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:r><a:rPr lang="en-US"/><a:t>Click to edit Master text styles</a:t></a:r></a:p></p:txBody></p:sp></p:spTree></p:cSld><p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/><p:notesStyle><a:lvl1pPr marL="0" algn="l" defTabSz="914400" rtl="0" eaLnBrk="1" latinLnBrk="0" hangingPunct="1"><a:defRPr sz="1200" kern="1200"><a:solidFill><a:schemeClr val="tx1"/></a:solidFill><a:latin typeface="+mn-lt"/><a:ea typeface="+mn-ea"/><a:cs typeface="+mn-cs"/></a:defRPr></a:lvl1pPr></p:notesStyle></p:notesMaster>`;
+}
+
+const relsXml = (rels: { id: string; type: string; target: string }[]) =>
+  `${XML_HEAD}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${rels.map(r => `<Relationship Id="${r.id}" Type="${r.type.startsWith('http') ? r.type : `${REL}/${r.type}`}" Target="${r.target}"/>`).join('')}</Relationships>`;
+
+function contentTypesXml(slideCount: number, imageExts: Set<string>): string {
+  const overrides = [
+    ['/ppt/presentation.xml', `${CT}.presentation.main+xml`],
+    ['/ppt/slideMasters/slideMaster1.xml', `${CT}.slideMaster+xml`],
+    ['/ppt/slideLayouts/slideLayout1.xml', `${CT}.slideLayout+xml`],
+    ['/ppt/notesMasters/notesMaster1.xml', `${CT}.notesMaster+xml`],
+    ['/ppt/theme/theme1.xml', 'application/vnd.openxmlformats-officedocument.theme+xml'],
+    ['/ppt/theme/theme2.xml', 'application/vnd.openxmlformats-officedocument.theme+xml'],
+    ['/ppt/presProps.xml', `${CT}.presProps+xml`],
+    ['/ppt/viewProps.xml', `${CT}.viewProps+xml`],
+    ['/ppt/tableStyles.xml', `${CT}.tableStyles+xml`],
+    ['/docProps/core.xml', 'application/vnd.openxmlformats-package.core-properties+xml'],
+    ['/docProps/app.xml', 'application/vnd.openxmlformats-officedocument.extended-properties+xml'],
+  ];
+  for (let i = 1; i <= slideCount; i++) {
+    overrides.push([`/ppt/slides/slide${i}.xml`, `${CT}.slide+xml`]);
+    overrides.push([`/ppt/notesSlides/notesSlide${i}.xml`, `${CT}.notesSlide+xml`]);
+  }
+  const defaults = [...imageExts].map(ext => `<Default Extension="${ext}" ContentType="${IMAGE_MIME[ext]}"/>`).join('');
+  return `${XML_HEAD}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/>${defaults}${overrides.map(([part, type]) => `<Override PartName="${part}" ContentType="${type}"/>`).join('')}</Types>`;
+}
+
+export async function buildPptx(deck: ExportDeck): Promise<Blob> {
+  const zip = new JSZip();
+  const imageExts = new Set<string>();
+  let imageCount = 0;
+  let interactiveSlides = 0;
+
+  for (const [index, slide] of deck.slides.entries()) {
+    const n = index + 1;
+    const content = await readSlide(slide, deck.onLog);
+    if (content.notes.length) interactiveSlides++;
+
+    const imageRelIds = content.images.map((img, i) => {
+      imageCount++;
+      imageExts.add(img.ext);
+      zip.file(`ppt/media/image${imageCount}.${img.ext}`, img.bytes);
+      return { id: `rId${3 + i}`, type: 'image', target: `../media/image${imageCount}.${img.ext}` };
+    });
+
+    zip.file(`ppt/slides/slide${n}.xml`, slideXml(content, imageRelIds.map(r => r.id)));
+    zip.file(`ppt/slides/_rels/slide${n}.xml.rels`, relsXml([
+      { id: 'rId1', type: 'slideLayout', target: '../slideLayouts/slideLayout1.xml' },
+      { id: 'rId2', type: 'notesSlide', target: `../notesSlides/notesSlide${n}.xml` },
+      ...imageRelIds,
+    ]));
+    zip.file(`ppt/notesSlides/notesSlide${n}.xml`, notesXml([...content.speakerNotes, ...content.notes]));
+    zip.file(`ppt/notesSlides/_rels/notesSlide${n}.xml.rels`, relsXml([
+      { id: 'rId1', type: 'notesMaster', target: '../notesMasters/notesMaster1.xml' },
+      { id: 'rId2', type: 'slide', target: `../slides/slide${n}.xml` },
+    ]));
+  }
+
+  const slideCount = deck.slides.length;
+  zip.file('[Content_Types].xml', contentTypesXml(slideCount, imageExts));
+  zip.file('_rels/.rels', relsXml([
+    { id: 'rId1', type: 'officeDocument', target: 'ppt/presentation.xml' },
+    { id: 'rId2', type: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties', target: 'docProps/core.xml' },
+    { id: 'rId3', type: 'extended-properties', target: 'docProps/app.xml' },
+  ]));
+
+  const now = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  zip.file('docProps/core.xml', `${XML_HEAD}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:dcmitype="http://purl.org/dc/dcmitype/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${t(deck.title)}</dc:title><dc:creator>AI Slide Studio</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified></cp:coreProperties>`);
+  zip.file('docProps/app.xml', `${XML_HEAD}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties" xmlns:vt="http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes"><Application>AI Slide Studio</Application><PresentationFormat>Widescreen</PresentationFormat><Slides>${slideCount}</Slides><Notes>${slideCount}</Notes></Properties>`);
+
+  zip.file('ppt/presentation.xml', `${XML_HEAD}<p:presentation ${NS} saveSubsetFonts="1"><p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst><p:notesMasterIdLst><p:notesMasterId r:id="rId2"/></p:notesMasterIdLst><p:sldIdLst>${deck.slides.map((_s, i) => `<p:sldId id="${256 + i}" r:id="rId${10 + i}"/>`).join('')}</p:sldIdLst><p:sldSz cx="${SLIDE_W}" cy="${SLIDE_H}"/><p:notesSz cx="6858000" cy="9144000"/></p:presentation>`);
+  zip.file('ppt/_rels/presentation.xml.rels', relsXml([
+    { id: 'rId1', type: 'slideMaster', target: 'slideMasters/slideMaster1.xml' },
+    { id: 'rId2', type: 'notesMaster', target: 'notesMasters/notesMaster1.xml' },
+    { id: 'rId3', type: 'theme', target: 'theme/theme1.xml' },
+    { id: 'rId4', type: 'presProps', target: 'presProps.xml' },
+    { id: 'rId5', type: 'viewProps', target: 'viewProps.xml' },
+    { id: 'rId6', type: 'tableStyles', target: 'tableStyles.xml' },
+    ...deck.slides.map((_s, i) => ({ id: `rId${10 + i}`, type: 'slide', target: `slides/slide${i + 1}.xml` })),
+  ]));
+
+  zip.file('ppt/slideMasters/slideMaster1.xml', slideMasterXml());
+  zip.file('ppt/slideMasters/_rels/slideMaster1.xml.rels', relsXml([
+    { id: 'rId1', type: 'slideLayout', target: '../slideLayouts/slideLayout1.xml' },
+    { id: 'rId2', type: 'theme', target: '../theme/theme1.xml' },
+  ]));
+  zip.file('ppt/slideLayouts/slideLayout1.xml', slideLayoutXml());
+  zip.file('ppt/slideLayouts/_rels/slideLayout1.xml.rels', relsXml([
+    { id: 'rId1', type: 'slideMaster', target: '../slideMasters/slideMaster1.xml' },
+  ]));
+  zip.file('ppt/notesMasters/notesMaster1.xml', notesMasterXml());
+  zip.file('ppt/notesMasters/_rels/notesMaster1.xml.rels', relsXml([
+    { id: 'rId1', type: 'theme', target: '../theme/theme2.xml' },
+  ]));
+  zip.file('ppt/theme/theme1.xml', themeXml());
+  zip.file('ppt/theme/theme2.xml', themeXml());
+  zip.file('ppt/presProps.xml', `${XML_HEAD}<p:presentationPr ${NS}/>`);
+  zip.file('ppt/viewProps.xml', `${XML_HEAD}<p:viewPr ${NS}><p:normalViewPr><p:restoredLeft sz="15620"/><p:restoredTop sz="94660"/></p:normalViewPr><p:gridSpacing cx="76200" cy="76200"/></p:viewPr>`);
+  zip.file('ppt/tableStyles.xml', `${XML_HEAD}<a:tblStyleLst xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>`);
+
+  deck.onLog(`[Export] PPTX: ${slideCount} slides, ${imageCount} embedded images, ${interactiveSlides} slides with interactive fallbacks in the notes.`);
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation' });
+}
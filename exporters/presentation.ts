@@ -0,0 +1,89 @@
+// exporters/presentation.ts
+// "Presentation": the whole deck as one self-contained HTML file with a Reveal-style player
+// (runtime/presentation.js, inlined). Slides travel as JSON and each one renders in its own iframe.
+import type { ExportDeck } from './shared';
+import { escapeXml, slideTitle, standaloneSlideHtml, fetchExportAsset } from './shared';
+import { quizAnswerKey } from './quiz';
+import { formatDuration, notePoints, slideSeconds } from '../utils/speakerNotes';
+import { ACCENT_COLOR } from '../constants';
+
+// `<` is escaped so slide markup can't close the surrounding script element.
+const jsonForScript = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+export async function buildPresentation(deck: ExportDeck): Promise<Blob> {
+  const runtime = await fetchExportAsset('runtime/presentation.js');
+  const payload = {
+    title: deck.title,
+    slides: deck.slides.map(slide => ({
+      title: slideTitle(slide),
+      html: standaloneSlideHtml(slide, deck.mode),
+      notes: [...notePoints(slide.notes), ...quizAnswerKey(slide)],
+      narration: slide.notes?.narration.trim() ?? '',
+      duration: slide.notes && slideSeconds(slide.notes) ? formatDuration(slideSeconds(slide.notes)) : '',
+    })),
+  };
+  const title = escapeXml(deck.title);
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+  <style>
+    * { box-sizing: border-box; }
+    html, body { height: 100%; margin: 0; font-family: 'Segoe UI', Arial, sans-serif; background: #0f172a; color: #e2e8f0; overflow: hidden; }
+    body { display: flex; flex-direction: column; }
+    .track { height: 4px; background: #1e293b; }
+    #progress { height: 100%; width: 0; background: ${ACCENT_COLOR}; transition: width .3s; }
+    #stage { position: relative; flex: 1; min-height: 0; }
+    #stage iframe.slide { position: absolute; inset: 0; width: 100%; height: 100%; border: 0; background: #fff; }
+    #stage iframe[hidden] { display: none; }
+    .bar { display: flex; align-items: center; gap: 8px; padding: 8px 16px; background: #111827; font-size: 14px; }
+    .bar button { background: transparent; color: #e2e8f0; border: 1px solid #334155; border-radius: 6px; padding: 6px 12px; font-size: 14px; cursor: pointer; }
+    .bar button:hover, .bar button:focus-visible { border-color: ${ACCENT_COLOR}; color: #fff; outline: none; }
+    #slide-title { flex: 1; overflow: hidden; white-space: nowrap; text-overflow: ellipsis; font-weight: 600; }
+    #counter { color: #94a3b8; min-width: 64px; text-align: center; }
+    #notes { max-height: 30vh; overflow-y: auto; padding: 12px 20px; background: #1e293b; border-top: 2px solid ${ACCENT_COLOR}; font-size: 15px; line-height: 1.5; }
+    #notes h2 { margin: 0 0 6px; font-size: 12px; text-transform: uppercase; letter-spacing: .08em; color: #94a3b8; }
+    #notes p { margin: 0 0 6px; }
+    #notes .narration { margin-top: 10px; padding-top: 8px; border-top: 1px solid #334155; color: #cbd5e1; white-space: pre-line; }
+    #overview { position: fixed; inset: 0; z-index: 10; background: rgba(15, 23, 42, .97); overflow-y: auto; padding: 24px; }
+    #overview header { display: flex; justify-content: space-between; align-items: center; margin-bottom: 16px; }
+    #overview h2 { margin: 0; font-size: 18px; }
+    #overview-grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(240px, 1fr)); gap: 16px; }
+    .thumb { background: none; border: 2px solid transparent; border-radius: 8px; padding: 0; color: inherit; text-align: left; cursor: pointer; font: inherit; }
+    .thumb:hover, .thumb:focus-visible, .thumb.active { border-color: ${ACCENT_COLOR}; outline: none; }
+    .thumb-box { position: relative; aspect-ratio: 16 / 9; overflow: hidden; background: #fff; border-radius: 6px; }
+    .thumb-box iframe { position: absolute; top: 0; left: 0; border: 0; transform-origin: 0 0; pointer-events: none; }
+    .thumb span { display: block; padding: 6px 4px; font-size: 13px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+    [hidden] { display: none !important; }
+  </style>
+</head>
+<body>
+  <div class="track"><div id="progress"></div></div>
+  <main id="stage"></main>
+  <section id="notes" hidden aria-live="polite"><h2>Presenter notes</h2><div id="notes-body"></div></section>
+  <nav class="bar" aria-label="Presentation controls">
+    <button id="prev" title="Previous (←)">&larr;</button>
+    <span id="counter"></span>
+    <button id="next" title="Next (→)">&rarr;</button>
+    <span id="slide-title"></span>
+    <button id="btn-overview" title="Overview (O)">Overview</button>
+    <button id="btn-notes" title="Notes (N)">Notes</button>
+    <button id="btn-fullscreen" title="Fullscreen (F)">Fullscreen</button>
+  </nav>
+  <div id="overview" hidden role="dialog" aria-label="Slide overview">
+    <header><h2>${title}</h2><div class="bar"><button id="overview-close" title="Close (Esc)">Close</button></div></header>
+    <div id="overview-grid"></div>
+  </div>
+  <script id="deck" type="application/json">${jsonForScript(payload)}</script>
+  <script>
+${runtime.replace(/<\/script/gi, '<\\/script')}
+  </script>
+</body>
+</html>`;
+
+  deck.onLog(`[Export] Presentation: ${deck.slides.length} slides in one HTML file (${Math.round(html.length / 1024)} KB).`);
+  return new Blob([html], { type: 'text/html' });
+}
@@ -0,0 +1,147 @@
+// exporters/questionBank.ts
+// The deck's quiz, true/false and matching items as one question bank, for review in Step 5 and for
+// the LMS formats in assessment.ts. Slides are read by DOM parsing: first their interactive data
+// (data blocks, or the model of a structured slide), then quiz markup outside the rendered widgets
+// (the [data-question] / [data-correct] rules in quiz.ts). Slides that look like they hold
+// questions neither pass could read are reported as unread; questionBankPrompt asks the AI to
+// restate those as data blocks, and questionsFromAi turns its answer into bank questions.
+import type { BankQuestion, BankQuestionSource, GeneratedSlide, InteractiveSpec, UnreadSlide } from '../types';
+import { slideTitle } from './shared';
+import { quizQuestionsIn } from './quiz';
+import { INTERACTIVE_RULES, INTERACTIVE_SCHEMAS, interactiveSourceHtml, validateInteractiveSpec } from '../interactives';
+
+const BANK_TYPES = ['quiz', 'truefalse', 'matching'] as const;
+type BankType = typeof BANK_TYPES[number];
+
+const MAX_SLIDE_CHARS = 12_000; // per unread slide in the AI prompt
+const MATCHING_PROMPT = 'Match each item with its pair.';
+
+const isBankType = (type: string): type is BankType => (BANK_TYPES as readonly string[]).includes(type);
+const collapse = (s: string | null | undefined) => (s ?? '').replace(/\s+/g, ' ').trim();
+
+// Questions from validated interactives, numbered from `first` within the slide. AI-read questions
+// get their own numbering ("s3_ai1"), so they never clash with the ones read from the slide.
+export function questionsFromSpecs(slide: GeneratedSlide, specs: InteractiveSpec[], source: BankQuestionSource, first = 1): BankQuestion[] {
+  const out: BankQuestion[] = [];
+  const base = () => ({ id: `s${slide.pageNumber}_${source === 'ai' ? 'ai' : 'q'}${first + out.length}`, pageNumber: slide.pageNumber, slideTitle: slideTitle(slide), source });
+  for (const spec of specs) {
+    switch (spec.type) {
+      case 'quiz':
+        spec.questions.forEach(q => out.push({ ...base(), kind: 'choice', prompt: q.prompt, options: q.options, explanation: q.explanation }));
+        break;
+      case 'truefalse':
+        spec.statements.forEach(s => out.push({ ...base(), kind: 'true-false', prompt: s.statement, answer: s.answer, explanation: s.feedback }));
+        break;
+      case 'matching':
+        out.push({ ...base(), kind: 'matching', prompt: spec.prompt ?? MATCHING_PROMPT, pairs: spec.pairs });
+        break;
+    }
+  }
+  return out;
+}
+
+// Data blocks of a free-form slide; `invalid` lists the bank types whose data didn't validate.
+function dataBlockSpecs(doc: Document): { specs: InteractiveSpec[]; invalid: string[] } {
+  const specs: InteractiveSpec[] = [];
+  const invalid: string[] = [];
+  doc.querySelectorAll('script[data-interactive]').forEach(block => {
+    const type = block.getAttribute('data-interactive') ?? '';
+    let raw: any;
+    try {
+      raw = JSON.parse(block.textContent ?? '');
+    } catch {
+      if (isBankType(type)) invalid.push(type);
+      return;
+    }
+    if (raw && typeof raw === 'object' && !Array.isArray(raw) && raw.type === undefined) raw.type = type;
+    const { spec } = validateInteractiveSpec(raw);
+    if (spec) specs.push(spec);
+    else if (isBankType(type)) invalid.push(type);
+  });
+  return { specs, invalid };
+}
+
+const TRUE_FALSE = ['true', 'false'];
+
+// Hand-written quiz markup; rendered widgets are skipped, their data was read already.
+function markupQuestions(slide: GeneratedSlide, doc: Document, first: number): { questions: BankQuestion[]; unmarked: number } {
+  doc.querySelectorAll('[data-interactive-widget], .si-error, script, style, template').forEach(el => el.remove());
+  const questions: BankQuestion[] = [];
+  let unmarked = 0;
+  for (const q of quizQuestionsIn(doc, slide)) {
+    if (q.options.length < 2 || !q.options.some(o => o.correct)) {
+      unmarked++;
+      continue;
+    }
+    const base = { id: `s${slide.pageNumber}_q${first + questions.length}`, pageNumber: slide.pageNumber, slideTitle: slideTitle(slide), prompt: q.prompt, source: 'markup' as const };
+    const texts = q.options.map(o => o.text.toLowerCase().replace(/[.!]$/, ''));
+    const trueFalse = q.options.length === 2 && TRUE_FALSE.every(t => texts.includes(t)) && q.options.filter(o => o.correct).length === 1;
+    questions.push(trueFalse
+      ? { ...base, kind: 'true-false', answer: texts[q.options.findIndex(o => o.correct)] === 'true' }
+      : { ...base, kind: 'choice', options: q.options });
+  }
+  return { questions, unmarked };
+}
+
+const QUIZ_LIKE = 'input[type="radio"], input[type="checkbox"], select, [draggable="true"], [class*="quiz" i], [id*="quiz" i], [class*="question" i], [class*="matching" i]';
+
+export function extractQuestionBank(slides: GeneratedSlide[]): { questions: BankQuestion[]; unread: UnreadSlide[] } {
+  const questions: BankQuestion[] = [];
+  const unread: UnreadSlide[] = [];
+
+  for (const slide of slides) {
+    if (!slide.complete || !slide.html) continue;
+    const doc = new DOMParser().parseFromString(slide.html, 'text/html');
+    const { specs, invalid } = slide.model ? { specs: slide.model.interactives ?? [], invalid: [] } : dataBlockSpecs(doc);
+    const fromData = questionsFromSpecs(slide, specs, 'interactive');
+    const fromMarkup = markupQuestions(slide, doc, fromData.length + 1);
+    questions.push(...fromData, ...fromMarkup.questions);
+
+    const reasons: string[] = [];
+    if (invalid.length) reasons.push(`${invalid.join(', ')} data that did not validate`);
+    if (fromMarkup.unmarked) reasons.push(`${fromMarkup.unmarked} question${fromMarkup.unmarked === 1 ? '' : 's'} without a marked answer`);
+    // The markup pass removed the widgets, so anything quiz-like left is hand-written.
+    if (!fromMarkup.questions.length && !fromMarkup.unmarked && doc.body?.querySelector(QUIZ_LIKE)) reasons.push('quiz-like markup without data-correct answers');
+    if (reasons.length) unread.push({ pageNumber: slide.pageNumber, reason: reasons.join('; ') });
+  }
+  return { questions, unread };
+}
+
+// --- AI fallback ---
+
+// The slide as the model should read it: data blocks and markup, no styles or runtime.
+function slideSource(slide: GeneratedSlide): string {
+  const doc = new DOMParser().parseFromString(interactiveSourceHtml(slide.html), 'text/html');
+  doc.querySelectorAll('style, link, script:not([data-interactive])').forEach(el => el.remove());
+  const body = collapse(doc.body?.innerHTML);
+  return body.length > MAX_SLIDE_CHARS ? `${body.slice(0, MAX_SLIDE_CHARS)} …` : body;
+}
+
+// Same slide sections as the deck prompt, so every provider (the mock included) can answer it.
+export function questionBankPrompt(slides: GeneratedSlide[], unread: UnreadSlide[]): string {
+  const guide = [
+    'QUESTION EXTRACTION',
+    '- Each slide below is an existing course slide whose questions could not be read automatically.',
+    '- Return exactly one HTML document per slide, in the order given. Its <body> holds only the questions already on that slide, each as <script type="application/json" data-interactive="TYPE">{...}</script>.',
+    '- Do not invent questions or answers. Keep the slide\'s wording. A slide without questions gets an empty <body>.',
+    '- No markdown fences and no commentary.',
+    'TYPE and the JSON Schema its data must match:',
+    ...BANK_TYPES.map(type => `${type}: ${JSON.stringify(INTERACTIVE_SCHEMAS[type])}${INTERACTIVE_RULES[type] ? `\n  Also: ${INTERACTIVE_RULES[type]}.` : ''}`),
+    '',
+  ].join('\n');
+  const sections = unread.map((u, i) => {
+    const slide = slides.find(s => s.pageNumber === u.pageNumber);
+    return `---\nSlide ${i + 1} (Question bank)\nCourse slide ${u.pageNumber}, "${slide ? slideTitle(slide) : ''}" (${u.reason}):\n${slide ? slideSource(slide) : ''}\n`;
+  });
+  return `${guide}\n${sections.join('')}`;
+}
+
+// The AI's documents come back in prompt order, already parsed (see parseSlideDocument).
+export function questionsFromAi(slides: GeneratedSlide[], unread: UnreadSlide[], answers: GeneratedSlide[]): BankQuestion[] {
+  return unread.flatMap((u, i) => {
+    const slide = slides.find(s => s.pageNumber === u.pageNumber);
+    const answer = answers.find(a => a.pageNumber === i + 1);
+    if (!slide || !answer?.interactives) return [];
+    return questionsFromSpecs(slide, answer.interactives.filter(spec => isBankType(spec.type)), 'ai');
+  });
+}
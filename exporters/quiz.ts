@@ -0,0 +1,58 @@
+// exporters/quiz.ts
+// Reads quiz questions back out of generated slide HTML. Uses the same markup rules as
+// tracking-bridge.js: each [data-question] element is a question (the whole slide is one question
+// when none is marked) and its [data-correct="true|false"] descendants are the answer options.
+import type { GeneratedSlide } from '../types';
+import { slideTitle } from './shared';
+
+export interface QuizOption {
+  text: string;
+  correct: boolean;
+}
+
+export interface QuizQuestion {
+  id: string; // same id the bridge reports for the question
+  prompt: string;
+  options: QuizOption[];
+}
+
+const collapse = (s: string | null | undefined) => (s ?? '').replace(/\s+/g, ' ').trim();
+
+// First text block ending in "?" wins; otherwise the first heading or paragraph that isn't an option.
+function promptOf(question: Element, fallback: string): string {
+  const clone = question.cloneNode(true) as Element;
+  clone.querySelectorAll('[data-correct], script, style, template').forEach(el => el.remove());
+  const blocks = Array.from(clone.querySelectorAll('h1, h2, h3, h4, h5, h6, p, legend, label, dt'))
+    .map(el => collapse(el.textContent))
+    .filter(Boolean);
+  return blocks.find(t => t.endsWith('?')) ?? blocks[0] ?? (collapse(clone.textContent) || fallback);
+}
+
+export const extractQuizQuestions = (slide: GeneratedSlide): QuizQuestion[] =>
+  quizQuestionsIn(new DOMParser().parseFromString(slide.html, 'text/html'), slide);
+
+// The same, on an already parsed (and possibly pruned) copy of the slide.
+export function quizQuestionsIn(doc: Document, slide: GeneratedSlide): QuizQuestion[] {
+  const marked = Array.from(doc.querySelectorAll('[data-question]'));
+  const questions = marked.length ? marked : doc.querySelector('[data-correct]') ? [doc.body] : [];
+
+  return questions.map((el, i) => {
+    const rawId = el === doc.body ? 'q1' : (el.getAttribute('data-question') || el.id || `q${i + 1}`);
+    return {
+      id: rawId.replace(/[^A-Za-z0-9_-]/g, '_'),
+      prompt: promptOf(el, el === doc.body ? slideTitle(slide) : `Question ${i + 1}`),
+      options: Array.from(el.querySelectorAll('[data-correct]')).map((opt, j) => ({
+        text: collapse(opt.textContent) || opt.getAttribute('aria-label') || `Option ${j + 1}`,
+        correct: opt.getAttribute('data-correct') === 'true',
+      })),
+    };
+  });
+}
+
+// One line per question ("Q1. prompt Answer: ..."), for speaker and presenter notes. Scored
+// widgets without options (matching, ordering, fill-in) are left out.
+export const quizAnswerKey = (slide: GeneratedSlide): string[] =>
+  extractQuizQuestions(slide).filter(q => q.options.length).map((q, i) => {
+    const answers = q.options.filter(o => o.correct).map(o => o.text);
+    return `Q${i + 1}. ${q.prompt} Answer: ${answers.join('; ') || 'not marked'}.`;
+  });
@@ -0,0 +1,68 @@
+// exporters/scorm.test.ts
+// The interaction responses scorm-api.js (the SCORM runtime the package ships) writes for each
+// interaction type, in the SCORM 2004 and 1.2 formats.
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { JSDOM } from 'jsdom';
+
+const RUNTIME = readFileSync(new URL('../public/export/runtime/scorm-api.js', import.meta.url), 'utf8');
+
+// Runs the runtime against a fake LMS API and answers one question per entry of `answers`;
+// returns the response recorded for each.
+function recordResponses(version: '1.2' | '2004', answers: { kind: string; response: string }[]) {
+  const values: Record<string, string> = {};
+  const get = (k: string) => values[k] ?? '';
+  const set = (k: string, v: string) => {
+    values[k] = v;
+    const m = /^cmi\.interactions\.(\d+)\.id$/.exec(k);
+    if (m) values['cmi.interactions._count'] = String(Number(m[1]) + 1);
+    return 'true';
+  };
+  const ok = () => 'true';
+  const api = version === '2004'
+    ? { API_1484_11: { Initialize: ok, GetValue: get, SetValue: set, Commit: ok, Terminate: ok } }
+    : { API: { LMSInitialize: ok, LMSGetValue: get, LMSSetValue: set, LMSCommit: ok, LMSFinish: ok } };
+  const { window } = new JSDOM('<!DOCTYPE html><html><body></body></html>', { runScripts: 'outside-only' });
+  Object.assign(window, api, { COURSE: { scorm: { version } } });
+  window.eval(RUNTIME);
+  const tracker = (window as any).CourseTracker;
+  tracker.start({ slides: [{}] }, 0);
+  answers.forEach((answer, i) => tracker.answer(0, { id: `q${i + 1}`, correct: true, ...answer }));
+  const field = version === '2004' ? 'learner_response' : 'student_response';
+  return answers.map((_a, i) => values[`cmi.interactions.${i}.${field}`]);
+}
+
+const ANSWERS = [
+  { kind: 'matching', response: 'Oil pump|Intake valve, left|' },
+  { kind: 'sequencing', response: '2,0,1' },
+  { kind: 'fill-in', response: 'every month|the seals' },
+  { kind: 'true-false', response: 'false' },
+  { kind: 'choice', response: 'Pump room [B]' },
+];
+
+describe('scorm-api.js interaction responses', () => {
+  it('uses the SCORM 2004 delimiters and keeps fill-in text as typed', () => {
+    expect(recordResponses('2004', ANSWERS)).toEqual([
+      '1[.]Oil%20pump[,]2[.]Intake%20valve,%20left',
+      '2[,]0[,]1',
+      'every month[,]the seals',
+      'false',
+      'Pump%20room%20%5BB%5D',
+    ]);
+  });
+
+  it('uses the SCORM 1.2 formats and escapes only their delimiters', () => {
+    expect(recordResponses('1.2', ANSWERS)).toEqual([
+      '1.Oil pump,2.Intake valve%2C left',
+      '2,0,1',
+      'every month|the seals',
+      'f',
+      'Pump room [B]',
+    ]);
+  });
+
+  it('keeps SCORM 1.2 responses within 255 characters', () => {
+    const [response] = recordResponses('1.2', [{ kind: 'fill-in', response: 'x'.repeat(300) }]);
+    expect(response).toHaveLength(255);
+  });
+});
@@ -0,0 +1,139 @@
+// exporters/scorm.ts
+// SCORM 1.2 and SCORM 2004 4th Edition packages. One SCO per slide: every manifest item launches
+// the player at its slide (index.html?slide=N), and scorm-api.js reports that slide's status,
+// quiz score and bookmark. 2004 adds flow sequencing so the player's Previous/Next drive the LMS.
+import JSZip from 'jszip';
+import type { GeneratedSlide } from '../types';
+import type { ExportDeck } from './shared';
+import { escapeXml, slideTitle, fetchExportAsset } from './shared';
+import { writePlayer, PLAYER_FILES } from './player';
+
+export type ScormVersion = '1.2' | '2004';
+
+// Scaled score a quiz slide needs to be passed.
+const MASTERY_SCORE = 0.8;
+
+const SCHEMA_FILES: Record<ScormVersion, string[]> = {
+  '1.2': ['imscp_rootv1p1p2.xsd', 'imsmd_rootv1p2p1.xsd', 'adlcp_rootv1p2.xsd', 'ims_xml.xsd'],
+  '2004': [
+    'imscp_v1p1.xsd', 'adlcp_v1p3.xsd', 'adlseq_v1p3.xsd', 'adlnav_v1p3.xsd', 'imsss_v1p0.xsd',
+    'imsss_v1p0auxresource.xsd', 'imsss_v1p0control.xsd', 'imsss_v1p0delivery.xsd', 'imsss_v1p0limit.xsd',
+    'imsss_v1p0objective.xsd', 'imsss_v1p0random.xsd', 'imsss_v1p0rollup.xsd', 'imsss_v1p0seqrule.xsd',
+    'imsss_v1p0util.xsd', 'xml.xsd', 'XMLSchema.dtd', 'datatypes.dtd',
+  ],
+};
+
+const SCHEMA_DIR: Record<ScormVersion, string> = { '1.2': 'scorm12', '2004': 'scorm2004' };
+
+// Slides with scored questions (quiz options or scored interactives, see interactives.ts) get a mastery score.
+export const hasQuiz = (slide: GeneratedSlide) =>
+  !!new DOMParser().parseFromString(slide.html, 'text/html').querySelector('[data-correct], [data-question]');
+
+interface ManifestInput {
+  identifier: string;
+  title: string;
+  slides: { pageNumber: number; title: string; quiz: boolean }[];
+  sharedFiles: string[];
+}
+
+const fileList = (files: string[], indent: string) => files.map(f => `${indent}<file href="${escapeXml(f)}"/>`).join('\n');
+
+function manifest12({ identifier, title, slides, sharedFiles }: ManifestInput): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifier}" version="1.0"
+          xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+          xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2"
+          xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+          xsi:schemaLocation="http://www.imsproject.org/xsd/imscp_rootv1p1p2 imscp_rootv1p1p2.xsd http://www.imsglobal.org/xsd/imsmd_rootv1p2p1 imsmd_rootv1p2p1.xsd http://www.adlnet.org/xsd/adlcp_rootv1p2 adlcp_rootv1p2.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>1.2</schemaversion>
+  </metadata>
+  <organizations default="ORG">
+    <organization identifier="ORG">
+      <title>${escapeXml(title)}</title>
+${slides.map(s => `      <item identifier="ITEM_${s.pageNumber}" identifierref="SCO_${s.pageNumber}" isvisible="true" parameters="?slide=${s.pageNumber}">
+        <title>${escapeXml(s.title)}</title>${s.quiz ? `
+        <adlcp:masteryscore>${Math.round(MASTERY_SCORE * 100)}</adlcp:masteryscore>` : ''}
+      </item>`).join('\n')}
+    </organization>
+  </organizations>
+  <resources>
+${slides.map(s => `    <resource identifier="SCO_${s.pageNumber}" type="webcontent" adlcp:scormtype="sco" href="${PLAYER_FILES.index}">
+      <file href="slides/slide_${s.pageNumber}.html"/>
+      <dependency identifierref="PLAYER"/>
+    </resource>`).join('\n')}
+    <resource identifier="PLAYER" type="webcontent" adlcp:scormtype="asset">
+${fileList(sharedFiles, '      ')}
+    </resource>
+  </resources>
+</manifest>`;
+}
+
+function manifest2004({ identifier, title, slides, sharedFiles }: ManifestInput): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifier}" version="1"
+          xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+          xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3"
+          xmlns:adlseq="http://www.adlnet.org/xsd/adlseq_v1p3"
+          xmlns:adlnav="http://www.adlnet.org/xsd/adlnav_v1p3"
+          xmlns:imsss="http://www.imsglobal.org/xsd/imsss"
+          xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+          xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 imscp_v1p1.xsd http://www.adlnet.org/xsd/adlcp_v1p3 adlcp_v1p3.xsd http://www.adlnet.org/xsd/adlseq_v1p3 adlseq_v1p3.xsd http://www.adlnet.org/xsd/adlnav_v1p3 adlnav_v1p3.xsd http://www.imsglobal.org/xsd/imsss imsss_v1p0.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>2004 4th Edition</schemaversion>
+  </metadata>
+  <organizations default="ORG">
+    <organization identifier="ORG" adlseq:objectivesGlobalToSystem="false">
+      <title>${escapeXml(title)}</title>
+${slides.map(s => `      <item identifier="ITEM_${s.pageNumber}" identifierref="SCO_${s.pageNumber}" isvisible="true" parameters="?slide=${s.pageNumber}">
+        <title>${escapeXml(s.title)}</title>${s.quiz ? `
+        <imsss:sequencing>
+          <imsss:objectives>
+            <imsss:primaryObjective objectiveID="slide_${s.pageNumber}_quiz" satisfiedByMeasure="true">
+              <imsss:minNormalizedMeasure>${MASTERY_SCORE}</imsss:minNormalizedMeasure>
+            </imsss:primaryObjective>
+          </imsss:objectives>
+        </imsss:sequencing>` : ''}
+      </item>`).join('\n')}
+      <imsss:sequencing>
+        <imsss:controlMode choice="true" flow="true"/>
+      </imsss:sequencing>
+    </organization>
+  </organizations>
+  <resources>
+${slides.map(s => `    <resource identifier="SCO_${s.pageNumber}" type="webcontent" adlcp:scormType="sco" href="${PLAYER_FILES.index}">
+      <file href="slides/slide_${s.pageNumber}.html"/>
+      <dependency identifierref="PLAYER"/>
+    </resource>`).join('\n')}
+    <resource identifier="PLAYER" type="webcontent" adlcp:scormType="asset">
+${fileList(sharedFiles, '      ')}
+    </resource>
+  </resources>
+</manifest>`;
+}
+
+export async function buildScormPackage(deck: ExportDeck, version: ScormVersion, identifier: string): Promise<Blob> {
+  const zip = new JSZip();
+  const files = await writePlayer(zip, deck, {
+    trackerScripts: [{ path: 'player/scorm-api.js', source: await fetchExportAsset('runtime/scorm-api.js') }],
+    courseConfig: { scorm: { version, masteryScore: MASTERY_SCORE } },
+  });
+
+  for (const name of SCHEMA_FILES[version]) {
+    zip.file(name, await fetchExportAsset(`schemas/${SCHEMA_DIR[version]}/${name}`));
+  }
+
+  const input: ManifestInput = {
+    // Manifest identifiers are xs:ID values, which may not start with a digit.
+    identifier: `MANIFEST_${identifier.replace(/[^A-Za-z0-9_.-]/g, '_')}`,
+    title: deck.title,
+    slides: deck.slides.map(s => ({ pageNumber: s.pageNumber, title: slideTitle(s), quiz: hasQuiz(s) })),
+    sharedFiles: files.filter(f => !f.startsWith('slides/')),
+  };
+  zip.file('imsmanifest.xml', version === '1.2' ? manifest12(input) : manifest2004(input));
+  deck.onLog(`[Export] SCORM ${version} package: ${deck.slides.length} SCOs, ${input.slides.filter(s => s.quiz).length} with quizzes.`);
+
+  return zip.generateAsync({ type: 'blob' });
+}
@@ -0,0 +1,57 @@
+// exporters/shared.ts
+// Helpers shared by the download formats (plain ZIP, SCORM, ...).
+import type { AgenticMode, GeneratedSlide } from '../types';
+import { titleFromHtml } from '../utils/topicTitle';
+
+export interface ExportDeck {
+  title: string; // course topic
+  slides: GeneratedSlide[]; // already cleaned/inlined for strict mode
+  mode: AgenticMode;
+  onLog: (message: string) => void;
+}
+
+export const escapeXml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+export const safeFileName = (topic: string | undefined) => topic?.replace(/[\W_]+/g, '_') || 'slides';
+
+export const slideTitle = (slide: GeneratedSlide) => slide.model?.title ?? titleFromHtml(slide.html, `Slide ${slide.pageNumber}`);
+
+export const slideFileName = (slide: GeneratedSlide) => `slide_${slide.pageNumber}.html`;
+
+// Slides normally arrive as full documents; fragments get a minimal shell.
+export function standaloneSlideHtml(slide: GeneratedSlide, mode: AgenticMode): string {
+  if (/<!DOCTYPE html>/i.test(slide.html)) return slide.html;
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Slide ${slide.pageNumber}</title>
+    ${mode === 'free' ? '<script src="https://cdn.tailwindcss.com?plugins=typography"></script>' : ''}
+  </head>
+  <body>${slide.html}</body>
+</html>`;
+}
+
+export function injectBeforeBodyEnd(html: string, snippet: string): string {
+  const i = html.search(/<\/body>/i);
+  return i === -1 ? html + snippet : html.slice(0, i) + snippet + html.slice(i);
+}
+
+// Static runtime files and schemas shipped in public/export/.
+export async function fetchExportAsset(path: string): Promise<string> {
+  const res = await fetch(new URL(`export/${path}`, document.baseURI));
+  if (!res.ok) throw new Error(`Could not load export asset ${path} (${res.status}).`);
+  return res.text();
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+}
@@ -0,0 +1,78 @@
+// exporters/xapi.ts
+// xAPI / cmi5 package. The whole deck is a single assignable unit: xapi-runtime.js sends
+// experienced/answered/completed/passed statements to the LRS named in the launch URL, and
+// cmi5.xml describes the course so a cmi5 LMS can import and launch it. tincan.xml covers
+// LMSs that still launch plain xAPI content.
+import JSZip from 'jszip';
+import type { ExportDeck } from './shared';
+import { escapeXml, fetchExportAsset } from './shared';
+import { writePlayer, PLAYER_FILES } from './player';
+import { extractQuizQuestions } from './quiz';
+
+// Scaled course score needed to pass; same bar as the SCORM quiz slides.
+const MASTERY_SCORE = 0.8;
+
+interface CourseStructureInput {
+  courseId: string;
+  auId: string;
+  title: string;
+  description: string;
+  graded: boolean;
+}
+
+const langstring = (text: string) => `<langstring lang="en-US">${escapeXml(text)}</langstring>`;
+
+function cmi5Xml({ courseId, auId, title, description, graded }: CourseStructureInput): string {
+  const moveOn = graded ? `moveOn="CompletedAndPassed" masteryScore="${MASTERY_SCORE}"` : 'moveOn="Completed"';
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<courseStructure xmlns="https://w3id.org/xapi/profiles/cmi5/v1/CourseStructure.xsd">
+  <course id="${escapeXml(courseId)}">
+    <title>${langstring(title)}</title>
+    <description>${langstring(description)}</description>
+  </course>
+  <au id="${escapeXml(auId)}" ${moveOn} launchMethod="AnyWindow">
+    <title>${langstring(title)}</title>
+    <description>${langstring(description)}</description>
+    <url>${PLAYER_FILES.index}</url>
+  </au>
+</courseStructure>`;
+}
+
+function tincanXml({ auId, title, description }: CourseStructureInput): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tincan xmlns="http://projecttincan.com/tincan.xsd">
+  <activities>
+    <activity id="${escapeXml(auId)}" type="http://adlnet.gov/expapi/activities/course">
+      <name>${escapeXml(title)}</name>
+      <description lang="en-US">${escapeXml(description)}</description>
+      <launch lang="en-US">${PLAYER_FILES.index}</launch>
+    </activity>
+  </activities>
+</tincan>`;
+}
+
+export async function buildXapiPackage(deck: ExportDeck, identifier: string): Promise<Blob> {
+  const courseId = `urn:ai-slide-studio:course:${identifier}`;
+  const auId = `${courseId}:au`;
+  const questions = deck.slides.map(s => extractQuizQuestions(s).length);
+  const total = questions.reduce((a, b) => a + b, 0);
+
+  const zip = new JSZip();
+  await writePlayer(zip, deck, {
+    trackerScripts: [{ path: 'player/xapi-runtime.js', source: await fetchExportAsset('runtime/xapi-runtime.js') }],
+    courseConfig: { xapi: { activityId: auId, masteryScore: total ? MASTERY_SCORE : null, questions } },
+  });
+
+  const input: CourseStructureInput = {
+    courseId,
+    auId,
+    title: deck.title,
+    description: `${deck.slides.length} slides${total ? `, ${total} quiz questions` : ''}.`,
+    graded: total > 0,
+  };
+  zip.file('cmi5.xml', cmi5Xml(input));
+  zip.file('tincan.xml', tincanXml(input));
+  deck.onLog(`[Export] xAPI/cmi5 package: ${deck.slides.length} slides, ${total} tracked questions, moveOn ${input.graded ? 'CompletedAndPassed' : 'Completed'}.`);
+
+  return zip.generateAsync({ type: 'blob' });
+}
@@ -0,0 +1,35 @@
+// exporters/zip.ts
+// The plain download: one standalone HTML file per slide, captions and a transcript for narrated
+// videos (see captions.ts), plus the speaker notes when there are any.
+import JSZip from 'jszip';
+import type { ExportDeck } from './shared';
+import { slideFileName, slideTitle, standaloneSlideHtml } from './shared';
+import { captionFiles } from './captions';
+import { formatDuration, hasNotes, notePoints, slideSeconds } from '../utils/speakerNotes';
+
+function speakerNotesMarkdown(deck: ExportDeck): string {
+  const sections = deck.slides.filter(s => hasNotes(s.notes)).map(slide => {
+    const notes = slide.notes!;
+    const lines = [`## ${slide.pageNumber}. ${slideTitle(slide)}`, '', `File: ${slideFileName(slide)} · Target: ${formatDuration(slideSeconds(notes))}`, ''];
+    const points = notePoints(notes);
+    if (points.length) lines.push('### Speaker notes', '', ...points.map(p => `- ${p}`), '');
+    if (notes.narration.trim()) lines.push('### Narration', '', notes.narration.trim(), '');
+    return lines.join('\n');
+  });
+  return [`# ${deck.title}: speaker notes`, '', ...sections].join('\n');
+}
+
+export async function buildSlidesZip(deck: ExportDeck): Promise<Blob> {
+  const zip = new JSZip();
+  deck.slides.forEach(slide => zip.file(slideFileName(slide), standaloneSlideHtml(slide, deck.mode)));
+  if (deck.slides.some(s => hasNotes(s.notes))) zip.file('speaker_notes.md', speakerNotesMarkdown(deck));
+  Object.entries(captionFiles(deck)).forEach(([path, content]) => zip.file(path, content));
+  return zip.generateAsync({ type: 'blob' });
+}
+
+// Just the caption set, for the video team.
+export async function buildCaptionsZip(deck: ExportDeck): Promise<Blob> {
+  const zip = new JSZip();
+  Object.entries(captionFiles(deck)).forEach(([path, content]) => zip.file(path.replace(/^captions\//, ''), content));
+  return zip.generateAsync({ type: 'blob' });
+}
@@ -0,0 +1,97 @@
+// extractSlides.test.ts
+// Slides pulled out of streamed model output: plain-text streams through walkText, and the
+// notes, citations, model and interactives parseSlideDocument separates from the HTML.
+import { describe, expect, it } from 'vitest';
+import { createExtractionState, finalizeSlides, parseSlideDocument, walkText } from './extractSlides';
+import { slideModelEnvelope } from './slideModel';
+
+const noLog = () => {};
+const doc = (title: string) => `<!DOCTYPE html><html><head><title>${title}</title></head><body><h1>${title}</h1></body></html>`;
+
+// Feeds `text` to walkText in chunks of `size` characters and records every partial.
+function stream(text: string, size: number, firstPos = 1) {
+  const state = createExtractionState();
+  const partials: { pos: number; html: string; complete: boolean }[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    walkText(state, text.slice(i, i + size), noLog, (pos, html, complete) => partials.push({ pos, html, complete }), firstPos);
+  }
+  return { state, partials };
+}
+
+describe('walkText', () => {
+  it('turns each document in the text into the next slide position', () => {
+    const { state, partials } = stream(`Here is the deck.\n${doc('One')}\n\n${doc('Two')}\nDone.`, 7);
+    const complete = partials.filter(p => p.complete);
+    expect(complete).toEqual([
+      { pos: 1, html: doc('One'), complete: true },
+      { pos: 2, html: doc('Two'), complete: true },
+    ]);
+    expect(finalizeSlides(state).map(s => s.position)).toEqual([1, 2]);
+  });
+
+  it('finds a start tag split across chunks', () => {
+    const text = `x${doc('Split')}`;
+    const state = createExtractionState();
+    const completed: string[] = [];
+    const onPartial = (_pos: number, html: string, complete: boolean) => complete && completed.push(html);
+    walkText(state, text.slice(0, 6), noLog, onPartial); // "x<!DOC"
+    walkText(state, text.slice(6), noLog, onPartial);
+    expect(completed).toEqual([doc('Split')]);
+  });
+
+  it('reports a growing document until it closes, then ignores it', () => {
+    const { partials } = stream(doc('Grow'), 20);
+    expect(partials.length).toBeGreaterThan(2);
+    partials.slice(0, -1).forEach(p => expect(p.complete).toBe(false));
+    expect(partials.at(-1)).toEqual({ pos: 1, html: doc('Grow'), complete: true });
+    partials.forEach((p, i) => i && expect(p.html.startsWith(partials[i - 1].html)).toBe(true));
+  });
+
+  it('numbers positions from firstPos', () => {
+    const { partials } = stream(doc('Five'), 1000, 5);
+    expect(partials).toEqual([{ pos: 5, html: doc('Five'), complete: true }]);
+  });
+});
+
+describe('parseSlideDocument', () => {
+  const notes = '<script type="application/json" id="slide-notes">{"points": ["- First"], "narration": "Say this.", "durationSeconds": 40}</script>\n';
+  const sources = '<script type="application/json" id="slide-sources">{"references": [{"id": "p2", "quote": "every 30 days"}, "p4"]}</script>\n';
+
+  it('cuts the notes and sources blocks out of a free-form slide', () => {
+    const html = `<!DOCTYPE html><html><head>${notes}${sources}</head><body><p>Pumps are serviced monthly.</p></body></html>`;
+    const parsed = parseSlideDocument(html);
+    expect(parsed.html).toBe('<!DOCTYPE html><html><head></head><body><p>Pumps are serviced monthly.</p></body></html>');
+    expect(parsed.notes).toEqual({ points: ['First'], narration: 'Say this.', durationSeconds: 40 });
+    expect(parsed.references).toEqual([{ id: 'p2', quote: 'every 30 days' }, { id: 'p4' }]);
+    expect(parsed.model).toBeUndefined();
+  });
+
+  it('drops a malformed sources block without failing the slide', () => {
+    const parsed = parseSlideDocument(`<html><head><script type="application/json" id="slide-sources">[not json</script></head><body></body></html>`);
+    expect(parsed.references).toBeUndefined();
+    expect(parsed.html).toBe('<html><head></head><body></body></html>');
+  });
+
+  it('renders interactive data blocks and reports invalid ones', () => {
+    const block = (type: string, json: string) => `<script type="application/json" data-interactive="${type}">${json}</script>`;
+    const html = `<html><head></head><body>${block('cloze', '{"text": "Pumps run on [[oil]]."}')}${block('quiz', '{"questions": []}')}</body></html>`;
+    const parsed = parseSlideDocument(html);
+    expect(parsed.interactives).toEqual([{ type: 'cloze', text: 'Pumps run on [[oil]].' }]);
+    expect(parsed.interactiveErrors?.[0]).toMatch(/^interactive 2\.questions/);
+    expect(parsed.html).toContain('data-interactive-widget="cloze"');
+    expect(parsed.html).toContain('class="si-error"');
+  });
+
+  it('reads the model and its notes from a structured envelope', () => {
+    const envelope = slideModelEnvelope({
+      title: 'Pump care',
+      layout: 'content',
+      blocks: [{ type: 'paragraph', text: 'Service monthly.' }],
+      notes: { points: ['Why monthly'], narration: '', durationSeconds: 30 },
+    }, 3);
+    const parsed = parseSlideDocument(envelope);
+    expect(parsed.model).toMatchObject({ title: 'Pump care', layout: 'content', blocks: [{ type: 'paragraph', text: 'Service monthly.' }] });
+    expect(parsed.notes).toEqual({ points: ['Why monthly'], narration: '', durationSeconds: 30 });
+    expect(parsed.html).toBe(envelope);
+  });
+});
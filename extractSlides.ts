@@ -1,4 +1,9 @@
 // extractSlides.ts
+import type { InteractiveSpec, SlideModel, SlideNotes, SlideReference } from './types';
+import { normalizeNotes } from './utils/speakerNotes';
+import { normalizeReferences } from './grounding';
+import { parseSlideModel } from './slideModel';
+import { embedInteractives } from './interactives';
 
 export type OnPartialHtml = (pos: number, html: string, complete: boolean) => void;
 
@@ -6,12 +11,19 @@ export type OnPartialHtml = (pos: number, html: string, complete: boolean) => vo
 export interface StreamExtractionState {
     toolState: Record<number, { buf: string; lastLen: number; finalized: boolean; }>;
     assistantBuf: string;
+    // Cursor for plain-text streams (see walkText): where the open document starts, and where to resume scanning.
+    textDocStart: number;
+    textScanFrom: number;
+    textDocCount: number;
 }
 
 export function createExtractionState(): StreamExtractionState {
     return {
         toolState: {},
         assistantBuf: "",
+        textDocStart: -1,
+        textScanFrom: 0,
+        textDocCount: 0,
     };
 }
 
@@ -109,6 +121,50 @@ export function walkEvent(state: StreamExtractionState, obj: any, log: (s: strin
     if (typeof delta === "string" && delta) state.assistantBuf += delta;
 }
 
+const DOC_START_RE = /<!doctype html|<html[\s>]/gi;
+const DOC_END_RE = /<\/html>/i;
+
+// For providers that stream the deck as plain text (chat completions, Gemini) rather than GLM tool calls.
+// Each HTML document in the text becomes the next slide position, starting at `firstPos`, and is
+// surfaced through the same toolState/onPartial path as tool output.
+export function walkText(state: StreamExtractionState, delta: string, log: (s: string) => void, onPartial?: OnPartialHtml, firstPos = 1) {
+    if (!delta) return;
+    state.assistantBuf += delta;
+
+    while (true) {
+        const buf = state.assistantBuf;
+        if (state.textDocStart < 0) {
+            DOC_START_RE.lastIndex = state.textScanFrom;
+            const m = DOC_START_RE.exec(buf);
+            if (!m) {
+                // Keep a tail so a start tag split across chunks is found next time.
+                state.textScanFrom = Math.max(state.textScanFrom, buf.length - 16);
+                return;
+            }
+            state.textDocStart = m.index;
+            state.textDocCount++;
+        }
+
+        const pos = firstPos + state.textDocCount - 1;
+        const rest = buf.slice(state.textDocStart);
+        const close = DOC_END_RE.exec(rest);
+        const doc = close ? rest.slice(0, close.index + close[0].length) : rest;
+        const s = upsertPos(state, pos);
+        if (!s.finalized && doc.length !== s.lastLen) {
+            if (s.lastLen === 0) log(`[text] pos=${pos} document started`);
+            s.buf = doc;
+            s.lastLen = doc.length;
+            onPartial?.(pos, doc, !!close);
+        }
+        if (!close) return;
+
+        s.finalized = true;
+        log(`[text] pos=${pos} finalized with </html> tag (len=${doc.length}).`);
+        state.textScanFrom = state.textDocStart + doc.length;
+        state.textDocStart = -1;
+    }
+}
+
 const HTML_DOC_RE = /<!doctype html[\s\S]*?<\/html>/i;
 const HTML_TAG_RE = /<html[\s\S]*?<\/html>/i;
 
@@ -117,7 +173,73 @@ function cutFirstHtmlDoc(s: string): string | null {
     return m ? m[0].trim() : null;
 }
 
-export function finalizeSlides(state: StreamExtractionState): { position: number; html: string }[] {
+// The prompt asks for each slide's speaker notes as a JSON block in its <head>:
+// <script type="application/json" id="slide-notes">{"points": [...], "narration": "...", "durationSeconds": 60}</script>
+// It is cut out of the HTML so exported slides never carry the presenter's notes.
+const NOTES_BLOCK_RE = /<script\b[^>]*\bid=["']slide-notes["'][^>]*>([\s\S]*?)<\/script>[ \t]*\n?/i;
+
+export function splitSlideNotes(html: string): { html: string; notes?: SlideNotes } {
+    const m = NOTES_BLOCK_RE.exec(html);
+    if (!m) return { html };
+    const rest = html.slice(0, m.index) + html.slice(m.index + m[0].length);
+    try {
+        const notes = normalizeNotes(JSON.parse(m[1]));
+        return notes ? { html: rest, notes } : { html: rest };
+    } catch {
+        return { html: rest };
+    }
+}
+
+// Document-based decks also cite their sources in a block of their own (see grounding.ts); it is
+// cut out the same way, so the references live on the slide rather than in its HTML.
+const SOURCES_BLOCK_RE = /<script\b[^>]*\bid=["']slide-sources["'][^>]*>([\s\S]*?)<\/script>[ \t]*\n?/i;
+
+export function splitSlideSources(html: string): { html: string; references?: SlideReference[] } {
+    const m = SOURCES_BLOCK_RE.exec(html);
+    if (!m) return { html };
+    const rest = html.slice(0, m.index) + html.slice(m.index + m[0].length);
+    try {
+        const references = normalizeReferences(JSON.parse(m[1]));
+        return references ? { html: rest, references } : { html: rest };
+    } catch {
+        return { html: rest };
+    }
+}
+
+export interface SlideDocument {
+    html: string;
+    notes?: SlideNotes;
+    references?: SlideReference[];
+    model?: SlideModel;
+    modelErrors?: string[];
+    interactives?: InteractiveSpec[];
+    interactiveErrors?: string[];
+}
+
+// Notes, plus the validated model when the slide is a structured envelope (see slideModel.ts).
+// Envelope slides keep their envelope HTML here; App renders them with the selected theme.
+// Free-form slides get their interactive data blocks rendered (see interactives.ts).
+export function parseSlideDocument(html: string): SlideDocument {
+    const sources = splitSlideSources(html);
+    const doc: SlideDocument = splitSlideNotes(sources.html);
+    if (sources.references) doc.references = sources.references;
+    const parsed = parseSlideModel(doc.html);
+    if (!parsed) {
+        const embedded = embedInteractives(doc.html);
+        doc.html = embedded.html;
+        if (embedded.interactives.length) doc.interactives = embedded.interactives;
+        if (embedded.errors.length) doc.interactiveErrors = embedded.errors;
+        return doc;
+    }
+    if (parsed.model) doc.model = parsed.model;
+    if (parsed.model?.interactives) doc.interactives = parsed.model.interactives;
+    if (parsed.errors.length) doc.modelErrors = parsed.errors;
+    const notes = doc.notes ?? normalizeNotes(parsed.notes);
+    if (notes) doc.notes = notes;
+    return doc;
+}
+
+export function finalizeSlides(state: StreamExtractionState): ({ position: number } & SlideDocument)[] {
     const entries = Object.entries(state.toolState)
         .map(([pos, st]) => [Number(pos), st.buf] as const)
         .filter(([, buf]) => buf && buf.trim().length > 0)
@@ -154,5 +276,5 @@ export function finalizeSlides(state: StreamExtractionState): { position: number
         }
     }
 
-    return slides;
+    return slides.map(s => ({ position: s.position, ...parseSlideDocument(s.html) }));
 }
\ No newline at end of file
@@ -0,0 +1,120 @@
+// glmApi.test.ts
+// Reconnecting a dropped agents stream: resuming after Last-Event-ID with the extraction state and
+// seen ids kept, and starting over when the server answers the resume with a new stream.
+import { describe, expect, it } from 'vitest';
+import type { GeneratedSlide, StreamReconnect } from './types';
+import { runGlmStream } from './glmApi';
+
+const frame = (id: number, data: unknown) => `id: ${id}\ndata: ${JSON.stringify(data)}\n\n`;
+const tool = (position: number, cumulative: string) => ({
+  conversation_id: 'conv-1',
+  choices: [{ messages: [{ phase: 'tool', content: [{ type: 'object', object: { tool_name: 'add_page', position: [position], output_delta: cumulative } }] }] }],
+});
+
+const SLIDE = '<!DOCTYPE html><html><body><h1>Pumps</h1><p>Service monthly.</p></body></html>';
+// The slide arrives as cumulative output in three events, then [DONE].
+const FRAMES = [
+  'retry: 1\n\n',
+  frame(1, tool(1, SLIDE.slice(0, 30))),
+  frame(2, tool(1, SLIDE.slice(0, 60))),
+  frame(3, tool(1, SLIDE)),
+  'id: 4\ndata: [DONE]\n\n',
+];
+
+// A 200 event-stream response; with `dropAfter` the read fails once that much has been sent.
+function sseResponse(text: string, dropAfter?: number): Response {
+  const bytes = new TextEncoder().encode(dropAfter == null ? text : text.slice(0, dropAfter));
+  let sent = false;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (!sent) {
+        sent = true;
+        controller.enqueue(bytes);
+      } else if (dropAfter == null) {
+        controller.close();
+      } else {
+        controller.error(new TypeError('network error: connection reset'));
+      }
+    },
+  });
+  return new Response(body, { status: 200, headers: { 'content-type': 'text/event-stream' } });
+}
+
+// Runs the stream against `serve`, which gets the Last-Event-ID of each request in turn.
+async function run(serve: (lastEventId: string | undefined, request: number) => Response) {
+  const requests: (string | undefined)[] = [];
+  const partials: string[] = [];
+  const reconnects: StreamReconnect[] = [];
+  const restarts: StreamReconnect[] = [];
+  let completed: GeneratedSlide[] | null = null;
+  let error: string | null = null;
+  await runGlmStream(async lastEventId => {
+    requests.push(lastEventId);
+    return serve(lastEventId, requests.length);
+  }, {
+    onPartial: (_pos, html) => partials.push(html),
+    onReconnect: info => reconnects.push(info),
+    onRestart: info => restarts.push(info),
+    onComplete: (_conv, slides) => { completed = slides; },
+    onError: message => { error = message; },
+  });
+  return { requests, partials, reconnects, restarts, completed: completed as GeneratedSlide[] | null, error };
+}
+
+// Cut in the middle of the third frame, after events 1 and 2 arrived.
+const DROP_AT = FRAMES.slice(0, 3).join('').length + 20;
+
+describe('runGlmStream reconnects', () => {
+  it('resumes after Last-Event-ID and carries on with the half-written slide', async () => {
+    const result = await run((lastEventId, request) => request === 1
+      ? sseResponse(FRAMES.join(''), DROP_AT)
+      : sseResponse(FRAMES.filter(f => Number(/^id: (\d+)/m.exec(f)?.[1]) > Number(lastEventId)).join('')));
+    expect(result.error).toBeNull();
+    expect(result.requests).toEqual([undefined, '2']);
+    expect(result.reconnects).toMatchObject([{ attempt: 1, lastEventId: '2' }]);
+    expect(result.restarts).toEqual([]);
+    expect(result.completed?.map(s => s.html)).toEqual([SLIDE]);
+    // Output only ever grows: the resumed events extend what was already there.
+    result.partials.forEach((html, i) => i && expect(html.startsWith(result.partials[i - 1])).toBe(true));
+  });
+
+  it('skips events the resumed stream sends again', async () => {
+    // This server resends from event 2 rather than after it.
+    const result = await run((_lastEventId, request) => request === 1
+      ? sseResponse(FRAMES.join(''), DROP_AT)
+      : sseResponse(['retry: 1\n\n', ...FRAMES.slice(2)].join('')));
+    expect(result.restarts).toEqual([]);
+    expect(result.completed?.map(s => s.html)).toEqual([SLIDE]);
+    expect(result.partials.filter(html => html === SLIDE.slice(0, 60))).toHaveLength(1);
+  });
+
+  it('starts over when the server answers the resume with a new stream', async () => {
+    const other = SLIDE.replace('Pumps', 'Valves');
+    const fresh = ['retry: 1\n\n', frame(1, tool(1, other.slice(0, 40))), frame(2, tool(1, other)), 'id: 3\ndata: [DONE]\n\n'].join('');
+    const result = await run((_lastEventId, request) => (request === 1 ? sseResponse(FRAMES.join(''), DROP_AT) : sseResponse(fresh)));
+    expect(result.error).toBeNull();
+    expect(result.requests).toEqual([undefined, '2']);
+    expect(result.restarts).toMatchObject([{ attempt: 1, lastEventId: '2', restarted: true }]);
+    // Nothing of the first stream is mixed into the slide.
+    expect(result.completed?.map(s => s.html)).toEqual([other]);
+  });
+
+  it('starts over when the new stream belongs to another conversation', async () => {
+    const renamed = FRAMES.join('').replace(/conv-1/g, 'conv-2');
+    const result = await run((_lastEventId, request) => (request === 1
+      ? sseResponse(FRAMES.join(''), DROP_AT)
+      : sseResponse(renamed.slice(renamed.indexOf('id: 3')))));
+    expect(result.restarts).toHaveLength(1);
+  });
+
+  it('stops when the server has nothing left to resume', async () => {
+    const result = await run((_lastEventId, request) => (request === 1
+      ? sseResponse(FRAMES.join(''), DROP_AT)
+      : new Response(null, { status: 204 })));
+    expect(result.requests).toHaveLength(2);
+    expect(result.error).toBeNull();
+    // What arrived before the drop is kept as the slide.
+    expect(result.completed).toHaveLength(1);
+    expect(result.completed?.[0].html).toContain('<h1>Pumps</h1>');
+  });
+});
@@ -1,7 +1,12 @@
-import type { GeneratedSlide } from './types';
-import { createSSEParser } from './sse';
+import type { GeneratedSlide, StreamReconnect } from './types';
+import { createSSEParser, SSEEvent } from './sse';
 import { createExtractionState, walkEvent, finalizeSlides, OnPartialHtml } from './extractSlides';
-import { debugFetch, debugEnabled } from '../utils/debug';
+import { debugFetch, debugEnabled } from './utils/debug';
+import { PROXY_BASE_URL, sessionToken } from './auth';
+
+// bigmodel.cn is reached through the proxy (server/proxy.ts), which adds the API key.
+const GLM_AGENTS_URL = `${PROXY_BASE_URL}/glm/agents`;
+const GLM_AGENT_ID = 'slides_glm_agent';
 
 
 // --- tiny debug helpers (no new files, no UI changes)
@@ -13,25 +18,27 @@ const log = (onLog?: (s: string)=>void, ch = "NET", msg = "") => {
 
 interface GlmApiParams {
   prompt: string;
-  apiKey: string;
   onComplete?: (conversationId: string, slides: GeneratedSlide[]) => void;
   onError?: (error: string) => void;
-  onPartial?: (data: { pos: number; html: string; complete: boolean }) => void;
+  onPartial?: OnPartialHtml;
   conversationId?: string;
   signal?: AbortSignal;
   onLog?: (message: string) => void;
+  onReconnect?: (info: StreamReconnect) => void;
+  onRestart?: (info: StreamReconnect) => void;
   kbId?: string;
 }
 
 export async function callGlmAgent({
   prompt,
-  apiKey,
   onComplete,
   onError,
   onPartial,
   conversationId,
   signal,
   onLog,
+  onReconnect,
+  onRestart,
   kbId,
 }: GlmApiParams) {
   const body: {
@@ -41,7 +48,7 @@ export async function callGlmAgent({
     conversation_id?: string;
     tools?: any[];
   } = {
-    agent_id: 'slides_glm_agent',
+    agent_id: GLM_AGENT_ID,
     stream: true,
     messages: [
       {
@@ -59,51 +66,118 @@ export async function callGlmAgent({
     onLog?.(`[GLM API] Knowledge Base ID available: ${kbId}`);
   }
 
-  try {
-    onLog?.(`[GLM API] Sending request... Conversation ID: ${conversationId || 'New'}`);
-    const response = await debugFetch('https://open.bigmodel.cn/api/v1/agents', {
+  return runGlmStream(lastEventId => {
+    onLog?.(`[GLM API] ${lastEventId ? `Resuming stream after event ${lastEventId}` : 'Sending request'}... Conversation ID: ${conversationId || 'New'}`);
+    const token = sessionToken();
+    if (!token) throw new Error('Your session has no access to the generation service. Please log out and sign in again.');
+    return debugFetch(GLM_AGENTS_URL, {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${apiKey}`,
+        'Authorization': `Bearer ${token}`,
         'Content-Type': 'application/json',
-        'Accept': 'text/event-stream'
+        'Accept': 'text/event-stream',
+        ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
       },
       body: JSON.stringify(body),
       signal,
     }, onLog, { label: "agents", bodyPreview: false, retries: 3 });
-    
-    onLog?.(`[GLM API] Request sent. Status: ${response.status}`);
+  }, { conversationId, onComplete, onError, onPartial, onLog, onReconnect, onRestart }, signal);
+}
 
-    if (!response.ok || !response.body) {
-      const errorText = await response.text();
-      throw new Error(`API request failed: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-    
-    const ctype = response.headers.get("content-type") || "";
-    log(onLog, "SSE", `connected status=${response.status} ray=${response.headers.get("cf-ray") || "-"} content-type=${ctype}`);
+export interface GlmStreamHandlers {
+  conversationId?: string;
+  onComplete?: (conversationId: string, slides: GeneratedSlide[]) => void;
+  onError?: (error: string) => void;
+  onPartial?: OnPartialHtml;
+  onLog?: (message: string) => void;
+  onReconnect?: (info: StreamReconnect) => void;
+  // The server answered a resume with a new stream: the output received so far is discarded.
+  onRestart?: (info: StreamReconnect) => void;
+}
+
+// Used until the server sends a `retry:` hint.
+const DEFAULT_RECONNECT_DELAY_MS = 1000;
+const MAX_STREAM_RECONNECTS = 5;
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
+// The first event after a reconnect shows whether the server honoured Last-Event-ID. A new
+// generation is plain when its ids start over (the stream's first id again), when it has no ids
+// where the old stream had them, or when it belongs to another conversation.
+function startsNewStream(evt: SSEEvent, firstEventId: string | undefined, conversationId: string): boolean {
+  if (firstEventId && (!evt.id || evt.id === firstEventId)) return true;
+  if (!conversationId) return false;
+  try {
+    const other = JSON.parse(evt.data)?.conversation_id;
+    return typeof other === 'string' && other !== conversationId;
+  } catch {
+    return false;
+  }
+}
+
+const abortableDelay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('The operation was aborted.', 'AbortError'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    }, { once: true });
+  });
+
+// Reads a GLM agents event stream (from the API or any stand-in producing the same frames)
+// through the SSE parser and slide extraction, and reports the result via the handlers.
+// A dropped connection is reopened with the last event id; the extraction state and the seen ids
+// carry over, so slides that were half written continue where they stopped. A server that ignores
+// Last-Event-ID answers with a new generation instead (see startsNewStream); only then is the
+// output so far discarded and the new stream read from scratch.
+export async function runGlmStream(
+  open: (lastEventId?: string) => Promise<Response>,
+  { conversationId, onComplete, onError, onPartial, onLog, onReconnect, onRestart }: GlmStreamHandlers,
+  signal?: AbortSignal
+) {
+  try {
     let finalConvId = conversationId || '';
     let rawSseBuffer = '';
     
     const logFn = onLog || (() => {});
-    const extractionState = createExtractionState();
-    const seenEventIds = new Set<string>();
-
-    const onPartialCallback: OnPartialHtml = (pos, html, complete) => {
-        onPartial?.({ pos, html, complete });
-    };
+    let extractionState = createExtractionState();
+    let seenEventIds = new Set<string>();
+    let firstEventId: string | undefined;
+    let lastEventId: string | undefined;
+    let retryMs = DEFAULT_RECONNECT_DELAY_MS;
+    let reconnects = 0;
+    // The reconnect whose first event still has to show whether the server resumed.
+    let pendingResume: StreamReconnect | null = null;
     
     let shouldBreakLoop = false;
-    const parse = createSSEParser(evt => {
+    let streamError: string | null = null;
+    const handleEvent = (evt: SSEEvent) => {
+        if (evt.retry) {
+            retryMs = evt.retry;
+            log(onLog, "SSE", `server retry hint ${retryMs}ms`);
+        }
+        if (pendingResume && evt.data) {
+            const reconnect = pendingResume;
+            pendingResume = null;
+            if (startsNewStream(evt, firstEventId, finalConvId)) {
+                logFn(`[GLM API] The server answered Last-Event-ID ${reconnect.lastEventId} with a new stream (first event ${evt.id ?? 'without an id'}). Discarding the output so far.`);
+                extractionState = createExtractionState();
+                seenEventIds = new Set<string>();
+                firstEventId = undefined;
+                lastEventId = undefined;
+                finalConvId = conversationId || '';
+                onRestart?.({ ...reconnect, restarted: true });
+            }
+        }
         if (evt.id && seenEventIds.has(evt.id)) {
             if (debugEnabled("sse")) log(onLog, "SSE", `dedup skip id=${evt.id}`);
             return;
         }
         if (evt.id) {
             seenEventIds.add(evt.id);
+            firstEventId ??= evt.id;
+            lastEventId = evt.id;
         }
+        if (!evt.data) return;
 
         if (debugEnabled("sse-raw")) log(onLog, "SSE-RAW", evt.data);
 
@@ -115,6 +189,13 @@ export async function callGlmAgent({
             }
             const eventData = JSON.parse(evt.data);
 
+            if (eventData?.error) {
+                streamError = String(eventData.error.message ?? eventData.error.code ?? JSON.stringify(eventData.error));
+                logFn(`[SSE] Server reported an error mid-stream: ${streamError}`);
+                shouldBreakLoop = true;
+                return;
+            }
+
             if (debugEnabled("sse")) {
                 const choice = eventData?.choices?.[0];
                 const msg = choice?.messages?.[0] ?? choice?.message;
@@ -139,36 +220,98 @@ export async function callGlmAgent({
             if (eventData.conversation_id && !finalConvId) {
                 finalConvId = eventData.conversation_id;
             }
-            walkEvent(extractionState, eventData, logFn, onPartialCallback);
+            walkEvent(extractionState, eventData, logFn, onPartial);
         } catch (e) {
              logFn(`[SSE] Error parsing event data: ${e}. Data: ${evt.data}`);
         }
-    });
+    };
 
-    onLog?.('[GLM API] Waiting for stream...');
     while (true) {
-      const { done, value } = await reader.read();
-      if (done) {
-        logFn?.('[GLM API] Stream closed by server.');
+      const response = await open(lastEventId);
+      onLog?.(`[GLM API] Request sent. Status: ${response.status}`);
+
+      // Per the SSE spec, 204 tells a reconnecting client there is nothing more to send.
+      if (reconnects > 0 && response.status === 204) {
+        logFn('[GLM API] Server has nothing left to resume (204).');
         break;
       }
-      const chunk = decoder.decode(value, { stream: true });
-      rawSseBuffer += chunk;
-      parse(chunk);
+      if (response.status === 401) {
+        throw new Error('Your session has expired. Please log out and sign in again.');
+      }
+      if (response.status === 429) {
+        const retryAfter = response.headers.get('retry-after');
+        const { error } = await response.json().catch(() => ({ error: 'Rate limit reached.' }));
+        throw new Error(`${error}${retryAfter ? ` Please try again in ${retryAfter} seconds.` : ''}`);
+      }
+      if (!response.ok || !response.body) {
+        const errorText = await response.text();
+        throw new Error(`API request failed: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+      
+      const ctype = response.headers.get("content-type") || "";
+      log(onLog, "SSE", `connected status=${response.status} ray=${response.headers.get("cf-ray") || "-"} content-type=${ctype}`);
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      // A fresh parser per connection: a frame cut off by the drop is resent after Last-Event-ID.
+      const parse = createSSEParser(handleEvent);
+      let dropReason: string | null = null;
+
+      onLog?.('[GLM API] Waiting for stream...');
+      while (true) {
+        let result: ReadableStreamReadResult<Uint8Array>;
+        try {
+          result = await reader.read();
+        } catch (e: any) {
+          if (e?.name === 'AbortError') throw e;
+          dropReason = e?.message || String(e);
+          break;
+        }
+        if (result.done) {
+          logFn?.('[GLM API] Stream closed by server.');
+          break;
+        }
+        const chunk = decoder.decode(result.value, { stream: true });
+        rawSseBuffer += chunk;
+        parse(chunk);
+
+        if (shouldBreakLoop) {
+          logFn?.(`[GLM API] Breaking read loop after receiving ${streamError ? 'an error event' : '[DONE]'}.`);
+          break;
+        }
+      }
 
-      if (shouldBreakLoop) {
-        logFn?.('[GLM API] Breaking read loop after receiving [DONE].');
+      // Without [DONE], a close in the middle of a slide document is a dropped connection too.
+      if (!dropReason && !shouldBreakLoop && Object.values(extractionState.toolState).some(t => !t.finalized)) {
+        dropReason = 'stream closed before the current slide was finished';
+      }
+      if (!dropReason) {
+        parse("", { flush: true }); // Flush any remaining buffer
         break;
       }
+
+      reader.cancel().catch(() => {});
+      if (reconnects >= MAX_STREAM_RECONNECTS) {
+        throw new Error(`The connection dropped (${dropReason}) and could not be resumed after ${MAX_STREAM_RECONNECTS} attempts.`);
+      }
+      reconnects++;
+      const info: StreamReconnect = { attempt: reconnects, at: new Date().toISOString(), reason: dropReason, lastEventId, delayMs: retryMs };
+      logFn(`[GLM API] Connection dropped (${dropReason}). Reconnecting in ${retryMs}ms (attempt ${reconnects}/${MAX_STREAM_RECONNECTS}, Last-Event-ID: ${lastEventId ?? 'none'})...`);
+      onReconnect?.(info);
+      pendingResume = info;
+      await abortableDelay(retryMs, signal);
     }
     
-    parse("", { flush: true }); // Flush any remaining buffer
     onLog?.('[GLM API] Stream finished.');
 
     if (typeof window !== 'undefined') {
         (window as any).__SSE_LAST__ = { runId: finalConvId, raw: rawSseBuffer };
     }
 
+    if (streamError) {
+      throw new Error(`The generation service reported an error: ${streamError}`);
+    }
+
     if (onComplete) {
       const finalDeck = finalizeSlides(extractionState);
       const finalSlides: GeneratedSlide[] = finalDeck.map(s => ({
@@ -176,6 +319,11 @@ export async function callGlmAgent({
           html: s.html,
           draft: s.html,
           complete: true,
+          ...(s.notes ? { notes: s.notes } : {}),
+          ...(s.model ? { model: s.model } : {}),
+          ...(s.modelErrors ? { modelErrors: s.modelErrors } : {}),
+          ...(s.interactives ? { interactives: s.interactives } : {}),
+          ...(s.interactiveErrors ? { interactiveErrors: s.interactiveErrors } : {}),
       }));
       onComplete(finalConvId, finalSlides);
     }
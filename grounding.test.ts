@@ -0,0 +1,54 @@
+// grounding.test.ts
+// Slide claims checked against the retrieved passages.
+import { describe, expect, it } from 'vitest';
+import type { SourcePassage } from './types';
+import { checkClaims, flaggedClaimsInstruction, normalizeReferences } from './grounding';
+
+const passages: SourcePassage[] = [
+  { id: 'p1', file: 'manual.pdf', location: 'p. 4', text: 'Pumps are serviced every 30 days by the maintenance regulation team.' },
+  { id: 'p2', file: 'manual.pdf', location: 'p. 9', text: 'Visitors must sign in at reception and wear a badge.' },
+];
+
+describe('checkClaims', () => {
+  it('supports a claim whose words the best passage contains', () => {
+    const { score, claims } = checkClaims(['Visitors sign in at reception and wear a badge.'], passages);
+    expect(claims[0]).toMatchObject({ supported: true, sourceId: 'p2', score: 1 });
+    expect(score).toBe(1);
+  });
+
+  it('counts near matches on a shared word stem', () => {
+    const [claim] = checkClaims(['Pumps are serviced by the regulatory maintenance team.'], passages).claims;
+    expect(claim.supported).toBe(true);
+    expect(claim.score).toBeLessThan(1);
+  });
+
+  it('rejects a claim whose number is not in the passage', () => {
+    const [claim] = checkClaims(['Pumps are serviced every 60 days by the maintenance team.'], passages).claims;
+    expect(claim).toMatchObject({ supported: false, score: 0 });
+  });
+
+  it('rejects claims the passages say nothing about', () => {
+    const { score, claims } = checkClaims(['Visitors sign in at reception and wear a badge.', 'Forklifts are charged overnight in bay three.'], passages);
+    expect(claims[1].supported).toBe(false);
+    expect(score).toBe(0.5);
+  });
+
+  it('scores a slide without claims as grounded', () => {
+    expect(checkClaims([], passages)).toEqual({ score: 1, claims: [] });
+  });
+});
+
+describe('normalizeReferences', () => {
+  it('reads entries and bare ids, dropping entries without an id and duplicates', () => {
+    const raw = { references: [{ id: '[p1]', quote: ' every 30 days ' }, { quote: 'no id' }, 'p2', { id: 'p1', quote: 'every 30 days' }] };
+    expect(normalizeReferences(raw)).toEqual([{ id: 'p1', quote: 'every 30 days' }, { id: 'p2' }]);
+    expect(normalizeReferences({})).toBeUndefined();
+  });
+});
+
+describe('flaggedClaimsInstruction', () => {
+  it('numbers the flagged sentences', () => {
+    const text = flaggedClaimsInstruction([{ text: 'A.', score: 0, supported: false }, { text: 'B.', score: 0.2, supported: false }]);
+    expect(text.split('\n').slice(-2)).toEqual(['1. "A."', '2. "B."']);
+  });
+});
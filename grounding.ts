@@ -0,0 +1,224 @@
+// grounding.ts
+// Source citations for document-based decks. Every retrieved passage gets an id, its file and its
+// page or section, and the ground-truth context shows the model each passage under that tag. The
+// model cites what each slide rests on in a JSON block in the slide's <head>:
+// <script type="application/json" id="slide-sources">[{"id": "c12", "quote": "...", "claim": "..."}]</script>
+// which splitSlideSources (extractSlides.ts) cuts out like the speaker notes. Step 5's Sources
+// drawer pairs the references with the slide's passages and highlights the quoted words.
+// After generation, checkSlideGrounding splits each slide's visible text into sentences and
+// looks for every one of them in the passages, so Step 5 can flag what the document doesn't say.
+import type { ClaimCheck, GeneratedSlide, SlideGroundingCheck, SlideReference, SourcePassage } from './types';
+import type { RetrieveResponseItem } from './n8nApi';
+import { tokenize } from './localRetrieval';
+
+export const SOURCES_BLOCK_ID = 'slide-sources';
+
+const MAX_QUOTE_WORDS = 25;
+
+export const passageLabel = (p: Pick<SourcePassage, 'file' | 'location'>) => (p.location ? `${p.file}, ${p.location}` : p.file);
+
+// Passages per slide id. The local index sends its chunks; an n8n response without `sources`
+// becomes one passage per slide, so its slides can still be cited as a whole.
+export function groundingBySlide(items: RetrieveResponseItem[], fileNames: string[] = []): Map<number, SourcePassage[]> {
+  const bySlide = new Map<number, SourcePassage[]>();
+  const file = fileNames.join(', ') || 'Uploaded document';
+  for (const item of items) {
+    const passages = item.sources?.length
+      ? item.sources.map((p, i) => ({ ...p, id: String(p.id || `s${item.id}_${i + 1}`) }))
+      : item.SlideContent?.trim() ? [{ id: `s${item.id}`, file, text: item.SlideContent.trim() }] : [];
+    bySlide.set(item.id, passages);
+  }
+  return bySlide;
+}
+
+// The CONTEXT block of the deck prompt: each slide's passages, each under its tag.
+export function groundTruthContext(bySlide: Map<number, SourcePassage[]>): string {
+  return Array.from(bySlide.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([id, passages]) => `### Slide ${id}\n${passages.map(p => `[${p.id}] (${passageLabel(p)})\n${p.text}`).join('\n\n')}`)
+    .join('\n\n---\n\n');
+}
+
+export const buildSourcesGuide = () => [
+  'SOURCE CITATIONS (every slide)',
+  '- Each passage in the CONTEXT starts with its id in brackets, e.g. [c12], followed by its file and page or section.',
+  `- In the <head> of each slide, list the passages its facts come from as <script type="application/json" id="${SOURCES_BLOCK_ID}">[{"id": "c12", "quote": "...", "claim": "..."}]</script>.`,
+  `- id: only ids from the CONTEXT. quote: up to ${MAX_QUOTE_WORDS} words copied exactly from that passage. claim: the statement on the slide it supports, in a short sentence.`,
+  '- Do not show the ids or a reference list on the slide itself.',
+  ''
+].join('\n');
+
+// The same instruction for a revision, with the slide's passages repeated so any provider can cite them.
+export function revisionSourcesNote(passages: SourcePassage[]): string {
+  return `\nKeep facts to these passages and update the <script type="application/json" id="${SOURCES_BLOCK_ID}"> block in its <head> ` +
+    `(entries {"id", "quote", "claim"}; quote copied exactly from the passage):\n` +
+    passages.map(p => `[${p.id}] (${passageLabel(p)})\n${p.text}`).join('\n\n');
+}
+
+// Model output is loosely shaped: a bare array, or {"references": [...]}, or bare ids.
+export function normalizeReferences(raw: any): SlideReference[] | undefined {
+  const list = Array.isArray(raw) ? raw : Array.isArray(raw?.references) ? raw.references : Array.isArray(raw?.sources) ? raw.sources : [];
+  const seen = new Set<string>();
+  const refs: SlideReference[] = [];
+  for (const entry of list) {
+    const id = String(typeof entry === 'string' || typeof entry === 'number' ? entry : entry?.id ?? '').replace(/^\[|\]$/g, '').trim();
+    if (!id) continue;
+    const quote = typeof entry?.quote === 'string' ? entry.quote.trim() : '';
+    const claim = typeof entry?.claim === 'string' ? entry.claim.trim() : '';
+    const key = `${id}\u0000${quote}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    refs.push({ id, ...(quote ? { quote } : {}), ...(claim ? { claim } : {}) });
+  }
+  return refs.length ? refs : undefined;
+}
+
+// `text` as a pattern that ignores case and how the words are spaced.
+function looseRegExp(text: string): RegExp | null {
+  const words = text.split(/\s+/).filter(Boolean);
+  return words.length ? new RegExp(words.map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+'), 'i') : null;
+}
+
+// Where in `text` the reference's support is: the quote when it appears (ignoring case and
+// spacing), else the sentence sharing the most words with the quote and claim.
+export function supportingSpan(text: string, ref: SlideReference): { start: number; end: number } | null {
+  const quoted = ref.quote ? looseRegExp(ref.quote.replace(/^["'“‘]+|["'”’.…]+$/g, ''))?.exec(text) : null;
+  if (quoted) return { start: quoted.index, end: quoted.index + quoted[0].length };
+  const wanted = new Set(tokenize(`${ref.quote ?? ''} ${ref.claim ?? ''}`));
+  if (!wanted.size) return null;
+  let best: { start: number; end: number; score: number } | null = null;
+  const sentenceRe = /[^.!?\n]+[.!?]*/g;
+  let m: RegExpExecArray | null;
+  while ((m = sentenceRe.exec(text))) {
+    const score = new Set(tokenize(m[0]).filter(t => wanted.has(t))).size;
+    const lead = m[0].length - m[0].trimStart().length;
+    if (score && (!best || score > best.score)) best = { start: m.index + lead, end: m.index + m[0].trimEnd().length, score };
+  }
+  return best && { start: best.start, end: best.end };
+}
+
+// --- Verification ---
+
+const SUPPORTED_SCORE = 0.6; // share of a claim's words the best passage must contain
+const MIN_CLAIM_TERMS = 4; // shorter sentences (labels, headings) are not checked, unless they hold a number
+const STEM_PREFIX = 6; // "regulation" and "regulatory" count as a near match
+const NEAR_MATCH = 0.75;
+
+const INLINE_TAGS = new Set(['A', 'ABBR', 'B', 'BDI', 'BDO', 'BR', 'CITE', 'CODE', 'DATA', 'DFN', 'EM', 'I', 'KBD', 'MARK', 'Q', 'S', 'SAMP', 'SMALL', 'SPAN', 'STRONG', 'SUB', 'SUP', 'TIME', 'U', 'VAR', 'WBR']);
+// Not slide prose: code and styling, form controls, and the rendered interactives, whose
+// distractors are wrong on purpose.
+const NOT_CHECKED = 'script, style, template, noscript, svg, button, select, textarea, [data-interactive-widget], .si-error, [aria-hidden="true"]';
+
+// The element's own text: its text nodes and inline children, with nested blocks left out.
+function ownText(el: Element): string {
+  let text = '';
+  el.childNodes.forEach(node => {
+    if (node.nodeType === 3) text += node.textContent ?? '';
+    else if (node.nodeType === 1) text += INLINE_TAGS.has((node as Element).tagName.toUpperCase()) ? node.textContent ?? '' : ' ';
+  });
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function textBlocks(doc: Document): Element[] {
+  doc.querySelectorAll(NOT_CHECKED).forEach(el => el.remove());
+  if (!doc.body) return [];
+  return [doc.body, ...Array.from(doc.body.querySelectorAll('*'))].filter(el => !INLINE_TAGS.has(el.tagName.toUpperCase()) && ownText(el));
+}
+
+const sentencesIn = (text: string) => text.split(/(?<=[.!?])\s+(?=[\p{Lu}\p{N}"'(])/u).map(s => s.trim()).filter(Boolean);
+
+const isClaim = (sentence: string) => {
+  const terms = tokenize(sentence).length;
+  return terms >= MIN_CLAIM_TERMS || (terms >= 2 && /\d/.test(sentence));
+};
+
+// The sentences of a slide worth checking, in reading order.
+export function slideClaims(html: string): string[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const claims = textBlocks(doc).flatMap(el => sentencesIn(ownText(el))).filter(isClaim);
+  return Array.from(new Set(claims));
+}
+
+const numbersIn = (text: string) => new Set(text.match(/\d+(?:[.,]\d+)*/g) ?? []);
+
+// How much of the claim the passage covers. Numbers have to appear as they are: a claim whose
+// figure is not in the passage isn't supported by it, whatever else matches.
+function coverage(claim: { terms: string[]; numbers: Set<string> }, passage: { terms: Set<string>; numbers: Set<string> }): number {
+  const { terms: claimTerms } = claim;
+  const passageTerms = passage.terms;
+  if (Array.from(claim.numbers).some(n => !passage.numbers.has(n))) return 0;
+  if (!claimTerms.length) return 1;
+  const stems = new Set(Array.from(passageTerms, t => (t.length >= STEM_PREFIX ? t.slice(0, STEM_PREFIX) : t)));
+  const found = claimTerms.reduce((sum, t) =>
+    sum + (passageTerms.has(t) ? 1 : t.length >= STEM_PREFIX && stems.has(t.slice(0, STEM_PREFIX)) ? NEAR_MATCH : 0), 0);
+  return found / claimTerms.length;
+}
+
+export function checkClaims(claims: string[], passages: SourcePassage[]): SlideGroundingCheck {
+  const indexed = passages.map(p => ({ id: p.id, terms: new Set(tokenize(p.text)), numbers: numbersIn(p.text) }));
+  const checked: ClaimCheck[] = claims.map(text => {
+    const claim = { terms: Array.from(new Set(tokenize(text))), numbers: numbersIn(text) };
+    let best: { id?: string; score: number } = { score: 0 };
+    for (const p of indexed) {
+      const score = coverage(claim, p);
+      if (score > best.score) best = { id: p.id, score };
+    }
+    const score = Math.round(best.score * 100) / 100;
+    return { text, score, ...(best.id ? { sourceId: best.id } : {}), supported: score >= SUPPORTED_SCORE };
+  });
+  const supported = checked.filter(c => c.supported).length;
+  return { score: checked.length ? supported / checked.length : 1, claims: checked };
+}
+
+// The slide's text against every passage the deck was given: the model saw all of them, so a fact
+// from a neighbouring slide's passage still counts as grounded.
+export const checkSlideGrounding = (slide: GeneratedSlide, passages: SourcePassage[]): SlideGroundingCheck =>
+  checkClaims(slideClaims(slide.html), passages);
+
+export const unsupportedClaims = (slide: GeneratedSlide): ClaimCheck[] =>
+  (slide.groundingCheck?.claims ?? []).filter(c => !c.supported);
+
+// Preview only: unsupported sentences wrapped in <mark data-ungrounded>, or their whole block
+// outlined when a sentence runs across several elements (bold words, links).
+export function markUnsupportedClaims(html: string, claims: ClaimCheck[]): string {
+  const flagged = claims.filter(c => !c.supported);
+  if (!flagged.length) return html;
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const skip = new Set(Array.from(doc.querySelectorAll(NOT_CHECKED)).flatMap(el => [el, ...Array.from(el.querySelectorAll('*'))]));
+  const blocks = [doc.body, ...Array.from(doc.body?.querySelectorAll('*') ?? [])]
+    .filter((el): el is HTMLElement => !!el && !skip.has(el) && !INLINE_TAGS.has(el.tagName.toUpperCase()) && !!ownText(el));
+  for (const claim of flagged) {
+    const pattern = looseRegExp(claim.text);
+    const block = pattern && blocks.find(el => pattern.test(ownText(el)));
+    if (!pattern || !block) continue;
+    const title = `Not found in the source document (best match ${Math.round(claim.score * 100)}%)`;
+    const node = Array.from(block.childNodes).find(n => n.nodeType === 3 && pattern.test(n.textContent ?? ''));
+    if (!node) {
+      block.setAttribute('data-ungrounded', '');
+      block.setAttribute('title', title);
+      continue;
+    }
+    const text = node.textContent ?? '';
+    const m = pattern.exec(text)!;
+    const mark = doc.createElement('mark');
+    mark.setAttribute('data-ungrounded', '');
+    mark.setAttribute('title', title);
+    mark.textContent = m[0];
+    node.parentNode!.insertBefore(doc.createTextNode(text.slice(0, m.index)), node);
+    node.parentNode!.insertBefore(mark, node);
+    node.textContent = text.slice(m.index + m[0].length);
+  }
+  const style = doc.createElement('style');
+  style.textContent = 'mark[data-ungrounded]{background:#fde68a;color:inherit;text-decoration:underline wavy #d97706;} [data-ungrounded]:not(mark){outline:2px dashed #d97706;outline-offset:2px;}';
+  (doc.head ?? doc.body)?.appendChild(style);
+  return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+}
+
+// The revision instruction for "Regenerate flagged sentences": only those sentences, by number.
+export function flaggedClaimsInstruction(claims: ClaimCheck[]): string {
+  return [
+    'These sentences are not supported by the source passages. Rewrite each one so it only says what the passages support, or remove it if they say nothing about it.',
+    'Leave every other part of the slide exactly as it is.',
+    ...claims.map((c, i) => `${i + 1}. "${c.text}"`),
+  ].join('\n');
+}
@@ -1,15 +1,20 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import AudienceView from './screens/AudienceView';
+import { AUDIENCE_PARAM } from './utils/presenterChannel';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Presenter mode opens this page again as its audience window (?audience=<session>).
+const audienceSession = new URLSearchParams(window.location.search).get(AUDIENCE_PARAM);
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {audienceSession ? <AudienceView session={audienceSession} /> : <App />}
   </React.StrictMode>
 );
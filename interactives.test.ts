@@ -0,0 +1,57 @@
+// interactives.test.ts
+// Validation of the model's interactive data against INTERACTIVE_SCHEMAS and INTERACTIVE_RULES.
+import { describe, expect, it } from 'vitest';
+import { checkRequestedInteractives, validateInteractiveSpec } from './interactives';
+
+const quiz = {
+  type: 'quiz',
+  questions: [{ prompt: ' What is  BM25? ', options: [{ text: 'A ranking function', correct: true }, { text: 'A codec', correct: false }] }],
+};
+
+describe('validateInteractiveSpec', () => {
+  it('accepts a valid spec and normalizes its text', () => {
+    const { spec, errors } = validateInteractiveSpec(quiz);
+    expect(errors).toEqual([]);
+    expect(spec).toMatchObject({ type: 'quiz', questions: [{ prompt: 'What is BM25?' }] });
+  });
+
+  it('rejects unknown types and non-objects', () => {
+    expect(validateInteractiveSpec({ type: 'poll' }).errors[0]).toMatch(/interactive\.type "poll" is not one of quiz/);
+    expect(validateInteractiveSpec('quiz').errors).toEqual(['interactive is not an object']);
+  });
+
+  it('reports schema errors by path and renders nothing', () => {
+    const { spec, errors } = validateInteractiveSpec({ type: 'matching', pairs: [{ left: 'a', right: 'b' }] }, 'slide.interactive');
+    expect(spec).toBeNull();
+    expect(errors.join('\n')).toMatch(/slide\.interactive\.pairs/);
+  });
+
+  it('applies the rules JSON Schema cannot express', () => {
+    const noCorrect = { ...quiz, questions: [{ ...quiz.questions[0], options: quiz.questions[0].options.map(o => ({ ...o, correct: false })) }] };
+    expect(validateInteractiveSpec(noCorrect).errors).toEqual(['interactive.questions[0] has no correct option']);
+    expect(validateInteractiveSpec({ type: 'ordering', items: ['One', 'one ', 'Two'] }).errors).toEqual([]);
+    expect(validateInteractiveSpec({ type: 'ordering', items: ['One', ' One', 'Two'] }).errors).toEqual(['interactive.items must all be different']);
+    expect(validateInteractiveSpec({ type: 'cloze', text: 'No blanks here.' }).errors).toEqual(['interactive.text has no [[blank]]']);
+    const hotspot = {
+      type: 'hotspot',
+      prompt: 'Find the valve',
+      image: { src: 'javascript:alert(1)', alt: 'Pump' },
+      spots: [{ x: 10, y: 10, label: 'Valve', correct: true }, { x: 50, y: 50, label: 'Pipe', correct: false }],
+    };
+    expect(validateInteractiveSpec(hotspot).errors).toEqual(['interactive.image.src must be an http(s) or data:image URL']);
+  });
+});
+
+describe('checkRequestedInteractives', () => {
+  const spec = (type: string) => validateInteractiveSpec(type === 'quiz' ? quiz : { type: 'cloze', text: 'A [[blank]].' }).spec!;
+
+  it('passes when the requested types come back in order', () => {
+    expect(checkRequestedInteractives(['quiz', 'cloze'], [spec('quiz'), spec('cloze')])).toEqual([]);
+  });
+
+  it('reports missing, unrequested and reordered interactives', () => {
+    expect(checkRequestedInteractives(['quiz', 'cloze'], [spec('quiz')])).toEqual(['"cloze" was requested but none valid came back']);
+    expect(checkRequestedInteractives(['quiz'], [spec('quiz'), spec('cloze')])).toEqual(['"cloze" was not requested']);
+    expect(checkRequestedInteractives(['quiz', 'cloze'], [spec('cloze'), spec('quiz')])).toEqual(['interactives appear as cloze, quiz instead of quiz, cloze']);
+  });
+});
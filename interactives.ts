@@ -0,0 +1,642 @@
+// interactives.ts
+// Interactive elements as data. The model only writes an InteractiveSpec (JSON matching one of
+// INTERACTIVE_SCHEMAS); the studio validates it, renders the widget markup itself and adds one
+// shared vanilla-JS runtime for the behaviour. Markup is rendered up front rather than by the
+// runtime so exporters that read slides without running scripts (quiz answer keys, PPTX,
+// handouts, captions) still see the questions and cards.
+import type { InteractiveSpec } from './types';
+import { InteractiveElement } from './types';
+
+export type InteractiveType = InteractiveSpec['type'];
+
+export const INTERACTIVE_SPEC_TYPES: Record<InteractiveElement, InteractiveType> = {
+  [InteractiveElement.QUIZ]: 'quiz',
+  [InteractiveElement.FLASHCARDS]: 'flashcards',
+  [InteractiveElement.MATCHING]: 'matching',
+  [InteractiveElement.INFOGRAPHICS]: 'infographic',
+  [InteractiveElement.ORDERING]: 'ordering',
+  [InteractiveElement.FILL_IN_THE_BLANK]: 'cloze',
+  [InteractiveElement.HOTSPOT]: 'hotspot',
+  [InteractiveElement.TRUE_FALSE]: 'truefalse',
+  [InteractiveElement.SCENARIO]: 'scenario',
+};
+
+// --- Schemas ---
+// The subset of JSON Schema the validator below understands. The same objects are shown to the model.
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'boolean' | 'number' | 'integer' | ('string' | 'number')[];
+  const?: string;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+const str: JsonSchema = { type: 'string', minLength: 1 };
+const optionalStr: JsonSchema = { type: 'string' };
+const list = (items: JsonSchema, minItems: number, maxItems: number): JsonSchema => ({ type: 'array', items, minItems, maxItems });
+const object = (properties: Record<string, JsonSchema>, required: string[]): JsonSchema => ({ type: 'object', properties, required });
+
+export const INTERACTIVE_SCHEMAS: Record<InteractiveType, JsonSchema> = {
+  quiz: object({
+    type: { const: 'quiz' },
+    questions: list(object({
+      prompt: str,
+      options: list(object({ text: str, correct: { type: 'boolean' } }, ['text', 'correct']), 2, 6),
+      explanation: optionalStr,
+    }, ['prompt', 'options']), 1, 10),
+  }, ['type', 'questions']),
+  flashcards: object({
+    type: { const: 'flashcards' },
+    cards: list(object({ front: str, back: str }, ['front', 'back']), 1, 12),
+  }, ['type', 'cards']),
+  matching: object({
+    type: { const: 'matching' },
+    prompt: optionalStr,
+    pairs: list(object({ left: str, right: str }, ['left', 'right']), 2, 8),
+  }, ['type', 'pairs']),
+  infographic: object({
+    type: { const: 'infographic' },
+    items: list(object({ label: str, value: { type: ['string', 'number'] }, description: optionalStr }, ['label', 'value']), 1, 6),
+  }, ['type', 'items']),
+  ordering: object({
+    type: { const: 'ordering' },
+    prompt: optionalStr,
+    items: list(str, 2, 8),
+  }, ['type', 'items']),
+  cloze: object({
+    type: { const: 'cloze' },
+    text: str,
+    hint: optionalStr,
+  }, ['type', 'text']),
+  hotspot: object({
+    type: { const: 'hotspot' },
+    prompt: str,
+    image: object({ src: str, alt: str }, ['src', 'alt']),
+    spots: list(object({
+      x: { type: 'number', minimum: 0, maximum: 100 },
+      y: { type: 'number', minimum: 0, maximum: 100 },
+      label: str,
+      correct: { type: 'boolean' },
+      feedback: optionalStr,
+    }, ['x', 'y', 'label', 'correct']), 2, 8),
+  }, ['type', 'prompt', 'image', 'spots']),
+  truefalse: object({
+    type: { const: 'truefalse' },
+    statements: list(object({ statement: str, answer: { type: 'boolean' }, feedback: optionalStr }, ['statement', 'answer']), 1, 8),
+  }, ['type', 'statements']),
+  scenario: object({
+    type: { const: 'scenario' },
+    situation: str,
+    question: str,
+    choices: list(object({
+      text: str,
+      feedback: str,
+      correct: { type: 'boolean' },
+      goToSlide: { type: 'integer', minimum: 1 },
+    }, ['text', 'feedback']), 2, 4),
+  }, ['type', 'situation', 'question', 'choices']),
+};
+
+// Rules JSON Schema can't express: the model also sees these in the prompt.
+export const INTERACTIVE_RULES: Partial<Record<InteractiveType, string>> = {
+  quiz: 'every question has at least one option with "correct": true',
+  ordering: 'items are listed in the correct order and are all different; learners see them shuffled',
+  cloze: 'write each blank inside the text as [[answer]], or [[answer|alternative]] when several answers are accepted',
+  hotspot: 'image.src is an https or data:image URL; x and y are the centre of each spot in percent of the image; at least one spot is correct',
+  scenario: 'mark the best choice "correct": true to score it (omit to leave the scenario unscored); goToSlide sends the learner to that slide number after the choice',
+};
+
+// --- Validation ---
+
+const typeOf = (v: unknown) =>
+  Array.isArray(v) ? 'array' : v === null ? 'null' : typeof v === 'number' && !Number.isFinite(v) ? 'NaN' : typeof v;
+
+const hasType = (v: unknown, type: string) => (type === 'integer' ? Number.isInteger(v) : typeOf(v) === type);
+
+function checkSchema(value: unknown, schema: JsonSchema, path: string, errors: string[]) {
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push(`${path} must be "${schema.const}"`);
+    return;
+  }
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!allowed.some(type => hasType(value, type))) {
+      errors.push(`${path} must be ${allowed.join(' or ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+  if (typeof value === 'string' && schema.minLength && value.trim().length < schema.minLength) {
+    errors.push(`${path} is empty`);
+  }
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} must be at least ${schema.minimum}`);
+  if (typeof value === 'number' && schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} must be at most ${schema.maximum}`);
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path} needs at least ${schema.minItems} item(s)`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path} allows at most ${schema.maxItems} items`);
+    if (schema.items) value.forEach((item, i) => checkSchema(item, schema.items!, `${path}[${i}]`, errors));
+  }
+  if (typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+    (schema.required ?? []).filter(k => obj[k] === undefined).forEach(k => errors.push(`${path}.${k} is required`));
+    Object.entries(schema.properties ?? {}).forEach(([k, s]) => {
+      if (obj[k] !== undefined) checkSchema(obj[k], s, `${path}.${k}`, errors);
+    });
+  }
+}
+
+const clean = (v: unknown) => String(v ?? '').replace(/\s+/g, ' ').trim();
+const cleanOptional = (v: unknown) => clean(v) || undefined;
+
+// Schema-valid raw data -> a spec with whitespace collapsed and unknown keys dropped.
+function normalize(raw: any): InteractiveSpec {
+  switch (raw.type as InteractiveType) {
+    case 'quiz':
+      return {
+        type: 'quiz',
+        questions: raw.questions.map((q: any) => ({
+          prompt: clean(q.prompt),
+          options: q.options.map((o: any) => ({ text: clean(o.text), correct: o.correct })),
+          explanation: cleanOptional(q.explanation),
+        })),
+      };
+    case 'flashcards':
+      return { type: 'flashcards', cards: raw.cards.map((c: any) => ({ front: clean(c.front), back: clean(c.back) })) };
+    case 'matching':
+      return { type: 'matching', prompt: cleanOptional(raw.prompt), pairs: raw.pairs.map((p: any) => ({ left: clean(p.left), right: clean(p.right) })) };
+    case 'infographic':
+      return { type: 'infographic', items: raw.items.map((it: any) => ({ label: clean(it.label), value: clean(it.value), description: cleanOptional(it.description) })) };
+    case 'ordering':
+      return { type: 'ordering', prompt: cleanOptional(raw.prompt), items: raw.items.map(clean) };
+    case 'cloze':
+      return { type: 'cloze', text: clean(raw.text), hint: cleanOptional(raw.hint) };
+    case 'hotspot':
+      return {
+        type: 'hotspot',
+        prompt: clean(raw.prompt),
+        image: { src: clean(raw.image.src), alt: clean(raw.image.alt) },
+        spots: raw.spots.map((s: any) => ({ x: s.x, y: s.y, label: clean(s.label), correct: s.correct, feedback: cleanOptional(s.feedback) })),
+      };
+    case 'truefalse':
+      return { type: 'truefalse', statements: raw.statements.map((st: any) => ({ statement: clean(st.statement), answer: st.answer, feedback: cleanOptional(st.feedback) })) };
+    case 'scenario':
+      return {
+        type: 'scenario',
+        situation: clean(raw.situation),
+        question: clean(raw.question),
+        choices: raw.choices.map((c: any) => ({
+          text: clean(c.text),
+          feedback: clean(c.feedback),
+          ...(c.correct !== undefined ? { correct: c.correct } : {}),
+          ...(c.goToSlide !== undefined ? { goToSlide: c.goToSlide } : {}),
+        })),
+      };
+  }
+}
+
+const CLOZE_BLANK_RE = /\[\[([^\]]+)\]\]/g;
+const SAFE_IMAGE_RE = /^(https?:\/\/|data:image\/)/i;
+
+// The INTERACTIVE_RULES checks, on schema-valid data.
+function checkRules(raw: any, path: string, errors: string[]) {
+  switch (raw.type as InteractiveType) {
+    case 'quiz':
+      raw.questions.forEach((q: any, i: number) => {
+        if (!q.options.some((o: any) => o.correct)) errors.push(`${path}.questions[${i}] has no correct option`);
+      });
+      break;
+    case 'ordering':
+      if (new Set(raw.items.map(clean)).size !== raw.items.length) errors.push(`${path}.items must all be different`);
+      break;
+    case 'cloze':
+      if (!(raw.text as string).match(CLOZE_BLANK_RE)) errors.push(`${path}.text has no [[blank]]`);
+      break;
+    case 'hotspot':
+      if (!SAFE_IMAGE_RE.test(clean(raw.image.src))) errors.push(`${path}.image.src must be an http(s) or data:image URL`);
+      if (!raw.spots.some((s: any) => s.correct)) errors.push(`${path}.spots has no correct spot`);
+      break;
+  }
+}
+
+// All-or-nothing: a malformed interactive is reported, never half-rendered.
+export function validateInteractiveSpec(raw: unknown, path = 'interactive'): { spec: InteractiveSpec | null; errors: string[] } {
+  const type = typeOf(raw) === 'object' ? (raw as { type?: unknown }).type : undefined;
+  const schema = INTERACTIVE_SCHEMAS[type as InteractiveType];
+  if (!schema) {
+    const known = Object.keys(INTERACTIVE_SCHEMAS).join(', ');
+    return { spec: null, errors: [typeOf(raw) === 'object' ? `${path}.type "${type}" is not one of ${known}` : `${path} is not an object`] };
+  }
+  const errors: string[] = [];
+  checkSchema(raw, schema, path, errors);
+  if (!errors.length) checkRules(raw, path, errors);
+  return errors.length ? { spec: null, errors } : { spec: normalize(raw), errors };
+}
+
+// The slide's valid interactives against what was asked for, in order: missing types, types
+// that weren't asked for, and a different order are each reported.
+export function checkRequestedInteractives(requested: InteractiveType[], found: InteractiveSpec[]): string[] {
+  const errors: string[] = [];
+  const count = (list: string[], type: string) => list.filter(t => t === type).length;
+  const foundTypes = found.map(spec => spec.type as InteractiveType);
+  for (const type of new Set([...requested, ...foundTypes])) {
+    const want = count(requested, type);
+    const got = count(foundTypes, type);
+    if (got < want) errors.push(`"${type}" was requested ${want === 1 ? 'but' : `${want} times but`} ${got ? `only ${got} valid` : 'none valid'} came back`);
+    else if (!want) errors.push(`"${type}" was not requested`);
+    else if (got > want) errors.push(`"${type}" appears ${got} times but was requested ${want === 1 ? 'once' : `${want} times`}`);
+  }
+  const inRequest = foundTypes.filter(type => requested.includes(type));
+  if (!errors.length && inRequest.join() !== requested.join()) {
+    errors.push(`interactives appear as ${inRequest.join(', ')} instead of ${requested.join(', ')}`);
+  }
+  return errors;
+}
+
+// --- Rendering ---
+
+const esc = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Question ids run across the whole slide ("q1", "q2"…), the ids tracking-bridge.js reports.
+export interface RenderCounter {
+  questions: number;
+  widgets: number;
+}
+
+export const newRenderCounter = (): RenderCounter => ({ questions: 0, widgets: 0 });
+
+// Scored widgets that aren't made of [data-correct] options report through SlideTracker.answer;
+// data-question still registers them with the bridge so they count towards the score.
+const scored = (kind: string, counter: RenderCounter) => ` data-question="q${++counter.questions}" data-question-kind="${kind}"`;
+
+// Deterministic shuffle: alphabetical, reversed if that happens to be the answer.
+function shuffledOrder(items: string[]): number[] {
+  const order = items.map((_, i) => i).sort((a, b) => items[a].localeCompare(items[b]));
+  return order.every((pos, i) => pos === i) ? order.reverse() : order;
+}
+
+function clozeHtml(text: string): string {
+  let out = '';
+  let last = 0;
+  let n = 0;
+  for (const m of text.matchAll(CLOZE_BLANK_RE)) {
+    const answers = m[1].split('|').map(a => a.trim()).filter(Boolean);
+    const size = Math.max(4, ...answers.map(a => a.length));
+    out += `${esc(text.slice(last, m.index))}<input type="text" class="si-blank" size="${size}" autocomplete="off" aria-label="Blank ${++n}" data-answers="${esc(answers.join('|'))}">`;
+    last = m.index! + m[0].length;
+  }
+  return out + esc(text.slice(last));
+}
+
+export function renderInteractive(spec: InteractiveSpec, counter: RenderCounter = newRenderCounter()): string {
+  counter.widgets++;
+  const open = `<div class="si-widget si-${spec.type}" data-interactive-widget="${spec.type}">`;
+  switch (spec.type) {
+    case 'quiz':
+      return `${open}${spec.questions.map(q => `
+  <div class="si-question" data-question="q${++counter.questions}">
+    <p class="si-prompt">${esc(q.prompt)}</p>
+    <div class="si-options">${q.options.map(o => `<button type="button" class="si-option" data-correct="${o.correct}">${esc(o.text)}</button>`).join('')}</div>
+    <p class="si-feedback" hidden data-explanation="${esc(q.explanation ?? '')}"></p>
+  </div>`).join('')}
+</div>`;
+    case 'flashcards':
+      return `${open}${spec.cards.map(c => `
+  <button type="button" class="si-card" aria-pressed="false"><span class="si-front">${esc(c.front)}</span><span class="si-back">${esc(c.back)}</span></button>`).join('')}
+</div>`;
+    case 'matching': {
+      // Alphabetical, so the answers are not listed in pair order and re-rendering is stable.
+      const answers = spec.pairs.map(p => p.right).sort((a, b) => a.localeCompare(b));
+      return `<div class="si-widget si-matching" data-interactive-widget="matching"${scored('matching', counter)}>
+  ${spec.prompt ? `<p class="si-prompt">${esc(spec.prompt)}</p>` : ''}${spec.pairs.map(p => `
+  <label class="si-pair"><span>${esc(p.left)}</span><select data-answer="${esc(p.right)}"><option value="">Choose…</option>${answers.map(a => `<option>${esc(a)}</option>`).join('')}</select></label>`).join('')}
+  <button type="button" class="si-check">Check answers</button>
+  <p class="si-feedback" hidden></p>
+</div>`;
+    }
+    case 'infographic':
+      return `${open}${spec.items.map(it => `
+  <div class="si-stat"><span class="si-value">${esc(it.value)}</span><span class="si-label">${esc(it.label)}</span>${it.description ? `<span class="si-desc">${esc(it.description)}</span>` : ''}</div>`).join('')}
+</div>`;
+    case 'ordering':
+      return `<div class="si-widget si-ordering" data-interactive-widget="ordering"${scored('sequencing', counter)}>
+  <p class="si-prompt">${esc(spec.prompt ?? 'Put these in the right order.')}</p>
+  <ol class="si-sequence">${shuffledOrder(spec.items).map(pos => `
+    <li class="si-item" draggable="true" data-position="${pos}"><span>${esc(spec.items[pos])}</span><span class="si-move"><button type="button" data-move="-1" aria-label="Move up">&uarr;</button><button type="button" data-move="1" aria-label="Move down">&darr;</button></span></li>`).join('')}
+  </ol>
+  <button type="button" class="si-check">Check order</button>
+  <p class="si-feedback" hidden></p>
+</div>`;
+    case 'cloze':
+      return `<div class="si-widget si-cloze" data-interactive-widget="cloze"${scored('fill-in', counter)}>
+  <p class="si-text">${clozeHtml(spec.text)}</p>${spec.hint ? `
+  <p class="si-hint">${esc(spec.hint)}</p>` : ''}
+  <button type="button" class="si-check">Check answers</button>
+  <p class="si-feedback" hidden></p>
+</div>`;
+    case 'hotspot':
+      return `<div class="si-widget si-hotspot" data-interactive-widget="hotspot"${scored('hotspot', counter)}>
+  <p class="si-prompt">${esc(spec.prompt)}</p>
+  <div class="si-stage"><img src="${esc(spec.image.src)}" alt="${esc(spec.image.alt)}">${spec.spots.map(spot => `
+    <button type="button" class="si-spot" style="left: ${spot.x}%; top: ${spot.y}%" aria-label="${esc(spot.label)}" data-correct="${spot.correct}" data-response="${esc(spot.label)}" data-feedback="${esc(spot.feedback ? `${spot.label}: ${spot.feedback}` : spot.label)}"></button>`).join('')}
+  </div>
+  <p class="si-feedback" hidden></p>
+</div>`;
+    case 'truefalse':
+      return `${open}${spec.statements.map(st => `
+  <div class="si-question"${scored('true-false', counter)}>
+    <p class="si-prompt">${esc(st.statement)}</p>
+    <div class="si-options si-inline"><button type="button" class="si-option" data-correct="${st.answer}" data-response="true">True</button><button type="button" class="si-option" data-correct="${!st.answer}" data-response="false">False</button></div>
+    <p class="si-feedback" hidden data-explanation="${esc(st.feedback ?? '')}"></p>
+  </div>`).join('')}
+</div>`;
+    case 'scenario': {
+      const isScored = spec.choices.some(c => c.correct);
+      return `<div class="si-widget si-scenario" data-interactive-widget="scenario"${isScored ? scored('choice', counter) : ''}>
+  <p class="si-situation">${esc(spec.situation)}</p>
+  <p class="si-prompt">${esc(spec.question)}</p>
+  <div class="si-options">${spec.choices.map(c => `
+    <button type="button" class="si-option"${isScored ? ` data-correct="${!!c.correct}"` : ''} data-feedback="${esc(c.feedback)}"${c.goToSlide ? ` data-goto="${c.goToSlide}"` : ''}>${esc(c.text)}</button>`).join('')}
+  </div>
+  <p class="si-feedback" hidden></p>
+  <button type="button" class="si-continue" data-navigate hidden></button>
+</div>`;
+    }
+  }
+}
+
+// Colours come from CSS variables so structured themes (slideTemplates.ts) can restyle widgets.
+export const INTERACTIVE_STYLES = `
+.si-widget { margin: 16px 0; }
+.si-widget button { font: inherit; color: inherit; }
+.si-question, .si-matching, .si-ordering, .si-cloze, .si-hotspot, .si-scenario { background: var(--si-surface, #f1f5f9); border-radius: 10px; padding: 16px 20px; margin-bottom: 16px; }
+.si-prompt { font-weight: 600; margin: 0 0 10px; }
+.si-options { display: grid; gap: 8px; }
+.si-option { text-align: left; background: var(--si-background, #fff); border: 2px solid var(--si-muted, #94a3b8); border-radius: 8px; padding: 8px 14px; cursor: pointer; }
+.si-option:hover { border-color: var(--si-accent, #219ebc); }
+.si-option.si-right { border-color: #2a9d8f; background: rgba(42, 157, 143, .15); }
+.si-option.si-wrong { border-color: #e76f51; background: rgba(231, 111, 81, .15); }
+.si-feedback { margin: 10px 0 0; font-weight: 600; }
+.si-flashcards { display: grid; grid-template-columns: repeat(auto-fill, minmax(220px, 1fr)); gap: 16px; }
+.si-card { min-height: 140px; padding: 20px; border: 2px solid var(--si-accent, #219ebc); border-radius: 12px; background: var(--si-surface, #f1f5f9); cursor: pointer; }
+.si-card .si-back, .si-card.si-flipped .si-front { display: none; }
+.si-card.si-flipped .si-back { display: block; }
+.si-card.si-flipped { background: var(--si-accent, #219ebc); color: var(--si-background, #fff); }
+.si-pair { display: flex; justify-content: space-between; align-items: center; gap: 16px; padding: 8px 0; border-bottom: 1px solid var(--si-background, #fff); }
+.si-pair select { font: inherit; padding: 4px 8px; border-radius: 6px; border: 2px solid var(--si-muted, #94a3b8); max-width: 50%; }
+.si-pair select.si-right { border-color: #2a9d8f; }
+.si-pair select.si-wrong { border-color: #e76f51; }
+.si-check { margin-top: 14px; background: var(--si-accent, #219ebc); color: var(--si-background, #fff); border: 0; border-radius: 8px; padding: 8px 18px; cursor: pointer; }
+.si-infographic { display: grid; grid-template-columns: repeat(auto-fit, minmax(180px, 1fr)); gap: 16px; }
+.si-stat { background: var(--si-surface, #f1f5f9); border-top: 6px solid var(--si-accent, #219ebc); border-radius: 10px; padding: 18px; display: flex; flex-direction: column; gap: 4px; }
+.si-value { font-size: 2em; font-weight: 700; color: var(--si-accent, #219ebc); }
+.si-label { font-weight: 600; }
+.si-desc { color: var(--si-muted, #64748b); font-size: .85em; }
+.si-inline { grid-template-columns: repeat(2, minmax(0, 1fr)); }
+.si-sequence { list-style: none; padding: 0; margin: 0; display: grid; gap: 8px; }
+.si-item { display: flex; justify-content: space-between; align-items: center; gap: 12px; background: var(--si-background, #fff); border: 2px solid var(--si-muted, #94a3b8); border-radius: 8px; padding: 8px 14px; cursor: grab; }
+.si-item.si-right { border-color: #2a9d8f; }
+.si-item.si-wrong { border-color: #e76f51; }
+.si-move button { background: none; border: 1px solid var(--si-muted, #94a3b8); border-radius: 6px; padding: 0 8px; margin-left: 4px; cursor: pointer; }
+.si-text { line-height: 2.2; margin: 0; }
+.si-blank { font: inherit; padding: 2px 6px; border: 0; border-bottom: 2px solid var(--si-accent, #219ebc); background: var(--si-background, #fff); color: inherit; }
+.si-blank.si-right { border-color: #2a9d8f; }
+.si-blank.si-wrong { border-color: #e76f51; }
+.si-hint { color: var(--si-muted, #64748b); font-size: .85em; margin: 8px 0 0; }
+.si-stage { position: relative; display: inline-block; max-width: 100%; }
+.si-stage img { display: block; max-width: 100%; max-height: 420px; border-radius: 8px; }
+.si-spot { position: absolute; width: 36px; height: 36px; margin: -18px 0 0 -18px; border-radius: 50%; border: 3px solid #fff; background: var(--si-accent, #219ebc); opacity: .85; box-shadow: 0 0 0 3px rgba(0, 0, 0, .25); cursor: pointer; }
+.si-spot.si-right { background: #2a9d8f; opacity: 1; }
+.si-spot.si-wrong { background: #e76f51; opacity: 1; }
+.si-situation { font-style: italic; margin: 0 0 10px; }
+.si-option.si-chosen { border-color: var(--si-accent, #219ebc); background: var(--si-surface, #f1f5f9); }
+.si-continue { margin-top: 12px; background: var(--si-accent, #219ebc); color: var(--si-background, #fff); border: 0; border-radius: 8px; padding: 8px 18px; cursor: pointer; }
+.si-error { border: 2px dashed #e76f51; border-radius: 8px; padding: 12px 16px; color: #9a3412; background: #fff7ed; font-size: 14px; }
+[hidden] { display: none !important; }`;
+
+// Behaviour for every widget type, keyed by data-interactive-widget. Quiz clicks are also picked
+// up by tracking-bridge.js in SCORM/xAPI exports; the other scored widgets report through
+// SlideTracker.answer, matching, ordering and fill-in on every Check so the latest attempt counts.
+export const INTERACTIVE_RUNTIME = `(function () {
+  'use strict';
+  function each(root, selector, fn) { Array.prototype.forEach.call(root.querySelectorAll(selector), fn); }
+  function report(widget, correct, response, kind) {
+    if (window.SlideTracker) window.SlideTracker.answer(widget.getAttribute('data-question'), correct, response, kind);
+  }
+  function showFeedback(widget, text) {
+    var feedback = widget.querySelector('.si-feedback');
+    feedback.textContent = text;
+    feedback.hidden = false;
+  }
+  // Quiz and true/false: the bridge records the click on a [data-correct] option itself.
+  function choices(widget) {
+    each(widget, '.si-question', function (q) {
+      q.addEventListener('click', function (e) {
+        var option = e.target.closest('.si-option');
+        if (!option || q.classList.contains('si-done')) return;
+        q.classList.add('si-done');
+        var right = option.getAttribute('data-correct') === 'true';
+        option.classList.add(right ? 'si-right' : 'si-wrong');
+        each(q, '.si-option[data-correct="true"]', function (o) { o.classList.add('si-right'); });
+        var feedback = q.querySelector('.si-feedback');
+        feedback.textContent = (right ? 'Correct. ' : 'Not quite. ') + (feedback.getAttribute('data-explanation') || '');
+        feedback.hidden = false;
+      });
+    });
+  }
+  var setup = {
+    quiz: choices,
+    truefalse: choices,
+    flashcards: function (widget) {
+      each(widget, '.si-card', function (card) {
+        card.addEventListener('click', function () {
+          card.classList.toggle('si-flipped');
+          card.setAttribute('aria-pressed', String(card.classList.contains('si-flipped')));
+        });
+      });
+    },
+    matching: function (widget) {
+      widget.querySelector('.si-check').addEventListener('click', function () {
+        var selects = widget.querySelectorAll('select'), right = 0, picks = [];
+        each(widget, 'select', function (s) {
+          var ok = s.value === s.getAttribute('data-answer');
+          s.classList.toggle('si-right', ok);
+          s.classList.toggle('si-wrong', !ok);
+          if (ok) right++;
+          picks.push(s.value);
+        });
+        showFeedback(widget, right + ' of ' + selects.length + ' matched correctly.');
+        report(widget, right === selects.length, picks.join('|'), 'matching');
+      });
+    },
+    // Drag and drop, plus up/down buttons for keyboards and touch screens.
+    ordering: function (widget) {
+      var list = widget.querySelector('.si-sequence');
+      var dragged = null;
+      widget.addEventListener('click', function (e) {
+        var move = e.target.closest('[data-move]');
+        if (!move) return;
+        var item = move.closest('.si-item');
+        if (move.getAttribute('data-move') === '-1') {
+          if (item.previousElementSibling) list.insertBefore(item, item.previousElementSibling);
+        } else if (item.nextElementSibling) {
+          list.insertBefore(item.nextElementSibling, item);
+        }
+      });
+      list.addEventListener('dragstart', function (e) {
+        dragged = e.target.closest('.si-item');
+        if (e.dataTransfer) e.dataTransfer.effectAllowed = 'move';
+      });
+      list.addEventListener('dragover', function (e) {
+        var over = e.target.closest('.si-item');
+        if (!dragged || !over) return;
+        e.preventDefault();
+        if (over === dragged) return;
+        var rect = over.getBoundingClientRect();
+        list.insertBefore(dragged, e.clientY > rect.top + rect.height / 2 ? over.nextElementSibling : over);
+      });
+      list.addEventListener('drop', function (e) { e.preventDefault(); });
+      list.addEventListener('dragend', function () { dragged = null; });
+      widget.querySelector('.si-check').addEventListener('click', function () {
+        var items = widget.querySelectorAll('.si-item'), right = 0, order = [];
+        each(widget, '.si-item', function (item, i) {
+          var ok = item.getAttribute('data-position') === String(i);
+          item.classList.toggle('si-right', ok);
+          item.classList.toggle('si-wrong', !ok);
+          if (ok) right++;
+          order.push(item.getAttribute('data-position'));
+        });
+        showFeedback(widget, right === items.length ? 'Correct order.' : right + ' of ' + items.length + ' in the right place.');
+        report(widget, right === items.length, order.join(','), 'sequencing');
+      });
+    },
+    cloze: function (widget) {
+      widget.querySelector('.si-check').addEventListener('click', function () {
+        var blanks = widget.querySelectorAll('.si-blank'), right = 0, values = [];
+        each(widget, '.si-blank', function (input) {
+          var value = input.value.trim().toLowerCase();
+          var ok = input.getAttribute('data-answers').split('|').some(function (a) { return a.trim().toLowerCase() === value; });
+          input.classList.toggle('si-right', ok);
+          input.classList.toggle('si-wrong', !ok);
+          if (ok) right++;
+          values.push(input.value.trim());
+        });
+        showFeedback(widget, right + ' of ' + blanks.length + ' blank' + (blanks.length === 1 ? '' : 's') + ' correct.');
+        report(widget, right === blanks.length, values.join('|'), 'fill-in');
+      });
+    },
+    hotspot: function (widget) {
+      widget.addEventListener('click', function (e) {
+        var spot = e.target.closest('.si-spot');
+        if (!spot || widget.classList.contains('si-done')) return;
+        widget.classList.add('si-done');
+        var right = spot.getAttribute('data-correct') === 'true';
+        spot.classList.add(right ? 'si-right' : 'si-wrong');
+        each(widget, '.si-spot[data-correct="true"]', function (s) { s.classList.add('si-right'); });
+        showFeedback(widget, (right ? 'Correct. ' : 'Not quite. ') + spot.getAttribute('data-feedback'));
+      });
+    },
+    // Branching: a choice with data-goto offers to continue on that slide. The host (export
+    // player, presentation, presenter view) listens for the 'goto' message.
+    scenario: function (widget) {
+      var next = widget.querySelector('.si-continue');
+      widget.addEventListener('click', function (e) {
+        if (e.target === next) {
+          if (window.parent !== window) window.parent.postMessage({ source: 'slides-interactive', type: 'goto', slide: Number(next.getAttribute('data-goto')) }, '*');
+          return;
+        }
+        var option = e.target.closest('.si-option');
+        if (!option || widget.classList.contains('si-done')) return;
+        widget.classList.add('si-done');
+        option.classList.add('si-chosen');
+        var correct = option.getAttribute('data-correct');
+        if (correct !== null) option.classList.add(correct === 'true' ? 'si-right' : 'si-wrong');
+        showFeedback(widget, option.getAttribute('data-feedback'));
+        var target = option.getAttribute('data-goto');
+        if (target) {
+          next.setAttribute('data-goto', target);
+          next.textContent = 'Continue to slide ' + target;
+          next.hidden = false;
+        }
+      });
+    }
+  };
+  function init() {
+    each(document, '[data-interactive-widget]', function (widget) {
+      var fn = setup[widget.getAttribute('data-interactive-widget')];
+      if (fn && !widget.hasAttribute('data-ready')) {
+        fn(widget);
+        widget.setAttribute('data-ready', '');
+      }
+    });
+    document.documentElement.setAttribute('data-interactives-ready', '');
+  }
+  if (document.readyState === 'loading') document.addEventListener('DOMContentLoaded', init);
+  else init();
+})();`;
+
+const RUNTIME_ID = 'slide-interactives-runtime';
+const STYLES_ID = 'slide-interactives-styles';
+
+export const interactiveStyleTag = () => `<style id="${STYLES_ID}">${INTERACTIVE_STYLES}\n</style>`;
+export const interactiveRuntimeTag = () => `<script id="${RUNTIME_ID}">\n${INTERACTIVE_RUNTIME}\n</script>`;
+
+// --- Free-form HTML slides ---
+// The prompt asks for each interactive as a data block where the widget should appear:
+// <script type="application/json" data-interactive="quiz">{...}</script>
+
+export const interactiveDataBlock = (spec: unknown, type: string) =>
+  `<script type="application/json" data-interactive="${esc(type)}">${JSON.stringify(spec).replace(/</g, '\\u003c')}</script>`;
+
+const DATA_BLOCK_RE = /<script\b[^>]*\bdata-interactive=["']([\w-]*)["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+// Renders each data block's widget right after it (the block stays, so the slide can be revised
+// as data) and adds the styles and runtime once. Safe to run on an already embedded slide.
+export function embedInteractives(html: string): { html: string; interactives: InteractiveSpec[]; errors: string[] } {
+  const interactives: InteractiveSpec[] = [];
+  const errors: string[] = [];
+  const embedded = html.includes(RUNTIME_ID);
+  const counter = newRenderCounter();
+  let index = 0;
+
+  const out = html.replace(DATA_BLOCK_RE, (block, type: string, json: string) => {
+    const path = `interactive ${++index}`;
+    let raw: any;
+    try {
+      raw = JSON.parse(json);
+    } catch (e: any) {
+      errors.push(`${path} (${type}) is not valid JSON: ${e.message}`);
+      return embedded ? block : `${block}\n<div class="si-error">This interactive could not be rendered: its data is not valid JSON.</div>`;
+    }
+    // The attribute names the type when the model leaves it out of the JSON.
+    if (raw && typeof raw === 'object' && !Array.isArray(raw) && raw.type === undefined) raw.type = type;
+    const { spec, errors: specErrors } = validateInteractiveSpec(raw, path);
+    errors.push(...specErrors);
+    if (spec) interactives.push(spec);
+    if (embedded) return block;
+    return spec
+      ? `${block}\n${renderInteractive(spec, counter)}`
+      : `${block}\n<div class="si-error">This interactive could not be rendered: ${esc(specErrors.join('; '))}</div>`;
+  });
+
+  if (embedded || index === 0) return { html: out, interactives, errors };
+  const withStyles = /<\/head>/i.test(out) ? out.replace(/<\/head>/i, `${interactiveStyleTag()}\n</head>`) : `${interactiveStyleTag()}\n${out}`;
+  const withRuntime = /<\/body>/i.test(withStyles)
+    ? withStyles.replace(/<\/body>(?![\s\S]*<\/body>)/i, `${interactiveRuntimeTag()}\n</body>`)
+    : `${withStyles}\n${interactiveRuntimeTag()}`;
+  return { html: withRuntime, interactives, errors };
+}
+
+// The slide as the model should see it when revising: data blocks only, no rendered widgets,
+// error boxes or runtime.
+export function interactiveSourceHtml(html: string): string {
+  if (!html.includes(RUNTIME_ID) && !html.includes('si-error')) return html;
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll(`[data-interactive-widget], .si-error, #${RUNTIME_ID}, #${STYLES_ID}`).forEach(el => el.remove());
+  return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+}
@@ -0,0 +1,180 @@
+// knowledgeBase.ts
+// Knowledge bases on either retrieval backend: building one from a course's sources, listing a
+// user's, re-indexing and deleting. The n8n workflow answers the upload before it has finished
+// vectorizing, so builds and re-indexes poll kb/status and report each stage as a KbStatus.
+// Used by the Knowledge Base screen and by the document step of the wizard.
+import type { AttachedKnowledgeBase, CourseData, KbStatus, KnowledgeBase, LocalDocumentIndex, RetrievalBackend } from './types';
+import {
+  upsertDocument,
+  getKnowledgeBaseStatus,
+  listRemoteKnowledgeBases,
+  reindexRemoteKnowledgeBase,
+  deleteRemoteKnowledgeBase,
+  type RemoteKbStatus,
+} from './n8nApi';
+import { indexDocumentsLocally, listLocalDocumentIndexes, reindexLocalDocumentIndex, deleteLocalDocumentIndex } from './localRetrieval';
+import { describeSource, filesForUpload, sourceTypeOf, type SourceInput } from './documentSources';
+
+const POLL_INTERVAL_MS = 2000;
+const POLL_TIMEOUT_MS = 15 * 60 * 1000;
+
+const log = (onLog?: (s: string) => void, msg = "") => {
+  if (!onLog) return;
+  onLog(`[${new Date().toISOString()}] [KnowledgeBase] ${msg}`);
+};
+
+export type KbStatusListener = (status: KbStatus, progress?: number) => void;
+
+export interface KbTaskOptions {
+  onStatus?: KbStatusListener;
+  onLog?: (message: string) => void;
+  signal?: AbortSignal; // stops polling; the workflow keeps indexing on the server
+}
+
+// The workflow's stage names, and the synonyms n8n nodes tend to use for them.
+const REMOTE_STATUS: Record<string, KbStatus> = {
+  queued: 'polling',
+  pending: 'polling',
+  registering: 'registering',
+  vectorizing: 'vectorizing',
+  embedding: 'vectorizing',
+  processing: 'vectorizing',
+  ready: 'ready',
+  completed: 'ready',
+  error: 'error',
+  failed: 'error',
+};
+
+export function kbStatusFrom(remote: string): KbStatus {
+  return REMOTE_STATUS[remote.toLowerCase()] ?? 'polling';
+}
+
+export const isKbBuilding = (status: KbStatus) => status !== 'idle' && status !== 'ready' && status !== 'error';
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error('Stopped waiting for the knowledge base.'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new Error('Stopped waiting for the knowledge base.'));
+    }, { once: true });
+  });
+}
+
+// Polls kb/status, starting from `first` when the caller already has a status, until the
+// workflow reports ready. Throws when it reports an error or takes longer than POLL_TIMEOUT_MS.
+export async function waitForKnowledgeBase(sourceId: string, first: RemoteKbStatus | null, options: KbTaskOptions = {}): Promise<void> {
+  const { onStatus, onLog, signal } = options;
+  const started = Date.now();
+  let current = first;
+  let lastStage = '';
+  for (;;) {
+    if (current) {
+      const status = kbStatusFrom(current.status);
+      if (current.status !== lastStage) {
+        log(onLog, `${sourceId}: ${current.status}`);
+        lastStage = current.status;
+      }
+      onStatus?.(status, current.progress);
+      if (status === 'ready') return;
+      if (status === 'error') throw new Error(current.error || `The n8n workflow could not index knowledge base ${sourceId}.`);
+    }
+    if (Date.now() - started > POLL_TIMEOUT_MS) {
+      throw new Error(`Knowledge base ${sourceId} is still being indexed after ${POLL_TIMEOUT_MS / 60000} minutes. Check on it later from the Knowledge Base screen.`);
+    }
+    await delay(POLL_INTERVAL_MS, signal);
+    current = await getKnowledgeBaseStatus(sourceId, onLog);
+  }
+}
+
+export async function buildKnowledgeBase(
+  inputs: SourceInput[],
+  metadata: { runId: string; topic: string; userId: string },
+  backend: RetrievalBackend,
+  options: KbTaskOptions = {}
+): Promise<AttachedKnowledgeBase> {
+  const { onStatus, onLog } = options;
+  const sources = inputs.map(describeSource);
+  const fileNames = sources.map(s => s.name);
+  if (backend === 'local') {
+    const { sourceId } = await indexDocumentsLocally(inputs, metadata, onLog, onStatus);
+    onStatus?.('ready');
+    return { id: sourceId, name: metadata.topic, fileNames, sources };
+  }
+  // Pages are fetched and PowerPoint, HTML and Markdown converted to text before the upload.
+  const files = await filesForUpload(inputs, onLog, done => onStatus?.('uploading', done));
+  onStatus?.('uploading');
+  const { sourceId, status } = await upsertDocument(files, { ...metadata, sources }, onLog);
+  // Workflows that vectorize before answering send no status: the knowledge base is ready.
+  await waitForKnowledgeBase(sourceId, { sourceId, status: status ?? 'ready' }, options);
+  return { id: sourceId, name: metadata.topic, fileNames, sources };
+}
+
+const fromLocalIndex = (index: LocalDocumentIndex): KnowledgeBase => ({
+  id: index.id,
+  backend: 'local',
+  name: index.topic || index.fileNames[0] || index.id,
+  fileNames: index.fileNames,
+  sources: index.sources,
+  sizeBytes: index.sizeBytes,
+  createdAt: index.createdAt,
+  status: 'ready',
+});
+
+// Both backends, newest first. The browser's indexes are listed even when the server is down;
+// `serverError` then says why the n8n ones are missing.
+export async function listKnowledgeBases(
+  userId: string,
+  onLog?: (message: string) => void
+): Promise<{ items: KnowledgeBase[]; serverError: string | null }> {
+  const items = (await listLocalDocumentIndexes(userId)).map(fromLocalIndex);
+  let serverError: string | null = null;
+  try {
+    const remote = await listRemoteKnowledgeBases(userId, onLog);
+    items.push(...remote.map(kb => ({ ...kb, status: kbStatusFrom(kb.status) })));
+  } catch (err: any) {
+    log(onLog, `Could not list server knowledge bases: ${err.message}`);
+    serverError = err.message;
+  }
+  items.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return { items, serverError };
+}
+
+export async function reindexKnowledgeBase(kb: KnowledgeBase, userId: string, options: KbTaskOptions = {}): Promise<void> {
+  const { onStatus, onLog } = options;
+  if (kb.backend === 'local') {
+    onStatus?.('vectorizing');
+    await reindexLocalDocumentIndex(kb.id, onLog);
+    onStatus?.('ready');
+    return;
+  }
+  const first = await reindexRemoteKnowledgeBase(userId, kb.id, onLog);
+  await waitForKnowledgeBase(kb.id, first, options);
+}
+
+export async function deleteKnowledgeBase(kb: KnowledgeBase, userId: string, onLog?: (message: string) => void): Promise<void> {
+  if (kb.backend === 'local') await deleteLocalDocumentIndex(kb.id);
+  else await deleteRemoteKnowledgeBase(userId, kb.id, onLog);
+  log(onLog, `Deleted ${kb.backend} knowledge base ${kb.id}`);
+}
+
+// --- Courses ---
+
+// The knowledge bases a course retrieves from. Courses saved before several could be attached
+// only have kbId.
+export function attachedKnowledgeBases(courseData: Partial<CourseData>): AttachedKnowledgeBase[] {
+  if (courseData.knowledgeBases) return courseData.knowledgeBases;
+  return courseData.kbId ? [{ id: courseData.kbId, name: courseData.courseTopic ?? '', fileNames: courseData.fileNames ?? [] }] : [];
+}
+
+// The course fields that follow from its attached knowledge bases. Sources of knowledge bases
+// from before source types get the type their file name suggests.
+export function withKnowledgeBases(knowledgeBases: AttachedKnowledgeBase[]): Partial<CourseData> {
+  return {
+    knowledgeBases,
+    kbId: knowledgeBases[0]?.id,
+    fileNames: knowledgeBases.flatMap(kb => kb.fileNames),
+    documentSources: knowledgeBases.flatMap(kb => kb.sources ?? kb.fileNames.map(name => ({ name, type: sourceTypeOf(name) }))),
+  };
+}
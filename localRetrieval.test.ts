@@ -0,0 +1,74 @@
+// localRetrieval.test.ts
+// Tokenizing, chunking and BM25 retrieval over an in-memory index.
+import { describe, expect, it } from 'vitest';
+import type { SlideRequestInfo } from './n8nApi';
+import { buildLocalIndex, chunkText, mergeIndexes, retrieveFromIndex, tokenize } from './localRetrieval';
+
+const slide = (id: number, userContent: string): SlideRequestInfo =>
+  ({ id, contentType: '', autoMode: false, userContent, interactive: 'None', interactives: [] });
+
+const index = buildLocalIndex('kb1', 'Plant maintenance', [
+  {
+    name: 'manual.pdf',
+    sections: [
+      { location: 'p. 1', text: 'The pump is serviced every month. Check the pump seals for leaks.' },
+      { location: 'p. 2', text: 'Fire extinguishers are inspected yearly by a certified technician.' },
+      { location: 'p. 3', text: 'Forklift drivers need a licence. Forklift batteries are charged overnight.' },
+      { location: 'p. 4', text: 'Visitors sign in at reception.' },
+    ],
+  },
+]);
+
+describe('tokenize', () => {
+  it('lowercases, folds accents, drops stopwords and strips plurals', () => {
+    expect(tokenize('The Policies of the Café are its rules')).toEqual(['policy', 'cafe', 'rule']);
+  });
+});
+
+describe('chunkText', () => {
+  it('keeps short text as one chunk', () => {
+    expect(chunkText('One sentence. Another one.')).toEqual(['One sentence. Another one.']);
+  });
+
+  it('ends chunks on sentence boundaries and repeats the last sentence in the next', () => {
+    const sentence = (i: number) => `Sentence ${i} ${'word '.repeat(58).trim()}.`;
+    const chunks = chunkText(Array.from({ length: 6 }, (_, i) => sentence(i + 1)).join(' '));
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].endsWith('.')).toBe(true);
+    const lastOfFirst = chunks[0].split(/(?<=\.)\s+/).pop()!;
+    expect(chunks[1].startsWith(lastOfFirst)).toBe(true);
+  });
+});
+
+describe('retrieveFromIndex', () => {
+  it('ranks the chunk that matches the slide first and cites its location', () => {
+    const [item] = retrieveFromIndex(index, '', [slide(1, 'forklift licence')]);
+    expect(item.sources?.map(s => s.location)).toContain('p. 3');
+    // Chunks come back in reading order; the best match is the only one with any score, so the
+    // rest are the next unused chunks.
+    expect(item.sources).toHaveLength(3);
+    expect(item.SlideContent).toContain('Forklift drivers need a licence.');
+  });
+
+  it('weights rare terms above common ones', () => {
+    const [item] = retrieveFromIndex(index, '', [slide(1, 'pump extinguishers')]);
+    const top = index.chunks.find(c => c.text.includes('extinguishers'))!;
+    expect(item.sources?.map(s => s.id)).toContain(top.id);
+  });
+
+  it('fills a slide with the passages earlier slides left unused', () => {
+    const [first, second] = retrieveFromIndex(index, '', [slide(1, 'pump seals'), slide(2, 'pump seals')]);
+    expect(first.sources?.map(s => s.location)).toEqual(['p. 1', 'p. 2', 'p. 3']);
+    expect(second.sources?.map(s => s.location)).toEqual(['p. 1', 'p. 4']);
+  });
+});
+
+describe('mergeIndexes', () => {
+  it('prefixes chunk ids with the knowledge base position and recounts document frequency', () => {
+    const other = buildLocalIndex('kb2', 'Office', [{ name: 'office.txt', sections: [{ text: 'The pump room is locked.' }] }]);
+    const merged = mergeIndexes([index, other]);
+    expect(merged.id).toBe('kb1+kb2');
+    expect(merged.chunks.map(c => c.id)).toContain('2.c1');
+    expect(merged.documentFrequency.pump).toBe(index.documentFrequency.pump + 1);
+  });
+});
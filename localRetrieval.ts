@@ -0,0 +1,251 @@
+// localRetrieval.ts
+// In-browser alternative to the n8n upsert/retrieve webhooks. Sources are turned into text
+// (documentSources.ts), split into overlapping chunks of a few sentences and indexed for
+// BM25 keyword scoring; the index is kept in IndexedDB under the id the course stores as kbId.
+// retrieveGroundTruthLocally answers with the same items as retrieveGroundTruth, one per slide,
+// and lists the chunks behind each item as its sources. A course with several knowledge bases
+// is searched as one merged index.
+import type { DocumentChunk, KbStatus, LocalDocumentIndex } from './types';
+import type { RetrieveParams, RetrieveResponseItem, SlideRequestInfo, UpsertResponse } from './n8nApi';
+import { DOCUMENT_INDEXES_STORE, requestToPromise, withStore } from './utils/idb';
+import type { DocumentSection } from './utils/documentText';
+import { describeSource, extractSources, type SourceInput } from './documentSources';
+
+const CHUNK_WORDS = 180; // target chunk size; a chunk ends on a sentence boundary
+const CHUNK_OVERLAP_SENTENCES = 1; // last sentence(s) of a chunk repeated at the start of the next
+const CHUNKS_PER_SLIDE = 3;
+const MAX_SLIDE_CONTENT_CHARS = 2400;
+
+// BM25 parameters, the usual defaults.
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set((
+  'a an and are as at be been but by can do does for from had has have he her his how i if in into is it its ' +
+  'may more most no not of on or our she should so such than that the their them then there these they this ' +
+  'those to was we were what when where which who why will with would you your also about each other any all'
+).split(' '));
+
+const log = (onLog?: (s: string) => void, msg = "") => {
+  if (!onLog) return;
+  onLog(`[${new Date().toISOString()}] [LocalRetrieval] ${msg}`);
+};
+
+// Lowercased, accents folded, stopwords dropped, and a light plural strip so "policies" meets "policy".
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(t => t.length > 1 && !STOPWORDS.has(t))
+    .map(t => (t.length > 4 && t.endsWith('ies') ? `${t.slice(0, -3)}y`
+      : t.length > 3 && t.endsWith('s') && !t.endsWith('ss') ? t.slice(0, -1) : t));
+}
+
+function sentencesOf(text: string): string[] {
+  return text
+    .split(/\n\s*\n/) // paragraphs first, so headings don't run into the next sentence
+    .flatMap(p => p.replace(/\s+/g, ' ').trim().split(/(?<=[.!?])\s+(?=[\p{Lu}\p{N}"'(])/u))
+    .map(s => s.trim())
+    .filter(Boolean);
+}
+
+const wordCount = (s: string) => s.split(' ').length;
+
+export function chunkText(text: string): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let words = 0;
+  for (const sentence of sentencesOf(text)) {
+    current.push(sentence);
+    words += wordCount(sentence);
+    if (words >= CHUNK_WORDS) {
+      chunks.push(current.join(' '));
+      current = current.slice(-CHUNK_OVERLAP_SENTENCES);
+      words = current.reduce((n, s) => n + wordCount(s), 0);
+    }
+  }
+  // The tail, unless it is nothing but the overlap already sent with the previous chunk.
+  if (current.length > (chunks.length ? CHUNK_OVERLAP_SENTENCES : 0)) chunks.push(current.join(' '));
+  return chunks;
+}
+
+function buildChunk(id: string, file: string, location: string | undefined, text: string): DocumentChunk {
+  const terms: Record<string, number> = {};
+  const tokens = tokenize(text);
+  for (const t of tokens) terms[t] = (terms[t] ?? 0) + 1;
+  return { id, file, ...(location ? { location } : {}), text, terms, length: tokens.length };
+}
+
+function corpusStatistics(chunks: DocumentChunk[]): Pick<LocalDocumentIndex, 'documentFrequency' | 'averageLength'> {
+  const documentFrequency: Record<string, number> = {};
+  for (const chunk of chunks) {
+    for (const term of Object.keys(chunk.terms)) documentFrequency[term] = (documentFrequency[term] ?? 0) + 1;
+  }
+  const averageLength = chunks.length ? chunks.reduce((n, c) => n + c.length, 0) / chunks.length : 0;
+  return { documentFrequency, averageLength };
+}
+
+// Chunks never span sections, so each one has a single page or heading to cite.
+export function buildLocalIndex(id: string, topic: string, documents: { name: string; sections: DocumentSection[] }[]): LocalDocumentIndex {
+  const chunks: DocumentChunk[] = [];
+  for (const d of documents) {
+    for (const section of d.sections) {
+      for (const text of chunkText(section.text)) chunks.push(buildChunk(`c${chunks.length + 1}`, d.name, section.location, text));
+    }
+  }
+  return { id, topic, fileNames: documents.map(d => d.name), createdAt: new Date().toISOString(), chunks, ...corpusStatistics(chunks) };
+}
+
+// One index over several knowledge bases. Chunk ids are prefixed with the knowledge base's
+// position ("2.c14") so citations stay unique; term statistics are recomputed over all chunks.
+export function mergeIndexes(indexes: LocalDocumentIndex[]): LocalDocumentIndex {
+  if (indexes.length === 1) return indexes[0];
+  const chunks = indexes.flatMap((index, n) => index.chunks.map(c => ({ ...c, id: `${n + 1}.${c.id}` })));
+  return {
+    id: indexes.map(i => i.id).join('+'),
+    topic: indexes[0]?.topic ?? '',
+    fileNames: indexes.flatMap(i => i.fileNames),
+    createdAt: new Date().toISOString(),
+    chunks,
+    ...corpusStatistics(chunks),
+  };
+}
+
+function bm25(index: LocalDocumentIndex, query: string[], chunk: DocumentChunk): number {
+  const n = index.chunks.length;
+  let score = 0;
+  for (const term of new Set(query)) {
+    const tf = chunk.terms[term];
+    if (!tf) continue;
+    const df = index.documentFrequency[term] ?? 0;
+    const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+    score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * chunk.length / (index.averageLength || 1)));
+  }
+  return score;
+}
+
+// Chunk indexes for one slide, best first. Chunks another slide already used only come after the
+// fresh ones, so neighbouring slides don't all get the same passage; a slide with no matching terms
+// (an auto-mode slide, say) takes the next unused chunks in document order.
+function pickChunks(index: LocalDocumentIndex, query: string[], used: Set<number>): number[] {
+  const scored = index.chunks
+    .map((chunk, i) => ({ i, score: bm25(index, query, chunk) }))
+    .filter(s => s.score > 0)
+    .sort((a, b) => (Number(used.has(a.i)) - Number(used.has(b.i))) || b.score - a.score || a.i - b.i)
+    .map(s => s.i);
+  const picked = scored.slice(0, CHUNKS_PER_SLIDE);
+  for (let i = 0; picked.length < CHUNKS_PER_SLIDE && i < index.chunks.length; i++) {
+    if (!used.has(i) && !picked.includes(i)) picked.push(i);
+  }
+  return picked;
+}
+
+function slideQuery(topic: string, slide: SlideRequestInfo): string[] {
+  return tokenize([topic, slide.contentType, slide.userContent].join(' '));
+}
+
+export function retrieveFromIndex(index: LocalDocumentIndex, topic: string, slides: SlideRequestInfo[]): RetrieveResponseItem[] {
+  const used = new Set<number>();
+  return slides.map(slide => {
+    const picked = pickChunks(index, slideQuery(topic, slide), used);
+    picked.forEach(i => used.add(i));
+    const chunks: DocumentChunk[] = [];
+    let length = 0;
+    for (const i of picked.sort((a, b) => a - b)) { // reading order reads better than score order
+      const chunk = index.chunks[i];
+      if (chunks.length && length + chunk.text.length > MAX_SLIDE_CONTENT_CHARS) break;
+      chunks.push(chunk);
+      length += chunk.text.length + 2;
+    }
+    return {
+      id: slide.id,
+      SlideContent: chunks.map(c => c.text).join('\n\n').slice(0, MAX_SLIDE_CONTENT_CHARS),
+      sources: chunks.map(c => ({ id: c.id, file: c.file, location: c.location, text: c.text })),
+    };
+  });
+}
+
+// --- IndexedDB ---
+
+export async function getLocalDocumentIndex(id: string): Promise<LocalDocumentIndex | null> {
+  const index = await withStore(DOCUMENT_INDEXES_STORE, 'readonly', store =>
+    requestToPromise(store.get(id) as IDBRequest<LocalDocumentIndex | undefined>)
+  );
+  return index ?? null;
+}
+
+// Indexes of one user, newest first. Indexes saved before they carried a userId have no known owner
+// and are left out; courses that attached them still retrieve from them by id.
+export async function listLocalDocumentIndexes(userId: string): Promise<LocalDocumentIndex[]> {
+  const all = await withStore(DOCUMENT_INDEXES_STORE, 'readonly', store =>
+    requestToPromise(store.getAll() as IDBRequest<LocalDocumentIndex[]>)
+  );
+  return all
+    .filter(index => index.userId === userId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function deleteLocalDocumentIndex(id: string): Promise<void> {
+  await withStore(DOCUMENT_INDEXES_STORE, 'readwrite', store => requestToPromise(store.delete(id)));
+}
+
+async function saveIndex(index: LocalDocumentIndex, onLog?: (message: string) => void) {
+  await withStore(DOCUMENT_INDEXES_STORE, 'readwrite', store => requestToPromise(store.put(index)));
+  log(onLog, `Index ${index.id} saved: ${index.chunks.length} chunk(s), ${Object.keys(index.documentFrequency).length} distinct terms`);
+}
+
+// Same contract as upsertDocument: resolves with the id to retrieve by, throws on failure.
+// The extracted text is stored with the index so it can be re-indexed without the files.
+export async function indexDocumentsLocally(
+  inputs: SourceInput[],
+  metadata: { runId: string; topic: string; userId: string },
+  onLog?: (message: string) => void,
+  onStatus?: (status: KbStatus, progress?: number) => void
+): Promise<UpsertResponse> {
+  log(onLog, `Indexing ${inputs.length} source(s) for topic "${metadata.topic}" with runId ${metadata.runId}`);
+  const extracted = await extractSources(inputs, onLog, done => onStatus?.('uploading', done));
+  // The same stages, in the same order, as the n8n workflow reports.
+  onStatus?.('registering');
+  const documents = extracted.map(e => ({ name: e.source.name, sections: e.sections }));
+  onStatus?.('vectorizing');
+  const index: LocalDocumentIndex = {
+    ...buildLocalIndex(`local_${metadata.runId}_${Date.now()}`, metadata.topic, documents),
+    userId: metadata.userId,
+    sources: inputs.map(describeSource),
+    sizeBytes: extracted.reduce((n, e) => n + e.sizeBytes, 0),
+    documents,
+  };
+  await saveIndex(index, onLog);
+  return { sourceId: index.id };
+}
+
+// Rebuilds the chunks from the stored text, e.g. after the chunking rules changed.
+export async function reindexLocalDocumentIndex(id: string, onLog?: (message: string) => void): Promise<LocalDocumentIndex> {
+  const index = await getLocalDocumentIndex(id);
+  if (!index) throw new Error(`Local index ${id} was not found in this browser.`);
+  if (!index.documents) throw new Error(`${index.topic || id} was indexed before re-indexing was supported. Upload its documents again.`);
+  log(onLog, `Re-indexing ${id} from ${index.documents.length} stored document(s)`);
+  const rebuilt = buildLocalIndex(index.id, index.topic, index.documents);
+  const updated: LocalDocumentIndex = { ...index, chunks: rebuilt.chunks, documentFrequency: rebuilt.documentFrequency, averageLength: rebuilt.averageLength };
+  await saveIndex(updated, onLog);
+  return updated;
+}
+
+export async function retrieveGroundTruthLocally(
+  params: RetrieveParams,
+  onLog?: (message: string) => void
+): Promise<RetrieveResponseItem[]> {
+  const ids = params.sourceIds?.length ? params.sourceIds : [params.sourceId];
+  log(onLog, `Retrieving ground truth from local index(es) ${ids.map(id => `"${id}"`).join(', ')} for ${params.slides.length} slide(s)`);
+  const indexes: LocalDocumentIndex[] = [];
+  for (const id of ids) {
+    const index = await getLocalDocumentIndex(id);
+    if (!index) throw new Error(`The local document index ${id} was not found in this browser. Upload the documents again.`);
+    indexes.push(index);
+  }
+  const result = retrieveFromIndex(mergeIndexes(indexes), params.topic, params.slides);
+  log(onLog, `Retrieved ${result.filter(r => r.SlideContent).length} of ${result.length} slide(s) with content`);
+  return result;
+}
@@ -1,10 +1,24 @@
 // n8nApi.ts
-import { CourseType, WPCourse } from './types';
-import { debugFetch } from '../utils/debug';
+import { CourseType, WPCourse, RemoteProject, RemoteProjectSummary, SyncedProjectData, SlideNotes, SourcePassage, KnowledgeBase, DocumentSource } from './types';
+import { debugFetch } from './utils/debug';
 
 const N8N_UPSERT_URL = 'https://n8n.myapps.mylabs.click/webhook/upsert';
 const N8N_RETRIEVE_URL = 'https://n8n.myapps.mylabs.click/webhook/retrieve';
 
+// Knowledge base webhooks. Knowledge bases are keyed by sourceId and owned by the userId sent
+// with the upsert; vectorizing runs after upsert answers, so callers poll kb/status.
+const N8N_KB_LIST_URL = 'https://n8n.myapps.mylabs.click/webhook/kb/list';
+const N8N_KB_STATUS_URL = 'https://n8n.myapps.mylabs.click/webhook/kb/status';
+const N8N_KB_REINDEX_URL = 'https://n8n.myapps.mylabs.click/webhook/kb/reindex';
+const N8N_KB_DELETE_URL = 'https://n8n.myapps.mylabs.click/webhook/kb/delete';
+
+// Project sync webhooks. Records are keyed by (userId, runId) and carry a revision number
+// that the workflow increments on every accepted save.
+const N8N_PROJECT_SAVE_URL = 'https://n8n.myapps.mylabs.click/webhook/projects/save';
+const N8N_PROJECT_LOAD_URL = 'https://n8n.myapps.mylabs.click/webhook/projects/load';
+const N8N_PROJECT_LIST_URL = 'https://n8n.myapps.mylabs.click/webhook/projects/list';
+const N8N_PROJECT_DELETE_URL = 'https://n8n.myapps.mylabs.click/webhook/projects/delete';
+
 // Base URL for all WordPress-related n8n webhooks.
 const WP_WEBHOOK_BASE_URL = 'https://n8n.ankapps.ankabut.ac.ae/webhook';
 
@@ -14,13 +28,14 @@ const log = (onLog?: (s: string) => void, msg = "") => {
   onLog(`[${new Date().toISOString()}] [n8nAPI] ${msg}`);
 };
 
-interface UpsertResponse {
+export interface UpsertResponse {
   sourceId: string;
+  status?: string; // workflows that vectorize in the background answer 'queued'; absent means ready
 }
 
 export async function upsertDocument(
   files: File[],
-  metadata: { runId: string; topic: string },
+  metadata: { runId: string; topic: string; userId: string; sources?: DocumentSource[] },
   onLog?: (message: string) => void
 ): Promise<UpsertResponse> {
   log(onLog, `Uploading ${files.length} document(s) for topic "${metadata.topic}" with runId ${metadata.runId}`);
@@ -32,6 +47,9 @@ export async function upsertDocument(
   });
   formData.append('runId', metadata.runId);
   formData.append('topic', metadata.topic);
+  formData.append('userId', metadata.userId);
+  // JSON list of { name, type }, in file order; converted sources arrive as .txt files.
+  if (metadata.sources) formData.append('sources', JSON.stringify(metadata.sources));
 
   // Add logging to verify the keys being sent in FormData, to help debug the discrepancy.
   if (onLog) {
@@ -73,20 +91,23 @@ export interface SlideRequestInfo {
     contentType: string;
     autoMode: boolean;
     userContent: string;
-    interactive: string;
+    interactive: string; // first of `interactives`, or 'None'; kept for workflows that read one
+    interactives: string[]; // in slide order
 }
 
-interface RetrieveParams {
+export interface RetrieveParams {
   runId: string;
-  sourceId: string;
+  sourceId: string; // first of `sourceIds`; kept for workflows that read one
+  sourceIds: string[]; // every knowledge base attached to the course
   topic: string;
   courseType: CourseType;
   slides: SlideRequestInfo[];
 }
 
-interface RetrieveResponseItem {
+export interface RetrieveResponseItem {
     id: number;
     SlideContent: string;
+    sources?: SourcePassage[]; // the passages behind SlideContent; optional for the n8n workflow
 }
 
 
@@ -135,6 +156,238 @@ export async function retrieveGroundTruth(
   }
 }
 
+// --- Knowledge Base APIs ---
+
+// What kb/status and kb/reindex answer. `status` is the workflow's own word for the stage
+// (queued, registering, vectorizing, ready, error); knowledgeBase.ts maps it to a KbStatus.
+export interface RemoteKbStatus {
+  sourceId: string;
+  status: string;
+  progress?: number; // 0..1
+  error?: string;
+}
+
+export type RemoteKnowledgeBase = Omit<KnowledgeBase, 'status'> & { status: string };
+
+// The workflow's list items; everything but sourceId is optional so older records still show.
+interface RemoteKbFromWebhook {
+  sourceId: string;
+  topic?: string;
+  fileNames?: string[];
+  sources?: DocumentSource[];
+  sizeBytes?: number;
+  createdAt?: string;
+  status?: string;
+  progress?: number;
+  error?: string;
+}
+
+export async function listRemoteKnowledgeBases(
+  userId: string,
+  onLog?: (message: string) => void
+): Promise<RemoteKnowledgeBase[]> {
+  const params = new URLSearchParams({ userId });
+  const response = await debugFetch(`${N8N_KB_LIST_URL}?${params.toString()}`, {
+    method: 'GET',
+  }, onLog, { label: 'n8n-kb-list' });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`n8n knowledge base list failed: ${response.status} - ${errorText}`);
+  }
+
+  const result = await response.json();
+  if (!Array.isArray(result)) {
+    throw new Error('n8n knowledge base list response is not a valid array.');
+  }
+  return (result as RemoteKbFromWebhook[]).filter(item => item?.sourceId).map(item => ({
+    id: item.sourceId,
+    backend: 'n8n' as const,
+    name: item.topic?.trim() || item.fileNames?.[0] || item.sourceId,
+    fileNames: item.fileNames ?? item.sources?.map(s => s.name) ?? [],
+    sources: item.sources,
+    sizeBytes: item.sizeBytes,
+    createdAt: item.createdAt ?? '',
+    status: item.status ?? 'ready',
+    progress: item.progress,
+    error: item.error,
+  }));
+}
+
+async function postKbRequest(
+  url: string,
+  label: string,
+  body: Record<string, string>,
+  onLog?: (message: string) => void
+): Promise<RemoteKbStatus> {
+  const response = await debugFetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }, onLog, { label });
+
+  if (response.status === 404) {
+    throw new Error(`Knowledge base ${body.sourceId} was not found on the n8n server.`);
+  }
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${label} failed: ${response.status} - ${errorText}`);
+  }
+
+  const result = await response.json();
+  const item = Array.isArray(result) ? result[0] : result;
+  if (!item || typeof item.status !== 'string') {
+    throw new Error(`${label} response is missing a 'status'. Body: ${JSON.stringify(result).slice(0, 200)}`);
+  }
+  return { sourceId: item.sourceId ?? body.sourceId, status: item.status, progress: item.progress, error: item.error };
+}
+
+export async function getKnowledgeBaseStatus(sourceId: string, onLog?: (message: string) => void): Promise<RemoteKbStatus> {
+  return postKbRequest(N8N_KB_STATUS_URL, 'n8n-kb-status', { sourceId }, onLog);
+}
+
+// Re-runs chunking and embedding over the stored files; the answer is the first status to poll from.
+export async function reindexRemoteKnowledgeBase(userId: string, sourceId: string, onLog?: (message: string) => void): Promise<RemoteKbStatus> {
+  log(onLog, `Re-indexing knowledge base ${sourceId}`);
+  return postKbRequest(N8N_KB_REINDEX_URL, 'n8n-kb-reindex', { userId, sourceId }, onLog);
+}
+
+export async function deleteRemoteKnowledgeBase(userId: string, sourceId: string, onLog?: (message: string) => void): Promise<void> {
+  log(onLog, `Deleting knowledge base ${sourceId}`);
+  const response = await debugFetch(N8N_KB_DELETE_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId, sourceId }),
+  }, onLog, { label: 'n8n-kb-delete' });
+
+  // Already gone is as good as deleted.
+  if (!response.ok && response.status !== 404) {
+    const errorText = await response.text();
+    throw new Error(`n8n knowledge base delete failed: ${response.status} - ${errorText}`);
+  }
+}
+
+// --- Project Sync APIs ---
+
+// Thrown by saveProject when the server already holds a newer revision than the one the client edited.
+export class ProjectConflictError extends Error {
+  remote: RemoteProject;
+
+  constructor(remote: RemoteProject) {
+    super(`Project ${remote.runId} was changed elsewhere (server revision ${remote.revision}).`);
+    this.name = 'ProjectConflictError';
+    this.remote = remote;
+  }
+}
+
+export interface SaveProjectParams {
+  userId: string;
+  runId: string;
+  baseRevision: number; // revision the client's edits are based on; 0 for a project never saved remotely
+  clientId: string;
+  project: SyncedProjectData;
+}
+
+export async function saveProject(
+  params: SaveProjectParams,
+  onLog?: (message: string) => void
+): Promise<{ revision: number; updatedAt: string }> {
+  log(onLog, `Saving project ${params.runId} (base revision ${params.baseRevision})`);
+
+  // Not retried: when only the response is lost, the save has already advanced the revision and
+  // a retry would come back as a false conflict.
+  const response = await debugFetch(N8N_PROJECT_SAVE_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  }, onLog, { label: 'n8n-project-save', bodyPreview: false });
+
+  // The workflow answers 409 with the current server copy when baseRevision is stale.
+  if (response.status === 409) {
+    const result = await response.json();
+    const remote: RemoteProject | undefined = result?.remote ?? result;
+    if (!remote || typeof remote.revision !== 'number' || !remote.project) {
+      throw new Error('n8n project save reported a conflict without the current server copy.');
+    }
+    log(onLog, `Save conflict for ${params.runId}: server is at revision ${remote.revision}`);
+    throw new ProjectConflictError(remote);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`n8n project save failed: ${response.status} - ${errorText}`);
+  }
+
+  const result = await response.json();
+  if (typeof result?.revision !== 'number') {
+    throw new Error('`revision` not found in n8n project save response.');
+  }
+  log(onLog, `Project ${params.runId} saved as revision ${result.revision}`);
+  return { revision: result.revision, updatedAt: result.updatedAt ?? new Date().toISOString() };
+}
+
+export async function loadProject(
+  userId: string,
+  runId: string,
+  onLog?: (message: string) => void
+): Promise<RemoteProject | null> {
+  const params = new URLSearchParams({ userId, runId });
+  const response = await debugFetch(`${N8N_PROJECT_LOAD_URL}?${params.toString()}`, {
+    method: 'GET',
+  }, onLog, { label: 'n8n-project-load', bodyPreview: false });
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`n8n project load failed: ${response.status} - ${errorText}`);
+  }
+
+  const result = await response.json();
+  // An empty body (or empty array) from the workflow means "no such project".
+  const remote: RemoteProject | undefined = Array.isArray(result) ? result[0] : result;
+  if (!remote || !remote.project) return null;
+  if (typeof remote.revision !== 'number') {
+    throw new Error(`n8n project load response is missing a numeric 'revision'. Item: ${JSON.stringify(remote).slice(0, 200)}`);
+  }
+  return remote;
+}
+
+export async function listProjects(
+  userId: string,
+  onLog?: (message: string) => void
+): Promise<RemoteProjectSummary[]> {
+  const params = new URLSearchParams({ userId });
+  const response = await debugFetch(`${N8N_PROJECT_LIST_URL}?${params.toString()}`, {
+    method: 'GET',
+  }, onLog, { label: 'n8n-project-list' });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`n8n project list failed: ${response.status} - ${errorText}`);
+  }
+
+  const result = await response.json();
+  if (!Array.isArray(result)) {
+    throw new Error('n8n project list response is not a valid array.');
+  }
+  return result as RemoteProjectSummary[];
+}
+
+export async function deleteProject(userId: string, runId: string, onLog?: (message: string) => void): Promise<void> {
+  log(onLog, `Deleting project ${runId}`);
+  const response = await debugFetch(N8N_PROJECT_DELETE_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId, runId }),
+  }, onLog, { label: 'n8n-project-delete' });
+
+  // Already gone is as good as deleted.
+  if (!response.ok && response.status !== 404) {
+    const errorText = await response.text();
+    throw new Error(`n8n project delete failed: ${response.status} - ${errorText}`);
+  }
+}
+
 // --- WordPress Export APIs ---
 
 async function handleWpApiError(res: Response, context: string): Promise<Error> {
@@ -200,11 +453,19 @@ export async function wpCreateCourse(payload: { title: string; description?: str
   return res.json();
 }
 
+export interface TopicCaptions {
+  vtt: string;
+  srt: string;
+  transcript: string;
+}
+
 export interface WpExportPayload {
   mode: 'new' | 'existing';
   course: { id: number } | { title: string; description?: string };
   lesson: { title: string };
-  topics: { title: string; html: string }[];
+  // notes: speaker notes and narration, for the lesson author. captions: the topic's own caption
+  // tracks (timed from 0) and its transcript, see exporters/captions.ts.
+  topics: { title: string; html: string; notes?: SlideNotes; captions?: TopicCaptions }[];
   publish: 'draft' | 'publish';
   runId?: string | null;
   conversationId?: string | null;
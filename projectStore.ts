@@ -0,0 +1,104 @@
+// projectStore.ts
+// Local project library. Every wizard session is autosaved to IndexedDB, scoped to the signed-in user,
+// so a refresh, the idle logout or a crash doesn't lose the course configuration or generated slides.
+import type { SavedProject, ProjectSnapshot, SyncedProjectData } from './types';
+import { PROJECTS_STORE, requestToPromise, withStore } from './utils/idb';
+
+export const projectDisplayName = (p: Pick<SavedProject, 'name' | 'courseData'>): string =>
+  p.name.trim() || p.courseData.courseTopic?.trim() || 'Untitled course';
+
+export async function listLocalProjects(userId: string): Promise<SavedProject[]> {
+  const projects = await withStore(PROJECTS_STORE, 'readonly', store =>
+    requestToPromise(store.index('userId').getAll(userId) as IDBRequest<SavedProject[]>)
+  );
+  return projects.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getLocalProject(userId: string, id: string): Promise<SavedProject | null> {
+  const project = await withStore(PROJECTS_STORE, 'readonly', store =>
+    requestToPromise(store.get(id) as IDBRequest<SavedProject | undefined>)
+  );
+  // Never hand out another user's project, even if the id is known.
+  return project && project.userId === userId ? project : null;
+}
+
+// Upserts the autosave snapshot, preserving the user-chosen name, creation date and sync bookkeeping.
+export async function saveLocalProject(snapshot: ProjectSnapshot): Promise<SavedProject> {
+  return withStore(PROJECTS_STORE, 'readwrite', async store => {
+    const existing = await requestToPromise(store.get(snapshot.id) as IDBRequest<SavedProject | undefined>);
+    const now = new Date().toISOString();
+    const project: SavedProject = {
+      ...snapshot,
+      name: existing?.name ?? '',
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      revision: existing?.revision ?? 0,
+      syncedAt: existing?.syncedAt,
+      syncBase: existing?.syncBase,
+    };
+    await requestToPromise(store.put(project));
+    return project;
+  });
+}
+
+// Returns the renamed project so the caller can sync it like any other save.
+export async function renameLocalProject(userId: string, id: string, name: string): Promise<SavedProject> {
+  return withStore(PROJECTS_STORE, 'readwrite', async store => {
+    const existing = await requestToPromise(store.get(id) as IDBRequest<SavedProject | undefined>);
+    if (!existing || existing.userId !== userId) throw new Error('Project not found.');
+    const renamed: SavedProject = { ...existing, name: name.trim(), updatedAt: new Date().toISOString() };
+    await requestToPromise(store.put(renamed));
+    return renamed;
+  });
+}
+
+export async function duplicateLocalProject(userId: string, id: string): Promise<SavedProject> {
+  return withStore(PROJECTS_STORE, 'readwrite', async store => {
+    const existing = await requestToPromise(store.get(id) as IDBRequest<SavedProject | undefined>);
+    if (!existing || existing.userId !== userId) throw new Error('Project not found.');
+    const now = new Date().toISOString();
+    const copyId = crypto.randomUUID();
+    const copy: SavedProject = {
+      ...existing,
+      id: copyId,
+      name: `${projectDisplayName(existing)} (copy)`,
+      // The copy gets its own n8n run; the GLM conversation is shared so its slides stay revisable.
+      runId: copyId,
+      createdAt: now,
+      updatedAt: now,
+      revision: 0,
+      syncedAt: undefined,
+      syncBase: undefined,
+    };
+    await requestToPromise(store.put(copy));
+    return copy;
+  });
+}
+
+export async function deleteLocalProject(userId: string, id: string): Promise<void> {
+  await withStore(PROJECTS_STORE, 'readwrite', async store => {
+    const existing = await requestToPromise(store.get(id) as IDBRequest<SavedProject | undefined>);
+    if (!existing || existing.userId !== userId) return;
+    await requestToPromise(store.delete(id));
+  });
+}
+
+// Writes a complete project record, e.g. one pulled from or merged with the server copy.
+export async function putLocalProject(project: SavedProject): Promise<void> {
+  await withStore(PROJECTS_STORE, 'readwrite', store => requestToPromise(store.put(project)));
+}
+
+export async function markLocalProjectSynced(
+  userId: string,
+  id: string,
+  revision: number,
+  base: SyncedProjectData
+): Promise<SavedProject | null> {
+  return withStore(PROJECTS_STORE, 'readwrite', async store => {
+    const existing = await requestToPromise(store.get(id) as IDBRequest<SavedProject | undefined>);
+    if (!existing || existing.userId !== userId) return null;
+    const synced: SavedProject = { ...existing, revision, syncedAt: new Date().toISOString(), syncBase: base };
+    await requestToPromise(store.put(synced));
+    return synced;
+  });
+}
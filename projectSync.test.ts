@@ -0,0 +1,111 @@
+// projectSync.test.ts
+// The three-way merge of a local copy with the server copy, and the per-project push queue.
+import { describe, expect, it } from 'vitest';
+import type { CourseData, GeneratedSlide, SyncedProjectData } from './types';
+import { mergeProjectData, queueProjectSync } from './projectSync';
+
+type Outline = { id: number; userContent: string };
+
+const slide = (pageNumber: number, html: string): GeneratedSlide => ({ html, pageNumber });
+
+const project = (
+  overrides: Partial<SyncedProjectData> = {},
+  course: Record<string, unknown> = {},
+  outlines: Outline[] = [{ id: 1, userContent: 'Pumps' }, { id: 2, userContent: 'Valves' }]
+): SyncedProjectData => ({
+  name: 'Plant safety',
+  step: 5,
+  mode: 'free',
+  runId: 'run-1',
+  glmConversationId: null,
+  courseData: { courseTopic: 'Maintenance', slides: outlines, slideCount: outlines.length, ...course } as Partial<CourseData>,
+  generatedSlides: [slide(1, '<p>One</p>'), slide(2, '<p>Two</p>')],
+  ...overrides,
+});
+
+describe('mergeProjectData', () => {
+  const base = project();
+
+  it('takes each field from whichever side changed it', () => {
+    const { data, conflicts } = mergeProjectData(base, project({ name: 'Renamed' }), project({ step: 6 }, { courseTopic: 'Pumps' }));
+    expect(conflicts).toEqual([]);
+    expect(data).toMatchObject({ name: 'Renamed', step: 6, courseData: { courseTopic: 'Pumps' } });
+  });
+
+  it('keeps the local value and reports fields both sides changed', () => {
+    const { data, conflicts } = mergeProjectData(base, project({ name: 'Mine' }, { courseTopic: 'A' }), project({ name: 'Theirs' }, { courseTopic: 'B' }));
+    expect(conflicts).toEqual(['courseData.courseTopic', 'name']);
+    expect(data.name).toBe('Mine');
+    expect(data.courseData.courseTopic).toBe('A');
+  });
+
+  it('merges generated slides page by page and keeps them in page order', () => {
+    const local = project({ generatedSlides: [slide(1, '<p>One, edited</p>'), slide(2, '<p>Two</p>')] });
+    const remote = project({ generatedSlides: [slide(1, '<p>One</p>'), slide(2, '<p>Two</p>'), slide(3, '<p>Three</p>')] });
+    const { data, conflicts } = mergeProjectData(base, local, remote);
+    expect(conflicts).toEqual([]);
+    expect(data.generatedSlides.map(s => s.html)).toEqual(['<p>One, edited</p>', '<p>Two</p>', '<p>Three</p>']);
+  });
+
+  it('drops items deleted here, and items deleted on the server unless they were edited here', () => {
+    const local = project({ generatedSlides: [slide(1, '<p>One</p>')] }); // page 2 deleted here
+    const remote = project({ generatedSlides: [slide(2, '<p>Two, edited</p>')] }); // page 1 deleted there
+    const { data } = mergeProjectData(base, local, remote);
+    expect(data.generatedSlides).toEqual([]);
+
+    const editedHere = project({ generatedSlides: [slide(1, '<p>One, edited</p>'), slide(2, '<p>Two</p>')] });
+    const deletedThere = project({ generatedSlides: [slide(2, '<p>Two</p>')] });
+    expect(mergeProjectData(base, editedHere, deletedThere).data.generatedSlides.map(s => s.html)).toEqual(['<p>One, edited</p>', '<p>Two</p>']);
+  });
+
+  it('merges slide outlines by id and recounts them', () => {
+    const local = project({}, {}, [{ id: 1, userContent: 'Pumps, monthly' }, { id: 2, userContent: 'Valves' }]);
+    const remote = project({}, {}, [{ id: 1, userContent: 'Pumps' }, { id: 2, userContent: 'Valves' }, { id: 3, userContent: 'Seals' }]);
+    const { data, conflicts } = mergeProjectData(base, local, remote);
+    expect(conflicts).toEqual([]);
+    expect(data.courseData.slides).toEqual([{ id: 1, userContent: 'Pumps, monthly' }, { id: 2, userContent: 'Valves' }, { id: 3, userContent: 'Seals' }]);
+    expect(data.courseData.slideCount).toBe(3);
+  });
+
+  it('reports an outline both sides edited differently', () => {
+    const local = project({}, {}, [{ id: 1, userContent: 'Mine' }, { id: 2, userContent: 'Valves' }]);
+    const remote = project({}, {}, [{ id: 1, userContent: 'Theirs' }, { id: 2, userContent: 'Valves' }]);
+    const { data, conflicts } = mergeProjectData(base, local, remote);
+    expect(conflicts).toEqual(['slide outline 1']);
+    expect((data.courseData.slides as Outline[])[0].userContent).toBe('Mine');
+  });
+
+  it('without a base, treats every difference as a conflict and keeps both sides\' items', () => {
+    const { data, conflicts } = mergeProjectData(undefined, project({ name: 'Mine' }), project({ name: 'Theirs', generatedSlides: [slide(3, '<p>Three</p>')] }));
+    expect(conflicts).toEqual(['name']);
+    expect(data.generatedSlides.map(s => s.pageNumber)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('queueProjectSync', () => {
+  const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  it('runs the tasks of one project one after another', async () => {
+    const events: string[] = [];
+    let release!: () => void;
+    const first = queueProjectSync('p1', async () => {
+      events.push('first start');
+      await new Promise<void>(resolve => { release = resolve; });
+      events.push('first end');
+    });
+    const second = queueProjectSync('p1', async () => { events.push('second'); });
+    const other = queueProjectSync('p2', async () => { events.push('other project'); });
+    await tick();
+    expect(events).toEqual(['first start', 'other project']);
+    release();
+    await Promise.all([first, second, other]);
+    expect(events).toEqual(['first start', 'other project', 'first end', 'second']);
+  });
+
+  it('runs the next task after a failed one and hands each caller its own result', async () => {
+    const failed = queueProjectSync('p3', async () => { throw new Error('offline'); });
+    const next = queueProjectSync('p3', async () => 'pushed');
+    await expect(failed).rejects.toThrow('offline');
+    await expect(next).resolves.toBe('pushed');
+  });
+});
@@ -0,0 +1,262 @@
+// projectSync.ts
+// Keeps the IndexedDB project library in step with the n8n project database.
+// Every local copy remembers the server revision it is based on (plus that revision's content),
+// so a save from a second browser is detected as a conflict instead of silently overwriting.
+import type { SavedProject, SyncedProjectData, RemoteProject, CourseData } from './types';
+import { saveProject, loadProject, deleteProject } from './n8nApi';
+import { putLocalProject, markLocalProjectSynced, getLocalProject, deleteLocalProject } from './projectStore';
+
+const CLIENT_ID_KEY = "ai_slide_studio_client_id";
+
+// Stable per-browser id, stored with each server revision to tell where an edit came from.
+export function getClientId(): string {
+  let id = localStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+}
+
+export const projectSyncData = (p: SavedProject): SyncedProjectData => ({
+  name: p.name,
+  step: p.step,
+  courseData: p.courseData,
+  generatedSlides: p.generatedSlides,
+  mode: p.mode,
+  runId: p.runId,
+  glmConversationId: p.glmConversationId,
+});
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// True when the local copy has edits the server hasn't seen.
+export const isProjectDirty = (p: SavedProject): boolean =>
+  p.revision === 0 || !p.syncBase || !same(projectSyncData(p), p.syncBase);
+
+// Uploads the project. Without `baseRevision` the local revision is used, so a stale copy raises
+// ProjectConflictError; passing the server's revision deliberately overwrites it.
+export async function pushProject(
+  project: SavedProject,
+  onLog?: (message: string) => void,
+  opts: { baseRevision?: number } = {}
+): Promise<SavedProject> {
+  const data = projectSyncData(project);
+  const { revision } = await saveProject({
+    userId: project.userId,
+    runId: project.id,
+    baseRevision: opts.baseRevision ?? project.revision,
+    clientId: getClientId(),
+    project: data,
+  }, onLog);
+  const synced = await markLocalProjectSynced(project.userId, project.id, revision, data);
+  return synced ?? { ...project, revision, syncBase: data, syncedAt: new Date().toISOString() };
+}
+
+// Server writes per project id, run one after another: a push sent while an earlier one is in
+// flight would carry the revision from before that push lands and come back as a false conflict.
+const syncQueues = new Map<string, Promise<unknown>>();
+
+export function queueProjectSync<T>(projectId: string, task: () => Promise<T>): Promise<T> {
+  const run = (syncQueues.get(projectId) ?? Promise.resolve()).catch(() => {}).then(task);
+  const tail = run.catch(() => {});
+  syncQueues.set(projectId, tail);
+  tail.then(() => {
+    if (syncQueues.get(projectId) === tail) syncQueues.delete(projectId);
+  });
+  return run;
+}
+
+// Pushes the newest local copy of the project once the pushes queued before it are done.
+// Resolves to null when there was nothing to push (the project is gone or already in sync).
+export function syncLocalProject(
+  userId: string,
+  projectId: string,
+  onLog?: (message: string) => void
+): Promise<SavedProject | null> {
+  return queueProjectSync(projectId, async () => {
+    const project = await getLocalProject(userId, projectId);
+    if (!project || !isProjectDirty(project)) return null;
+    return pushProject(project, onLog);
+  });
+}
+
+// Deletes the server copy too, so the project doesn't come back as "on the server only".
+// Queued behind pending pushes so none of them recreates the server copy afterwards.
+export function deleteSyncedProject(
+  project: SavedProject,
+  onLog?: (message: string) => void
+): Promise<void> {
+  return queueProjectSync(project.id, async () => {
+    // Re-read: a push that finished while this waited has put the project on the server.
+    const latest = (await getLocalProject(project.userId, project.id)) ?? project;
+    if (latest.revision > 0) await deleteProject(project.userId, project.id, onLog);
+    await deleteLocalProject(project.userId, project.id);
+  });
+}
+
+// Replaces the local copy with the server copy.
+export async function adoptRemoteProject(userId: string, remote: RemoteProject): Promise<SavedProject> {
+  const existing = await getLocalProject(userId, remote.runId);
+  const now = new Date().toISOString();
+  const project: SavedProject = {
+    ...remote.project,
+    id: remote.runId,
+    userId,
+    createdAt: existing?.createdAt ?? remote.updatedAt ?? now,
+    updatedAt: now,
+    revision: remote.revision,
+    syncedAt: now,
+    syncBase: remote.project,
+  };
+  await putLocalProject(project);
+  return project;
+}
+
+// --- Three-way merge ---
+
+// Picks whichever side changed relative to the base; `undefined` means both sides changed it differently.
+function pick<T>(base: T | undefined, local: T, remote: T): T | undefined {
+  if (same(local, remote)) return local;
+  if (base !== undefined && same(local, base)) return remote;
+  if (base !== undefined && same(remote, base)) return local;
+  return undefined;
+}
+
+function mergeById<T>(
+  base: T[] | undefined,
+  local: T[],
+  remote: T[],
+  key: (item: T) => number,
+  conflicts: string[],
+  label: string
+): T[] {
+  const baseById = new Map((base ?? []).map(i => [key(i), i]));
+  const remoteById = new Map(remote.map(i => [key(i), i]));
+  const localIds = new Set(local.map(key));
+  const out: T[] = [];
+
+  for (const item of local) {
+    const id = key(item);
+    const theirs = remoteById.get(id);
+    if (!theirs) {
+      // Deleted on the server: honour it unless we edited the item since.
+      const ancestor = baseById.get(id);
+      if (ancestor && same(ancestor, item)) continue;
+      out.push(item);
+      continue;
+    }
+    const merged = pick(baseById.get(id), item, theirs);
+    if (merged === undefined) conflicts.push(`${label} ${id}`);
+    out.push(merged ?? item);
+  }
+  for (const item of remote) {
+    const id = key(item);
+    // Added on the server (not something we deleted locally).
+    if (!localIds.has(id) && !baseById.has(id)) out.push(item);
+  }
+  return out;
+}
+
+export interface MergeResult {
+  data: SyncedProjectData;
+  conflicts: string[]; // fields both browsers changed; the local value was kept
+}
+
+export function mergeProjectData(
+  base: SyncedProjectData | undefined,
+  local: SyncedProjectData,
+  remote: SyncedProjectData
+): MergeResult {
+  const conflicts: string[] = [];
+  const field = <K extends keyof SyncedProjectData>(k: K): SyncedProjectData[K] => {
+    const merged = pick(base?.[k], local[k], remote[k]);
+    if (merged === undefined) conflicts.push(String(k));
+    return merged ?? local[k];
+  };
+
+  // Course data merges key by key, and its slide outlines by slide id.
+  const baseCourse = (base?.courseData ?? {}) as Record<string, unknown>;
+  const localCourse = local.courseData as Record<string, unknown>;
+  const remoteCourse = remote.courseData as Record<string, unknown>;
+  const courseData: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(localCourse), ...Object.keys(remoteCourse)]);
+  keys.delete('slides');
+  keys.delete('slideCount');
+  for (const k of keys) {
+    const merged = pick(base ? baseCourse[k] : undefined, localCourse[k], remoteCourse[k]);
+    if (merged === undefined) conflicts.push(`courseData.${k}`);
+    courseData[k] = merged === undefined ? localCourse[k] : merged;
+  }
+  if (local.courseData.slides || remote.courseData.slides) {
+    const slides = mergeById<{ id: number }>(
+      base?.courseData.slides,
+      local.courseData.slides ?? [],
+      remote.courseData.slides ?? [],
+      s => s.id,
+      conflicts,
+      'slide outline'
+    );
+    courseData.slides = slides;
+    courseData.slideCount = slides.length;
+  }
+
+  const generatedSlides = mergeById(
+    base?.generatedSlides,
+    local.generatedSlides,
+    remote.generatedSlides,
+    s => s.pageNumber,
+    conflicts,
+    'generated slide'
+  ).sort((a, b) => a.pageNumber - b.pageNumber);
+
+  return {
+    data: {
+      name: field('name'),
+      step: field('step'),
+      mode: field('mode'),
+      runId: field('runId'),
+      glmConversationId: field('glmConversationId'),
+      courseData: courseData as Partial<CourseData>,
+      generatedSlides,
+    },
+    conflicts,
+  };
+}
+
+// Applies a merge of the local copy and the server copy locally, then pushes it on top of the server revision.
+export async function mergeWithRemote(
+  local: SavedProject,
+  remote: RemoteProject,
+  onLog?: (message: string) => void
+): Promise<{ project: SavedProject; conflicts: string[] }> {
+  const { data, conflicts } = mergeProjectData(local.syncBase, projectSyncData(local), remote.project);
+  const merged: SavedProject = { ...local, ...data, updatedAt: new Date().toISOString() };
+  await putLocalProject(merged);
+  const project = await pushProject(merged, onLog, { baseRevision: remote.revision });
+  return { project, conflicts };
+}
+
+// Compares the local copy with the server before it is opened.
+// Returns the copy to open and, if both sides changed, the server copy to resolve against.
+export async function pullProject(
+  local: SavedProject,
+  onLog?: (message: string) => void
+): Promise<{ project: SavedProject; conflict: RemoteProject | null }> {
+  const remote = await loadProject(local.userId, local.id, onLog);
+  if (!remote || remote.revision <= local.revision) return { project: local, conflict: null };
+  if (!isProjectDirty(local)) {
+    return { project: await adoptRemoteProject(local.userId, remote), conflict: null };
+  }
+  return { project: local, conflict: remote };
+}
+
+export async function importRemoteProject(
+  userId: string,
+  runId: string,
+  onLog?: (message: string) => void
+): Promise<SavedProject> {
+  const remote = await loadProject(userId, runId, onLog);
+  if (!remote) throw new Error(`Project ${runId} was not found on the server.`);
+  return adoptRemoteProject(userId, remote);
+}
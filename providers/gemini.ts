@@ -0,0 +1,149 @@
+// providers/gemini.ts
+// Google Gemini. Output is plain text, split into slides like the chat-completions stream. Requests
+// go through the proxy, which holds GEMINI_API_KEY (see server/proxy.ts); a key entered on the
+// Generate step is the user's own and is used from the browser through @google/genai.
+import { GoogleGenAI } from '@google/genai';
+import type { SlideGenerationProvider, ProviderSettings, GenerationCallbacks } from './types';
+import { createExtractionState, walkText } from '../extractSlides';
+import { createSSEParser } from '../sse';
+import { debugFetch } from '../utils/debug';
+import { PROXY_BASE_URL, sessionToken } from '../auth';
+import { SYSTEM_PROMPT, newLocalConversationId, buildRevisionPrompt, finalizedDeck, describeError } from './shared';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+const GEMINI_PROXY_URL = `${PROXY_BASE_URL}/gemini/stream`;
+
+interface StreamParams extends GenerationCallbacks {
+  settings: ProviderSettings;
+  prompt: string;
+  conversationId: string;
+  firstPos: number;
+  maxSlides?: number;
+}
+
+async function streamGemini({
+  settings,
+  prompt,
+  conversationId,
+  firstPos,
+  maxSlides,
+  onPartial,
+  onComplete,
+  onError,
+  onLog,
+  signal,
+}: StreamParams) {
+  const model = settings.model || DEFAULT_GEMINI_MODEL;
+  const logFn = onLog || (() => {});
+
+  try {
+    const extractionState = createExtractionState();
+    const onText = (text: string) => walkText(extractionState, text, logFn, onPartial, firstPos);
+    if (settings.apiKey) {
+      onLog?.(`[Gemini API] Sending request with your API key (model ${model})...`);
+      const ai = new GoogleGenAI({ apiKey: settings.apiKey });
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: prompt,
+        config: { systemInstruction: SYSTEM_PROMPT, abortSignal: signal },
+      });
+      for await (const chunk of stream) {
+        if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+        if (chunk.text) onText(chunk.text);
+      }
+    } else {
+      await streamThroughProxy(model, prompt, onText, logFn, signal);
+    }
+
+    onLog?.('[Gemini API] Stream finished.');
+    const slides = finalizedDeck(extractionState);
+    onComplete?.(conversationId, maxSlides ? slides.slice(0, maxSlides) : slides);
+  } catch (error: any) {
+    console.error('Gemini API Error:', error);
+    onError?.(describeError(error, 'Gemini API', onLog));
+  }
+}
+
+// The proxy passes Gemini's streamGenerateContent SSE through unchanged; every event is a
+// GenerateContentResponse whose text parts are the next piece of output.
+async function streamThroughProxy(
+  model: string,
+  prompt: string,
+  onText: (text: string) => void,
+  logFn: (message: string) => void,
+  signal?: AbortSignal
+) {
+  const token = sessionToken();
+  if (!token) throw new Error('Your session has no access to the generation service. Please log out and sign in again.');
+  logFn(`[Gemini API] Sending request through the proxy (model ${model})...`);
+  const response = await debugFetch(GEMINI_PROXY_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+    },
+    body: JSON.stringify({
+      model,
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      systemInstruction: { parts: [{ text: SYSTEM_PROMPT }] },
+    }),
+    signal,
+  }, logFn, { label: 'gemini-stream', bodyPreview: false });
+
+  logFn(`[Gemini API] Request sent. Status: ${response.status}`);
+  if (response.status === 401) throw new Error('Your session has expired. Please log out and sign in again.');
+  if (response.status === 429) {
+    const retryAfter = response.headers.get('retry-after');
+    const { error } = await response.json().catch(() => ({ error: 'Rate limit reached.' }));
+    throw new Error(`${error}${retryAfter ? ` Please try again in ${retryAfter} seconds.` : ''}`);
+  }
+  if (!response.ok || !response.body) {
+    const errorText = await response.text();
+    throw new Error(`API request failed: ${response.status} ${response.statusText} - ${errorText}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const parse = createSSEParser(evt => {
+    try {
+      const data = JSON.parse(evt.data);
+      if (data?.error) throw new Error(`The generation service reported an error: ${data.error.message ?? data.error.status}`);
+      for (const part of data?.candidates?.[0]?.content?.parts ?? []) {
+        if (typeof part?.text === 'string' && !part.thought) onText(part.text);
+      }
+    } catch (e) {
+      if (e instanceof SyntaxError) logFn(`[SSE] Error parsing event data: ${e}. Data: ${evt.data}`);
+      else throw e;
+    }
+  });
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parse(decoder.decode(value, { stream: true }));
+  }
+  parse('', { flush: true });
+}
+
+export function createGeminiProvider(settings: ProviderSettings): SlideGenerationProvider {
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+
+    async generateDeck({ prompt, ...callbacks }) {
+      await streamGemini({ ...callbacks, settings, prompt, conversationId: newLocalConversationId(), firstPos: 1 });
+    },
+
+    async revisePage({ prompt, conversationId, pageNumber, currentHtml, ...callbacks }) {
+      await streamGemini({
+        ...callbacks,
+        settings,
+        prompt: buildRevisionPrompt(prompt, pageNumber, currentHtml),
+        conversationId,
+        firstPos: pageNumber,
+        maxSlides: 1,
+      });
+    },
+  };
+}
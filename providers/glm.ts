@@ -0,0 +1,38 @@
+// providers/glm.ts
+// The bigmodel.cn slides agent. It keeps the conversation server-side, so revisions only send the instruction.
+// Requests go through the proxy, which holds the API key (see server/proxy.ts).
+import type { SlideGenerationProvider, ProviderSettings } from './types';
+import { addPage, updatePage } from '../glmApi';
+import { isLocalConversationId, buildRevisionPrompt } from './shared';
+
+export function createGlmProvider(_settings: ProviderSettings): SlideGenerationProvider {
+  return {
+    id: 'glm',
+    label: 'GLM Slides Agent',
+
+    async generateDeck(req) {
+      await addPage(req);
+    },
+
+    async revisePage({ prompt, conversationId, pageNumber, currentHtml, ...rest }) {
+      // Deck was generated by another provider: start a GLM conversation seeded with the slide.
+      if (isLocalConversationId(conversationId)) {
+        // The fresh conversation only knows this one slide, so positions are mapped back and the
+        // deck keeps its own conversation id.
+        rest.onLog?.(`[GLM API] No GLM conversation for this deck; revising slide ${pageNumber} from its current HTML.`);
+        await addPage({
+          ...rest,
+          prompt: buildRevisionPrompt(prompt, pageNumber, currentHtml),
+          onPartial: (pos, html, complete) => {
+            if (pos === 1) rest.onPartial?.(pageNumber, html, complete);
+          },
+          onComplete: (_convId, slides) => {
+            rest.onComplete?.(conversationId, slides.slice(0, 1).map(s => ({ ...s, pageNumber })));
+          },
+        });
+        return;
+      }
+      await updatePage({ ...rest, prompt, conversationId });
+    },
+  };
+}
@@ -0,0 +1,69 @@
+// providers/index.ts
+import type { ProviderId, ProviderSettings, SlideGenerationProvider } from './types';
+import { createGlmProvider } from './glm';
+import { createOpenAICompatibleProvider, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from './openaiCompatible';
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from './gemini';
+import { createMockProvider, isMockProviderForced } from './mock';
+
+export type { ProviderId, ProviderSettings, SlideGenerationProvider } from './types';
+
+const SETTINGS_KEY = "ai_slide_studio_provider";
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; description: string; defaults: Omit<ProviderSettings, 'id'> }[] = [
+  {
+    id: 'glm',
+    label: 'GLM Slides Agent',
+    description: 'The hosted bigmodel.cn slides agent. Keeps revision history server-side.',
+    defaults: {},
+  },
+  {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    description: 'Any chat-completions endpoint, including local servers such as Ollama or LM Studio.',
+    defaults: { baseUrl: DEFAULT_OPENAI_BASE_URL, model: DEFAULT_OPENAI_MODEL },
+  },
+  {
+    id: 'gemini',
+    label: 'Google Gemini',
+    description: 'Gemini via the Google GenAI SDK.',
+    defaults: { model: DEFAULT_GEMINI_MODEL },
+  },
+  // Only offered when the mock is switched on (VITE_SLIDES_PROVIDER=mock or ?debug=mock).
+  ...(isMockProviderForced() ? [{
+    id: 'mock' as const,
+    label: 'Offline Mock',
+    description: 'Templated slides streamed locally through the GLM pipeline. No network needed.',
+    defaults: {},
+  }] : []),
+];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = isMockProviderForced() ? { id: 'mock' } : { id: 'glm' };
+
+export function getProvider(settings: ProviderSettings): SlideGenerationProvider {
+  switch (settings.id) {
+    case 'openai':
+      return createOpenAICompatibleProvider(settings);
+    case 'gemini':
+      return createGeminiProvider(settings);
+    case 'mock':
+      return createMockProvider();
+    case 'glm':
+    default:
+      return createGlmProvider(settings);
+  }
+}
+
+export function loadProviderSettings(): ProviderSettings {
+  if (isMockProviderForced()) return DEFAULT_PROVIDER_SETTINGS;
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "null");
+    if (saved && PROVIDER_OPTIONS.some(o => o.id === saved.id)) return saved;
+  } catch {
+    // fall through to the default
+  }
+  return DEFAULT_PROVIDER_SETTINGS;
+}
+
+export function saveProviderSettings(settings: ProviderSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,175 @@
+// providers/mock.ts
+// Offline stand-in for the GLM slides agent. It fakes the agents endpoint (an SSE Response with
+// cumulative add_page tool frames) and feeds it through runGlmStream, so createSSEParser, event-id
+// dedup, [DONE] handling and walkEvent all run exactly as they do against the live API.
+//
+// Enable with VITE_SLIDES_PROVIDER=mock or ?debug=mock. Extra debug channels shape the stream:
+//   mock-slow    long, uneven pauses between network chunks
+//   mock-dup     resend some frames with an id that was already delivered
+//   mock-error   the server reports an error halfway through the deck
+//   mock-nodone  the stream ends without a [DONE] marker
+//   mock-drop    the connection drops partway; the reconnect resumes after Last-Event-ID
+//   mock-restart with mock-drop: the server ignores Last-Event-ID and sends the stream again
+import type { SlideGenerationProvider, GenerationCallbacks } from './types';
+import { runGlmStream } from '../glmApi';
+import { debugEnabled } from '../utils/debug';
+import { parseDeckPrompt, renderMockSlide, renderMockModelSlide, isStructuredPrompt, loadMockFixture, MockSlideSpec } from './mockFixtures';
+import { newLocalConversationId } from './shared';
+
+export const isMockProviderForced = (): boolean =>
+  (import.meta as any).env?.VITE_SLIDES_PROVIDER === 'mock' || debugEnabled('mock');
+
+interface MockStreamOptions {
+  slow: boolean;
+  duplicates: boolean;
+  failMidway: boolean;
+  omitDone: boolean;
+  dropConnection: boolean;
+  ignoreLastEventId: boolean;
+}
+
+const streamOptions = (): MockStreamOptions => ({
+  slow: debugEnabled('mock-slow'),
+  duplicates: debugEnabled('mock-dup'),
+  failMidway: debugEnabled('mock-error'),
+  omitDone: debugEnabled('mock-nodone'),
+  dropConnection: debugEnabled('mock-drop'),
+  ignoreLastEventId: debugEnabled('mock-restart'),
+});
+
+const frame = (id: number, data: unknown) => `id: ${id}\ndata: ${JSON.stringify(data)}\n\n`;
+
+const toolEvent = (conversationId: string, position: number, cumulative: string) => ({
+  conversation_id: conversationId,
+  choices: [{
+    messages: [{
+      phase: 'tool',
+      content: [{ type: 'object', object: { tool_name: 'add_page', position: [position], output_delta: cumulative } }],
+    }],
+  }],
+});
+
+// Builds the full SSE body the agents endpoint would send for these slides.
+function buildMockSse(conversationId: string, slides: { spec: MockSlideSpec; html: string }[], opts: MockStreamOptions): string {
+  let id = 0;
+  // Short reconnect delay, so resumes are quick to watch.
+  let out = 'retry: 750\n\n' + frame(++id, {
+    conversation_id: conversationId,
+    choices: [{ messages: [{ phase: 'thinking', content: [{ type: 'text', text: `Planning ${slides.length} slide(s).` }] }] }],
+  });
+
+  const failAt = Math.ceil(slides.length / 2);
+  for (const [index, { spec, html }] of slides.entries()) {
+    if (opts.failMidway && index === failAt) {
+      out += frame(++id, { error: { code: 'mock_error', message: `Simulated failure while writing slide ${spec.position}.` } });
+      return out;
+    }
+    // output_delta is cumulative, like the live agent: every frame repeats the document so far.
+    const step = Math.max(80, Math.ceil(html.length / 6));
+    for (let end = step; end < html.length + step; end += step) {
+      const cumulative = html.slice(0, Math.min(end, html.length));
+      out += frame(++id, toolEvent(conversationId, spec.position, cumulative));
+      // A retransmission carries the id of a frame that was already delivered.
+      if (opts.duplicates && end === step) out += frame(id, toolEvent(conversationId, spec.position, cumulative + '<!-- duplicate -->'));
+    }
+  }
+
+  out += frame(++id, {
+    conversation_id: conversationId,
+    choices: [{ messages: [{ phase: 'answer', content: [{ type: 'text', text: 'Deck complete.' }] }] }],
+  });
+  if (!opts.omitDone) out += `id: ${++id}\ndata: [DONE]\n\n`;
+  return out;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('The operation was aborted.', 'AbortError'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    }, { once: true });
+  });
+
+// What a server honouring Last-Event-ID resends: every frame after the one with that id.
+function resumeAfter(sse: string, lastEventId?: string): string {
+  if (!lastEventId) return sse;
+  const frames = sse.split(/\n\n/).filter(Boolean);
+  let from = -1;
+  frames.forEach((f, i) => {
+    if (new RegExp(`^id: ?${lastEventId}$`, 'm').test(f)) from = i;
+  });
+  return from < 0 ? sse : frames.slice(from + 1).map(f => `${f}\n\n`).join('');
+}
+
+// Wraps the SSE text in a streaming Response, cut at arbitrary offsets so frames (and multi-byte
+// characters) are split across chunks the way a real network delivers them.
+// `dropAt` (a fraction of the body) fails the read there, like a lost connection.
+function mockResponse(sse: string, opts: MockStreamOptions, signal?: AbortSignal, dropAt?: number): Response {
+  const bytes = new TextEncoder().encode(sse);
+  const dropOffset = dropAt == null ? Infinity : Math.floor(bytes.length * dropAt);
+  let offset = 0;
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        await sleep(opts.slow ? 150 + Math.random() * 900 : 10 + Math.random() * 40, signal);
+      } catch (e) {
+        controller.error(e);
+        return;
+      }
+      if (offset >= dropOffset) {
+        controller.error(new TypeError('network error: connection reset (simulated)'));
+        return;
+      }
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      const size = 64 + Math.floor(Math.random() * 448);
+      controller.enqueue(bytes.slice(offset, offset + size));
+      offset += size;
+    },
+  });
+  return new Response(body, { status: 200, headers: { 'content-type': 'text/event-stream' } });
+}
+
+// Serves the SSE text like the agents endpoint would, including resumes after a (simulated) drop.
+function streamMock(sse: string, opts: MockStreamOptions, conversationId: string, { signal, ...handlers }: GenerationCallbacks) {
+  let connections = 0;
+  return runGlmStream(async lastEventId => {
+    connections++;
+    const body = opts.ignoreLastEventId ? sse : resumeAfter(sse, lastEventId);
+    if (lastEventId) handlers.onLog?.(`[Mock] Resuming after event ${lastEventId} (${body.length} chars left).`);
+    return mockResponse(body, opts, signal, opts.dropConnection && connections === 1 ? 0.45 : undefined);
+  }, { ...handlers, conversationId }, signal);
+}
+
+export function createMockProvider(): SlideGenerationProvider {
+  return {
+    id: 'mock',
+    label: 'Offline Mock',
+
+    async generateDeck(req) {
+      const conversationId = newLocalConversationId();
+      const { slides, structured } = parseDeckPrompt(req.prompt);
+      const render = structured ? renderMockModelSlide : renderMockSlide;
+      const opts = streamOptions();
+      const fixture = loadMockFixture();
+      const sse = fixture ?? buildMockSse(conversationId, slides.map(spec => ({ spec, html: render(spec) })), opts);
+      const flags = Object.entries(opts).filter(([, on]) => on).map(([k]) => k).join(', ') || 'default';
+      req.onLog?.(`[Mock] Streaming ${fixture ? 'recorded fixture' : `${slides.length} templated slide(s)`} (${flags}).`);
+      await streamMock(sse, opts, conversationId, req);
+    },
+
+    async revisePage({ prompt, conversationId, pageNumber, ...rest }) {
+      const spec: MockSlideSpec = { position: pageNumber, title: `Slide ${pageNumber} (revised)`, contentType: 'Revision' };
+      const opts = streamOptions();
+      // Recorded fixtures hold whole decks, so revisions always use the template.
+      const render = isStructuredPrompt(prompt) ? renderMockModelSlide : renderMockSlide;
+      const sse = buildMockSse(conversationId, [{ spec, html: render(spec, `Revision request: ${prompt.slice(0, 120)}`) }], opts);
+      rest.onLog?.(`[Mock] Revising slide ${pageNumber} offline.`);
+      await streamMock(sse, opts, conversationId, rest);
+    },
+  };
+}
@@ -0,0 +1,144 @@
+// providers/mockFixtures.ts
+// Canned content for the mock provider: templated slides built from the generation prompt,
+// and recorded GLM streams saved from the Debug Panel.
+import { SLIDE_MODEL_SCRIPT_ID, slideModelEnvelope } from '../slideModel';
+import { interactiveDataBlock } from '../interactives';
+
+// Raw SSE text of a real run (window.__SSE_LAST__.raw), replayed verbatim instead of the templates.
+export const MOCK_FIXTURE_KEY = "slides_mock_fixture";
+
+export const loadMockFixture = (): string | null => {
+  try {
+    return localStorage.getItem(MOCK_FIXTURE_KEY) || null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveMockFixture = (raw: string) => localStorage.setItem(MOCK_FIXTURE_KEY, raw);
+
+export const clearMockFixture = () => localStorage.removeItem(MOCK_FIXTURE_KEY);
+
+export interface MockSlideSpec {
+  position: number;
+  title: string;
+  contentType: string;
+  interactives?: string[]; // spec types, in slide order
+  sources?: { id: string; quote: string }[]; // document mode: the slide's passages in the CONTEXT block
+}
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Reads the deck outline back out of the prompt built by payloadToPrompt.
+// `structured` when the prompt asks for slide-model envelopes (see buildStructuredGuide in App.tsx).
+export function parseDeckPrompt(prompt: string): { topic: string; slides: MockSlideSpec[]; structured: boolean } {
+  const header = /Create a (\d+)-slide .*? course titled “([^”]*)”/.exec(prompt);
+  const topic = header?.[2]?.trim() || "Sample Course";
+  const slides: MockSlideSpec[] = [];
+
+  const slideRe = /^Slide (\d+) \(([^)]*)\)\n([\s\S]*?)(?=^---$|(?![\s\S]))/gm;
+  let m: RegExpExecArray | null;
+  while ((m = slideRe.exec(prompt))) {
+    const order = /Interactive requirement: [^\n]*?in this order: ([^\n]*)/.exec(m[3])?.[1] ?? "";
+    const interactives = Array.from(order.matchAll(/"(\w+)"/g), t => t[1]);
+    slides.push({ position: Number(m[1]), title: `${topic}: ${m[2]}`, contentType: m[2], interactives, sources: contextSources(prompt, Number(m[1])) });
+  }
+
+  if (!slides.length) {
+    const count = Math.min(Number(header?.[1]) || 3, 20);
+    for (let i = 1; i <= count; i++) slides.push({ position: i, title: `${topic} (${i}/${count})`, contentType: "Content" });
+  }
+  return { topic, slides, structured: isStructuredPrompt(prompt) };
+}
+
+// The passages groundTruthContext (grounding.ts) listed for a slide, each cited with its opening words.
+function contextSources(prompt: string, position: number): MockSlideSpec["sources"] {
+  const context = /---BEGIN CONTEXT---\n([\s\S]*?)\n---END CONTEXT---/.exec(prompt)?.[1];
+  const section = context?.split(/\n\n---\n\n/).find(s => s.startsWith(`### Slide ${position}\n`));
+  if (!section) return undefined;
+  return Array.from(section.matchAll(/^\[([^\]\s]+)\] \([^\n]*\)\n([^\n]*)/gm), p => ({
+    id: p[1],
+    quote: p[2].split(/\s+/).slice(0, 12).join(" "),
+  }));
+}
+
+// Same sources block the prompt asks real models for (see splitSlideSources in extractSlides.ts).
+const sourcesBlock = (spec: MockSlideSpec) => spec.sources?.length
+  ? `<script type="application/json" id="slide-sources">${JSON.stringify(spec.sources.map(s => ({ ...s, claim: `Slide ${spec.position} draws on this passage.` }))).replace(/</g, "\\u003c")}</script>`
+  : "";
+
+export const isStructuredPrompt = (prompt: string) => prompt.includes(`id="${SLIDE_MODEL_SCRIPT_ID}"`);
+
+const mockNotes = (spec: MockSlideSpec) => ({
+  points: [`Introduce ${spec.contentType.toLowerCase()} in one sentence.`, "Ask the audience for an example from their own work."],
+  narration: `This slide covers ${spec.title}. Take a moment to read the key points, then think about where they apply to you.`,
+  durationSeconds: 30,
+});
+
+// Same notes block the prompt asks real models for (see splitSlideNotes in extractSlides.ts).
+const notesBlock = (spec: MockSlideSpec) => JSON.stringify(mockNotes(spec)).replace(/</g, "\\u003c");
+
+const mockInteractive = (type: string, topic: string) => {
+  switch (type) {
+    case "quiz":
+      return { type, questions: [{ prompt: `Which statement about ${topic} is true?`, options: [{ text: "The mock answer", correct: true }, { text: "A distractor", correct: false }], explanation: "Generated offline." }] };
+    case "matching":
+      return { type, pairs: [{ left: "Term", right: "Definition" }, { left: "Example", right: "Illustration" }] };
+    case "infographic":
+      return { type, items: [{ label: "Slides", value: "3" }, { label: "Minutes", value: "5" }] };
+    case "ordering":
+      return { type, prompt: "Put the steps in order.", items: ["Plan", "Build", "Review"] };
+    case "cloze":
+      return { type, text: `The mock provider generates [[offline|locally]] content about ${topic}.` };
+    case "hotspot":
+      return { type, prompt: "Select the highlighted area.", image: { src: "https://picsum.photos/seed/mock/800/450", alt: "Placeholder image" }, spots: [{ x: 30, y: 40, label: "Target", correct: true, feedback: "Well spotted." }, { x: 70, y: 60, label: "Decoy", correct: false }] };
+    case "truefalse":
+      return { type, statements: [{ statement: `This slide about ${topic} was generated offline.`, answer: true, feedback: "The mock provider made it." }] };
+    case "scenario":
+      return { type, situation: "A colleague asks for help with a deadline.", question: "What do you do?", choices: [{ text: "Agree on priorities together", feedback: "Good call.", correct: true }, { text: "Ignore the request", feedback: "That leaves them stuck.", correct: false, goToSlide: 1 }] };
+    default:
+      return { type: "flashcards", cards: [{ front: `What is the key idea of ${topic}?`, back: "A mock answer generated offline." }] };
+  }
+};
+
+// Structured-mode counterpart of renderMockSlide: the slide as a SlideModel envelope.
+export function renderMockModelSlide(spec: MockSlideSpec, note = "Generated offline by the mock provider."): string {
+  return slideModelEnvelope({
+    title: spec.title,
+    subtitle: `Slide ${spec.position} • ${spec.contentType}`,
+    layout: spec.position === 1 ? "title" : "content",
+    blocks: [
+      { type: "bullets", items: [`First point about ${spec.contentType.toLowerCase()}.`, "Second point with a short supporting example."] },
+      { type: "callout", tone: "info", text: note },
+    ],
+    ...(spec.interactives?.length ? { interactives: spec.interactives.map(type => mockInteractive(type, spec.title)) } : {}),
+    notes: mockNotes(spec),
+  }, spec.position).replace("</head>", `${sourcesBlock(spec)}</head>`);
+}
+
+export function renderMockSlide(spec: MockSlideSpec, note = "Generated offline by the mock provider."): string {
+  const title = escapeHtml(spec.title);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${title}</title>
+  <style>
+    body { font-family: 'Segoe UI', Arial, sans-serif; margin: 0; padding: 48px; background: #f8fafc; color: #1f2937; }
+    h1 { color: #219ebc; margin-top: 0; }
+    .tag { display: inline-block; padding: 2px 10px; border-radius: 999px; background: #e3f6fa; color: #023047; font-size: 12px; }
+  </style>
+  <script type="application/json" id="slide-notes">${notesBlock(spec)}</script>${spec.sources?.length ? `\n  ${sourcesBlock(spec)}` : ""}
+</head>
+<body>
+  <span class="tag">Slide ${spec.position} • ${escapeHtml(spec.contentType)}</span>
+  <h1>${title}</h1>
+  <ul>
+    <li>First point about ${escapeHtml(spec.contentType.toLowerCase())}.</li>
+    <li>Second point with a short supporting example.</li>
+    <li>${escapeHtml(note)}</li>
+  </ul>${(spec.interactives ?? []).map(type => `\n  ${interactiveDataBlock(mockInteractive(type, spec.title), type)}`).join("")}
+</body>
+</html>`;
+}
@@ -0,0 +1,128 @@
+// providers/openaiCompatible.ts
+// Any server that speaks the OpenAI chat-completions protocol: OpenAI itself, Ollama, LM Studio, vLLM, llama.cpp...
+import type { SlideGenerationProvider, ProviderSettings, GenerationCallbacks } from './types';
+import { createSSEParser } from '../sse';
+import { createExtractionState, walkText } from '../extractSlides';
+import { debugFetch, debugEnabled } from '../utils/debug';
+import { SYSTEM_PROMPT, newLocalConversationId, buildRevisionPrompt, finalizedDeck, describeError } from './shared';
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'llama3.1';
+
+interface StreamParams extends GenerationCallbacks {
+  settings: ProviderSettings;
+  prompt: string;
+  conversationId: string;
+  firstPos: number;
+  maxSlides?: number;
+}
+
+async function streamChatCompletion({
+  settings,
+  prompt,
+  conversationId,
+  firstPos,
+  maxSlides,
+  onPartial,
+  onComplete,
+  onError,
+  onLog,
+  signal,
+}: StreamParams) {
+  const baseUrl = (settings.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+  const model = settings.model || DEFAULT_OPENAI_MODEL;
+  const logFn = onLog || (() => {});
+
+  try {
+    onLog?.(`[OpenAI API] Sending request to ${baseUrl} (model ${model})...`);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+    };
+    if (settings.apiKey) headers['Authorization'] = `Bearer ${settings.apiKey}`;
+
+    const response = await debugFetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        stream: true,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: prompt },
+        ],
+      }),
+      signal,
+    }, onLog, { label: 'chat-completions', bodyPreview: false }); // a retried generation could be billed twice
+
+    onLog?.(`[OpenAI API] Request sent. Status: ${response.status}`);
+    if (!response.ok || !response.body) {
+      const errorText = await response.text();
+      throw new Error(`API request failed: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+
+    const extractionState = createExtractionState();
+    const ctype = response.headers.get('content-type') || '';
+
+    if (!ctype.includes('event-stream')) {
+      // Some local servers ignore `stream: true` and answer with a single JSON body.
+      const json = await response.json();
+      walkText(extractionState, String(json?.choices?.[0]?.message?.content ?? ''), logFn, onPartial, firstPos);
+    } else {
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let done = false;
+      const parse = createSSEParser(evt => {
+        if (debugEnabled('sse-raw')) logFn(`[SSE-RAW] ${evt.data}`);
+        if (evt.data.trim() === '[DONE]') {
+          logFn('[SSE] Received [DONE] marker.');
+          done = true;
+          return;
+        }
+        try {
+          const data = JSON.parse(evt.data);
+          const delta = data?.choices?.[0]?.delta?.content;
+          if (typeof delta === 'string') walkText(extractionState, delta, logFn, onPartial, firstPos);
+        } catch (e) {
+          logFn(`[SSE] Error parsing event data: ${e}. Data: ${evt.data}`);
+        }
+      });
+
+      while (!done) {
+        const { done: streamDone, value } = await reader.read();
+        if (streamDone) break;
+        parse(decoder.decode(value, { stream: true }));
+      }
+      parse('', { flush: true });
+    }
+
+    onLog?.('[OpenAI API] Stream finished.');
+    const slides = finalizedDeck(extractionState);
+    onComplete?.(conversationId, maxSlides ? slides.slice(0, maxSlides) : slides);
+  } catch (error: any) {
+    console.error('OpenAI-compatible API Error:', error);
+    onError?.(describeError(error, 'OpenAI API', onLog));
+  }
+}
+
+export function createOpenAICompatibleProvider(settings: ProviderSettings): SlideGenerationProvider {
+  return {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+
+    async generateDeck({ prompt, ...callbacks }) {
+      await streamChatCompletion({ ...callbacks, settings, prompt, conversationId: newLocalConversationId(), firstPos: 1 });
+    },
+
+    async revisePage({ prompt, conversationId, pageNumber, currentHtml, ...callbacks }) {
+      await streamChatCompletion({
+        ...callbacks,
+        settings,
+        prompt: buildRevisionPrompt(prompt, pageNumber, currentHtml),
+        conversationId,
+        firstPos: pageNumber,
+        maxSlides: 1,
+      });
+    },
+  };
+}
@@ -0,0 +1,47 @@
+// providers/shared.ts
+// Helpers shared by the providers that have no server-side conversation (OpenAI-compatible, Gemini).
+import type { GeneratedSlide } from '../types';
+import type { StreamExtractionState } from '../extractSlides';
+import { finalizeSlides } from '../extractSlides';
+
+// Conversation ids minted in the browser. The GLM provider uses the prefix to tell them from its own.
+export const LOCAL_CONVERSATION_PREFIX = 'local-';
+
+export const newLocalConversationId = () => `${LOCAL_CONVERSATION_PREFIX}${crypto.randomUUID()}`;
+
+export const isLocalConversationId = (id: string) => id.startsWith(LOCAL_CONVERSATION_PREFIX);
+
+export const SYSTEM_PROMPT =
+  'You generate presentation slides. Reply with complete HTML documents only, one per slide, ' +
+  'each starting with <!DOCTYPE html> and ending with </html>. No markdown fences and no commentary.';
+
+// Without server-side history the model needs the slide it is revising.
+export const buildRevisionPrompt = (instruction: string, pageNumber: number, currentHtml: string) =>
+  `${instruction}\n\n` +
+  `Current HTML of slide ${pageNumber}:\n${currentHtml}\n\n` +
+  `Return the complete updated HTML document for slide ${pageNumber} only.`;
+
+export const finalizedDeck = (state: StreamExtractionState): GeneratedSlide[] =>
+  finalizeSlides(state).map(s => ({
+    pageNumber: s.position,
+    html: s.html,
+    draft: s.html,
+    complete: true,
+    ...(s.notes ? { notes: s.notes } : {}),
+    ...(s.model ? { model: s.model } : {}),
+    ...(s.modelErrors ? { modelErrors: s.modelErrors } : {}),
+    ...(s.interactives ? { interactives: s.interactives } : {}),
+    ...(s.interactiveErrors ? { interactiveErrors: s.interactiveErrors } : {}),
+  }));
+
+// Mirrors the messages callGlmAgent produces so the UI reads the same regardless of backend.
+export function describeError(error: any, tag: string, onLog?: (message: string) => void): string {
+  let message = error instanceof Error ? error.message : String(error ?? 'An unknown error occurred');
+  onLog?.(`[${tag}] Error: ${message}`);
+  if (error?.name === 'AbortError') {
+    message = 'Request aborted by client.';
+  } else if (error?.name === 'TypeError') {
+    message = "A network error occurred. This could be due to a CORS policy, a firewall, or the server not running. Please check your network and the server's status.";
+  }
+  return message;
+}
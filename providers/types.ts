@@ -0,0 +1,45 @@
+// providers/types.ts
+import type { GeneratedSlide, StreamReconnect } from '../types';
+import type { OnPartialHtml } from '../extractSlides';
+
+export type ProviderId = 'glm' | 'openai' | 'gemini' | 'mock';
+
+// User-chosen backend and its connection details. Persisted per browser, never synced.
+export interface ProviderSettings {
+  id: ProviderId;
+  baseUrl?: string; // OpenAI-compatible only, e.g. http://localhost:11434/v1
+  model?: string;
+  apiKey?: string;
+}
+
+export interface GenerationCallbacks {
+  onPartial?: OnPartialHtml;
+  onComplete?: (conversationId: string, slides: GeneratedSlide[]) => void;
+  onError?: (error: string) => void;
+  onLog?: (message: string) => void;
+  onReconnect?: (info: StreamReconnect) => void; // only streams with event ids can resume
+  onRestart?: (info: StreamReconnect) => void; // the resume was answered with a new stream; discard the partial output
+  signal?: AbortSignal;
+}
+
+export interface GenerateDeckRequest extends GenerationCallbacks {
+  prompt: string;
+  kbId?: string;
+}
+
+export interface RevisePageRequest extends GenerationCallbacks {
+  prompt: string; // the revision instruction, as built by the app
+  conversationId: string;
+  pageNumber: number;
+  currentHtml: string; // lets stateless providers revise without server-side history
+  kbId?: string;
+}
+
+// A streaming slide backend. Implementations report every slide through `onPartial` as it grows,
+// then hand the finalized deck to `onComplete`; they never throw, failures go to `onError`.
+export interface SlideGenerationProvider {
+  id: ProviderId;
+  label: string;
+  generateDeck(req: GenerateDeckRequest): Promise<void>;
+  revisePage(req: RevisePageRequest): Promise<void>;
+}
@@ -0,0 +1,111 @@
+/* player.js
+ * Navigation shell for exported decks (index.html). Shows one slide at a time in an iframe, so
+ * slide styles stay isolated, and relays tracking-bridge.js messages to an optional tracker.
+ *
+ * index.html defines window.COURSE = { title, slides: [{ href, title }] } and may load a tracker
+ * (scorm-api.js, xapi-runtime.js) that sets window.CourseTracker:
+ *   start(course, index)      -> { index, locked, resume: { y, answered } | null } (or a promise of it)
+ *   viewed(index) / questions(index, ids) / answer(index, answer) / scroll(index, y)
+ *   navigate(index, step)     -> true when the LMS takes over navigation
+ *   canNavigate(index, step)  -> false hides that button
+ *   answeredOn(index)         -> question ids already answered on that slide (course-wide trackers)
+ *   finish()
+ * `locked` means the LMS launched this slide on its own (one SCO per slide) and moves between slides itself.
+ */
+(function () {
+  'use strict';
+  var course = window.COURSE;
+  var tracker = window.CourseTracker || null;
+  var frame = document.getElementById('slide-frame');
+  var prevBtn = document.getElementById('prev');
+  var nextBtn = document.getElementById('next');
+  var counter = document.getElementById('counter');
+  var slideTitle = document.getElementById('slide-title');
+  var progress = document.getElementById('progress');
+  var notice = document.getElementById('notice');
+
+  var requested = parseInt(new URLSearchParams(location.search).get('slide') || '1', 10) - 1;
+  if (!(requested >= 0 && requested < course.slides.length)) requested = 0;
+
+  var session = { index: requested, locked: false, resume: null };
+  var current = -1;
+  var pendingResume = null;
+
+  function canGo(step) {
+    var target = current + step;
+    if (session.locked) return tracker && tracker.canNavigate ? tracker.canNavigate(current, step) : false;
+    return target >= 0 && target < course.slides.length;
+  }
+
+  function render() {
+    var slide = course.slides[current];
+    document.title = slide.title + ' - ' + course.title;
+    slideTitle.textContent = slide.title;
+    counter.textContent = (current + 1) + ' / ' + course.slides.length;
+    progress.style.width = ((current + 1) / course.slides.length * 100) + '%';
+    prevBtn.hidden = !canGo(-1);
+    nextBtn.hidden = !canGo(1);
+    notice.hidden = !(session.locked && prevBtn.hidden && nextBtn.hidden && course.slides.length > 1);
+  }
+
+  function show(index) {
+    if (index === current || index < 0 || index >= course.slides.length) return;
+    current = index;
+    frame.src = course.slides[index].href;
+    render();
+    if (tracker) tracker.viewed(index);
+  }
+
+  function go(step) {
+    if (!canGo(step)) return;
+    if (tracker && tracker.navigate && tracker.navigate(current, step)) return;
+    show(current + step);
+  }
+
+  frame.addEventListener('load', function () {
+    var answered = tracker && tracker.answeredOn ? tracker.answeredOn(current) : (pendingResume && pendingResume.answered);
+    if (answered && answered.length) frame.contentWindow.postMessage({ source: 'slides-player', type: 'answered', ids: answered }, '*');
+    if (!pendingResume) return;
+    frame.contentWindow.postMessage({ source: 'slides-player', type: 'scroll-to', y: pendingResume.y || 0 }, '*');
+    pendingResume = null;
+  });
+
+  window.addEventListener('message', function (e) {
+    var data = e.data || {};
+    // Branching scenarios (interactives.ts) send the learner to another slide by number.
+    if (data.source === 'slides-interactive' && data.type === 'goto' && e.source === frame.contentWindow) {
+      if (!session.locked) show(data.slide - 1);
+      return;
+    }
+    if (data.source !== 'slides-bridge' || e.source !== frame.contentWindow || !tracker) return;
+    if (data.type === 'ready') tracker.questions(current, data.questions || []);
+    if (data.type === 'answer') tracker.answer(current, data);
+    if (data.type === 'scroll') tracker.scroll(current, data.y);
+  });
+
+  prevBtn.addEventListener('click', function () { go(-1); });
+  nextBtn.addEventListener('click', function () { go(1); });
+  document.addEventListener('keydown', function (e) {
+    if (e.key === 'ArrowRight' || e.key === 'PageDown') go(1);
+    if (e.key === 'ArrowLeft' || e.key === 'PageUp') go(-1);
+  });
+
+  var finished = false;
+  function finish() {
+    if (finished || !tracker) return;
+    finished = true;
+    tracker.finish();
+  }
+  window.addEventListener('pagehide', finish);
+  window.addEventListener('beforeunload', finish);
+
+  Promise.resolve(tracker ? tracker.start(course, requested) : session).then(function (started) {
+    session = started;
+    pendingResume = started.resume;
+    show(started.index);
+  }, function (err) {
+    console.error('[Player] Tracking could not start; continuing without it.', err);
+    tracker = null;
+    show(requested);
+  });
+})();
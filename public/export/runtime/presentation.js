@@ -0,0 +1,208 @@
+/* presentation.js
+ * Runtime of the single-file presentation export. Inlined into the exported HTML together with
+ * <script id="deck" type="application/json">{ title, slides: [{ title, html, notes: [], narration, duration }] }</script>.
+ *
+ * Every slide renders in its own srcdoc iframe, so one slide's CSS and scripts can't leak into
+ * another. Frames are created on first visit and kept, so interactive state survives navigation.
+ *
+ * Keys: →/Space/PageDown next, ←/PageUp previous, Home/End, F fullscreen, O overview, N notes, Esc closes.
+ * Touch: swipe left/right. The current slide is kept in the URL hash (#/3).
+ */
+(function () {
+  'use strict';
+  var deck = JSON.parse(document.getElementById('deck').textContent);
+  var stage = document.getElementById('stage');
+  var progress = document.getElementById('progress');
+  var counter = document.getElementById('counter');
+  var titleEl = document.getElementById('slide-title');
+  var notesPanel = document.getElementById('notes');
+  var notesBody = document.getElementById('notes-body');
+  var overview = document.getElementById('overview');
+  var grid = document.getElementById('overview-grid');
+  var frames = [];
+  var current = -1;
+  var SWIPE_MIN_PX = 50;
+  var THUMB_W = 1280;
+  var THUMB_H = 720;
+
+  function frameFor(index) {
+    if (frames[index]) return frames[index];
+    var frame = document.createElement('iframe');
+    frame.className = 'slide';
+    frame.title = deck.slides[index].title;
+    frame.setAttribute('sandbox', 'allow-scripts allow-same-origin allow-popups allow-forms');
+    frame.setAttribute('referrerpolicy', 'no-referrer');
+    frame.srcdoc = deck.slides[index].html;
+    frame.hidden = true;
+    frame.addEventListener('load', function () { bindFrame(frame); });
+    stage.appendChild(frame);
+    frames[index] = frame;
+    return frame;
+  }
+
+  // Keys and swipes inside a slide land in its frame, so they're forwarded from there.
+  function bindFrame(frame) {
+    try {
+      var doc = frame.contentDocument;
+      doc.addEventListener('keydown', onKey);
+      bindSwipe(doc);
+    } catch (e) {
+      console.warn('[Presentation] Slide frame is not reachable; navigate with the toolbar.', e);
+    }
+  }
+
+  function bindSwipe(target) {
+    var startX = null;
+    var startY = null;
+    target.addEventListener('touchstart', function (e) {
+      startX = e.touches[0].clientX;
+      startY = e.touches[0].clientY;
+    }, { passive: true });
+    target.addEventListener('touchend', function (e) {
+      if (startX === null) return;
+      var dx = e.changedTouches[0].clientX - startX;
+      var dy = e.changedTouches[0].clientY - startY;
+      startX = null;
+      if (Math.abs(dx) > SWIPE_MIN_PX && Math.abs(dx) > Math.abs(dy) * 1.5) go(dx < 0 ? current + 1 : current - 1);
+    }, { passive: true });
+  }
+
+  function renderNotes() {
+    var slide = deck.slides[current];
+    var notes = slide.notes || [];
+    notesBody.innerHTML = '';
+    if (!notes.length && !slide.narration) {
+      notesBody.textContent = 'No notes for this slide.';
+      return;
+    }
+    notes.forEach(function (line) {
+      var p = document.createElement('p');
+      p.textContent = line;
+      notesBody.appendChild(p);
+    });
+    if (slide.narration) {
+      var script = document.createElement('p');
+      script.className = 'narration';
+      script.textContent = 'Narration' + (slide.duration ? ' (' + slide.duration + ')' : '') + ': ' + slide.narration;
+      notesBody.appendChild(script);
+    }
+  }
+
+  function go(index) {
+    if (index < 0 || index >= deck.slides.length || index === current) return;
+    if (current >= 0) frames[current].hidden = true;
+    current = index;
+    frameFor(index).hidden = false;
+    // Warm up the neighbours so the next click is instant.
+    if (index + 1 < deck.slides.length) frameFor(index + 1);
+    if (index > 0) frameFor(index - 1);
+
+    progress.style.width = ((index + 1) / deck.slides.length * 100) + '%';
+    counter.textContent = (index + 1) + ' / ' + deck.slides.length;
+    titleEl.textContent = deck.slides[index].title;
+    document.title = deck.slides[index].title + ' - ' + deck.title;
+    history.replaceState(null, '', '#/' + (index + 1));
+    renderNotes();
+    document.dispatchEvent(new CustomEvent('slidechange', { detail: { index: index } }));
+  }
+
+  function toggleFullscreen() {
+    if (document.fullscreenElement) document.exitFullscreen();
+    else if (document.documentElement.requestFullscreen) document.documentElement.requestFullscreen();
+  }
+
+  function toggleNotes(force) {
+    notesPanel.hidden = typeof force === 'boolean' ? !force : !notesPanel.hidden;
+  }
+
+  function buildOverview() {
+    if (grid.childElementCount) return;
+    deck.slides.forEach(function (slide, i) {
+      var item = document.createElement('button');
+      item.className = 'thumb';
+      item.setAttribute('aria-label', 'Go to slide ' + (i + 1) + ': ' + slide.title);
+      var box = document.createElement('div');
+      box.className = 'thumb-box';
+      var frame = document.createElement('iframe');
+      frame.setAttribute('sandbox', 'allow-scripts');
+      frame.setAttribute('tabindex', '-1');
+      frame.srcdoc = slide.html;
+      box.appendChild(frame);
+      var label = document.createElement('span');
+      label.textContent = (i + 1) + '. ' + slide.title;
+      item.appendChild(box);
+      item.appendChild(label);
+      item.addEventListener('click', function () {
+        toggleOverview(false);
+        go(i);
+      });
+      grid.appendChild(item);
+    });
+  }
+
+  function scaleThumbs() {
+    Array.prototype.forEach.call(grid.querySelectorAll('.thumb-box'), function (box) {
+      var frame = box.firstChild;
+      frame.style.width = THUMB_W + 'px';
+      frame.style.height = THUMB_H + 'px';
+      frame.style.transform = 'scale(' + (box.clientWidth / THUMB_W) + ')';
+    });
+  }
+
+  function toggleOverview(force) {
+    var show = typeof force === 'boolean' ? force : overview.hidden;
+    if (show) buildOverview();
+    overview.hidden = !show;
+    if (show) {
+      scaleThumbs();
+      var active = grid.children[current];
+      Array.prototype.forEach.call(grid.children, function (el, i) { el.classList.toggle('active', i === current); });
+      if (active) active.focus();
+    }
+  }
+
+  function onKey(e) {
+    if (e.defaultPrevented || e.altKey || e.ctrlKey || e.metaKey) return;
+    var tag = e.target && e.target.tagName;
+    if (tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT' || (e.target && e.target.isContentEditable)) return;
+    if (tag === 'BUTTON' && e.key === ' ') return; // Space presses the focused button
+    switch (e.key) {
+      case 'ArrowRight': case 'PageDown': case ' ': go(current + 1); break;
+      case 'ArrowLeft': case 'PageUp': go(current - 1); break;
+      case 'Home': go(0); break;
+      case 'End': go(deck.slides.length - 1); break;
+      case 'f': case 'F': toggleFullscreen(); break;
+      case 'o': case 'O': toggleOverview(); break;
+      case 'n': case 'N': toggleNotes(); break;
+      case 'Escape': toggleOverview(false); toggleNotes(false); return;
+      default: return;
+    }
+    e.preventDefault();
+  }
+
+  document.addEventListener('keydown', onKey);
+  bindSwipe(stage);
+  window.addEventListener('resize', function () { if (!overview.hidden) scaleThumbs(); });
+  // Branching scenarios (interactives.ts) ask to continue on another slide.
+  window.addEventListener('message', function (e) {
+    var data = e.data || {};
+    if (data.source !== 'slides-interactive' || data.type !== 'goto' || !frames[current] || e.source !== frames[current].contentWindow) return;
+    go(data.slide - 1);
+  });
+  document.getElementById('prev').addEventListener('click', function () { go(current - 1); });
+  document.getElementById('next').addEventListener('click', function () { go(current + 1); });
+  document.getElementById('btn-overview').addEventListener('click', function () { toggleOverview(); });
+  document.getElementById('btn-notes').addEventListener('click', function () { toggleNotes(); });
+  document.getElementById('btn-fullscreen').addEventListener('click', toggleFullscreen);
+  document.getElementById('overview-close').addEventListener('click', function () { toggleOverview(false); });
+
+  window.Presentation = {
+    deck: deck,
+    go: go,
+    current: function () { return current; },
+    frame: function (index) { return frameFor(index); },
+  };
+
+  var fromHash = parseInt((location.hash.match(/^#\/(\d+)/) || [])[1] || '1', 10) - 1;
+  go(fromHash >= 0 && fromHash < deck.slides.length ? fromHash : 0);
+})();
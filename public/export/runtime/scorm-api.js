@@ -0,0 +1,226 @@
+/* scorm-api.js
+ * SCORM 1.2 / 2004 adapter for player.js. Every slide is its own SCO: the LMS launches
+ * index.html?slide=N, and this reports that slide's completion, quiz score and bookmark.
+ *
+ *   1.2:  cmi.core.lesson_status, cmi.core.score.*, cmi.core.lesson_location, cmi.suspend_data, cmi.interactions.n.*
+ *   2004: cmi.completion_status, cmi.success_status, cmi.score.*, cmi.location, cmi.suspend_data,
+ *         cmi.interactions.n.*, adl.nav.request for Previous/Next
+ *
+ * Configured by window.COURSE.scorm = { version: '1.2' | '2004', masteryScore: 0..1 }.
+ * Without an LMS API (opened from disk) the player runs untracked with free navigation.
+ */
+(function () {
+  'use strict';
+  var config = (window.COURSE && window.COURSE.scorm) || {};
+  var is2004 = config.version === '2004';
+  var masteryScore = typeof config.masteryScore === 'number' ? config.masteryScore : 0.8;
+
+  function findApi(win) {
+    var name = is2004 ? 'API_1484_11' : 'API';
+    for (var depth = 0; win && depth < 10; depth++) {
+      try {
+        if (win[name]) return win[name];
+        if (win.parent === win) break;
+        win = win.parent;
+      } catch (e) {
+        break; // cross-origin frame
+      }
+    }
+    return null;
+  }
+
+  var api = findApi(window) || (window.opener && findApi(window.opener));
+  if (!api) {
+    console.info('[SCORM] No LMS API found; running without tracking.');
+    return;
+  }
+
+  var call = is2004
+    ? {
+        init: function () { return api.Initialize(''); },
+        get: function (k) { return api.GetValue(k); },
+        set: function (k, v) { return api.SetValue(k, String(v)); },
+        commit: function () { return api.Commit(''); },
+        finish: function () { return api.Terminate(''); },
+      }
+    : {
+        init: function () { return api.LMSInitialize(''); },
+        get: function (k) { return api.LMSGetValue(k); },
+        set: function (k, v) { return api.LMSSetValue(k, String(v)); },
+        commit: function () { return api.LMSCommit(''); },
+        finish: function () { return api.LMSFinish(''); },
+      };
+
+  var startedAt = Date.now();
+  var state = { questions: [], answers: {}, y: 0 }; // persisted in suspend_data
+  var done = false;
+
+  function pad(n, width) {
+    var s = String(n);
+    while (s.length < width) s = '0' + s;
+    return s;
+  }
+
+  function sessionTime() {
+    var secs = Math.round((Date.now() - startedAt) / 1000);
+    var h = Math.floor(secs / 3600), m = Math.floor((secs % 3600) / 60), s = secs % 60;
+    return is2004 ? 'PT' + h + 'H' + m + 'M' + s + 'S' : pad(h, 4) + ':' + pad(m, 2) + ':' + pad(s, 2);
+  }
+
+  function save() {
+    call.set('cmi.suspend_data', JSON.stringify(state));
+    call.set(is2004 ? 'cmi.location' : 'cmi.core.lesson_location', String(state.y));
+    call.commit();
+  }
+
+  // Completion once the slide was seen; with questions, passed/failed once all are answered.
+  function updateStatus() {
+    var total = state.questions.length;
+    var answeredIds = Object.keys(state.answers);
+    if (total === 0) {
+      if (is2004) call.set('cmi.completion_status', 'completed');
+      else call.set('cmi.core.lesson_status', 'completed');
+      done = true;
+      return;
+    }
+    var correct = answeredIds.filter(function (id) { return state.answers[id].correct; }).length;
+    var scaled = correct / total;
+    var allAnswered = state.questions.every(function (id) { return state.answers[id]; });
+    if (is2004) {
+      call.set('cmi.score.min', 0);
+      call.set('cmi.score.max', 100);
+      call.set('cmi.score.raw', Math.round(scaled * 100));
+      call.set('cmi.score.scaled', scaled.toFixed(4));
+      call.set('cmi.completion_status', allAnswered ? 'completed' : 'incomplete');
+      if (allAnswered) call.set('cmi.success_status', scaled >= masteryScore ? 'passed' : 'failed');
+    } else {
+      call.set('cmi.core.score.min', 0);
+      call.set('cmi.core.score.max', 100);
+      call.set('cmi.core.score.raw', Math.round(scaled * 100));
+      call.set('cmi.core.lesson_status', allAnswered ? (scaled >= masteryScore ? 'passed' : 'failed') : 'incomplete');
+    }
+    done = allAnswered;
+  }
+
+  // Interaction types both SCORM versions define; other kinds (hotspot) are recorded as choices.
+  var INTERACTION_TYPES = ['choice', 'true-false', 'fill-in', 'matching', 'sequencing'];
+
+  // Percent-encodes `chars` (and % itself) in text, leaving everything else as it is.
+  function escapeChars(text, chars) {
+    return text.replace(/[\s\S]/g, function (c) {
+      return c === '%' || chars.indexOf(c) >= 0 ? '%' + pad(c.charCodeAt(0).toString(16).toUpperCase(), 2) : c;
+    });
+  }
+
+  // 2004 identifiers must be URIs: spaces, brackets and other characters URIs don't allow are
+  // percent-encoded, which also keeps the [,] and [.] delimiters out of them.
+  function identifier2004(text) {
+    return encodeURI(text);
+  }
+
+  // The widgets report matching picks and fill-in blanks joined with |, a sequence as the items'
+  // original positions joined with commas, and a choice as the chosen option's response.
+  function learnerResponse(type, raw) {
+    var parts;
+    if (type === 'matching') {
+      parts = raw.split('|');
+      var pairs = [];
+      for (var i = 0; i < parts.length; i++) {
+        if (!parts[i]) continue; // nothing picked for this item
+        pairs.push(is2004 ? (i + 1) + '[.]' + identifier2004(parts[i]) : (i + 1) + '.' + escapeChars(parts[i], '.,'));
+      }
+      return pairs.join(is2004 ? '[,]' : ',');
+    }
+    if (type === 'sequencing') return is2004 ? raw.split(',').join('[,]') : raw;
+    if (type === 'fill-in') {
+      // Plain text in both versions; 2004 takes one string per blank.
+      return is2004 ? raw.split('|').map(function (v) { return v.split('[,]').join(','); }).join('[,]') : raw;
+    }
+    if (type === 'true-false') return is2004 ? raw : raw.charAt(0); // 1.2 expects t / f
+    return is2004 ? identifier2004(raw) : escapeChars(raw, ',');
+  }
+
+  function recordInteraction(id, answer) {
+    var n = parseInt(call.get('cmi.interactions._count') || '0', 10) || 0;
+    var prefix = 'cmi.interactions.' + n + '.';
+    var type = INTERACTION_TYPES.indexOf(answer.kind) >= 0 ? answer.kind : 'choice';
+    // 1.2 responses are CMIFeedback, at most 255 characters; 2004 allows 4000 for the largest types.
+    var response = learnerResponse(type, String(answer.response || '')).slice(0, is2004 ? 4000 : 255);
+    call.set(prefix + 'id', id);
+    call.set(prefix + 'type', type);
+    if (is2004) {
+      if (response) call.set(prefix + 'learner_response', response);
+      call.set(prefix + 'result', answer.correct ? 'correct' : 'incorrect');
+      call.set(prefix + 'timestamp', new Date().toISOString().slice(0, 19));
+    } else {
+      if (response) call.set(prefix + 'student_response', response);
+      call.set(prefix + 'result', answer.correct ? 'correct' : 'wrong');
+      call.set(prefix + 'time', new Date().toTimeString().slice(0, 8));
+    }
+  }
+
+  window.CourseTracker = {
+    start: function (course, index) {
+      call.init();
+      var entry = call.get(is2004 ? 'cmi.entry' : 'cmi.core.entry');
+      var resume = null;
+      if (entry === 'resume') {
+        try {
+          var saved = JSON.parse(call.get('cmi.suspend_data') || 'null');
+          if (saved) state = saved;
+        } catch (e) { /* start fresh */ }
+        resume = { y: state.y || 0, answered: Object.keys(state.answers) };
+      }
+      if (!is2004 && call.get('cmi.core.lesson_status') === 'not attempted') call.set('cmi.core.lesson_status', 'incomplete');
+      return { index: index, locked: course.slides.length > 1, resume: resume };
+    },
+
+    // Status waits for the slide's 'ready' message, which says whether it has questions.
+    viewed: function () {},
+
+    questions: function (_index, ids) {
+      state.questions = ids;
+      updateStatus();
+      save();
+    },
+
+    answer: function (index, answer) {
+      // Widgets that can be checked again report each attempt: the latest one is scored, and
+      // each is journaled as its own interaction.
+      var previous = state.answers[answer.id];
+      state.answers[answer.id] = { correct: answer.correct, response: answer.response, attempts: previous ? (previous.attempts || 1) + 1 : 1 };
+      recordInteraction('slide' + (index + 1) + '_' + answer.id, answer);
+      updateStatus();
+      save();
+    },
+
+    scroll: function (_index, y) {
+      if (!api) return;
+      state.y = y;
+      call.set(is2004 ? 'cmi.location' : 'cmi.core.lesson_location', String(y));
+    },
+
+    // 1.2 has no navigation requests, so moving between SCOs is left to the LMS menu.
+    canNavigate: function (_index, step) {
+      if (!is2004) return false;
+      var request = step > 0 ? 'continue' : 'previous';
+      return call.get('adl.nav.request_valid.' + request) !== 'false';
+    },
+
+    navigate: function (_index, step) {
+      if (!is2004) return false;
+      call.set('adl.nav.request', step > 0 ? 'continue' : 'previous');
+      window.CourseTracker.finish();
+      return true;
+    },
+
+    finish: function () {
+      if (!api) return;
+      call.set(is2004 ? 'cmi.session_time' : 'cmi.core.session_time', sessionTime());
+      call.set(is2004 ? 'cmi.exit' : 'cmi.core.exit', done ? (is2004 ? 'normal' : '') : 'suspend');
+      save();
+      call.finish();
+      api = null;
+    },
+  };
+})();
@@ -0,0 +1,75 @@
+/* tracking-bridge.js
+ * Runs inside each exported slide. Reports quiz answers and the scroll position to the player
+ * (player.js) in the parent window; the player forwards them to SCORM/xAPI.
+ *
+ * Questions are marked up by the generator: a question is an element with [data-question]
+ * (the whole slide counts as one question when none is marked) and each answer option carries
+ * data-correct="true" | "false". The first answer chosen per question is the one recorded, with
+ * the question's data-question-kind (default "choice") as its interaction type.
+ * Custom widgets can call SlideTracker.answer(questionId, correct, response, kind) directly. Those
+ * can be checked again, so every call is sent and the trackers keep the latest attempt.
+ */
+(function () {
+  'use strict';
+  var answered = {};
+
+  function send(msg) {
+    if (window.parent === window) return;
+    msg.source = 'slides-bridge';
+    window.parent.postMessage(msg, '*');
+  }
+
+  function questions() {
+    var marked = document.querySelectorAll('[data-question]');
+    if (marked.length) return Array.prototype.slice.call(marked);
+    return document.querySelector('[data-correct]') ? [document.body] : [];
+  }
+
+  function questionId(el, index) {
+    var id = el === document.body ? 'q1' : (el.getAttribute('data-question') || el.id || 'q' + (index + 1));
+    return String(id).replace(/[^A-Za-z0-9_-]/g, '_');
+  }
+
+  function answer(id, correct, response, kind, retry) {
+    if (!retry) {
+      if (answered[id]) return;
+      answered[id] = true;
+    }
+    send({ type: 'answer', id: id, correct: !!correct, response: String(response || ''), kind: kind || 'choice' });
+  }
+
+  document.addEventListener('click', function (e) {
+    var option = e.target && e.target.closest ? e.target.closest('[data-correct]') : null;
+    if (!option) return;
+    var list = questions();
+    for (var i = 0; i < list.length; i++) {
+      if (list[i].contains(option)) {
+        var options = list[i].querySelectorAll('[data-correct]');
+        var index = Array.prototype.indexOf.call(options, option);
+        answer(questionId(list[i], i), option.getAttribute('data-correct') === 'true', option.getAttribute('data-response') || 'option_' + (index + 1), list[i].getAttribute && list[i].getAttribute('data-question-kind'));
+        return;
+      }
+    }
+  }, true);
+
+  var scrollTimer = null;
+  window.addEventListener('scroll', function () {
+    clearTimeout(scrollTimer);
+    scrollTimer = setTimeout(function () { send({ type: 'scroll', y: Math.round(window.scrollY) }); }, 400);
+  });
+
+  window.addEventListener('message', function (e) {
+    var data = e.data || {};
+    if (data.source !== 'slides-player') return;
+    if (data.type === 'scroll-to') window.scrollTo(0, data.y || 0);
+    if (data.type === 'answered') (data.ids || []).forEach(function (id) { answered[id] = true; });
+  });
+
+  window.addEventListener('load', function () {
+    send({ type: 'ready', questions: questions().map(questionId) });
+  });
+
+  window.SlideTracker = {
+    answer: function (id, correct, response, kind) { answer(id, correct, response, kind, true); },
+  };
+})();
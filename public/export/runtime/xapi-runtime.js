@@ -0,0 +1,241 @@
+/* xapi-runtime.js
+ * xAPI / cmi5 tracker for player.js. The whole deck is one assignable unit (AU) with free navigation.
+ *
+ * Statements: initialized, experienced (each slide view), answered (every scored interactive),
+ * completed (every slide seen), passed/failed (every question answered; failed can later turn
+ * into passed when a question is checked again), terminated.
+ * Progress (slides seen, answers, current slide) is kept in the xAPI State API, so a relaunch resumes.
+ *
+ * The LRS comes from the launch URL:
+ *   cmi5:           ?endpoint=&fetch=&actor=&registration=&activityId=   (auth token from the fetch URL)
+ *   plain xAPI:     ?endpoint=&auth=&actor=[&registration=][&activity_id=]  (Rustici-style launch)
+ * Without an endpoint the player runs untracked.
+ *
+ * Configured by window.COURSE.xapi = { activityId, masteryScore, questions: [count per slide] }.
+ */
+(function () {
+  'use strict';
+  var config = (window.COURSE && window.COURSE.xapi) || {};
+  var params = new URLSearchParams(location.search);
+  var endpoint = params.get('endpoint');
+  if (!endpoint) {
+    console.info('[xAPI] No endpoint in the launch URL; running without tracking.');
+    return;
+  }
+  if (!/\/$/.test(endpoint)) endpoint += '/';
+
+  var isCmi5 = params.has('fetch');
+  var actor = JSON.parse(params.get('actor') || 'null');
+  var registration = params.get('registration') || undefined;
+  var activityId = params.get('activityId') || params.get('activity_id') || config.activityId;
+  var auth = params.get('auth');
+  var launchData = {};
+  var masteryScore = typeof config.masteryScore === 'number' ? config.masteryScore : null;
+  var startedAt = Date.now();
+  var course = null;
+  var state = { seen: {}, answers: {}, index: 0, completed: false, outcome: null };
+  // cmi.interaction types the widgets report; other kinds (hotspot) are sent as choices.
+  var INTERACTION_TYPES = ['choice', 'true-false', 'fill-in', 'matching', 'sequencing'];
+  var queue = Promise.resolve();
+  var ended = false;
+
+  var VERB = function (id, display) {
+    return { id: 'http://adlnet.gov/expapi/verbs/' + id, display: { 'en-US': display } };
+  };
+  var CMI5_CATEGORY = { id: 'https://w3id.org/xapi/cmi5/context/categories/cmi5' };
+  var MOVEON_CATEGORY = { id: 'https://w3id.org/xapi/cmi5/context/categories/moveon' };
+
+  function uuid() {
+    if (window.crypto && crypto.randomUUID) return crypto.randomUUID();
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
+      var r = Math.random() * 16 | 0;
+      return (c === 'x' ? r : (r & 0x3 | 0x8)).toString(16);
+    });
+  }
+
+  function duration() {
+    return 'PT' + Math.round((Date.now() - startedAt) / 1000) + 'S';
+  }
+
+  function headers() {
+    return { 'Authorization': auth, 'X-Experience-API-Version': '1.0.3', 'Content-Type': 'application/json' };
+  }
+
+  function lrs(path, init) {
+    init.headers = headers();
+    return fetch(endpoint + path, init).then(function (res) {
+      if (!res.ok && res.status !== 404) throw new Error('LRS ' + path.split('?')[0] + ' failed: ' + res.status);
+      return res;
+    });
+  }
+
+  function stateUrl(stateId) {
+    var q = new URLSearchParams({ activityId: activityId, agent: JSON.stringify(actor), stateId: stateId });
+    if (registration) q.set('registration', registration);
+    return 'activities/state?' + q.toString();
+  }
+
+  // cmi5 statements carry the LMS context template (session id etc.); other statements get it too.
+  function context(extra) {
+    var ctx = JSON.parse(JSON.stringify(launchData.contextTemplate || {}));
+    if (registration) ctx.registration = registration;
+    ctx.contextActivities = ctx.contextActivities || {};
+    if (extra && extra.categories) ctx.contextActivities.category = (ctx.contextActivities.category || []).concat(extra.categories);
+    if (extra && extra.parent) ctx.contextActivities.parent = [{ id: activityId }];
+    if (extra && extra.extensions) ctx.extensions = Object.assign(ctx.extensions || {}, extra.extensions);
+    return ctx;
+  }
+
+  function send(verb, object, result, ctxExtra, keepalive) {
+    var statement = {
+      id: uuid(),
+      actor: actor,
+      verb: verb,
+      object: object,
+      context: context(ctxExtra),
+      timestamp: new Date().toISOString(),
+    };
+    if (result) statement.result = result;
+    queue = queue.then(function () {
+      return lrs('statements', { method: 'POST', body: JSON.stringify(statement), keepalive: !!keepalive });
+    }).catch(function (err) { console.error('[xAPI]', err); });
+    return queue;
+  }
+
+  function au() {
+    return { id: activityId, objectType: 'Activity' };
+  }
+
+  function slideActivity(index) {
+    return {
+      id: activityId + '/slides/' + (index + 1),
+      objectType: 'Activity',
+      definition: { type: 'http://activitystrea.ms/schema/1.0/page', name: { 'en-US': course.slides[index].title } },
+    };
+  }
+
+  function saveState() {
+    queue = queue.then(function () {
+      return lrs(stateUrl('slides-progress'), { method: 'PUT', body: JSON.stringify(state) });
+    }).catch(function (err) { console.error('[xAPI]', err); });
+  }
+
+  function cmi5Extra(moveOn, extensions) {
+    if (!isCmi5) return extensions ? { extensions: extensions } : null;
+    return { categories: moveOn ? [CMI5_CATEGORY, MOVEON_CATEGORY] : [CMI5_CATEGORY], extensions: extensions };
+  }
+
+  function totalQuestions() {
+    return (config.questions || []).reduce(function (n, count) { return n + count; }, 0);
+  }
+
+  function checkProgress() {
+    if (!state.completed && course.slides.every(function (_s, i) { return state.seen[i]; })) {
+      state.completed = true;
+      send(VERB('completed', 'completed'), au(), { completion: true, duration: duration() }, cmi5Extra(true));
+    }
+    var total = totalQuestions();
+    var answers = Object.keys(state.answers);
+    // A failed outcome is sent again as passed when corrected answers bring the score up; cmi5
+    // allows nothing after passed.
+    if (state.outcome !== 'passed' && total > 0 && answers.length >= total) {
+      var correct = answers.filter(function (k) { return state.answers[k].correct; }).length;
+      var scaled = Math.round(correct / total * 10000) / 10000;
+      var mastery = masteryScore == null ? 0.8 : masteryScore;
+      var outcome = scaled >= mastery ? 'passed' : 'failed';
+      if (outcome === state.outcome) return;
+      state.outcome = outcome;
+      var extensions = masteryScore == null ? undefined : { 'https://w3id.org/xapi/cmi5/context/extensions/masteryscore': masteryScore };
+      send(VERB(state.outcome, state.outcome), au(), {
+        success: state.outcome === 'passed',
+        score: { scaled: scaled, raw: correct, min: 0, max: total },
+        duration: duration(),
+      }, cmi5Extra(true, extensions));
+    }
+  }
+
+  function fetchAuthToken() {
+    return fetch(params.get('fetch'), { method: 'POST' }).then(function (res) {
+      if (!res.ok) throw new Error('cmi5 fetch URL failed: ' + res.status);
+      return res.json();
+    }).then(function (data) {
+      if (!data['auth-token']) throw new Error('cmi5 fetch URL returned no auth-token: ' + JSON.stringify(data));
+      auth = 'Basic ' + data['auth-token'];
+    });
+  }
+
+  function readJsonState(stateId) {
+    return lrs(stateUrl(stateId), { method: 'GET' }).then(function (res) {
+      return res.status === 404 ? null : res.json();
+    });
+  }
+
+  window.CourseTracker = {
+    start: function (deck, index) {
+      course = deck;
+      return (isCmi5 ? fetchAuthToken() : Promise.resolve()).then(function () {
+        return isCmi5 ? readJsonState('LMS.LaunchData') : null;
+      }).then(function (data) {
+        launchData = data || {};
+        if (typeof launchData.masteryScore === 'number') masteryScore = launchData.masteryScore;
+        return readJsonState('slides-progress');
+      }).then(function (saved) {
+        if (saved) state = saved;
+        send(VERB('initialized', 'initialized'), au(), null, cmi5Extra(false));
+        // A plain launch resumes where the learner left off; ?slide= still wins when it was given explicitly.
+        var start = params.has('slide') ? index : (state.index || 0);
+        return { index: Math.min(start, course.slides.length - 1), locked: false, resume: null };
+      });
+    },
+
+    viewed: function (index) {
+      state.index = index;
+      state.seen[index] = true;
+      send(VERB('experienced', 'experienced'), slideActivity(index), null, { parent: true });
+      checkProgress();
+      saveState();
+    },
+
+    questions: function () {},
+
+    answeredOn: function (index) {
+      var prefix = index + ':';
+      return Object.keys(state.answers)
+        .filter(function (k) { return k.indexOf(prefix) === 0; })
+        .map(function (k) { return k.slice(prefix.length); });
+    },
+
+    answer: function (index, answer) {
+      // Widgets that can be checked again report each attempt; the latest one is scored.
+      var key = index + ':' + answer.id;
+      var previous = state.answers[key];
+      var attempt = previous ? (previous.attempts || 1) + 1 : 1;
+      state.answers[key] = { correct: answer.correct, attempts: attempt };
+      var interaction = {
+        id: activityId + '/slides/' + (index + 1) + '/questions/' + answer.id,
+        objectType: 'Activity',
+        definition: {
+          type: 'http://adlnet.gov/expapi/activities/cmi.interaction',
+          name: { 'en-US': course.slides[index].title + ' - ' + answer.id },
+          interactionType: INTERACTION_TYPES.indexOf(answer.kind) >= 0 ? answer.kind : 'choice',
+        },
+      };
+      send(VERB('answered', 'answered'), interaction, {
+        success: answer.correct,
+        response: String(answer.response || ''),
+        extensions: { 'http://id.tincanapi.com/extension/attempt-id': attempt },
+      }, { parent: true });
+      checkProgress();
+      saveState();
+    },
+
+    scroll: function () {},
+
+    finish: function () {
+      if (ended) return;
+      ended = true;
+      saveState();
+      send(VERB('terminated', 'terminated'), au(), { duration: duration() }, cmi5Extra(false), true);
+    },
+  };
+})();
@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+import ScaledSlideFrame from '../components/ScaledSlideFrame';
+import type { PresenterMessage, SlideInteraction } from '../utils/presenterChannel';
+import { presenterChannel, recordInteraction, replayInFrame, withPresenterBridge } from '../utils/presenterChannel';
+
+interface AudienceViewProps {
+    session: string;
+}
+
+// The projector side of presenter mode (components/PresenterMode.tsx). It only follows the
+// presenter: slides, navigation, blanking and everything done on a slide arrive over the channel.
+const AudienceView: React.FC<AudienceViewProps> = ({ session }) => {
+    const [deck, setDeck] = useState<{ title: string; slides: string[] } | null>(null);
+    const [index, setIndex] = useState(0);
+    const [blank, setBlank] = useState(false);
+    const [ended, setEnded] = useState(false);
+    const frameRef = useRef<HTMLIFrameElement>(null);
+    const interactionsRef = useRef<SlideInteraction[][]>([]);
+    const loadedRef = useRef<number | null>(null);
+    const indexRef = useRef(index);
+    indexRef.current = index;
+
+    useEffect(() => {
+        const channel = presenterChannel(session);
+        channel.onmessage = (e: MessageEvent<PresenterMessage>) => {
+            const message = e.data;
+            switch (message.type) {
+                case 'deck':
+                    interactionsRef.current = message.interactions;
+                    loadedRef.current = null;
+                    setDeck({ title: message.title, slides: message.slides });
+                    setIndex(message.index);
+                    setBlank(message.blank);
+                    setEnded(false);
+                    break;
+                case 'goto':
+                    setIndex(message.index);
+                    break;
+                case 'blank':
+                    setBlank(message.on);
+                    break;
+                case 'interaction': {
+                    const log = interactionsRef.current;
+                    log[message.index] = recordInteraction(log[message.index] ?? [], message.interaction);
+                    // A slide that is still loading replays its whole log once it's ready.
+                    const frame = frameRef.current?.contentWindow;
+                    if (message.index === indexRef.current && loadedRef.current === message.index && frame) {
+                        replayInFrame(frame, [message.interaction]);
+                    }
+                    break;
+                }
+                case 'end':
+                    setEnded(true);
+                    window.close();
+                    break;
+            }
+        };
+        channel.postMessage({ type: 'hello' } satisfies PresenterMessage);
+        return () => channel.close();
+    }, [session]);
+
+    useEffect(() => {
+        document.title = deck ? deck.title : 'Audience view';
+    }, [deck]);
+
+    useEffect(() => {
+        const onKey = (e: KeyboardEvent) => {
+            if (e.key !== 'f' && e.key !== 'F') return;
+            if (document.fullscreenElement) document.exitFullscreen();
+            else document.documentElement.requestFullscreen?.();
+        };
+        window.addEventListener('keydown', onKey);
+        return () => window.removeEventListener('keydown', onKey);
+    }, []);
+
+    const handleFrameLoad = (slideIndex: number, frame: Window) => {
+        replayInFrame(frame, interactionsRef.current[slideIndex] ?? []);
+        loadedRef.current = slideIndex;
+    };
+
+    const html = deck?.slides[index];
+    return (
+        <div className="fixed inset-0 bg-black text-gray-400" onDoubleClick={() => document.documentElement.requestFullscreen?.()}>
+            {ended ? (
+                <div className="h-full flex items-center justify-center text-lg">The presentation has ended. You can close this window.</div>
+            ) : html === undefined ? (
+                <div className="h-full flex items-center justify-center text-lg">Waiting for the presenter...</div>
+            ) : (
+                <ScaledSlideFrame
+                    key={index}
+                    frameRef={frameRef}
+                    html={withPresenterBridge(html)}
+                    title={`Slide ${index + 1}`}
+                    onFrameLoad={frame => handleFrameLoad(index, frame)}
+                    interactive={false}
+                    className="h-full w-full"
+                />
+            )}
+            {blank && !ended && <div className="absolute inset-0 bg-black" aria-label="Screen blanked" />}
+        </div>
+    );
+};
+
+export default AudienceView;
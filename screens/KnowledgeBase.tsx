@@ -0,0 +1,215 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { KbStatus, KnowledgeBase as KnowledgeBaseItem } from '../types';
+import { listKnowledgeBases, reindexKnowledgeBase, deleteKnowledgeBase, waitForKnowledgeBase, isKbBuilding } from '../knowledgeBase';
+import { sourceSummary } from '../documentSources';
+import Card from '../components/Card';
+import Button from '../components/Button';
+import IconButton from '../components/IconButton';
+import { TrashIcon } from '../components/icons/TrashIcon';
+import { RefreshIcon } from '../components/icons/RefreshIcon';
+
+interface KnowledgeBaseProps {
+    userId: string;
+    onNewCourse: (kb: KnowledgeBaseItem) => void;
+    isGenerating: boolean; // starting a course is blocked while a generation is streaming
+    onLog: (message: string) => void;
+}
+
+const KB_STATUS_LABELS: Record<KbStatus, string> = {
+    idle: 'Not indexed',
+    uploading: 'Uploading',
+    polling: 'Queued',
+    registering: 'Registering',
+    vectorizing: 'Vectorizing',
+    ready: 'Ready',
+    error: 'Failed',
+};
+
+const statusClass = (status: KbStatus) =>
+    status === 'ready' ? 'bg-green-100 text-green-800'
+        : status === 'error' ? 'bg-red-100 text-red-800'
+        : 'bg-blue-100 text-blue-800';
+
+const formatSize = (bytes?: number) => {
+    if (bytes === undefined) return 'Size unknown';
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ userId, onNewCourse, isGenerating, onLog }) => {
+    const [items, setItems] = useState<KnowledgeBaseItem[]>([]);
+    const [serverError, setServerError] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    // Knowledge bases this screen is polling, so a refresh doesn't start a second poll.
+    const trackedRef = useRef(new Set<string>());
+    // Stops polling when the screen is left; the server carries on indexing.
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        return () => controller.abort();
+    }, []);
+
+    const patchItem = useCallback((id: string, patch: Partial<KnowledgeBaseItem>) => {
+        setItems(prev => prev.map(kb => (kb.id === id ? { ...kb, ...patch } : kb)));
+    }, []);
+
+    // Follows a knowledge base through its build stages until it is ready or fails.
+    const track = useCallback(async (kb: KnowledgeBaseItem, task: () => Promise<void>) => {
+        if (trackedRef.current.has(kb.id)) return;
+        trackedRef.current.add(kb.id);
+        const signal = abortRef.current?.signal;
+        try {
+            await task();
+            patchItem(kb.id, { status: 'ready', progress: undefined, error: undefined });
+        } catch (err: any) {
+            if (signal?.aborted) return;
+            onLog(`[KnowledgeBase] ${kb.name}: ${err.message}`);
+            patchItem(kb.id, { status: 'error', progress: undefined, error: err.message });
+        } finally {
+            trackedRef.current.delete(kb.id);
+        }
+    }, [onLog, patchItem]);
+
+    const taskOptions = useCallback((kb: KnowledgeBaseItem) => ({
+        onLog,
+        signal: abortRef.current?.signal,
+        onStatus: (status: KbStatus, progress?: number) => patchItem(kb.id, { status, progress }),
+    }), [onLog, patchItem]);
+
+    const refresh = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const result = await listKnowledgeBases(userId, onLog);
+            setItems(result.items);
+            setServerError(result.serverError);
+            // Uploads still being vectorized on the server, from this session or an earlier one.
+            for (const kb of result.items) {
+                if (kb.backend === 'n8n' && isKbBuilding(kb.status)) {
+                    track(kb, () => waitForKnowledgeBase(kb.id, null, taskOptions(kb)));
+                }
+            }
+        } catch (err: any) {
+            onLog(`[KnowledgeBase] Error loading knowledge bases: ${err.message}`);
+            setError(err.message);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [userId, onLog, track, taskOptions]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const handleReindex = (kb: KnowledgeBaseItem) => {
+        setError(null);
+        patchItem(kb.id, { status: 'polling', error: undefined });
+        track(kb, () => reindexKnowledgeBase(kb, userId, taskOptions(kb)));
+    };
+
+    const handleDelete = async (kb: KnowledgeBaseItem) => {
+        if (!window.confirm(`Delete the knowledge base "${kb.name}"? Courses that use it can no longer retrieve content from it.`)) return;
+        setError(null);
+        try {
+            await deleteKnowledgeBase(kb, userId, onLog);
+            setItems(prev => prev.filter(k => k.id !== kb.id));
+        } catch (err: any) {
+            onLog(`[KnowledgeBase] Delete ${kb.id} failed: ${err.message}`);
+            setError(err.message);
+        }
+    };
+
+    return (
+        <div className="flex flex-col">
+            <h2 className="text-3xl font-bold text-gray-900 mb-2 text-center">Knowledge Base</h2>
+            <p className="text-lg text-gray-600 mb-8 text-center">Documents you have uploaded for document-based courses. Reuse them without uploading again.</p>
+
+            {error && <p className="text-red-600 my-4 text-center font-semibold bg-red-100 p-3 rounded-md">{error}</p>}
+
+            <div className="flex justify-center items-center gap-4 mb-6">
+                <Button onClick={refresh} variant="secondary" disabled={isLoading} className="px-3 py-2" aria-label="Refresh knowledge bases">
+                    <RefreshIcon className="w-5 h-5" />
+                </Button>
+            </div>
+
+            {!isLoading && serverError && (
+                <p className="text-xs text-amber-600 text-center mb-4">The n8n server is unreachable. Showing documents indexed in this browser only.</p>
+            )}
+
+            {isLoading ? (
+                <div className="flex justify-center py-10">
+                    <div className="animate-spin rounded-full h-10 w-10 border-t-4 border-b-4 border-[#219ebc]"></div>
+                </div>
+            ) : items.length === 0 ? (
+                <p className="text-gray-500 text-center py-10 text-sm italic">No documents yet. Choose "From Document" when defining a course structure to upload some.</p>
+            ) : (
+                <div className="space-y-4 max-h-[60vh] overflow-y-auto p-2">
+                    {items.map(kb => {
+                        const building = isKbBuilding(kb.status);
+                        return (
+                            <Card key={kb.id}>
+                                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                                    <div className="flex-1 min-w-0">
+                                        <div className="flex items-center gap-2">
+                                            <h3 className="text-xl font-bold truncate text-[#219ebc]">{kb.name}</h3>
+                                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold flex-shrink-0 ${statusClass(kb.status)}`}>
+                                                {KB_STATUS_LABELS[kb.status]}{building && kb.progress !== undefined ? ` ${Math.round(kb.progress * 100)}%` : ''}
+                                            </span>
+                                        </div>
+                                        <p className="text-sm text-gray-600 mt-1 truncate">{kb.fileNames.length ? sourceSummary(kb) : 'No file names recorded'}</p>
+                                        <p className="text-xs text-gray-500 mt-1">
+                                            {kb.backend === 'local' ? 'In this browser' : 'n8n server'}
+                                            {' • '}{formatSize(kb.sizeBytes)}
+                                            {' • '}{kb.createdAt ? `Uploaded ${new Date(kb.createdAt).toLocaleString()}` : 'Upload date unknown'}
+                                        </p>
+                                        <p className="text-xs text-gray-500 mt-1">Source ID <code className="font-mono select-all">{kb.id}</code></p>
+                                        {building && (
+                                            <div className="mt-2 h-1.5 w-full bg-gray-200 rounded-full overflow-hidden">
+                                                <div
+                                                    className={`h-full bg-[#219ebc] ${kb.progress === undefined ? 'w-1/3 animate-pulse' : 'transition-all'}`}
+                                                    style={kb.progress === undefined ? undefined : { width: `${Math.round(kb.progress * 100)}%` }}
+                                                ></div>
+                                            </div>
+                                        )}
+                                        {kb.status === 'error' && kb.error && <p className="text-xs text-red-600 mt-1">{kb.error}</p>}
+                                    </div>
+                                    <div className="flex items-center gap-2 flex-shrink-0">
+                                        <Button
+                                            onClick={() => onNewCourse(kb)}
+                                            disabled={isGenerating || kb.status !== 'ready'}
+                                            className="px-3 py-1 text-sm"
+                                        >
+                                            New Course
+                                        </Button>
+                                        <Button
+                                            variant="secondary"
+                                            onClick={() => handleReindex(kb)}
+                                            disabled={building}
+                                            className="px-3 py-1 text-sm"
+                                        >
+                                            Re-index
+                                        </Button>
+                                        <IconButton
+                                            onClick={() => handleDelete(kb)}
+                                            disabled={building}
+                                            className="p-1 bg-red-600/80 hover:bg-red-600 text-white"
+                                            aria-label={`Delete ${kb.name}`}
+                                        >
+                                            <TrashIcon className="w-4 h-4" />
+                                        </IconButton>
+                                    </div>
+                                </div>
+                            </Card>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default KnowledgeBase;
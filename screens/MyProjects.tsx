@@ -0,0 +1,218 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { SavedProject, RemoteProjectSummary } from '../types';
+import { CourseType } from '../types';
+import {
+    listLocalProjects,
+    renameLocalProject,
+    duplicateLocalProject,
+    projectDisplayName,
+} from '../projectStore';
+import { listProjects } from '../n8nApi';
+import { isProjectDirty, deleteSyncedProject } from '../projectSync';
+import Card from '../components/Card';
+import Button from '../components/Button';
+import IconButton from '../components/IconButton';
+import { TrashIcon } from '../components/icons/TrashIcon';
+import { RefreshIcon } from '../components/icons/RefreshIcon';
+import { WIZARD_STEPS } from '../constants';
+
+interface MyProjectsProps {
+    userId: string;
+    currentProjectId: string | null;
+    onOpen: (project: SavedProject) => void;
+    onOpenRemote: (runId: string) => Promise<void>;
+    onNew: () => void;
+    onDeleted: (projectId: string) => void;
+    onRenamed: (project: SavedProject) => Promise<void>; // syncs the new name to the server
+    isGenerating: boolean; // switching projects is blocked while a generation is streaming
+    onLog: (message: string) => void;
+}
+
+const MyProjects: React.FC<MyProjectsProps> = ({ userId, currentProjectId, onOpen, onOpenRemote, onNew, onDeleted, onRenamed, isGenerating, onLog }) => {
+    const [projects, setProjects] = useState<SavedProject[]>([]);
+    const [remoteOnly, setRemoteOnly] = useState<RemoteProjectSummary[]>([]);
+    const [isServerReachable, setIsServerReachable] = useState(true);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+    const refresh = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const local = await listLocalProjects(userId);
+            setProjects(local);
+            try {
+                const remote = await listProjects(userId, onLog);
+                const localIds = new Set(local.map(p => p.id));
+                setRemoteOnly(remote.filter(r => !localIds.has(r.runId)));
+                setIsServerReachable(true);
+            } catch (err: any) {
+                // The local library still works without the server.
+                onLog(`[Projects] Could not list server projects: ${err.message}`);
+                setRemoteOnly([]);
+                setIsServerReachable(false);
+            }
+        } catch (err: any) {
+            onLog(`[Projects] Error loading projects: ${err.message}`);
+            setError(err.message);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [userId, onLog]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const runAction = async (label: string, action: () => Promise<unknown>) => {
+        setError(null);
+        try {
+            await action();
+            onLog(`[Projects] ${label} succeeded.`);
+            await refresh();
+        } catch (err: any) {
+            onLog(`[Projects] ${label} failed: ${err.message}`);
+            setError(err.message);
+        }
+    };
+
+    const handleRenameSubmit = () => {
+        if (!renaming) return;
+        const { id, name } = renaming;
+        setRenaming(null);
+        runAction(`Rename ${id}`, async () => onRenamed(await renameLocalProject(userId, id, name)));
+    };
+
+    const handleDelete = (project: SavedProject) => {
+        if (!window.confirm(`Delete "${projectDisplayName(project)}" here and on the project server? This cannot be undone.`)) return;
+        runAction(`Delete ${project.id}`, async () => {
+            // Detach first, so an autosave queued for the project can't write it back after the delete.
+            onDeleted(project.id);
+            await deleteSyncedProject(project, onLog);
+        });
+    };
+
+    return (
+        <div className="flex flex-col">
+            <h2 className="text-3xl font-bold text-gray-900 mb-2 text-center">My Projects</h2>
+            <p className="text-lg text-gray-600 mb-8 text-center">Pick up where you left off, or start a new course.</p>
+
+            {error && <p className="text-red-600 my-4 text-center font-semibold bg-red-100 p-3 rounded-md">{error}</p>}
+
+            <div className="flex justify-center items-center gap-4 mb-6">
+                <Button onClick={onNew} disabled={isGenerating}>New Course</Button>
+                <Button onClick={refresh} variant="secondary" disabled={isLoading} className="px-3 py-2" aria-label="Refresh projects">
+                    <RefreshIcon className="w-5 h-5" />
+                </Button>
+            </div>
+
+            {!isLoading && !isServerReachable && (
+                <p className="text-xs text-amber-600 text-center mb-4">The project server is unreachable. Showing projects saved in this browser only.</p>
+            )}
+
+            {isLoading ? (
+                <div className="flex justify-center py-10">
+                    <div className="animate-spin rounded-full h-10 w-10 border-t-4 border-b-4 border-[#219ebc]"></div>
+                </div>
+            ) : projects.length === 0 && remoteOnly.length === 0 ? (
+                <p className="text-gray-500 text-center py-10 text-sm italic">No saved projects yet. Your work is saved automatically as you go.</p>
+            ) : (
+                <div className="space-y-4 max-h-[60vh] overflow-y-auto p-2">
+                    {projects.map(project => {
+                        const isMicro = project.courseData.courseType === CourseType.MICROLEARNING;
+                        const slideCount = project.generatedSlides.length;
+                        return (
+                            <Card key={project.id} className={project.id === currentProjectId ? 'border-[#219ebc]' : ''}>
+                                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                                    <div className="flex-1 min-w-0">
+                                        {renaming?.id === project.id ? (
+                                            <form onSubmit={e => { e.preventDefault(); handleRenameSubmit(); }} className="flex gap-2">
+                                                <input
+                                                    autoFocus
+                                                    type="text"
+                                                    value={renaming.name}
+                                                    onChange={e => setRenaming({ id: project.id, name: e.target.value })}
+                                                    className="flex-1 bg-white border border-gray-300 rounded-md py-1 px-2 text-gray-900 focus:ring-[#219ebc] focus:border-[#219ebc]"
+                                                />
+                                                <Button type="submit" className="px-3 py-1 text-sm">Save</Button>
+                                                <Button type="button" variant="secondary" onClick={() => setRenaming(null)} className="px-3 py-1 text-sm">Cancel</Button>
+                                            </form>
+                                        ) : (
+                                            <h3 className={`text-xl font-bold truncate ${isMicro ? 'text-[#ffb703]' : 'text-[#219ebc]'}`}>
+                                                {projectDisplayName(project)}
+                                            </h3>
+                                        )}
+                                        <p className="text-sm text-gray-600 mt-1">
+                                            {project.courseData.courseType ? (isMicro ? 'Microlearning' : 'General') : 'No course type yet'}
+                                            {' • '}Step {project.step}: {WIZARD_STEPS[project.step - 1] ?? 'Unknown'}
+                                            {' • '}{slideCount} generated slide{slideCount === 1 ? '' : 's'}
+                                        </p>
+                                        <p className="text-xs text-gray-500 mt-1">
+                                            Last saved {new Date(project.updatedAt).toLocaleString()}
+                                            {' • '}{project.revision === 0 ? 'Not synced yet' : isProjectDirty(project) ? `Unsynced changes (server rev. ${project.revision})` : `Synced (rev. ${project.revision})`}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-2 flex-shrink-0">
+                                        <Button
+                                            onClick={() => onOpen(project)}
+                                            disabled={isGenerating && project.id !== currentProjectId}
+                                            className="px-3 py-1 text-sm"
+                                        >
+                                            {project.id === currentProjectId ? 'Continue' : 'Open'}
+                                        </Button>
+                                        <Button
+                                            variant="secondary"
+                                            onClick={() => setRenaming({ id: project.id, name: projectDisplayName(project) })}
+                                            className="px-3 py-1 text-sm"
+                                        >
+                                            Rename
+                                        </Button>
+                                        <Button
+                                            variant="secondary"
+                                            onClick={() => runAction(`Duplicate ${project.id}`, () => duplicateLocalProject(userId, project.id))}
+                                            className="px-3 py-1 text-sm"
+                                        >
+                                            Duplicate
+                                        </Button>
+                                        <IconButton
+                                            onClick={() => handleDelete(project)}
+                                            className="p-1 bg-red-600/80 hover:bg-red-600 text-white"
+                                            aria-label={`Delete ${projectDisplayName(project)}`}
+                                        >
+                                            <TrashIcon className="w-4 h-4" />
+                                        </IconButton>
+                                    </div>
+                                </div>
+                            </Card>
+                        );
+                    })}
+                    {remoteOnly.map(remote => (
+                        <Card key={remote.runId} className="bg-gray-50">
+                            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                                <div className="flex-1 min-w-0">
+                                    <h3 className="text-xl font-bold truncate text-gray-700">
+                                        {remote.name?.trim() || remote.courseTopic?.trim() || 'Untitled course'}
+                                    </h3>
+                                    <p className="text-sm text-gray-600 mt-1">
+                                        On the server only{' • '}Step {remote.step}: {WIZARD_STEPS[remote.step - 1] ?? 'Unknown'}
+                                    </p>
+                                    <p className="text-xs text-gray-500 mt-1">Saved {new Date(remote.updatedAt).toLocaleString()} (rev. {remote.revision})</p>
+                                </div>
+                                <Button
+                                    onClick={() => runAction(`Import ${remote.runId}`, () => onOpenRemote(remote.runId))}
+                                    disabled={isGenerating}
+                                    className="px-3 py-1 text-sm flex-shrink-0"
+                                >
+                                    Download & Open
+                                </Button>
+                            </div>
+                        </Card>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default MyProjects;
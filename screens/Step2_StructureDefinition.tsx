@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import type { CourseData, GeneralCourseData, MicrolearningCourseData, KbStatus } from '../types';
+import type { CourseData, GeneralCourseData, MicrolearningCourseData, KbStatus, RetrievalBackend, AttachedKnowledgeBase, KnowledgeBase } from '../types';
 import { CourseType, StructureMethod } from '../types';
 import { MIN_SLIDES_GENERAL, MAX_SLIDES_GENERAL, MIN_SLIDES_MICRO, MAX_SLIDES_MICRO } from '../constants';
 import Card from '../components/Card';
@@ -7,13 +7,21 @@ import IconButton from '../components/IconButton';
 import Button from '../components/Button';
 import { PlusIcon } from '../components/icons/PlusIcon';
 import { MinusIcon } from '../components/icons/MinusIcon';
+import { LOCAL_DOCUMENT_EXTENSIONS } from '../utils/documentText';
+import { attachedKnowledgeBases, listKnowledgeBases } from '../knowledgeBase';
+import { N8N_FILE_EXTENSIONS, SOURCE_TYPE_LABELS, describeSource, parsePageUrl, sourceSummary, type SourceInput } from '../documentSources';
 
 interface Step2Props {
   courseData: CourseData;
   updateCourseData: (data: Partial<CourseData>) => void;
-  onFileUpload: (files: File[]) => void;
+  onAddSources: (inputs: SourceInput[]) => void;
+  onAttachKnowledgeBase: (kb: AttachedKnowledgeBase) => void;
+  onDetachKnowledgeBase: (id: string) => void;
   kbStatus: KbStatus;
+  kbProgress: number | null;
   kbError: string | null;
+  userId: string;
+  onLog: (message: string) => void;
 }
 
 const NumberControl: React.FC<{
@@ -38,23 +46,136 @@ const NumberControl: React.FC<{
     </div>
 );
 
+const RETRIEVAL_OPTIONS: { id: RetrievalBackend; label: string; description: string }[] = [
+    { id: 'n8n', label: 'n8n server', description: 'Documents are uploaded to the n8n workflow and searched there.' },
+    { id: 'local', label: 'In this browser', description: 'Sources are read and indexed locally. Only web pages the site won\'t serve to the browser go through the app\'s proxy.' },
+];
+
+type SourceTab = SourceInput['kind'];
+
+const SOURCE_TABS: { id: SourceTab; label: string }[] = [
+    { id: 'file', label: 'Files' },
+    { id: 'url', label: 'Web page' },
+    { id: 'text', label: 'Paste text' },
+];
+
+// PowerPoint, HTML and Markdown are converted to text in the browser for n8n as well.
+const acceptedExtensions = (retrieval: RetrievalBackend) =>
+    (retrieval === 'local' ? LOCAL_DOCUMENT_EXTENSIONS : [...N8N_FILE_EXTENSIONS, ...LOCAL_DOCUMENT_EXTENSIONS.filter(ext => !N8N_FILE_EXTENSIONS.includes(ext))])
+        .map(ext => `.${ext}`).join(',');
+
+// Ready knowledge bases of the course's backend that aren't attached yet, from the Knowledge Base screen's list.
+const KnowledgeBasePicker: React.FC<{
+    userId: string;
+    retrieval: RetrievalBackend;
+    attachedIds: string[];
+    onAttach: (kb: AttachedKnowledgeBase) => void;
+    onLog: (message: string) => void;
+}> = ({ userId, retrieval, attachedIds, onAttach, onLog }) => {
+    const [available, setAvailable] = useState<KnowledgeBase[] | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const load = async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const { items, serverError } = await listKnowledgeBases(userId, onLog);
+            setAvailable(items.filter(kb => kb.backend === retrieval && kb.status === 'ready'));
+            if (retrieval === 'n8n' && serverError) setError(`Could not reach the n8n server: ${serverError}`);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    if (!available) {
+        return (
+            <Button variant="secondary" onClick={load} disabled={isLoading} className="text-sm px-3 py-1">
+                {isLoading ? 'Loading...' : 'Use documents uploaded before'}
+            </Button>
+        );
+    }
+
+    const choices = available.filter(kb => !attachedIds.includes(kb.id));
+    return (
+        <div className="w-full">
+            <p className="block text-sm font-medium text-gray-700 mb-2">From your Knowledge Base</p>
+            {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+            {choices.length === 0 ? (
+                <p className="text-xs text-gray-500 italic">No other {retrieval === 'local' ? 'documents indexed in this browser' : 'documents on the n8n server'}.</p>
+            ) : (
+                <ul className="space-y-2 max-h-48 overflow-y-auto">
+                    {choices.map(kb => (
+                        <li key={kb.id} className="flex items-center justify-between gap-3 bg-white border border-gray-200 rounded-md p-2">
+                            <span className="min-w-0">
+                                <span className="block text-sm font-semibold text-gray-900 truncate">{kb.name}</span>
+                                <span className="block text-xs text-gray-500 truncate">{sourceSummary(kb)}</span>
+                            </span>
+                            <Button onClick={() => onAttach({ id: kb.id, name: kb.name, fileNames: kb.fileNames, sources: kb.sources })} className="text-sm px-3 py-1 flex-shrink-0">
+                                Attach
+                            </Button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
 const DocumentUploader: React.FC<{
-    onFileUpload: (files: File[]) => void;
+    onAddSources: (inputs: SourceInput[]) => void;
     kbStatus: KbStatus;
+    kbProgress: number | null;
     kbError: string | null;
-    fileNames?: string[];
-}> = ({ onFileUpload, kbStatus, kbError, fileNames }) => {
-    const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+    retrieval: RetrievalBackend;
+    onRetrievalChange: (retrieval: RetrievalBackend) => void;
+    knowledgeBases: AttachedKnowledgeBase[];
+    onAttach: (kb: AttachedKnowledgeBase) => void;
+    onDetach: (id: string) => void;
+    userId: string;
+    onLog: (message: string) => void;
+}> = ({ onAddSources, kbStatus, kbProgress, kbError, retrieval, onRetrievalChange, knowledgeBases, onAttach, onDetach, userId, onLog }) => {
+    const [pending, setPending] = useState<SourceInput[]>([]);
+    const [tab, setTab] = useState<SourceTab>('file');
+    const [url, setUrl] = useState('');
+    const [urlError, setUrlError] = useState<string | null>(null);
+    const [pasteTitle, setPasteTitle] = useState('');
+    const [pasteText, setPasteText] = useState('');
 
     const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
         if (event.target.files && event.target.files.length > 0) {
-            setSelectedFiles(Array.from(event.target.files));
+            const files = Array.from(event.target.files);
+            setPending(prev => [...prev, ...files.map(file => ({ kind: 'file' as const, file }))]);
+            event.target.value = ''; // so the same file can be picked again after removing it
         }
     };
 
+    const handleAddUrl = () => {
+        const parsed = parsePageUrl(url);
+        if (!parsed) {
+            setUrlError('Enter a full http:// or https:// address.');
+            return;
+        }
+        setUrlError(null);
+        setPending(prev => [...prev, { kind: 'url', url: parsed.href }]);
+        setUrl('');
+    };
+
+    const handleAddText = () => {
+        if (!pasteText.trim()) return;
+        const title = pasteTitle.trim() || `Pasted text ${pending.filter(p => p.kind === 'text').length + 1}`;
+        setPending(prev => [...prev, { kind: 'text', title, text: pasteText }]);
+        setPasteTitle('');
+        setPasteText('');
+    };
+
     const handleUploadClick = () => {
-        if (selectedFiles.length > 0) {
-            onFileUpload(selectedFiles);
+        if (pending.length > 0) {
+            onAddSources(pending);
+            // The upload is added to the course's knowledge bases; clear the list for the next one.
+            setPending([]);
         }
     };
 
@@ -69,7 +190,7 @@ const DocumentUploader: React.FC<{
             messageColor = 'text-blue-600';
             break;
         case 'uploading':
-            statusMessage = 'Uploading document(s)...';
+            statusMessage = retrieval === 'local' ? 'Reading source(s)...' : 'Uploading source(s)...';
             messageColor = 'text-blue-600';
             break;
         case 'vectorizing':
@@ -81,8 +202,8 @@ const DocumentUploader: React.FC<{
             messageColor = 'text-blue-600';
             break;
         case 'ready':
-            if (fileNames && fileNames.length > 0) {
-                statusMessage = `✅ Ready to use: ${fileNames.join(', ')}`;
+            if (knowledgeBases.length > 0) {
+                statusMessage = `✅ Ready to use: ${knowledgeBases.map(sourceSummary).join(', ')}`;
                 messageColor = 'text-green-600';
             }
             break;
@@ -97,36 +218,162 @@ const DocumentUploader: React.FC<{
         <Card className="bg-gray-50">
             <h3 className="text-xl font-bold mb-4 text-center">Document-Based Generation</h3>
             <div className="flex flex-col items-center gap-4">
-                <input
-                    type="file"
-                    multiple
-                    onChange={handleFileChange}
-                    disabled={isProcessing || kbStatus === 'ready'}
-                    className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-[#e3f6fa] file:text-[#219ebc] hover:file:bg-[#cbeff7]"
-                    accept=".pdf,.doc,.docx,.txt"
+                <fieldset className="w-full" disabled={isProcessing || knowledgeBases.length > 0}>
+                    <legend className="block text-sm font-medium text-gray-700 mb-2">Retrieve slide content with</legend>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {RETRIEVAL_OPTIONS.map(option => (
+                            <label
+                                key={option.id}
+                                className={`flex items-start gap-2 p-3 border-2 rounded-lg cursor-pointer transition-colors ${retrieval === option.id ? 'border-[#219ebc] bg-[#e3f6fa]' : 'border-gray-300 hover:border-gray-400'}`}
+                            >
+                                <input
+                                    type="radio"
+                                    name="retrieval"
+                                    value={option.id}
+                                    checked={retrieval === option.id}
+                                    onChange={() => onRetrievalChange(option.id)}
+                                    className="mt-1 text-[#219ebc] focus:ring-[#219ebc]"
+                                />
+                                <span>
+                                    <span className="block font-semibold text-gray-900">{option.label}</span>
+                                    <span className="block text-xs text-gray-600">{option.description}</span>
+                                </span>
+                            </label>
+                        ))}
+                    </div>
+                </fieldset>
+                {knowledgeBases.length > 0 && (
+                    <div className="w-full">
+                        <p className="block text-sm font-medium text-gray-700 mb-2">Knowledge bases for this course</p>
+                        <ul className="space-y-2">
+                            {knowledgeBases.map(kb => (
+                                <li key={kb.id} className="flex items-center justify-between gap-3 bg-white border border-[#219ebc] rounded-md p-2">
+                                    <span className="min-w-0">
+                                        <span className="block text-sm font-semibold text-gray-900 truncate">{kb.name || kb.id}</span>
+                                        <span className="block text-xs text-gray-500 truncate">{sourceSummary(kb)}</span>
+                                    </span>
+                                    <Button variant="secondary" onClick={() => onDetach(kb.id)} disabled={isProcessing} className="text-sm px-3 py-1 flex-shrink-0">
+                                        Remove
+                                    </Button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+                <KnowledgeBasePicker
+                    key={retrieval}
+                    userId={userId}
+                    retrieval={retrieval}
+                    attachedIds={knowledgeBases.map(kb => kb.id)}
+                    onAttach={onAttach}
+                    onLog={onLog}
                 />
-                {selectedFiles.length > 0 && (
+                <div className="w-full">
+                    <div className="flex gap-2 mb-3" role="tablist">
+                        {SOURCE_TABS.map(t => (
+                            <button
+                                key={t.id}
+                                role="tab"
+                                aria-selected={tab === t.id}
+                                onClick={() => setTab(t.id)}
+                                className={`px-3 py-1 rounded-full text-sm font-semibold transition-colors ${tab === t.id ? 'bg-[#219ebc] text-white' : 'bg-[#e3f6fa] text-[#219ebc] hover:bg-[#cbeff7]'}`}
+                            >
+                                {t.label}
+                            </button>
+                        ))}
+                    </div>
+                    {tab === 'file' && (
+                        <>
+                            <input
+                                type="file"
+                                multiple
+                                onChange={handleFileChange}
+                                disabled={isProcessing}
+                                className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-[#e3f6fa] file:text-[#219ebc] hover:file:bg-[#cbeff7]"
+                                accept={acceptedExtensions(retrieval)}
+                            />
+                            <p className="text-xs text-gray-500 mt-1">PDF, Word, PowerPoint (.pptx), HTML, Markdown and plain text.</p>
+                        </>
+                    )}
+                    {tab === 'url' && (
+                        <form onSubmit={e => { e.preventDefault(); handleAddUrl(); }} className="flex gap-2">
+                            <input
+                                type="url"
+                                value={url}
+                                onChange={e => { setUrl(e.target.value); setUrlError(null); }}
+                                placeholder="https://example.com/article"
+                                disabled={isProcessing}
+                                className="flex-1 bg-white border border-gray-300 rounded-md py-1 px-2 text-sm text-gray-900 focus:ring-[#219ebc] focus:border-[#219ebc]"
+                            />
+                            <Button type="submit" variant="secondary" disabled={!url.trim() || isProcessing} className="text-sm px-3 py-1">Add</Button>
+                        </form>
+                    )}
+                    {tab === 'url' && urlError && <p className="text-xs text-red-600 mt-1">{urlError}</p>}
+                    {tab === 'text' && (
+                        <div className="flex flex-col gap-2">
+                            <input
+                                type="text"
+                                value={pasteTitle}
+                                onChange={e => setPasteTitle(e.target.value)}
+                                placeholder="Title, e.g. Onboarding notes"
+                                disabled={isProcessing}
+                                className="bg-white border border-gray-300 rounded-md py-1 px-2 text-sm text-gray-900 focus:ring-[#219ebc] focus:border-[#219ebc]"
+                            />
+                            <textarea
+                                value={pasteText}
+                                onChange={e => setPasteText(e.target.value)}
+                                rows={6}
+                                placeholder="Paste notes or Markdown here. Lines starting with # become sections."
+                                disabled={isProcessing}
+                                className="bg-white border border-gray-300 rounded-md py-1 px-2 text-sm text-gray-900 focus:ring-[#219ebc] focus:border-[#219ebc]"
+                            />
+                            <Button variant="secondary" onClick={handleAddText} disabled={!pasteText.trim() || isProcessing} className="text-sm px-3 py-1 self-end">Add text</Button>
+                        </div>
+                    )}
+                </div>
+                {pending.length > 0 && (
                     <div className="text-xs text-gray-600 w-full bg-gray-100 p-2 rounded-md">
-                        <strong>Selected files:</strong>
-                        <ul className="list-disc list-inside">
-                            {selectedFiles.map(f => <li key={f.name}>{f.name}</li>)}
+                        <strong>Selected sources:</strong>
+                        <ul className="mt-1 space-y-1">
+                            {pending.map((input, i) => {
+                                const source = describeSource(input);
+                                return (
+                                    <li key={`${source.name}-${i}`} className="flex items-center gap-2">
+                                        <span className="px-2 py-0.5 rounded-full bg-[#e3f6fa] text-[#219ebc] font-semibold flex-shrink-0">{SOURCE_TYPE_LABELS[source.type]}</span>
+                                        <span className="truncate flex-1">{source.name}</span>
+                                        <button
+                                            onClick={() => setPending(prev => prev.filter((_, j) => j !== i))}
+                                            disabled={isProcessing}
+                                            className="text-gray-500 hover:text-red-600"
+                                            aria-label={`Remove ${source.name}`}
+                                        >
+                                            ✕
+                                        </button>
+                                    </li>
+                                );
+                            })}
                         </ul>
                     </div>
                 )}
                 <Button 
                     onClick={handleUploadClick} 
-                    disabled={selectedFiles.length === 0 || isProcessing || kbStatus === 'ready'}
+                    disabled={pending.length === 0 || isProcessing}
                 >
-                    {isProcessing ? 'Processing...' : `Upload and Process ${selectedFiles.length > 0 ? `(${selectedFiles.length})` : ''}`}
+                    {isProcessing ? 'Processing...' : `${knowledgeBases.length > 0 ? 'Upload and Add' : 'Upload and Process'} ${pending.length > 0 ? `(${pending.length})` : ''}`}
                 </Button>
                 {statusMessage && <p className={`text-sm mt-2 font-medium ${messageColor}`}>{statusMessage}</p>}
+                {isProcessing && kbProgress !== null && (
+                    <div className="w-full h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                        <div className="h-full bg-[#219ebc] transition-all" style={{ width: `${Math.round(kbProgress * 100)}%` }}></div>
+                    </div>
+                )}
             </div>
         </Card>
     );
 };
 
 
-const Step2_StructureDefinition: React.FC<Step2Props> = ({ courseData, updateCourseData, onFileUpload, kbStatus, kbError }) => {
+const Step2_StructureDefinition: React.FC<Step2Props> = ({ courseData, updateCourseData, onAddSources, onAttachKnowledgeBase, onDetachKnowledgeBase, kbStatus, kbProgress, kbError, userId, onLog }) => {
     
     const isGeneral = courseData.courseType === CourseType.GENERAL;
     const generalData = courseData as GeneralCourseData;
@@ -182,7 +429,7 @@ const Step2_StructureDefinition: React.FC<Step2Props> = ({ courseData, updateCou
                 >
                      <input type="radio" name="structureMethod" value={StructureMethod.DOCUMENT} checked={courseData.structureMethod === StructureMethod.DOCUMENT} className="hidden" readOnly/>
                     <h3 className="text-lg font-bold text-gray-900">From Document</h3>
-                    <p className="text-sm text-gray-600 mt-1">Generate slides based on a file you upload.</p>
+                    <p className="text-sm text-gray-600 mt-1">Generate slides from files, web pages or pasted text.</p>
                 </div>
             </div>
 
@@ -214,10 +461,17 @@ const Step2_StructureDefinition: React.FC<Step2Props> = ({ courseData, updateCou
             {courseData.structureMethod === StructureMethod.DOCUMENT && (
                  <div className="mt-6">
                     <DocumentUploader
-                        onFileUpload={onFileUpload}
+                        onAddSources={onAddSources}
                         kbStatus={kbStatus}
+                        kbProgress={kbProgress}
                         kbError={kbError}
-                        fileNames={courseData.fileNames}
+                        retrieval={courseData.retrieval ?? 'n8n'}
+                        onRetrievalChange={retrieval => updateCourseData({ retrieval })}
+                        knowledgeBases={attachedKnowledgeBases(courseData)}
+                        onAttach={onAttachKnowledgeBase}
+                        onDetach={onDetachKnowledgeBase}
+                        userId={userId}
+                        onLog={onLog}
                     />
                  </div>
             )}
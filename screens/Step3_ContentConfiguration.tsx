@@ -16,6 +16,13 @@ import IconButton from '../components/IconButton';
 import { TrashIcon } from '../components/icons/TrashIcon';
 import { DocumentTextIcon } from '../components/icons/DocumentTextIcon';
 
+// `list` with the item at `index` moved one place by `step` (-1 or 1).
+const moveItem = <T,>(list: T[], index: number, step: number): T[] => {
+    const next = [...list];
+    [next[index], next[index + step]] = [next[index + step], next[index]];
+    return next;
+};
+
 interface Step3Props {
   courseData: CourseData;
   setCourseData: React.Dispatch<React.SetStateAction<Partial<CourseData>>>;
@@ -383,35 +390,60 @@ const Step3_ContentConfiguration: React.FC<Step3Props> = ({ courseData, setCours
                                         )
                                     )}
                                     <div>
-                                        <h5 className="text-sm font-semibold text-gray-700 mb-2">Interactive Element (optional)</h5>
+                                        <h5 className="text-sm font-semibold text-gray-700 mb-2">Interactive Elements (optional)</h5>
                                         <div className="flex flex-wrap gap-2">
-                                            <label key="none-interactive" className="flex items-center gap-2 px-3 py-1 bg-gray-200 rounded-full text-xs cursor-pointer">
-                                                <input 
-                                                    type="radio"
-                                                    name={`interactive-element-${slide.id}`}
-                                                    checked={slide.interactives.length === 0}
-                                                    onChange={() => {
-                                                        handleMicroSlideUpdate(slide.id, 'interactives', []);
-                                                    }}
-                                                    className="w-3 h-3 text-[#ffb703] bg-white border-gray-300 rounded-full focus:ring-[#ffb703]"
-                                                />
-                                                None
-                                            </label>
-                                            {ALL_INTERACTIVE_ELEMENTS.map(interactive => (
-                                                <label key={interactive} className="flex items-center gap-2 px-3 py-1 bg-gray-200 rounded-full text-xs cursor-pointer">
-                                                    <input 
-                                                        type="radio"
-                                                        name={`interactive-element-${slide.id}`}
-                                                        checked={slide.interactives.includes(interactive)}
-                                                        onChange={() => {
-                                                            handleMicroSlideUpdate(slide.id, 'interactives', [interactive]);
-                                                        }}
-                                                        className="w-3 h-3 text-[#ffb703] bg-white border-gray-300 rounded-full focus:ring-[#ffb703]"
-                                                    />
-                                                    {interactive}
-                                                </label>
-                                            ))}
+                                            {ALL_INTERACTIVE_ELEMENTS.map(interactive => {
+                                                const position = slide.interactives.indexOf(interactive);
+                                                return (
+                                                    <label key={interactive} className={`flex items-center gap-2 px-3 py-1 rounded-full text-xs cursor-pointer ${position >= 0 ? 'bg-[#e3f6fa] text-[#023047]' : 'bg-gray-200'}`}>
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={position >= 0}
+                                                            onChange={() => {
+                                                                handleMicroSlideUpdate(slide.id, 'interactives', position >= 0
+                                                                    ? slide.interactives.filter(el => el !== interactive)
+                                                                    : [...slide.interactives, interactive]);
+                                                            }}
+                                                            className="w-3 h-3 text-[#219ebc] bg-white border-gray-300 rounded focus:ring-[#219ebc]"
+                                                        />
+                                                        {interactive}
+                                                        {position >= 0 && slide.interactives.length > 1 && (
+                                                            <span className="font-semibold text-[#219ebc]">{position + 1}</span>
+                                                        )}
+                                                    </label>
+                                                );
+                                            })}
                                         </div>
+                                        {slide.interactives.length > 1 && (
+                                            <div className="mt-3">
+                                                <p className="text-xs text-gray-500 mb-1">Order on the slide:</p>
+                                                <ol className="flex flex-wrap items-center gap-2">
+                                                    {slide.interactives.map((interactive, index) => (
+                                                        <li key={interactive} className="flex items-center gap-1 px-2 py-1 bg-white border border-gray-300 rounded-md text-xs text-gray-800">
+                                                            <button
+                                                                type="button"
+                                                                aria-label={`Move ${interactive} earlier`}
+                                                                disabled={index === 0}
+                                                                onClick={() => handleMicroSlideUpdate(slide.id, 'interactives', moveItem(slide.interactives, index, -1))}
+                                                                className="px-1 text-gray-500 hover:text-[#219ebc] disabled:opacity-30"
+                                                            >
+                                                                ←
+                                                            </button>
+                                                            {index + 1}. {interactive}
+                                                            <button
+                                                                type="button"
+                                                                aria-label={`Move ${interactive} later`}
+                                                                disabled={index === slide.interactives.length - 1}
+                                                                onClick={() => handleMicroSlideUpdate(slide.id, 'interactives', moveItem(slide.interactives, index, 1))}
+                                                                className="px-1 text-gray-500 hover:text-[#219ebc] disabled:opacity-30"
+                                                            >
+                                                                →
+                                                            </button>
+                                                        </li>
+                                                    ))}
+                                                </ol>
+                                            </div>
+                                        )}
                                     </div>
                                 </div>
                             </Card>
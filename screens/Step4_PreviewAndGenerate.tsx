@@ -1,8 +1,11 @@
 import React from 'react';
-import type { CourseData, AgenticMode } from '../types';
+import type { CourseData, AgenticMode, SlideFormat } from '../types';
 import { StructureMethod } from '../types';
 import Button from '../components/Button';
 import Card from '../components/Card';
+import { PROVIDER_OPTIONS } from '../providers';
+import { DEFAULT_THEME_ID, SLIDE_THEMES } from '../constants';
+import type { ProviderSettings } from '../providers';
 
 interface Step4Props {
   courseData: CourseData;
@@ -11,10 +14,60 @@ interface Step4Props {
   error?: string | null;
   mode: AgenticMode;
   setMode: (mode: AgenticMode) => void;
+  provider: ProviderSettings;
+  setProvider: (provider: ProviderSettings) => void;
+  onUpdateCourseData: (data: Partial<CourseData>) => void;
 }
 
-const Step4_PreviewAndGenerate: React.FC<Step4Props> = ({ courseData, onGenerate, isLoading, error, mode, setMode }) => {
+const SLIDE_FORMAT_OPTIONS: { id: SlideFormat; label: string; description: string }[] = [
+    { id: 'html', label: 'Free-form HTML', description: 'The AI designs each slide itself. Most varied look.' },
+    { id: 'structured', label: 'Structured', description: 'The AI writes content only; slides use a consistent theme you can switch later.' },
+];
+
+const inputClasses = "w-full bg-white border border-gray-300 rounded-md py-1 px-2 text-sm text-gray-900 focus:ring-[#219ebc] focus:border-[#219ebc]";
+
+const ProviderPicker: React.FC<{ provider: ProviderSettings; setProvider: (provider: ProviderSettings) => void }> = ({ provider, setProvider }) => {
+    const update = (patch: Partial<ProviderSettings>) => setProvider({ ...provider, ...patch });
+
+    return (
+        <div className="w-full mb-6">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                {PROVIDER_OPTIONS.map(option => (
+                    <div
+                        key={option.id}
+                        onClick={() => option.id !== provider.id && setProvider({ id: option.id, ...option.defaults })}
+                        className={`p-3 border-2 rounded-lg cursor-pointer transition-colors text-center ${provider.id === option.id ? 'border-[#219ebc] bg-[#e3f6fa]' : 'border-gray-300 hover:border-gray-400'}`}
+                    >
+                        <h4 className="font-semibold">{option.label}</h4>
+                        <p className="text-xs text-gray-600">{option.description}</p>
+                    </div>
+                ))}
+            </div>
+            {(provider.id === 'openai' || provider.id === 'gemini') && (
+                <div className="mt-3 space-y-2 text-left">
+                    {provider.id === 'openai' && (
+                        <label className="block text-xs font-medium text-gray-700">
+                            Base URL
+                            <input type="text" value={provider.baseUrl ?? ''} onChange={e => update({ baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" className={inputClasses} />
+                        </label>
+                    )}
+                    <label className="block text-xs font-medium text-gray-700">
+                        Model
+                        <input type="text" value={provider.model ?? ''} onChange={e => update({ model: e.target.value })} className={inputClasses} />
+                    </label>
+                    <label className="block text-xs font-medium text-gray-700">
+                        API Key {provider.id === 'openai' ? '(optional for local servers)' : '(optional; the proxy\'s key is used otherwise)'}
+                        <input type="password" value={provider.apiKey ?? ''} onChange={e => update({ apiKey: e.target.value || undefined })} autoComplete="off" className={inputClasses} />
+                    </label>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const Step4_PreviewAndGenerate: React.FC<Step4Props> = ({ courseData, onGenerate, isLoading, error, mode, setMode, provider, setProvider, onUpdateCourseData }) => {
     const isAiStructure = courseData.structureMethod === StructureMethod.AI;
+    const slideFormat = courseData.slideFormat ?? 'html';
 
     return (
         <div className="flex flex-col">
@@ -48,6 +101,34 @@ const Step4_PreviewAndGenerate: React.FC<Step4Props> = ({ courseData, onGenerate
                             <p className="text-xs text-gray-600">Self-contained HTML. For offline use or SCORM packages.</p>
                         </div>
                      </div>
+                     <h3 className="text-xl font-bold text-gray-900 mb-4">Slide Format</h3>
+                     <div className="flex gap-4 mb-3">
+                        {SLIDE_FORMAT_OPTIONS.map(option => (
+                            <div
+                                key={option.id}
+                                onClick={() => onUpdateCourseData({ slideFormat: option.id })}
+                                className={`p-3 border-2 rounded-lg cursor-pointer transition-colors text-center ${slideFormat === option.id ? 'border-[#219ebc] bg-[#e3f6fa]' : 'border-gray-300 hover:border-gray-400'}`}
+                            >
+                                <h4 className="font-semibold">{option.label}</h4>
+                                <p className="text-xs text-gray-600">{option.description}</p>
+                            </div>
+                        ))}
+                     </div>
+                     {slideFormat === 'structured' && (
+                        <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-6">
+                            Theme
+                            <select
+                                value={courseData.themeId ?? DEFAULT_THEME_ID}
+                                onChange={e => onUpdateCourseData({ themeId: e.target.value })}
+                                className="bg-white border border-gray-300 rounded-md py-1 px-2 text-sm text-gray-900 focus:ring-[#219ebc] focus:border-[#219ebc]"
+                            >
+                                {SLIDE_THEMES.map(theme => <option key={theme.id} value={theme.id}>{theme.label}</option>)}
+                            </select>
+                        </label>
+                     )}
+                     {slideFormat === 'html' && <div className="mb-6" />}
+                     <h3 className="text-xl font-bold text-gray-900 mb-4">AI Provider</h3>
+                     <ProviderPicker provider={provider} setProvider={setProvider} />
                      <h3 className="text-xl font-bold text-gray-900 mb-4">Ready to Create?</h3>
                      <p className="text-gray-600 mb-6">
                         Click the button below to start the AI generation process. Your slides will appear on the next screen.
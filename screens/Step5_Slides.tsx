@@ -1,16 +1,28 @@
-import React, { useState } from 'react';
-import type { GeneratedSlide, AgenticMode } from '../types';
+import React, { useMemo, useState } from 'react';
+import type { GeneratedSlide, AgenticMode, BankQuestion, ExportFormat, HandoutLayout, SlideNotes, UnreadSlide } from '../types';
 import Button from '../components/Button';
 import Card from '../components/Card';
+import PresenterMode from '../components/PresenterMode';
+import QuestionBank from '../components/QuestionBank';
+import SlideNotesEditor from '../components/SlideNotesEditor';
+import SourcesDrawer from '../components/SourcesDrawer';
+import { DEFAULT_THEME_ID, EXPORT_FORMATS, HANDOUT_LAYOUTS, SLIDE_THEMES } from '../constants';
+import { deckSeconds, formatDuration, hasNotes, slideSeconds } from '../utils/speakerNotes';
+import { flaggedClaimsInstruction, markUnsupportedClaims, unsupportedClaims } from '../grounding';
 
 interface Step5_SlidesProps {
     slides: GeneratedSlide[];
     isLoading: boolean;
     error: string | null;
     onUpdateSlide: (slideIndex: number, instruction: string) => void;
+    onUpdateNotes: (slideIndex: number, notes: SlideNotes) => void;
+    themeId?: string;
+    onChangeTheme: (themeId: string) => void;
+    courseTitle: string;
     onStartOver: () => void;
     conversationId: string | null;
-    onExport: () => void;
+    onExport: (format: ExportFormat, handoutLayout?: HandoutLayout) => void;
+    onExtractQuestionsWithAi: (unread: UnreadSlide[]) => Promise<BankQuestion[]>;
     isExporting: boolean;
     onCancelGeneration: () => void;
     mode: AgenticMode;
@@ -19,8 +31,18 @@ interface Step5_SlidesProps {
 }
 
 const SlideViewer: React.FC<{ slide: GeneratedSlide; mode: AgenticMode; onLog?: (log: any) => void; }> = ({ slide, mode, onLog }) => {
-    const [activeTab, setActiveTab] = useState<'Preview' | 'HTML'>('Preview');
+    const [activeTab, setActiveTab] = useState<'Preview' | 'HTML' | 'Model'>('Preview');
+    const tabs = slide.model ? (['Preview', 'HTML', 'Model'] as const) : (['Preview', 'HTML'] as const);
+    const modelJson = slide.model ? JSON.stringify(slide.model, null, 2) : '';
     const [copied, setCopied] = useState(false);
+    const [showUnsupported, setShowUnsupported] = useState(true);
+    const check = slide.groundingCheck;
+    const flagged = unsupportedClaims(slide);
+    // Flags are drawn into a copy of the slide for the preview only; exports use slide.html.
+    const previewHtml = useMemo(
+        () => (showUnsupported && check ? markUnsupportedClaims(slide.html, check.claims) : slide.html),
+        [slide.html, check, showUnsupported],
+    );
     
     const handleIframeInspection = (e: React.SyntheticEvent<HTMLIFrameElement>) => {
         if (!onLog) return;
@@ -44,19 +66,15 @@ const SlideViewer: React.FC<{ slide: GeneratedSlide; mode: AgenticMode; onLog?:
             probe.remove();
             const materialOk = /material icons/i.test(fam);
 
-            const card = doc.querySelector(".flashcard");
-            let flipOk = false;
-            if (card) {
-                (card as HTMLElement).click?.();
-                flipOk = card.classList.contains("flipped");
-                card.classList.remove("flipped");
-            }
+            // Widgets come from interactives.ts; the runtime marks each one it has wired up.
+            const widgets = doc.querySelectorAll("[data-interactive-widget]").length;
+            const ready = doc.querySelectorAll("[data-interactive-widget][data-ready]").length;
             
             onLog({
                 ts: Date.now(),
                 level: "info",
                 scope: "viewer.iframe",
-                msg: `Loaded slide ${slide.pageNumber}: title="${title}", bodyChars=${bodyLen}, stylesheets=${sheets}, iconsNodes=${icons}, materialIconsReady=${materialOk}, inlineScriptsWorking=${flipOk}`
+                msg: `Loaded slide ${slide.pageNumber}: title="${title}", bodyChars=${bodyLen}, stylesheets=${sheets}, iconsNodes=${icons}, materialIconsReady=${materialOk}, interactivesReady=${ready}/${widgets}`
             });
         } catch (err: any) {
             onLog({ ts: Date.now(), level: "warn", scope: "viewer.iframe", msg: `inspect failed for slide ${slide.pageNumber}: ${String(err)}` });
@@ -94,7 +112,7 @@ const SlideViewer: React.FC<{ slide: GeneratedSlide; mode: AgenticMode; onLog?:
     };
 
     const handleCopy = () => {
-        navigator.clipboard.writeText(slide.draft || slide.html || "").then(() => {
+        navigator.clipboard.writeText(activeTab === 'Model' ? modelJson : slide.draft || slide.html || "").then(() => {
             setCopied(true);
             setTimeout(() => setCopied(false), 2000);
         });
@@ -104,36 +122,64 @@ const SlideViewer: React.FC<{ slide: GeneratedSlide; mode: AgenticMode; onLog?:
         <div>
             <div className="flex items-center justify-between border-b border-gray-200 mb-2">
                 <div className="flex items-center">
-                    <button
-                        onClick={() => setActiveTab('Preview')}
-                        className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
-                            activeTab === 'Preview'
-                                ? 'border-[#219ebc] text-[#219ebc]'
-                                : 'border-transparent text-gray-500 hover:text-gray-700'
-                        }`}
-                    >
-                        Preview
-                    </button>
-                    <button
-                        onClick={() => setActiveTab('HTML')}
-                        className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
-                            activeTab === 'HTML'
-                                ? 'border-[#219ebc] text-[#219ebc]'
-                                : 'border-transparent text-gray-500 hover:text-gray-700'
-                        }`}
-                    >
-                        HTML
-                    </button>
+                    {tabs.map(tab => (
+                        <button
+                            key={tab}
+                            onClick={() => setActiveTab(tab)}
+                            className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+                                activeTab === tab
+                                    ? 'border-[#219ebc] text-[#219ebc]'
+                                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                            }`}
+                        >
+                            {tab}
+                        </button>
+                    ))}
                     {!slide.complete && (
                         <span className="ml-4 text-xs text-amber-600 font-semibold animate-pulse">streaming...</span>
                     )}
                 </div>
-                 {activeTab === 'HTML' && (
+                 {activeTab !== 'Preview' && (
                     <Button variant="secondary" onClick={handleCopy} className="text-xs px-2 py-1">
                         {copied ? 'Copied!' : 'Copy'}
                     </Button>
                 )}
             </div>
+             {slide.modelErrors && slide.modelErrors.length > 0 && (
+                <div className="mb-2 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+                    <p className="font-semibold">{slide.model ? 'Parts of this slide were dropped because they did not match the slide schema:' : 'This slide did not match the slide schema:'}</p>
+                    <ul className="list-disc pl-5">{slide.modelErrors.map((e, i) => <li key={i}>{e}</li>)}</ul>
+                </div>
+             )}
+             {slide.interactiveErrors && slide.interactiveErrors.length > 0 && (
+                <div className="mb-2 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+                    <p className="font-semibold">Problems with this slide's interactive elements:</p>
+                    <ul className="list-disc pl-5">{slide.interactiveErrors.map((e, i) => <li key={i}>{e}</li>)}</ul>
+                </div>
+             )}
+             {check && check.claims.length > 0 && (
+                <div className={`mb-2 rounded-md border px-3 py-2 text-xs ${flagged.length === 0 ? 'border-green-300 bg-green-50 text-green-800' : check.score >= 0.5 ? 'border-amber-300 bg-amber-50 text-amber-800' : 'border-red-300 bg-red-50 text-red-700'}`}>
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <p className="font-semibold">
+                            Grounding {Math.round(check.score * 100)}%: {check.claims.length - flagged.length} of {check.claims.length} sentences found in the source document.
+                        </p>
+                        {flagged.length > 0 && (
+                            <label className="flex items-center gap-1 cursor-pointer">
+                                <input type="checkbox" checked={showUnsupported} onChange={e => setShowUnsupported(e.target.checked)} className="w-3 h-3 text-[#219ebc] border-gray-300 rounded focus:ring-[#219ebc]" />
+                                Highlight unsupported sentences
+                            </label>
+                        )}
+                    </div>
+                    {flagged.length > 0 && (
+                        <details className="mt-1">
+                            <summary className="cursor-pointer">Unsupported sentences ({flagged.length})</summary>
+                            <ul className="list-disc pl-5 mt-1">
+                                {flagged.map((c, i) => <li key={i}>{c.text} <span className="opacity-70">(best match {Math.round(c.score * 100)}%)</span></li>)}
+                            </ul>
+                        </details>
+                    )}
+                </div>
+             )}
              {activeTab === 'Preview' ? (
                  <div className="rounded border bg-white">
                     {slide.complete ? (
@@ -141,7 +187,7 @@ const SlideViewer: React.FC<{ slide: GeneratedSlide; mode: AgenticMode; onLog?:
                             className="w-full border-none"
                             style={{ minHeight: '500px', display: 'block' }}
                             title={`Preview of Slide ${slide.pageNumber}`}
-                            srcDoc={slide.html}
+                            srcDoc={previewHtml}
                             sandbox="allow-scripts allow-same-origin"
                             referrerPolicy="no-referrer"
                             onLoad={handleIframeLoad}
@@ -158,7 +204,7 @@ const SlideViewer: React.FC<{ slide: GeneratedSlide; mode: AgenticMode; onLog?:
                 <div className="bg-gray-900 rounded-md">
                     <textarea
                         readOnly
-                        value={slide.draft || slide.html || ""}
+                        value={activeTab === 'Model' ? modelJson : slide.draft || slide.html || ""}
                         className="w-full h-[500px] text-xs font-mono p-3 bg-gray-900 text-white border border-gray-700 rounded-md resize-none"
                         spellCheck={false}
                     />
@@ -174,9 +220,14 @@ const Step5_Slides: React.FC<Step5_SlidesProps> = ({
     isLoading,
     error,
     onUpdateSlide,
+    onUpdateNotes,
+    themeId,
+    onChangeTheme,
+    courseTitle,
     onStartOver,
     conversationId,
     onExport,
+    onExtractQuestionsWithAi,
     isExporting,
     onCancelGeneration,
     mode,
@@ -184,6 +235,16 @@ const Step5_Slides: React.FC<Step5_SlidesProps> = ({
     onGoToExport,
 }) => {
     const [editingSlide, setEditingSlide] = useState<{ index: number; instruction: string } | null>(null);
+    const [exportFormat, setExportFormat] = useState<ExportFormat>('zip');
+    const [handoutLayout, setHandoutLayout] = useState<HandoutLayout>('full');
+    const [presentFrom, setPresentFrom] = useState<number | null>(null);
+    const [bankOpen, setBankOpen] = useState(false);
+    const [notesOpen, setNotesOpen] = useState<number[]>([]);
+    const [sourcesFor, setSourcesFor] = useState<number | null>(null);
+    const toggleNotes = (index: number) =>
+        setNotesOpen(open => (open.includes(index) ? open.filter(i => i !== index) : [...open, index]));
+    const totalSeconds = deckSeconds(slides);
+    const hasModels = slides.some(s => s.model);
 
     if (isLoading && slides.length === 0) {
         return (
@@ -213,7 +274,12 @@ const Step5_Slides: React.FC<Step5_SlidesProps> = ({
     return (
         <div>
             <div className="flex justify-between items-center mb-6">
-                <h2 className="text-3xl font-bold text-gray-900">Generated Slides</h2>
+                <div>
+                    <h2 className="text-3xl font-bold text-gray-900">Generated Slides</h2>
+                    {totalSeconds > 0 && (
+                        <p className="text-sm text-gray-500 mt-1">Narration: about {formatDuration(totalSeconds)} in total</p>
+                    )}
+                </div>
                 <div className="flex items-center gap-2">
                     {isLoading ? (
                          <Button onClick={onCancelGeneration} variant="secondary" className="bg-red-500 hover:bg-red-600 text-white">
@@ -221,20 +287,69 @@ const Step5_Slides: React.FC<Step5_SlidesProps> = ({
                         </Button>
                     ) : (
                         <>
+                            {hasModels && (
+                                <select
+                                    value={themeId ?? DEFAULT_THEME_ID}
+                                    onChange={e => onChangeTheme(e.target.value)}
+                                    title="Re-renders the structured slides with another theme"
+                                    aria-label="Slide theme"
+                                    className="bg-white border border-gray-300 rounded-md py-2 px-2 text-sm text-gray-900 focus:ring-[#219ebc] focus:border-[#219ebc]"
+                                >
+                                    {SLIDE_THEMES.map(theme => <option key={theme.id} value={theme.id}>Theme: {theme.label}</option>)}
+                                </select>
+                            )}
                             <Button
-                                onClick={onGoToExport}
-                                variant="primary"
-                                disabled={isExporting || !conversationId || slides.length === 0}
+                                onClick={() => setPresentFrom(0)}
+                                variant="secondary"
+                                disabled={slides.length === 0 || slides.some(s => !s.complete)}
+                                title="Speaker view here, slides in a second window for the projector"
                             >
-                                Export to WordPress
+                                Present
                             </Button>
                             <Button
-                                onClick={onExport}
+                                onClick={() => setBankOpen(true)}
                                 variant="secondary"
+                                disabled={slides.length === 0 || slides.some(s => !s.complete)}
+                                title="Review the deck's questions and export them for an LMS quiz"
+                            >
+                                Question bank
+                            </Button>
+                            <Button
+                                onClick={onGoToExport}
+                                variant="primary"
                                 disabled={isExporting || !conversationId || slides.length === 0}
                             >
-                                {isExporting ? 'Exporting...' : 'Download Deck'}
+                                Export to WordPress
                             </Button>
+                            <div className="flex items-center">
+                                <select
+                                    value={exportFormat}
+                                    onChange={e => setExportFormat(e.target.value as ExportFormat)}
+                                    title={EXPORT_FORMATS.find(f => f.id === exportFormat)?.description}
+                                    aria-label="Download format"
+                                    className="h-full bg-white border border-gray-300 rounded-l-md py-2 px-2 text-sm text-gray-900 focus:ring-[#219ebc] focus:border-[#219ebc]"
+                                >
+                                    {EXPORT_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                                </select>
+                                {exportFormat === 'pdf' && (
+                                    <select
+                                        value={handoutLayout}
+                                        onChange={e => setHandoutLayout(e.target.value as HandoutLayout)}
+                                        aria-label="Handout layout"
+                                        className="h-full bg-white border border-l-0 border-gray-300 py-2 px-2 text-sm text-gray-900 focus:ring-[#219ebc] focus:border-[#219ebc]"
+                                    >
+                                        {HANDOUT_LAYOUTS.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+                                    </select>
+                                )}
+                                <Button
+                                    onClick={() => onExport(exportFormat, handoutLayout)}
+                                    variant="secondary"
+                                    disabled={isExporting || !conversationId || slides.length === 0}
+                                    className="rounded-l-none"
+                                >
+                                    {isExporting ? 'Exporting...' : exportFormat === 'pdf' ? 'Print' : 'Download'}
+                                </Button>
+                            </div>
                             <Button onClick={onStartOver} variant="secondary">
                                 Start Over
                             </Button>
@@ -273,14 +388,68 @@ const Step5_Slides: React.FC<Step5_SlidesProps> = ({
                                     </div>
                                 </div>
                             ) : (
-                                <Button onClick={() => setEditingSlide({ index, instruction: '' })} disabled={isLoading} variant="secondary" className="text-sm px-3 py-1">
-                                    Edit Slide
-                                </Button>
+                                <div className="flex flex-wrap gap-2">
+                                    <Button onClick={() => setEditingSlide({ index, instruction: '' })} disabled={isLoading} variant="secondary" className="text-sm px-3 py-1">
+                                        Edit Slide
+                                    </Button>
+                                    <Button onClick={() => toggleNotes(index)} variant="secondary" className="text-sm px-3 py-1" aria-expanded={notesOpen.includes(index)}>
+                                        Speaker notes{hasNotes(slide.notes) ? ` (${formatDuration(slideSeconds(slide.notes))})` : ''}
+                                    </Button>
+                                    {unsupportedClaims(slide).length > 0 && (
+                                        <Button
+                                            onClick={() => onUpdateSlide(index, flaggedClaimsInstruction(unsupportedClaims(slide)))}
+                                            disabled={isLoading}
+                                            variant="secondary"
+                                            className="text-sm px-3 py-1"
+                                            title="Send only the unsupported sentences back to the AI for a rewrite"
+                                        >
+                                            Regenerate flagged sentences ({unsupportedClaims(slide).length})
+                                        </Button>
+                                    )}
+                                    {slide.sources && slide.sources.length > 0 && (
+                                        <Button onClick={() => setSourcesFor(index)} variant="secondary" className="text-sm px-3 py-1">
+                                            Sources{slide.references?.length ? ` (${slide.references.length} cited)` : ''}
+                                        </Button>
+                                    )}
+                                    <Button onClick={() => setPresentFrom(index)} disabled={isLoading || !slide.complete} variant="secondary" className="text-sm px-3 py-1">
+                                        Present from here
+                                    </Button>
+                                </div>
+                            )}
+                            {notesOpen.includes(index) && (
+                                <div className="mt-4">
+                                    <SlideNotesEditor notes={slide.notes} onChange={notes => onUpdateNotes(index, notes)} />
+                                </div>
                             )}
                          </div>
                     </Card>
                 ))}
             </div>
+
+            {presentFrom !== null && (
+                <PresenterMode
+                    title={courseTitle}
+                    slides={slides}
+                    startIndex={presentFrom}
+                    onUpdateNotes={onUpdateNotes}
+                    onClose={() => setPresentFrom(null)}
+                    onLog={onLog}
+                />
+            )}
+
+            {sourcesFor !== null && slides[sourcesFor] && (
+                <SourcesDrawer slide={slides[sourcesFor]} onClose={() => setSourcesFor(null)} />
+            )}
+
+            {bankOpen && (
+                <QuestionBank
+                    title={courseTitle}
+                    slides={slides}
+                    onExtractWithAi={onExtractQuestionsWithAi}
+                    onClose={() => setBankOpen(false)}
+                    onLog={message => onLog?.(message)}
+                />
+            )}
         </div>
     );
 };
@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import type { CourseData, GeneratedSlide, ExportMode, TopicDraft, WPCourse, SlideGenState } from '../types';
 import { titleFromHtml } from '../utils/topicTitle';
+import { finalNotes } from '../utils/speakerNotes';
+import { narrateDeck, slideCaptions } from '../exporters/captions';
 import Card from '../components/Card';
 import Button from '../components/Button';
 import { wpSearchCourses, wpStartExport, WpExportPayload } from '../n8nApi';
@@ -57,7 +59,7 @@ const Step6_ExportWP: React.FC<Step6Props> = ({ courseData, generatedSlides, run
             .filter(s => s.html?.trim())
             .map((s, i) => ({
                 slideIndex: i,
-                title: titleFromHtml(s.html, `Slide ${s.pageNumber}`),
+                title: s.model?.title ?? titleFromHtml(s.html, `Slide ${s.pageNumber}`),
                 include: true,
                 html: s.html,
             }));
@@ -141,9 +143,15 @@ const Step6_ExportWP: React.FC<Step6Props> = ({ courseData, generatedSlides, run
             coursePayload = { id: selectedCourse.id };
         }
 
+        const narration = narrateDeck(generatedSlides);
         const includedTopics = topics
             .filter(t => t.include)
-            .map(t => ({ title: t.title, html: t.html }));
+            .map(t => {
+                const notes = finalNotes(generatedSlides[t.slideIndex]?.notes);
+                const narrated = narration[t.slideIndex];
+                const captions = narrated?.cues.length ? { ...slideCaptions(narrated), transcript: narrated.text } : undefined;
+                return { title: t.title, html: t.html, ...(notes ? { notes } : {}), ...(captions ? { captions } : {}) };
+            });
         
         if (includedTopics.length === 0) {
             const msg = 'You must include at least one topic to export.';
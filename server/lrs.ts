@@ -0,0 +1,124 @@
+// server/lrs.ts
+// Throwaway LRS + cmi5 launcher for trying an exported xAPI/cmi5 package without a real LMS.
+// Serves the package, accepts statements and state documents in memory, and prints them as they arrive.
+//
+//   npm run lrs -- path/to/Course_cmi5.zip
+//
+// Open the printed launch URL; GET /xapi/statements lists everything received so far.
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import JSZip from 'jszip';
+
+const PORT = Number(process.env.LRS_PORT) || 8788;
+const ORIGIN = `http://localhost:${PORT}`;
+const ACTOR = { objectType: 'Agent', name: 'Test Learner', account: { homePage: ORIGIN, name: 'learner' } };
+const AUTH_TOKEN = Buffer.from('lrs:local').toString('base64');
+
+const zipPath = process.argv[2];
+if (!zipPath) {
+  console.error('Usage: npm run lrs -- <package.zip>');
+  process.exit(1);
+}
+const zip = await JSZip.loadAsync(readFileSync(zipPath));
+const structure = await zip.file('cmi5.xml')?.async('string');
+if (!structure) {
+  console.error(`${zipPath} has no cmi5.xml; export it with the "xAPI / cmi5" format.`);
+  process.exit(1);
+}
+const auId = /<au\s[^>]*id="([^"]+)"/.exec(structure)![1];
+const masteryScore = /<au\s[^>]*masteryScore="([^"]+)"/.exec(structure)?.[1];
+const moveOn = /<au\s[^>]*moveOn="([^"]+)"/.exec(structure)?.[1] ?? 'NotApplicable';
+
+const registration = randomUUID();
+const sessionId = randomUUID();
+const statements: any[] = [];
+const state = new Map<string, string>();
+let tokenFetched = false;
+
+// The LMS-side state a cmi5 AU reads on launch.
+state.set('LMS.LaunchData', JSON.stringify({
+  launchMode: 'Normal',
+  moveOn,
+  ...(masteryScore ? { masteryScore: Number(masteryScore) } : {}),
+  returnURL: `${ORIGIN}/xapi/statements`,
+  contextTemplate: {
+    contextActivities: { grouping: [{ id: auId }] },
+    extensions: { 'https://w3id.org/xapi/cmi5/context/extensions/sessionid': sessionId },
+  },
+}));
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.xml': 'application/xml',
+  '.css': 'text/css',
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', ORIGIN);
+
+  if (url.pathname === '/fetch' && req.method === 'POST') {
+    // cmi5: the fetch URL hands out the token exactly once.
+    if (tokenFetched) return sendJson(res, 200, { 'error-code': '1', 'error-text': 'Token already fetched.' });
+    tokenFetched = true;
+    return sendJson(res, 200, { 'auth-token': AUTH_TOKEN });
+  }
+
+  if (url.pathname.startsWith('/xapi/')) {
+    // Listing statements stays open so it can be checked from the browser.
+    if (url.pathname === '/xapi/statements' && req.method === 'GET') return sendJson(res, 200, { statements });
+    if (req.headers.authorization !== `Basic ${AUTH_TOKEN}`) return sendJson(res, 401, { error: 'Bad credentials.' });
+    if (url.pathname === '/xapi/statements') {
+      const statement = JSON.parse(await readBody(req));
+      statement.id ??= randomUUID();
+      statement.stored = new Date().toISOString();
+      statements.push(statement);
+      const result = statement.result ? ` ${JSON.stringify(statement.result)}` : '';
+      console.log(`[lrs] ${statement.verb?.display?.['en-US'] ?? statement.verb?.id} ${statement.object?.id}${result}`);
+      return sendJson(res, 200, [statement.id]);
+    }
+    if (url.pathname === '/xapi/activities/state') {
+      const stateId = url.searchParams.get('stateId') || '';
+      if (req.method === 'GET') {
+        const doc = state.get(stateId);
+        if (doc === undefined) return sendJson(res, 404, { error: 'No such state.' });
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        return res.end(doc);
+      }
+      state.set(stateId, await readBody(req));
+      res.writeHead(204);
+      return res.end();
+    }
+    return sendJson(res, 404, { error: 'Not found.' });
+  }
+
+  const file = zip.file(decodeURIComponent(url.pathname.slice(1)) || 'index.html');
+  if (!file) return sendJson(res, 404, { error: 'Not found.' });
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file.name)] ?? 'application/octet-stream' });
+  res.end(await file.async('nodebuffer'));
+});
+
+server.listen(PORT, () => {
+  const launch = new URLSearchParams({
+    endpoint: `${ORIGIN}/xapi/`,
+    fetch: `${ORIGIN}/fetch`,
+    actor: JSON.stringify(ACTOR),
+    registration,
+    activityId: auId,
+  });
+  console.log(`[lrs] serving ${zipPath}`);
+  console.log(`[lrs] launch: ${ORIGIN}/index.html?${launch.toString()}`);
+});
@@ -0,0 +1,463 @@
+// server/proxy.ts
+// Small credential-holding proxy for the browser app. Provider keys (GLM, Gemini) live in this process's environment
+// and never reach the bundle; the browser authenticates with a session token issued at sign-in (see auth.ts).
+//
+//   POST /api/auth/session  { email, password }        -> { token, expiresAt, user }
+//   POST /api/auth/register { name, email, password, inviteCode } -> { token, expiresAt, user }, local accounts only
+//   POST /api/glm/agents    GLM agents request         -> upstream SSE, streamed through unchanged
+//   POST /api/gemini/stream { model, ...request }      -> Gemini streamGenerateContent SSE, unchanged
+//   POST /api/fetch-page    { url }                    -> the page's bytes and Content-Type, for document sources
+//
+// Run with `npm run proxy`; `npm run dev` forwards /api here (vite.config.ts).
+import http from 'node:http';
+import https from 'node:https';
+import { createHmac, randomBytes, randomUUID, scryptSync, timingSafeEqual } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { lookup } from 'node:dns/promises';
+import { Readable } from 'node:stream';
+
+for (const file of ['.env', '.env.local']) {
+  if (existsSync(file)) process.loadEnvFile(file);
+}
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const GLM_AGENTS_URL = process.env.GLM_AGENTS_URL || 'https://open.bigmodel.cn/api/v1/agents';
+const GLM_API_KEY = process.env.GLM_API_KEY;
+const GEMINI_API_URL = process.env.GEMINI_API_URL || 'https://generativelanguage.googleapis.com/v1beta';
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+const LOGIN_URL = process.env.N8N_AUTH_LOGIN_URL || process.env.VITE_N8N_AUTH_LOGIN_URL;
+const USERS_FILE = process.env.PROXY_USERS_FILE || '.proxy-users.json';
+// Registration is closed unless PROXY_INVITE_CODE is set (and sent with each registration) or
+// PROXY_OPEN_REGISTRATION=true.
+const INVITE_CODE = process.env.PROXY_INVITE_CODE;
+const OPEN_REGISTRATION = process.env.PROXY_OPEN_REGISTRATION === 'true';
+const ALLOWED_ORIGIN = process.env.PROXY_ALLOWED_ORIGIN; // only needed when the app isn't served through the Vite /api proxy
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+const MAX_BODY_BYTES = 2 * 1024 * 1024; // prompts carry the retrieved ground truth
+const RATE_LIMIT_PER_MINUTE = Number(process.env.PROXY_RATE_LIMIT_PER_MINUTE) || 6;
+const AUTH_ATTEMPTS_PER_MINUTE = Number(process.env.PROXY_AUTH_RATE_LIMIT_PER_MINUTE) || 10;
+const MAX_CONCURRENT_STREAMS = Number(process.env.PROXY_MAX_CONCURRENT_STREAMS) || 2;
+const MAX_FREE_RESUMES = 5; // the client gives up after as many reconnects (MAX_STREAM_RECONNECTS)
+const MAX_PAGE_BYTES = 10 * 1024 * 1024;
+const PAGE_FETCH_TIMEOUT_MS = 15_000;
+const MAX_PAGE_REDIRECTS = 3;
+
+let SESSION_SECRET = process.env.PROXY_SESSION_SECRET;
+if (!SESSION_SECRET) {
+  SESSION_SECRET = randomBytes(32).toString('hex');
+  console.warn('[proxy] PROXY_SESSION_SECRET is not set; sessions will not survive a restart.');
+}
+if (!GLM_API_KEY) console.warn('[proxy] GLM_API_KEY is not set; /api/glm requests will fail.');
+if (!GEMINI_API_KEY) console.warn('[proxy] GEMINI_API_KEY is not set; /api/gemini requests will fail.');
+if (OPEN_REGISTRATION) console.warn('[proxy] PROXY_OPEN_REGISTRATION is on; anyone who can reach the proxy can create an account.');
+
+interface SessionUser { id: string; name: string; email: string }
+// PROXY_USERS entries carry a plain `password`; accounts registered through the app a scrypt `passwordHash`.
+interface ProxyUserRecord extends SessionUser { password?: string; passwordHash?: string }
+
+// Accounts accepted when no n8n login endpoint is configured: PROXY_USERS (by default the demo
+// account in auth.ts) plus the accounts registered through the app, kept in USERS_FILE.
+const LOCAL_USERS: Record<string, ProxyUserRecord> = {
+  ...(process.env.PROXY_USERS
+    ? JSON.parse(process.env.PROXY_USERS)
+    : { 'demo@demo.com': { id: 'd4e21a12-6a28-4f7a-9b8b-3e5f7d2f9c1d', name: 'Demo User', email: 'demo@demo.com', password: 'demo' } }),
+  ...(existsSync(USERS_FILE) ? JSON.parse(readFileSync(USERS_FILE, 'utf8')) : {}),
+};
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+// --- Sessions: base64url(payload).base64url(hmac) ---
+
+const sign = (payload: string) => createHmac('sha256', SESSION_SECRET!).update(payload).digest('base64url');
+
+function issueSession(user: SessionUser) {
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+  const payload = Buffer.from(JSON.stringify({ ...user, exp: expiresAt })).toString('base64url');
+  return { token: `${payload}.${sign(payload)}`, expiresAt: new Date(expiresAt).toISOString(), user };
+}
+
+function verifySession(req: http.IncomingMessage): SessionUser {
+  const token = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '')?.[1];
+  const [payload, signature] = token?.split('.') ?? [];
+  if (!payload || !signature) throw new HttpError(401, 'Missing session token.');
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) throw new HttpError(401, 'Invalid session token.');
+  const session = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  if (typeof session.exp !== 'number' || session.exp < Date.now()) throw new HttpError(401, 'Session expired.');
+  return { id: session.id, name: session.name, email: session.email };
+}
+
+async function checkCredentials(email: string, password: string): Promise<SessionUser> {
+  if (LOGIN_URL) {
+    const res = await fetch(LOGIN_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password }),
+    });
+    if (!res.ok) throw new HttpError(401, `Login failed (${res.status})`);
+    const data = await res.json();
+    if (!data.id) throw new HttpError(502, 'Login service did not return a user id.');
+    return { id: data.id, name: data.name ?? email.split('@')[0], email: data.email ?? email };
+  }
+  const found = LOCAL_USERS[email.toLowerCase()];
+  if (!found || !passwordMatches(found, password)) throw new HttpError(401, 'Invalid credentials');
+  return { id: found.id, name: found.name, email: found.email };
+}
+
+// --- Local accounts: scrypt hashes as salt:hash, hex ---
+
+function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  return `${salt.toString('hex')}:${scryptSync(password, salt, 32).toString('hex')}`;
+}
+
+function passwordMatches(record: ProxyUserRecord, password: string): boolean {
+  if (!record.passwordHash) return record.password === password;
+  const [salt, hash] = record.passwordHash.split(':');
+  const expected = Buffer.from(hash, 'hex');
+  const given = scryptSync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(expected, given);
+}
+
+function checkInviteCode(inviteCode: string) {
+  if (OPEN_REGISTRATION) return;
+  if (!INVITE_CODE) throw new HttpError(403, 'Registration is closed on this proxy.');
+  const expected = createHmac('sha256', SESSION_SECRET!).update(INVITE_CODE).digest();
+  const given = createHmac('sha256', SESSION_SECRET!).update(inviteCode).digest();
+  if (!timingSafeEqual(expected, given)) throw new HttpError(403, 'Invalid invite code.');
+}
+
+function registerLocalUser(name: string, email: string, password: string, inviteCode: string): SessionUser {
+  if (LOGIN_URL) throw new HttpError(403, 'Accounts are managed by the n8n login service; register there.');
+  checkInviteCode(inviteCode);
+  const key = email.toLowerCase();
+  if (LOCAL_USERS[key]) throw new HttpError(409, 'Email already registered');
+  const user: SessionUser = { id: randomUUID(), name, email };
+  LOCAL_USERS[key] = { ...user, passwordHash: hashPassword(password) };
+  // Only registered accounts go to the file; PROXY_USERS stays in the environment.
+  const registered = existsSync(USERS_FILE) ? JSON.parse(readFileSync(USERS_FILE, 'utf8')) : {};
+  writeFileSync(USERS_FILE, JSON.stringify({ ...registered, [key]: LOCAL_USERS[key] }, null, 2));
+  return user;
+}
+
+// --- Per-user rate limits: requests per rolling minute, plus open streams ---
+
+const recentRequests = new Map<string, number[]>();
+const openStreams = new Map<string, number>();
+// When each user's last stream closed, and how many resumes followed the generation it belonged to.
+const streamEnds = new Map<string, { at: number; resumes: number }>();
+
+// A resume (a request with Last-Event-ID) continues a generation that was already counted, so it
+// takes no slot of the per-minute limit when the user's last stream closed within the minute.
+function takeRateLimit(userId: string, resume = false): () => void {
+  const now = Date.now();
+  const ended = streamEnds.get(userId);
+  const free = resume && !!ended && now - ended.at < 60_000 && ended.resumes < MAX_FREE_RESUMES;
+  const recent = (recentRequests.get(userId) ?? []).filter(t => now - t < 60_000);
+  if (!free && recent.length >= RATE_LIMIT_PER_MINUTE) {
+    const retryAfter = Math.ceil((recent[0] + 60_000 - now) / 1000);
+    throw new HttpError(429, `Rate limit reached: ${RATE_LIMIT_PER_MINUTE} generations per minute.`, { 'Retry-After': String(retryAfter) });
+  }
+  const streams = openStreams.get(userId) ?? 0;
+  if (streams >= MAX_CONCURRENT_STREAMS) {
+    throw new HttpError(429, `Too many generations running at once (max ${MAX_CONCURRENT_STREAMS}).`, { 'Retry-After': '5' });
+  }
+  if (!free) recent.push(now);
+  recentRequests.set(userId, recent);
+  openStreams.set(userId, streams + 1);
+  const resumes = free ? ended.resumes + 1 : 0;
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    openStreams.set(userId, (openStreams.get(userId) ?? 1) - 1);
+    streamEnds.set(userId, { at: Date.now(), resumes });
+  };
+}
+
+// --- Per-address limit on sign-in and registration attempts, against password guessing ---
+
+// Keyed by the connecting address. Behind a reverse proxy every client shares the proxy's
+// address, so this becomes one limit for everybody.
+const recentAuthAttempts = new Map<string, number[]>();
+
+function takeAuthAttempt(req: http.IncomingMessage) {
+  const address = req.socket.remoteAddress ?? 'unknown';
+  const now = Date.now();
+  const recent = (recentAuthAttempts.get(address) ?? []).filter(t => now - t < 60_000);
+  if (recent.length >= AUTH_ATTEMPTS_PER_MINUTE) {
+    const retryAfter = Math.ceil((recent[0] + 60_000 - now) / 1000);
+    throw new HttpError(429, 'Too many sign-in attempts. Try again in a minute.', { 'Retry-After': String(retryAfter) });
+  }
+  recent.push(now);
+  recentAuthAttempts.set(address, recent);
+}
+
+// Forget addresses whose attempts have all aged out.
+setInterval(() => {
+  const now = Date.now();
+  for (const [address, times] of recentAuthAttempts) {
+    if (times.every(t => now - t >= 60_000)) recentAuthAttempts.delete(address);
+  }
+}, 60_000).unref();
+
+// --- Page fetches: public http(s) addresses only ---
+
+// Loopback, private, link-local, carrier-grade NAT, benchmarking, multicast and reserved ranges,
+// plus the IPv4-compatible and NAT64 prefixes that embed an IPv4 address. Checked for every
+// address the host resolves to, on every redirect hop; the request then connects to the checked
+// address (requestPage), so a second DNS answer can't point it somewhere else.
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 96], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+interface CheckedAddress { address: string; family: 4 | 6 }
+
+// The address to connect to: the host's first, once all of them are known to be public.
+async function checkPublicUrl(url: URL): Promise<CheckedAddress> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new HttpError(400, 'Only http and https pages can be fetched.');
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true }).catch(() => {
+    throw new HttpError(502, `${host} could not be resolved.`);
+  });
+  if (!addresses.length) throw new HttpError(502, `${host} could not be resolved.`);
+  for (const { address, family } of addresses) {
+    // IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) match the IPv4 ranges.
+    if (PRIVATE_NETWORKS.check(address, family === 6 ? 'ipv6' : 'ipv4')) throw new HttpError(403, `${host} is not a public address.`);
+  }
+  return { address: addresses[0].address, family: addresses[0].family === 6 ? 6 : 4 };
+}
+
+// GET `url` over a connection to `checked` rather than whatever the host resolves to now. The
+// host name still goes out as the Host header and TLS server name, so certificates are verified
+// against it as usual.
+function requestPage(url: URL, checked: CheckedAddress, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) callback(null, [checked]);
+    else callback(null, checked.address, checked.family);
+  };
+  const agent = url.protocol === 'https:' ? new https.Agent({ lookup: pinnedLookup }) : new http.Agent({ lookup: pinnedLookup });
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    client
+      .get(url, {
+        agent,
+        signal,
+        headers: { 'Accept': 'text/html,application/xhtml+xml,text/markdown,text/plain,application/pdf;q=0.9,*/*;q=0.5' },
+      }, resolve)
+      .on('error', reject);
+  });
+}
+
+// --- Handlers ---
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large.');
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+async function handleSession(req: http.IncomingMessage, res: http.ServerResponse) {
+  takeAuthAttempt(req);
+  const { email, password } = JSON.parse((await readBody(req)) || '{}');
+  if (!email || !password) throw new HttpError(400, 'Email and password are required.');
+  sendJson(res, 200, issueSession(await checkCredentials(String(email), String(password))));
+}
+
+async function handleRegister(req: http.IncomingMessage, res: http.ServerResponse) {
+  takeAuthAttempt(req);
+  const { name, email, password, inviteCode } = JSON.parse((await readBody(req)) || '{}');
+  if (!name || !email || !password) throw new HttpError(400, 'Name, email and password are required.');
+  sendJson(res, 200, issueSession(registerLocalUser(String(name), String(email), String(password), String(inviteCode ?? ''))));
+}
+
+// Counts against the user's rate limit and pipes the upstream response back as it arrives.
+async function streamUpstream(
+  res: http.ServerResponse,
+  user: SessionUser,
+  label: string,
+  open: (signal: AbortSignal) => Promise<Response>,
+  resume = false
+) {
+  const release = takeRateLimit(user.id, resume);
+
+  const upstreamAbort = new AbortController();
+  res.on('close', () => {
+    upstreamAbort.abort();
+    release();
+  });
+
+  try {
+    const upstream = await open(upstreamAbort.signal);
+    console.log(`[proxy] ${user.email} ${label} -> ${upstream.status}`);
+
+    // Status, content type and bytes go through as-is so the client's SSE handling is unaffected.
+    res.writeHead(upstream.status, {
+      'Content-Type': upstream.headers.get('content-type') || 'application/octet-stream',
+      'Cache-Control': 'no-cache',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+    if (!upstream.body) {
+      res.end();
+      return;
+    }
+    Readable.fromWeb(upstream.body as any).on('error', () => res.destroy()).pipe(res);
+  } catch (err) {
+    release();
+    throw err;
+  }
+}
+
+async function handleGlmAgents(req: http.IncomingMessage, res: http.ServerResponse) {
+  const user = verifySession(req);
+  if (!GLM_API_KEY) throw new HttpError(503, 'The GLM API key is not configured on the proxy.');
+  const body = await readBody(req);
+  const lastEventId = req.headers['last-event-id'];
+  await streamUpstream(res, user, 'glm/agents', signal => fetch(GLM_AGENTS_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${GLM_API_KEY}`,
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+      ...(typeof lastEventId === 'string' ? { 'Last-Event-ID': lastEventId } : {}),
+    },
+    body,
+    signal,
+  }), typeof lastEventId === 'string');
+}
+
+// The body is a generateContent request plus the model to send it to.
+async function handleGeminiStream(req: http.IncomingMessage, res: http.ServerResponse) {
+  const user = verifySession(req);
+  if (!GEMINI_API_KEY) throw new HttpError(503, 'The Gemini API key is not configured on the proxy.');
+  const { model, ...request } = JSON.parse((await readBody(req)) || '{}');
+  if (typeof model !== 'string' || !/^[\w.-]+$/.test(model)) throw new HttpError(400, 'A valid model name is required.');
+  await streamUpstream(res, user, `gemini/${model}`, signal => fetch(`${GEMINI_API_URL}/models/${model}:streamGenerateContent?alt=sse`, {
+    method: 'POST',
+    headers: {
+      'x-goog-api-key': GEMINI_API_KEY,
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+    },
+    body: JSON.stringify(request),
+    signal,
+  }));
+}
+
+// Web pages for document mode that the browser can't read cross-origin. The bytes go back as they
+// were served; the app extracts the text itself.
+async function handleFetchPage(req: http.IncomingMessage, res: http.ServerResponse) {
+  const user = verifySession(req);
+  const { url } = JSON.parse((await readBody(req)) || '{}');
+  let target: URL;
+  try {
+    target = new URL(String(url));
+  } catch {
+    throw new HttpError(400, 'A valid url is required.');
+  }
+
+  // One deadline for every hop and the body; the timeout surfaces as an AbortError, which the
+  // server would otherwise take for the client going away.
+  const timeout = AbortSignal.timeout(PAGE_FETCH_TIMEOUT_MS);
+  try {
+    for (let hop = 0; ; hop++) {
+      const upstream = await requestPage(target, await checkPublicUrl(target), timeout);
+      const status = upstream.statusCode ?? 502;
+      const location = upstream.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        upstream.resume();
+        if (hop >= MAX_PAGE_REDIRECTS) throw new HttpError(502, 'The page redirected too many times.');
+        target = new URL(location, target); // each hop is checked before it is followed
+        continue;
+      }
+      console.log(`[proxy] ${user.email} fetch-page ${target.href} -> ${status}`);
+      if (status < 200 || status >= 300) {
+        upstream.resume();
+        throw new HttpError(502, `The page answered ${status}.`);
+      }
+      if (Number(upstream.headers['content-length']) > MAX_PAGE_BYTES) {
+        upstream.destroy();
+        throw new HttpError(413, 'The page is larger than 10 MB.');
+      }
+
+      let size = 0;
+      const chunks: Buffer[] = [];
+      for await (const chunk of upstream) {
+        size += chunk.length;
+        if (size > MAX_PAGE_BYTES) {
+          upstream.destroy();
+          throw new HttpError(413, 'The page is larger than 10 MB.');
+        }
+        chunks.push(chunk);
+      }
+      res.writeHead(200, { 'Content-Type': upstream.headers['content-type'] || 'application/octet-stream' });
+      res.end(Buffer.concat(chunks));
+      return;
+    }
+  } catch (err) {
+    if (timeout.aborted) throw new HttpError(504, `The page did not answer within ${PAGE_FETCH_TIMEOUT_MS / 1000} seconds.`);
+    throw err;
+  }
+}
+
+const routes: Record<string, (req: http.IncomingMessage, res: http.ServerResponse) => Promise<void>> = {
+  'POST /api/auth/session': handleSession,
+  'POST /api/auth/register': handleRegister,
+  'POST /api/glm/agents': handleGlmAgents,
+  'POST /api/gemini/stream': handleGeminiStream,
+  'POST /api/fetch-page': handleFetchPage,
+  'GET /api/health': async (_req, res) => sendJson(res, 200, { ok: true }),
+};
+
+const server = http.createServer(async (req, res) => {
+  if (ALLOWED_ORIGIN) {
+    res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, Last-Event-ID');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+  }
+
+  const route = routes[`${req.method} ${(req.url || '').split('?')[0]}`];
+  try {
+    if (!route) throw new HttpError(404, 'Not found.');
+    await route(req, res);
+  } catch (err: any) {
+    if (err?.name === 'AbortError') return; // client went away mid-request
+    const status = err instanceof HttpError ? err.status : err instanceof SyntaxError ? 400 : 502;
+    if (status >= 500) console.error(`[proxy] ${req.method} ${req.url} failed:`, err);
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    sendJson(res, status, { error: err?.message || 'Proxy error' }, err instanceof HttpError ? err.headers : {});
+  }
+});
+
+server.listen(PORT, () => console.log(`[proxy] listening on http://localhost:${PORT}`));
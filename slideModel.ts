@@ -0,0 +1,152 @@
+// slideModel.ts
+// The structured slide format: what the model is asked to return (SLIDE_MODEL_SCHEMA), and the
+// validation that turns its JSON into a SlideModel. Slides travel through the normal HTML stream
+// as an envelope document holding the JSON, so every provider and the extraction stay unchanged;
+// slideTemplates.ts renders the validated model.
+import type { CalloutTone, InteractiveSpec, SlideBlock, SlideLayout, SlideModel } from './types';
+import { validateInteractiveSpec } from './interactives';
+
+export const SLIDE_MODEL_SCRIPT_ID = 'slide-model';
+
+export const SLIDE_LAYOUTS: SlideLayout[] = ['title', 'content', 'two-column', 'media'];
+const CALLOUT_TONES: CalloutTone[] = ['info', 'tip', 'warning', 'success'];
+
+// Shown to the model verbatim, so it reads as TypeScript.
+export const SLIDE_MODEL_SCHEMA = `interface Slide {
+  title: string;                 // short slide heading
+  subtitle?: string;
+  layout: "title" | "content" | "two-column" | "media";
+  blocks: Block[];               // in reading order
+  interactives?: Interactive[];  // only when the slide asks for them, in the order asked
+  notes?: { points: string[]; narration: string; durationSeconds: number };
+}
+type Block =
+  | { type: "paragraph"; text: string }
+  | { type: "bullets"; items: string[]; ordered?: boolean }
+  | { type: "callout"; tone: "info" | "tip" | "warning" | "success"; title?: string; text: string }
+  | { type: "media"; kind: "image" | "video"; src: string; alt: string; caption?: string }  // src: https URL
+  | { type: "quote"; text: string; cite?: string };
+type Interactive =
+  | { type: "quiz"; questions: { prompt: string; options: { text: string; correct: boolean }[]; explanation?: string }[] }
+  | { type: "flashcards"; cards: { front: string; back: string }[] }
+  | { type: "matching"; prompt?: string; pairs: { left: string; right: string }[] }
+  | { type: "infographic"; items: { label: string; value: string; description?: string }[] }
+  | { type: "ordering"; prompt?: string; items: string[] }            // items in the correct order
+  | { type: "cloze"; text: string; hint?: string }                     // blanks in text as [[answer]] or [[answer|alternative]]
+  | { type: "hotspot"; prompt: string; image: { src: string; alt: string }; spots: { x: number; y: number; label: string; correct: boolean; feedback?: string }[] }  // x, y: percent
+  | { type: "truefalse"; statements: { statement: string; answer: boolean; feedback?: string }[] }
+  | { type: "scenario"; situation: string; question: string; choices: { text: string; feedback: string; correct?: boolean; goToSlide?: number }[] };`;
+
+export const slideModelEnvelope = (model: unknown, pageNumber: number) =>
+  `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Slide ${pageNumber}</title></head><body>` +
+  `<script type="application/json" id="${SLIDE_MODEL_SCRIPT_ID}">${JSON.stringify(model).replace(/</g, '\\u003c')}</script>` +
+  `</body></html>`;
+
+const MODEL_BLOCK_RE = new RegExp(`<script\\b[^>]*\\bid=["']${SLIDE_MODEL_SCRIPT_ID}["'][^>]*>([\\s\\S]*?)</script>`, 'i');
+
+// The raw JSON of an envelope document, or null for ordinary slide HTML.
+export function slideModelJson(html: string): string | null {
+  const m = MODEL_BLOCK_RE.exec(html);
+  return m ? m[1].trim() : null;
+}
+
+// --- Validation ---
+// Fatal problems (no title, no content) reject the model. Anything smaller drops the offending
+// part and is reported, so one bad bullet doesn't cost the whole slide.
+
+const isObject = (v: unknown): v is Record<string, any> => !!v && typeof v === 'object' && !Array.isArray(v);
+const text = (v: unknown) => (typeof v === 'string' ? v.replace(/\s+/g, ' ').trim() : typeof v === 'number' ? String(v) : '');
+const optionalText = (v: unknown) => text(v) || undefined;
+
+const SAFE_SRC_RE = /^(https?:\/\/|data:image\/)/i;
+
+function validateBlock(raw: unknown, path: string, errors: string[]): SlideBlock | null {
+  if (!isObject(raw)) {
+    errors.push(`${path} is not an object`);
+    return null;
+  }
+  switch (raw.type) {
+    case 'paragraph':
+    case 'quote': {
+      const body = text(raw.text);
+      if (!body) break;
+      return raw.type === 'quote' ? { type: 'quote', text: body, cite: optionalText(raw.cite) } : { type: 'paragraph', text: body };
+    }
+    case 'bullets': {
+      const items = Array.isArray(raw.items) ? raw.items.map(text).filter(Boolean) : [];
+      if (!items.length) break;
+      return { type: 'bullets', items, ordered: raw.ordered === true || undefined };
+    }
+    case 'callout': {
+      const body = text(raw.text);
+      if (!body) break;
+      const tone = CALLOUT_TONES.includes(raw.tone) ? raw.tone : 'info';
+      if (tone !== raw.tone) errors.push(`${path}.tone "${raw.tone}" is not one of ${CALLOUT_TONES.join(', ')}; using "info"`);
+      return { type: 'callout', tone, title: optionalText(raw.title), text: body };
+    }
+    case 'media': {
+      const src = text(raw.src);
+      if (!SAFE_SRC_RE.test(src)) {
+        errors.push(`${path}.src must be an http(s) or data:image URL`);
+        return null;
+      }
+      const kind = raw.kind === 'video' ? 'video' : 'image';
+      return { type: 'media', kind, src, alt: text(raw.alt), caption: optionalText(raw.caption) };
+    }
+    default:
+      errors.push(`${path}.type "${raw.type}" is not a known block type`);
+      return null;
+  }
+  errors.push(`${path} (${raw.type}) has no text`);
+  return null;
+}
+
+// A malformed interactive is dropped whole (see validateInteractiveSpec); the rest of the slide stays.
+// A single `interactive` object is accepted too.
+function validateInteractives(raw: Record<string, any>, errors: string[]): InteractiveSpec[] {
+  const list = raw.interactives ?? raw.interactive;
+  if (list == null) return [];
+  const items: unknown[] = Array.isArray(list) ? list : [list];
+  const path = Array.isArray(list) ? (i: number) => `interactives[${i}]` : () => 'interactive';
+  return items
+    .map((item, i) => {
+      const { spec, errors: specErrors } = validateInteractiveSpec(item, path(i));
+      errors.push(...specErrors);
+      return spec;
+    })
+    .filter((spec): spec is InteractiveSpec => spec !== null);
+}
+
+export function validateSlideModel(raw: unknown): { model: SlideModel | null; errors: string[] } {
+  const errors: string[] = [];
+  if (!isObject(raw)) return { model: null, errors: ['The slide is not a JSON object'] };
+
+  const title = text(raw.title);
+  if (!title) errors.push('title is missing');
+  const layout = SLIDE_LAYOUTS.includes(raw.layout) ? raw.layout as SlideLayout : 'content';
+  if (raw.layout !== undefined && layout !== raw.layout) errors.push(`layout "${raw.layout}" is not one of ${SLIDE_LAYOUTS.join(', ')}; using "content"`);
+  if (!Array.isArray(raw.blocks)) errors.push('blocks must be an array');
+  const blocks = (Array.isArray(raw.blocks) ? raw.blocks : [])
+    .map((b: unknown, i: number) => validateBlock(b, `blocks[${i}]`, errors))
+    .filter((b: SlideBlock | null): b is SlideBlock => b !== null);
+  const interactives = validateInteractives(raw, errors);
+
+  if (!title || (!blocks.length && !interactives.length && layout !== 'title')) {
+    if (title) errors.push('the slide has no content');
+    return { model: null, errors };
+  }
+  return { model: { title, subtitle: optionalText(raw.subtitle), layout, blocks, ...(interactives.length ? { interactives } : {}) }, errors };
+}
+
+// Envelope document -> model, notes and any problems; null when `html` isn't an envelope.
+export function parseSlideModel(html: string): { model: SlideModel | null; notes: unknown; errors: string[] } | null {
+  const json = slideModelJson(html);
+  if (json === null) return null;
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch (e: any) {
+    return { model: null, notes: undefined, errors: [`The slide JSON could not be parsed: ${e.message}`] };
+  }
+  return { ...validateSlideModel(raw), notes: isObject(raw) ? raw.notes : undefined };
+}
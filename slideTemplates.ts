@@ -0,0 +1,130 @@
+// slideTemplates.ts
+// Local layout templates for structured slides: SlideModel + theme -> a self-contained HTML
+// document (inline CSS and vanilla JS only, so it suits strict mode and every export). Interactives
+// come from interactives.ts, themed through its CSS variables.
+import type { GeneratedSlide, SlideBlock, SlideModel, SlideTheme } from './types';
+import { DEFAULT_THEME_ID, SLIDE_THEMES } from './constants';
+import { interactiveRuntimeTag, interactiveStyleTag, newRenderCounter, renderInteractive } from './interactives';
+
+export const themeById = (id: string | undefined): SlideTheme =>
+  SLIDE_THEMES.find(t => t.id === id) ?? SLIDE_THEMES.find(t => t.id === DEFAULT_THEME_ID)!;
+
+const esc = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function blockHtml(block: SlideBlock): string {
+  switch (block.type) {
+    case 'paragraph':
+      return `<p>${esc(block.text)}</p>`;
+    case 'bullets': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      return `<${tag}>${block.items.map(i => `<li>${esc(i)}</li>`).join('')}</${tag}>`;
+    }
+    case 'callout':
+      return `<aside class="callout ${block.tone}">${block.title ? `<strong>${esc(block.title)}</strong>` : ''}<p>${esc(block.text)}</p></aside>`;
+    case 'quote':
+      return `<blockquote><p>${esc(block.text)}</p>${block.cite ? `<cite>${esc(block.cite)}</cite>` : ''}</blockquote>`;
+    case 'media': {
+      const media = block.kind === 'video'
+        ? `<video src="${esc(block.src)}" controls preload="metadata" aria-label="${esc(block.alt)}"></video>`
+        : `<img src="${esc(block.src)}" alt="${esc(block.alt)}">`;
+      return `<figure>${media}${block.caption ? `<figcaption>${esc(block.caption)}</figcaption>` : ''}</figure>`;
+    }
+  }
+}
+
+function styles(t: SlideTheme): string {
+  return `
+    :root { --si-accent: ${t.accent}; --si-background: ${t.background}; --si-surface: ${t.surface}; --si-muted: ${t.muted}; }
+    * { box-sizing: border-box; }
+    html, body { margin: 0; }
+    body { min-height: 100vh; padding: 56px 72px; background: ${t.background}; color: ${t.text}; font-family: ${t.font}; font-size: 22px; line-height: 1.5; }
+    h1, h2 { font-family: ${t.headingFont}; color: ${t.accent}; margin: 0 0 8px; line-height: 1.2; }
+    h1 { font-size: 44px; }
+    .subtitle { color: ${t.muted}; font-size: 24px; margin: 0 0 24px; }
+    header { border-bottom: 4px solid ${t.accent}; padding-bottom: 12px; margin-bottom: 28px; }
+    p { margin: 0 0 16px; }
+    ul, ol { margin: 0 0 16px; padding-left: 1.2em; }
+    li { margin-bottom: 8px; }
+    li::marker { color: ${t.accent}; }
+    .callout { background: ${t.surface}; border-left: 6px solid ${t.accent}; border-radius: 8px; padding: 14px 18px; margin: 0 0 16px; }
+    .callout.tip { border-color: #2a9d8f; } .callout.warning { border-color: #e76f51; } .callout.success { border-color: #52b788; }
+    .callout strong { display: block; margin-bottom: 4px; }
+    .callout p { margin: 0; }
+    blockquote { margin: 0 0 16px; padding: 8px 24px; border-left: 4px solid ${t.accent}; font-style: italic; font-size: 26px; }
+    cite { display: block; color: ${t.muted}; font-size: 18px; font-style: normal; }
+    figure { margin: 0 0 16px; }
+    figure img, figure video { max-width: 100%; max-height: 420px; border-radius: 8px; display: block; }
+    figcaption { color: ${t.muted}; font-size: 16px; margin-top: 6px; }
+    .layout-title { display: flex; flex-direction: column; justify-content: center; min-height: calc(100vh - 112px); text-align: center; }
+    .layout-title header { border: 0; }
+    .layout-title h1 { font-size: 60px; }
+    .columns { display: grid; grid-template-columns: 1fr 1fr; gap: 40px; align-items: start; }
+    .layout-media .columns { grid-template-columns: 3fr 2fr; }
+    button { font: inherit; color: inherit; }
+    [hidden] { display: none !important; }`;
+}
+
+function bodyHtml(model: SlideModel): string {
+  const header = `<header><h1>${esc(model.title)}</h1>${model.subtitle ? `<p class="subtitle">${esc(model.subtitle)}</p>` : ''}</header>`;
+  const counter = newRenderCounter();
+  const interactive = (model.interactives ?? []).map(spec => renderInteractive(spec, counter)).join('');
+
+  if (model.layout === 'two-column' || model.layout === 'media') {
+    // Media and the interactive go on the right; in two-column, text splits evenly when there is neither.
+    const side = model.blocks.filter(b => b.type === 'media');
+    let main = model.blocks.filter(b => b.type !== 'media');
+    let rest: SlideBlock[] = [];
+    if (!side.length && !interactive && model.layout === 'two-column') {
+      rest = main.slice(Math.ceil(main.length / 2));
+      main = main.slice(0, Math.ceil(main.length / 2));
+    }
+    return `<main class="layout-${model.layout}">${header}<div class="columns">
+      <div>${main.map(blockHtml).join('')}</div>
+      <div>${[...side, ...rest].map(blockHtml).join('')}${interactive}</div>
+    </div></main>`;
+  }
+  return `<main class="layout-${model.layout}">${header}${model.blocks.map(blockHtml).join('')}${interactive}</main>`;
+}
+
+export function renderSlideModel(model: SlideModel, theme: SlideTheme): string {
+  const interactive = !!model.interactives?.length;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${esc(model.title)}</title>
+  <style>${styles(theme)}
+  </style>${interactive ? `\n  ${interactiveStyleTag()}` : ''}
+</head>
+<body>
+${bodyHtml(model)}
+${interactive ? `${interactiveRuntimeTag()}\n` : ''}</body>
+</html>`;
+}
+
+// Shown in place of a slide whose model was rejected, so the problem is visible in Step 5.
+export function renderInvalidSlide(pageNumber: number, errors: string[], theme: SlideTheme): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><title>Slide ${pageNumber} (invalid)</title><style>${styles(theme)}</style></head>
+<body><main><header><h1>Slide ${pageNumber} could not be rendered</h1></header>
+<aside class="callout warning"><strong>The AI returned a slide that doesn't match the slide schema.</strong><p>Use "Edit Slide" to regenerate it.</p></aside>
+<ul>${errors.map(e => `<li>${esc(e)}</li>`).join('')}</ul></main></body>
+</html>`;
+}
+
+// Structured slides get their HTML from the model; everything else passes through unchanged.
+export function renderGeneratedSlide(slide: GeneratedSlide, themeId: string | undefined): GeneratedSlide {
+  const theme = themeById(themeId);
+  if (slide.model) {
+    const html = renderSlideModel(slide.model, theme);
+    return { ...slide, html, draft: html };
+  }
+  if (slide.modelErrors?.length) {
+    const html = renderInvalidSlide(slide.pageNumber, slide.modelErrors, theme);
+    return { ...slide, html, draft: html };
+  }
+  return slide;
+}
@@ -1,3 +1,5 @@
+import type { ProviderSettings } from './providers/types';
+
 export enum CourseType {
   GENERAL = 'general',
   MICROLEARNING = 'microlearning',
@@ -27,10 +29,39 @@ export enum InteractiveElement {
   INFOGRAPHICS = 'Infographics',
   QUIZ = 'Quiz',
   MATCHING = 'Matching',
+  ORDERING = 'Ordering',
+  FILL_IN_THE_BLANK = 'Fill in the Blank',
+  HOTSPOT = 'Hotspot',
+  TRUE_FALSE = 'True/False',
+  SCENARIO = 'Branching Scenario',
 }
 
 export type AgenticMode = "free" | "strict";
 
+// 'html': the model writes each slide's HTML. 'structured': it returns a SlideModel, which the studio
+// validates and renders through its own templates (slideTemplates.ts).
+export type SlideFormat = 'html' | 'structured';
+
+// Download formats offered on the Slides step (see exporters/).
+export type ExportFormat = 'zip' | 'scorm12' | 'scorm2004' | 'xapi' | 'imscc' | 'pptx' | 'pdf' | 'presentation' | 'captions';
+
+export type HandoutLayout = 'full' | 'three-up' | 'notes';
+
+// Where document mode indexes uploads and retrieves slide content: the n8n webhooks, or
+// localRetrieval.ts in the browser.
+export type RetrievalBackend = 'n8n' | 'local';
+
+// What a document-mode source is; see documentSources.ts. 'url' is a web page fetched by
+// address, 'pasted' is text typed or pasted into the uploader.
+export type DocumentSourceType = 'pdf' | 'word' | 'powerpoint' | 'html' | 'markdown' | 'text' | 'url' | 'pasted';
+
+export interface DocumentSource {
+  name: string; // file name, page address or the title given to pasted text; cited as the passage's file
+  type: DocumentSourceType;
+}
+
+// Build progress of a knowledge base (knowledgeBase.ts). After 'uploading', the n8n workflow
+// reports queued ('polling'), 'registering' and 'vectorizing' until the index is 'ready'.
 export type KbStatus =
   | 'idle'
   | 'uploading'
@@ -40,6 +71,23 @@ export type KbStatus =
   | 'ready'
   | 'error';
 
+// An indexed set of uploaded documents, listed on the Knowledge Base screen. `id` is the n8n
+// sourceId or the local index id; a course retrieves from one or more of them.
+export interface KnowledgeBase {
+  id: string;
+  backend: RetrievalBackend;
+  name: string; // the topic it was uploaded for
+  fileNames: string[];
+  sources?: DocumentSource[]; // fileNames with their types; absent on knowledge bases from before source types
+  sizeBytes?: number; // total of the uploaded files, when known
+  createdAt: string; // ISO
+  status: KbStatus;
+  progress?: number; // 0..1 while building, when the backend reports it
+  error?: string;
+}
+
+export type AttachedKnowledgeBase = Pick<KnowledgeBase, 'id' | 'name' | 'fileNames' | 'sources'>;
+
 
 export interface GeneralCourseSlide {
   id: number;
@@ -56,8 +104,13 @@ export interface GeneralCourseData {
   selectedContentTypes: GeneralContentType[];
   slideCount: number;
   slides: GeneralCourseSlide[];
-  kbId?: string;
+  kbId?: string; // n8n sourceId, or the local index id when retrieval is 'local'; the first of knowledgeBases
+  knowledgeBases?: AttachedKnowledgeBase[]; // every knowledge base the course retrieves from
+  retrieval?: RetrievalBackend; // document mode; defaults to 'n8n'
   fileNames?: string[];
+  documentSources?: DocumentSource[]; // fileNames with their types, from the attached knowledge bases
+  slideFormat?: SlideFormat;
+  themeId?: string; // SLIDE_THEMES id; structured slides are re-rendered when it changes
 }
 
 export interface MicrolearningSlide {
@@ -65,9 +118,9 @@ export interface MicrolearningSlide {
   autoMode: boolean;
   userContent: string;
   contentType: MicrolearningContentType;
-  interactives: InteractiveElement[];
+  interactives: InteractiveElement[]; // in the order they appear on the slide
   generatedContent?: string;
-  generatedInteractives?: any;
+  generatedInteractives?: InteractiveSpec[]; // validated data of the slide's generated interactives
 }
 
 export interface MicrolearningCourseData {
@@ -79,8 +132,13 @@ export interface MicrolearningCourseData {
   slides: MicrolearningSlide[];
   // FIX: Add optional 'selectedInteractives' to support selection of interactive elements for microlearning courses.
   selectedInteractives?: InteractiveElement[];
-  kbId?: string;
+  kbId?: string; // n8n sourceId, or the local index id when retrieval is 'local'; the first of knowledgeBases
+  knowledgeBases?: AttachedKnowledgeBase[]; // every knowledge base the course retrieves from
+  retrieval?: RetrievalBackend; // document mode; defaults to 'n8n'
   fileNames?: string[];
+  documentSources?: DocumentSource[]; // fileNames with their types, from the attached knowledge bases
+  slideFormat?: SlideFormat;
+  themeId?: string; // SLIDE_THEMES id; structured slides are re-rendered when it changes
 }
 
 export type CourseData = GeneralCourseData | MicrolearningCourseData;
@@ -100,11 +158,17 @@ export interface WPCourse {
 }
 
 export interface SlideGenState {
-  step: number;
+  step: number; // -1 = "Knowledge Base", 0 = "My Projects", 1..6 = wizard steps
+  projectId: string | null; // IndexedDB key of the autosaved project
+  syncStatus: SyncStatus;
+  syncConflict: SyncConflict | null;
+
   courseData: Partial<CourseData>;
   kbStatus: KbStatus;
+  kbProgress: number | null; // 0..1 while a knowledge base builds, when the backend reports it
   kbError: string | null;
   mode: AgenticMode;
+  provider: ProviderSettings;
   isLoading: boolean;
   isRetrievingContent: boolean;
   isExporting: boolean;
@@ -114,13 +178,230 @@ export interface SlideGenState {
   error: string | null;
   lastPrompt: string;
   apiLogs: string[];
+  streamReconnects: StreamReconnect[]; // SSE resumes during the last generation, for the Debug Panel
   isExportingWp: boolean;
   exportSuccessMessage: string | null;
 }
 
+// One automatic reconnect of a dropped generation stream.
+export interface StreamReconnect {
+  attempt: number;
+  at: string; // ISO time of the drop
+  reason: string;
+  lastEventId?: string; // sent as Last-Event-ID on the new connection
+  delayMs: number; // wait before reconnecting, from the server's retry hint when it sent one
+  restarted?: boolean; // the server answered with a new stream; the output before the drop was discarded
+}
+
+// Presenter-facing text generated with each slide (see splitSlideNotes in extractSlides.ts).
+// Kept out of the slide HTML; editable in Step 5 and in presenter mode.
+export interface SlideNotes {
+  points: string[]; // speaker notes, one talking point per entry
+  narration: string; // voice-over script, written to be read aloud
+  durationSeconds: number; // target time on the slide
+}
+
+// --- Local document index (RetrievalBackend 'local'), see localRetrieval.ts ---
+
+export interface DocumentChunk {
+  id: string; // "c12"; what the model cites (see grounding.ts)
+  file: string; // source file name
+  location?: string; // "p. 4" for PDFs, otherwise the section heading
+  text: string;
+  terms: Record<string, number>; // term -> count, after tokenizing
+  length: number; // terms in the chunk
+}
+
+export interface LocalDocumentIndex {
+  id: string; // used as the course's kbId
+  userId?: string; // absent on indexes built before the Knowledge Base screen, which then lists them for no one
+  topic: string;
+  fileNames: string[];
+  sources?: DocumentSource[];
+  sizeBytes?: number;
+  createdAt: string; // ISO
+  documents?: { name: string; sections: { location?: string; text: string }[] }[]; // extracted text, kept for re-indexing
+  chunks: DocumentChunk[];
+  documentFrequency: Record<string, number>; // term -> chunks containing it
+  averageLength: number;
+}
+
+// --- Grounding (StructureMethod.DOCUMENT), see grounding.ts ---
+
+// A retrieved passage as the prompt shows it to the model.
+export interface SourcePassage {
+  id: string; // unique within the deck; the model cites it
+  file: string;
+  location?: string; // page or section, when the backend knows it
+  text: string;
+}
+
+// One entry of a slide's slide-sources block.
+export interface SlideReference {
+  id: string; // SourcePassage id
+  quote?: string; // the supporting words, copied from the passage
+  claim?: string; // what the slide says on the strength of it
+}
+
+// A sentence of a slide's visible text, checked against the retrieved passages.
+export interface ClaimCheck {
+  text: string;
+  score: number; // 0..1: how much of the claim the best passage covers
+  sourceId?: string; // the best passage
+  supported: boolean;
+}
+
+export interface SlideGroundingCheck {
+  score: number; // 0..1: supported claims / claims
+  claims: ClaimCheck[];
+}
+
+// --- Structured slides (SlideFormat 'structured'), see slideModel.ts ---
+
+export type SlideLayout = 'title' | 'content' | 'two-column' | 'media';
+
+export type CalloutTone = 'info' | 'tip' | 'warning' | 'success';
+
+export type SlideBlock =
+  | { type: 'paragraph'; text: string }
+  | { type: 'bullets'; items: string[]; ordered?: boolean }
+  | { type: 'callout'; tone: CalloutTone; title?: string; text: string }
+  | { type: 'media'; kind: 'image' | 'video'; src: string; alt: string; caption?: string }
+  | { type: 'quote'; text: string; cite?: string };
+
+export type InteractiveSpec =
+  | { type: 'quiz'; questions: { prompt: string; options: { text: string; correct: boolean }[]; explanation?: string }[] }
+  | { type: 'flashcards'; cards: { front: string; back: string }[] }
+  | { type: 'matching'; prompt?: string; pairs: { left: string; right: string }[] }
+  | { type: 'infographic'; items: { label: string; value: string; description?: string }[] }
+  | { type: 'ordering'; prompt?: string; items: string[] } // items in the correct order; shown shuffled
+  | { type: 'cloze'; text: string; hint?: string } // blanks written as [[answer]] or [[answer|alternative]]
+  | { type: 'hotspot'; prompt: string; image: { src: string; alt: string }; spots: HotspotSpot[] }
+  | { type: 'truefalse'; statements: { statement: string; answer: boolean; feedback?: string }[] }
+  | { type: 'scenario'; situation: string; question: string; choices: ScenarioChoice[] };
+
+export interface HotspotSpot {
+  x: number; // centre, percent of the image width
+  y: number; // percent of the image height
+  label: string;
+  correct: boolean;
+  feedback?: string;
+}
+
+// A scenario is scored when any choice is marked correct; goToSlide routes the learner on.
+export interface ScenarioChoice {
+  text: string;
+  feedback: string;
+  correct?: boolean;
+  goToSlide?: number; // 1-based slide number
+}
+
+// --- Question bank (exporters/questionBank.ts) ---
+
+// Where a bank question came from: a validated interactive, quiz markup in the slide HTML, or the
+// AI fallback for slides the first two couldn't read.
+export type BankQuestionSource = 'interactive' | 'markup' | 'ai';
+
+interface BankQuestionBase {
+  id: string; // unique in the bank, e.g. "s3_q1"
+  pageNumber: number;
+  slideTitle: string;
+  prompt: string;
+  explanation?: string;
+  source: BankQuestionSource;
+}
+
+export type BankQuestion =
+  | (BankQuestionBase & { kind: 'choice'; options: { text: string; correct: boolean }[] }) // several correct: multiple response
+  | (BankQuestionBase & { kind: 'true-false'; answer: boolean })
+  | (BankQuestionBase & { kind: 'matching'; pairs: { left: string; right: string }[] });
+
+// A slide that looks like it holds questions the extractor couldn't read.
+export interface UnreadSlide {
+  pageNumber: number;
+  reason: string;
+}
+
+export interface SlideModel {
+  title: string;
+  subtitle?: string;
+  layout: SlideLayout;
+  blocks: SlideBlock[];
+  interactives?: InteractiveSpec[]; // in slide order
+}
+
+export interface SlideTheme {
+  id: string;
+  label: string;
+  accent: string;
+  background: string;
+  surface: string; // cards, callouts and interactive panels
+  text: string;
+  muted: string;
+  font: string;
+  headingFont: string;
+}
+
 export interface GeneratedSlide {
   html: string;
   pageNumber: number;
   draft?: string;
   complete?: boolean;
-}
\ No newline at end of file
+  notes?: SlideNotes;
+  model?: SlideModel; // structured slides: the source of `html`
+  modelErrors?: string[]; // validation problems in the slide model the AI returned
+  interactives?: InteractiveSpec[]; // validated interactive data, in slide order (see interactives.ts)
+  interactiveErrors?: string[]; // data blocks that failed validation and were not rendered; missing or unrequested interactives
+  sources?: SourcePassage[]; // document mode: the passages retrieved for this slide
+  references?: SlideReference[]; // the passages the slide cites
+  groundingCheck?: SlideGroundingCheck; // the slide's text against `sources`, after generation
+}
+
+// A wizard session persisted to IndexedDB (see projectStore.ts).
+// `id` is the runId the project was created with; it also keys the project on the n8n side.
+export interface SavedProject {
+  id: string;
+  userId: string;
+  name: string; // empty until the user renames it; the UI falls back to the course topic
+  step: number;
+  courseData: Partial<CourseData>;
+  generatedSlides: GeneratedSlide[];
+  mode: AgenticMode;
+  runId: string | null;
+  glmConversationId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  revision: number; // last server revision this copy is based on; 0 = never synced
+  syncedAt?: string;
+  syncBase?: SyncedProjectData; // content as of `revision`, used as the common ancestor when merging
+}
+
+export type ProjectSnapshot = Omit<SavedProject, 'name' | 'createdAt' | 'updatedAt' | 'revision' | 'syncedAt' | 'syncBase'>;
+
+// The part of a project that is synced to the n8n database.
+export type SyncedProjectData = Pick<SavedProject, 'name' | 'step' | 'courseData' | 'generatedSlides' | 'mode' | 'runId' | 'glmConversationId'>;
+
+export interface RemoteProject {
+  runId: string;
+  userId: string;
+  revision: number;
+  updatedAt: string;
+  clientId: string; // browser that wrote this revision
+  project: SyncedProjectData;
+}
+
+export interface RemoteProjectSummary {
+  runId: string;
+  revision: number;
+  updatedAt: string;
+  name: string;
+  courseTopic?: string;
+  step: number;
+}
+
+export type SyncStatus = 'idle' | 'syncing' | 'synced' | 'conflict' | 'error';
+
+export interface SyncConflict {
+  local: SavedProject;
+  remote: RemoteProject;
+}
@@ -0,0 +1,176 @@
+// utils/documentText.ts
+// Plain text out of uploaded documents, in the browser: PDF through pdf.js, DOCX and PPTX by
+// reading their XML parts with JSZip, HTML through DOMParser, and text files as they are. Used by
+// documentSources.ts for the local index and for what n8n can't read itself.
+// The text comes in sections that say where they are, so citations can point at them: one per
+// page for PDFs, one per slide for PPTX, one per heading for DOCX (Heading/Title styles), HTML
+// (h1-h6) and markdown (# lines).
+import JSZip from 'jszip';
+
+export interface DocumentSection {
+  location?: string; // "p. 4", or the heading; absent before the first heading
+  text: string;
+}
+
+const TEXT_EXTENSIONS = ['txt', 'md', 'markdown', 'csv'];
+const HTML_EXTENSIONS = ['html', 'htm'];
+export const LOCAL_DOCUMENT_EXTENSIONS = ['pdf', 'docx', 'pptx', ...HTML_EXTENSIONS, ...TEXT_EXTENSIONS];
+
+export const extensionOf = (name: string) => (name.includes('.') ? name.split('.').pop()!.toLowerCase() : '');
+
+// pdf.js is loaded on first use. The legacy build carries the polyfills the modern one expects of
+// very recent browsers; its parser runs on the main thread ("fake worker"), so there is no
+// separate worker file to serve.
+async function loadPdfjs() {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const scope = globalThis as { pdfjsWorker?: unknown };
+  if (!scope.pdfjsWorker) scope.pdfjsWorker = await import('pdfjs-dist/legacy/build/pdf.worker.mjs');
+  return pdfjs;
+}
+
+async function pdfSections(file: File): Promise<DocumentSection[]> {
+  const pdfjs = await loadPdfjs();
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const pages: DocumentSection[] = [];
+    for (let n = 1; n <= pdf.numPages; n++) {
+      const page = await pdf.getPage(n);
+      const content = await page.getTextContent();
+      pages.push({ location: `p. ${n}`, text: content.items.map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')).join('') });
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// Adds `line` to the last section, or opens a new one when it is a heading.
+function pushLine(sections: DocumentSection[], line: string, heading: boolean) {
+  if (heading && line.trim()) sections.push({ location: line.trim(), text: `${line.trim()}\n` });
+  else if (sections.length) sections[sections.length - 1].text += `${line}\n`;
+  else sections.push({ text: `${line}\n` });
+}
+
+const HEADING_STYLE_RE = /^(heading|title)/i;
+
+// One line per paragraph; list items are paragraphs too, so they keep their own line.
+async function docxSections(file: File): Promise<DocumentSection[]> {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const xml = await zip.file('word/document.xml')?.async('string');
+  if (!xml) throw new Error(`${file.name} is not a Word document (word/document.xml is missing).`);
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const sections: DocumentSection[] = [];
+  for (const p of Array.from(doc.getElementsByTagName('w:p'))) {
+    let line = '';
+    let heading = false;
+    for (const el of Array.from(p.querySelectorAll('*'))) {
+      if (el.tagName === 'w:t') line += el.textContent ?? '';
+      else if (el.tagName === 'w:tab') line += '\t';
+      else if (el.tagName === 'w:br' || el.tagName === 'w:cr') line += '\n';
+      else if (el.tagName === 'w:pStyle') heading = HEADING_STYLE_RE.test(el.getAttribute('w:val') ?? '');
+    }
+    pushLine(sections, line, heading);
+  }
+  return sections;
+}
+
+// Slides in presentation order (p:sldIdLst), each with its speaker notes. Decks whose
+// relationships can't be followed fall back to the slide file numbers.
+async function pptxSections(file: File): Promise<DocumentSection[]> {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const parse = async (path: string) => {
+    const xml = await zip.file(path)?.async('string');
+    return xml ? new DOMParser().parseFromString(xml, 'application/xml') : null;
+  };
+  const targets = async (relsPath: string) => {
+    const rels = await parse(relsPath);
+    const byId = new Map<string, { type: string; target: string }>();
+    for (const rel of Array.from(rels?.getElementsByTagName('Relationship') ?? [])) {
+      byId.set(rel.getAttribute('Id') ?? '', { type: rel.getAttribute('Type') ?? '', target: rel.getAttribute('Target') ?? '' });
+    }
+    return byId;
+  };
+  const resolve = (dir: string, target: string) => (target.startsWith('/') ? target.slice(1) : `${dir}/${target}`.replace(/[^/]+\/\.\.\//g, ''));
+
+  const presentation = await parse('ppt/presentation.xml');
+  if (!presentation) throw new Error(`${file.name} is not a PowerPoint presentation (ppt/presentation.xml is missing).`);
+  const presentationRels = await targets('ppt/_rels/presentation.xml.rels');
+  let slidePaths = Array.from(presentation.getElementsByTagName('p:sldId'))
+    .map(el => presentationRels.get(el.getAttribute('r:id') ?? '')?.target)
+    .filter((t): t is string => !!t)
+    .map(t => resolve('ppt', t));
+  if (!slidePaths.length) {
+    const slideNumber = (path: string) => Number(/slide(\d+)\.xml$/.exec(path)?.[1]);
+    slidePaths = Object.keys(zip.files).filter(path => /^ppt\/slides\/slide\d+\.xml$/.test(path)).sort((a, b) => slideNumber(a) - slideNumber(b));
+  }
+
+  // One line per a:p; a:br inside a paragraph is a line break.
+  const paragraphs = (root: Element | Document) => Array.from(root.getElementsByTagName('a:p')).map(p =>
+    Array.from(p.querySelectorAll('*')).map(el => (el.tagName === 'a:t' ? el.textContent ?? '' : el.tagName === 'a:br' ? '\n' : '')).join('')
+  ).filter(line => line.trim());
+
+  const sections: DocumentSection[] = [];
+  for (const [i, path] of slidePaths.entries()) {
+    const slide = await parse(path);
+    if (!slide) continue;
+    const lines = paragraphs(slide);
+    const rels = await targets(path.replace(/([^/]+)$/, '_rels/$1.rels'));
+    const notesTarget = Array.from(rels.values()).find(r => r.type.endsWith('/notesSlide'))?.target;
+    const notes = notesTarget ? await parse(resolve(path.replace(/\/[^/]+$/, ''), notesTarget)) : null;
+    if (notes) {
+      // Only the notes body; the other placeholders repeat the slide image and its number.
+      const body = Array.from(notes.getElementsByTagName('p:sp'))
+        .filter(sp => Array.from(sp.getElementsByTagName('p:ph')).some(ph => ph.getAttribute('type') === 'body'));
+      const noteLines = body.flatMap(sp => paragraphs(sp));
+      if (noteLines.length) lines.push('', `Notes: ${noteLines.join('\n')}`);
+    }
+    if (lines.length) sections.push({ location: `slide ${i + 1}`, text: `${lines.join('\n')}\n` });
+  }
+  return sections;
+}
+
+const HTML_SKIPPED = 'script, style, noscript, template, svg, nav, footer, form, iframe, button';
+const HTML_BLOCKS = 'h1, h2, h3, h4, h5, h6, p, li, pre, blockquote, td, th, dt, dd, figcaption, caption';
+
+// The page's readable text: <main> or <article> when there is one, without navigation and
+// scripts. Blocks nested in other blocks (a <p> in an <li>) are read once, with their parent.
+export function htmlSections(html: string): DocumentSection[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll(HTML_SKIPPED).forEach(el => el.remove());
+  const root = doc.querySelector('main') ?? doc.querySelector('article') ?? doc.body;
+  const sections: DocumentSection[] = [];
+  const title = doc.querySelector('title')?.textContent?.trim();
+  if (title) pushLine(sections, title, true);
+  const blocks = Array.from(root?.querySelectorAll(HTML_BLOCKS) ?? []).filter(el => !el.parentElement?.closest(HTML_BLOCKS));
+  for (const el of blocks) {
+    const line = (el.textContent ?? '').replace(/\s+/g, ' ').trim();
+    if (line) pushLine(sections, line, /^H[1-6]$/i.test(el.tagName));
+  }
+  // Pages laid out with bare <div>s have no blocks to go by.
+  if (!blocks.length && root?.textContent?.trim()) {
+    for (const line of root.textContent.split(/\n+/)) if (line.trim()) pushLine(sections, line.trim(), false);
+  }
+  return sections;
+}
+
+export function textSections(text: string): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const heading = /^#{1,6}\s+(.*)$/.exec(line);
+    pushLine(sections, heading ? heading[1] : line, !!heading);
+  }
+  return sections;
+}
+
+export async function extractDocumentText(file: File): Promise<DocumentSection[]> {
+  const ext = extensionOf(file.name);
+  if (ext === 'pdf') return pdfSections(file);
+  if (ext === 'docx') return docxSections(file);
+  if (ext === 'pptx') return pptxSections(file);
+  if (HTML_EXTENSIONS.includes(ext) || file.type === 'text/html') return htmlSections(await file.text());
+  if (TEXT_EXTENSIONS.includes(ext) || file.type.startsWith('text/')) return textSections(await file.text());
+  if (ext === 'doc') throw new Error(`${file.name}: old .doc files can't be read in the browser. Save it as .docx or PDF, or use n8n retrieval.`);
+  if (ext === 'ppt') throw new Error(`${file.name}: old .ppt files can't be read in the browser. Save it as .pptx or PDF.`);
+  throw new Error(`${file.name}: only ${LOCAL_DOCUMENT_EXTENSIONS.map(e => `.${e}`).join(', ')} files can be indexed locally.`);
+}
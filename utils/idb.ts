@@ -0,0 +1,85 @@
+// utils/idb.ts
+// Minimal promise wrappers around IndexedDB. All object stores used by the studio are declared here
+// so the schema version is bumped in exactly one place.
+
+const DB_NAME = "ai_slide_studio";
+const DB_VERSION = 2;
+
+export const PROJECTS_STORE = "projects";
+export const DOCUMENT_INDEXES_STORE = "documentIndexes"; // added in version 2
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase) {
+  if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+    const store = db.createObjectStore(PROJECTS_STORE, { keyPath: "id" });
+    store.createIndex("userId", "userId", { unique: false });
+  }
+  if (!db.objectStoreNames.contains(DOCUMENT_INDEXES_STORE)) {
+    db.createObjectStore(DOCUMENT_INDEXES_STORE, { keyPath: "id" });
+  }
+}
+
+export function openStudioDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => upgrade(req.result);
+    req.onsuccess = () => {
+      const db = req.result;
+      // Another tab upgraded the schema: drop our handle so the next call reopens.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    req.onerror = () => reject(req.error ?? new Error("Failed to open IndexedDB."));
+    req.onblocked = () => reject(new Error("IndexedDB upgrade is blocked by another open tab."));
+  }).catch(err => {
+    dbPromise = null;
+    throw err;
+  });
+  return dbPromise;
+}
+
+export function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("IndexedDB request failed."));
+  });
+}
+
+// Runs `fn` inside a transaction and resolves once the transaction has committed.
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+  const db = await openStudioDb();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error("IndexedDB transaction failed."));
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted."));
+  });
+  let result: T;
+  try {
+    result = await fn(tx.objectStore(storeName));
+  } catch (err) {
+    // The callback's error is the one reported; the transaction's own failure is expected.
+    done.catch(() => {});
+    try {
+      tx.abort();
+    } catch {
+      // Already committed or aborted.
+    }
+    throw err;
+  }
+  await done;
+  return result;
+}
@@ -0,0 +1,115 @@
+// utils/presenterChannel.test.ts
+// The interaction log kept per slide, and the bridge that captures and replays interactions inside
+// the sandboxed slide frames.
+import { describe, expect, it } from 'vitest';
+import { JSDOM } from 'jsdom';
+import type { FrameCommand, SlideInteraction } from './presenterChannel';
+import { recordInteraction, withPresenterBridge } from './presenterChannel';
+
+const SLIDE = `<!DOCTYPE html><html><head><title>Quiz</title></head><body>
+<button id="reveal" onclick="this.textContent = 'Revealed'">Reveal</button>
+<input id="answer" oninput="document.body.setAttribute('data-typed', this.value)">
+<ol id="order"><li>A</li><li>B</li><li>C</li></ol>
+</body></html>`;
+
+// A slide frame: the slide with the bridge, where the test stands in for the parent window.
+function slideFrame() {
+  const dom = new JSDOM(withPresenterBridge(SLIDE), { runScripts: 'dangerously' });
+  const { window } = dom;
+  const doc = window.document;
+  const reported: unknown[] = [];
+  window.addEventListener('message', e => {
+    if (e.data?.type !== 'replay') reported.push(e.data);
+  });
+  // In a top-level window the parent is the window itself, so this is what the app would send.
+  const send = (interactions: SlideInteraction[], capture = false) => window.dispatchEvent(new window.MessageEvent('message', {
+    data: { source: 'slides-presenter', type: 'replay', interactions, capture } satisfies FrameCommand,
+    source: window as unknown as Window,
+  }));
+  const path = (id: string) => {
+    const parts: number[] = [];
+    for (let node = doc.getElementById(id)!; node.parentElement; node = node.parentElement) {
+      parts.unshift(Array.prototype.indexOf.call(node.parentElement.children, node));
+    }
+    return parts;
+  };
+  const flush = () => new Promise(resolve => setTimeout(resolve, 10));
+  return { window, doc, reported, send, path, flush };
+}
+
+describe('recordInteraction', () => {
+  it('keeps every click and reorder', () => {
+    const click: SlideInteraction = { kind: 'click', path: [1, 0] };
+    const order: SlideInteraction = { kind: 'order', path: [1, 2], value: '1,0' };
+    expect(recordInteraction(recordInteraction([click], click), order)).toEqual([click, click, order]);
+  });
+
+  it('keeps only the latest input or scroll per element', () => {
+    let log: SlideInteraction[] = [];
+    log = recordInteraction(log, { kind: 'input', path: [1, 1], value: 'o' });
+    log = recordInteraction(log, { kind: 'scroll', path: [1, 1], ratioY: 0.5 });
+    log = recordInteraction(log, { kind: 'input', path: [1, 2], value: 'x' });
+    log = recordInteraction(log, { kind: 'input', path: [1, 1], value: 'oil' });
+    expect(log).toEqual([
+      { kind: 'scroll', path: [1, 1], ratioY: 0.5 },
+      { kind: 'input', path: [1, 2], value: 'x' },
+      { kind: 'input', path: [1, 1], value: 'oil' },
+    ]);
+  });
+});
+
+describe('withPresenterBridge', () => {
+  it('adds the bridge after the slide content, leaving its element paths alone', () => {
+    const html = withPresenterBridge(SLIDE);
+    expect(html.indexOf('slide-presenter-bridge')).toBeGreaterThan(html.indexOf('id="order"'));
+    expect(html.trimEnd().endsWith('</body></html>')).toBe(true);
+  });
+});
+
+describe('presenter bridge', () => {
+  it('replays clicks, typing and reordering on the slide', () => {
+    const { doc, send, path } = slideFrame();
+    send([
+      { kind: 'click', path: path('reveal') },
+      { kind: 'input', path: path('answer'), value: 'oil' },
+      { kind: 'order', path: path('order'), value: '2,0,1' },
+    ]);
+    expect(doc.getElementById('reveal')!.textContent).toBe('Revealed');
+    expect((doc.getElementById('answer') as HTMLInputElement).value).toBe('oil');
+    expect(doc.body.getAttribute('data-typed')).toBe('oil'); // the slide's own handler ran
+    expect(Array.from(doc.querySelectorAll('li'), li => li.textContent)).toEqual(['C', 'A', 'B']);
+  });
+
+  it('ignores replay requests from anyone but the parent', () => {
+    const { window, doc, path } = slideFrame();
+    window.dispatchEvent(new window.MessageEvent('message', {
+      data: { source: 'slides-presenter', type: 'replay', interactions: [{ kind: 'click', path: path('reveal') }] },
+    }));
+    expect(doc.getElementById('reveal')!.textContent).toBe('Reveal');
+  });
+
+  it('reports interactions once capturing was asked for, but not the replayed ones', async () => {
+    const { window, doc, reported, send, path, flush } = slideFrame();
+    doc.getElementById('reveal')!.click();
+    send([{ kind: 'input', path: path('answer'), value: 'water' }], true);
+    const input = doc.getElementById('answer') as HTMLInputElement;
+    input.value = 'oil';
+    input.dispatchEvent(new window.Event('input', { bubbles: true }));
+    doc.getElementById('reveal')!.click();
+    await flush();
+    expect(reported).toEqual([
+      { source: 'slides-presenter', type: 'interaction', interaction: { kind: 'input', path: path('answer'), value: 'oil' } },
+      { source: 'slides-presenter', type: 'interaction', interaction: { kind: 'click', path: path('reveal') } },
+    ]);
+  });
+
+  it('passes presenter keys up unless they go to a field', async () => {
+    const { window, doc, reported, flush } = slideFrame();
+    const press = (target: Element, key: string) => target.dispatchEvent(new window.KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }));
+    press(doc.body, 'ArrowRight');
+    press(doc.body, 'x');
+    press(doc.getElementById('answer')!, 'b');
+    await flush();
+    expect(reported).toEqual([{ source: 'slides-presenter', type: 'key', key: 'ArrowRight' }]);
+  });
+});
@@ -0,0 +1,192 @@
+// utils/presenterChannel.ts
+// Protocol between presenter mode (speaker view) and its audience window. Both run in this app and
+// talk over a BroadcastChannel named per session. Both windows render the same slide HTML, so an
+// interaction is addressed by its element path (child indexes from <html>) and replayed as is.
+// The slide frames are sandboxed without allow-same-origin, so the app can't reach into them:
+// a bridge script injected into each slide captures and replays interactions over postMessage.
+
+export const AUDIENCE_PARAM = 'audience';
+
+export interface SlideInteraction {
+  kind: 'click' | 'input' | 'scroll' | 'order';
+  path: number[];
+  value?: string; // input: the new value; order: the list's previous child indexes in their new order, e.g. "2,0,1"
+  ratioX?: number;
+  ratioY?: number;
+}
+
+export type PresenterMessage =
+  | { type: 'hello' } // audience -> presenter, on load; answered with 'deck'
+  | { type: 'deck'; title: string; slides: string[]; index: number; interactions: SlideInteraction[][]; blank: boolean }
+  | { type: 'goto'; index: number }
+  | { type: 'interaction'; index: number; interaction: SlideInteraction }
+  | { type: 'blank'; on: boolean }
+  | { type: 'end' };
+
+export const presenterChannel = (session: string) => new BroadcastChannel(`slides-presenter:${session}`);
+
+export const audienceUrl = (session: string) => {
+  const url = new URL(window.location.href);
+  url.search = `?${AUDIENCE_PARAM}=${encodeURIComponent(session)}`;
+  url.hash = '';
+  return url.toString();
+};
+
+// Later input or scroll on the same element supersedes the earlier one; clicks and reorders all
+// count, since each one builds on the state the ones before it left.
+export function recordInteraction(log: SlideInteraction[], interaction: SlideInteraction): SlideInteraction[] {
+  if (interaction.kind === 'click' || interaction.kind === 'order') return [...log, interaction];
+  const key = interaction.path.join('.');
+  return [...log.filter(i => i.kind !== interaction.kind || i.path.join('.') !== key), interaction];
+}
+
+// --- Slide frame bridge ---
+
+const BRIDGE_SOURCE = 'slides-presenter';
+
+// Presenter shortcuts a focused slide passes up instead of handling them itself (see PresenterMode).
+export const PRESENTER_KEYS = ['ArrowRight', 'ArrowLeft', 'PageDown', 'PageUp', ' ', 'Home', 'End', 'b', 'B', '.', 'p', 'P', 't', 'T', 'Escape'];
+
+// App -> frame: replay `interactions`, then (with `capture`) report new ones. Capturing starts after
+// the replay, or the replayed events would be reported a second time.
+export type FrameCommand = { source: typeof BRIDGE_SOURCE; type: 'replay'; interactions: SlideInteraction[]; capture?: boolean };
+
+// Frame -> app.
+export type FrameEvent =
+  | { source: typeof BRIDGE_SOURCE; type: 'interaction'; interaction: SlideInteraction }
+  | { source: typeof BRIDGE_SOURCE; type: 'key'; key: string };
+
+// Runs inside the slide. Clicks, typing, scrolling and drag-and-drop reordering are reported to the
+// parent; replay applies them to this copy of the slide.
+export const PRESENTER_BRIDGE = `(function () {
+  'use strict';
+  var SOURCE = ${JSON.stringify(BRIDGE_SOURCE)};
+  var KEYS = ${JSON.stringify(PRESENTER_KEYS)};
+  function post(message) {
+    message.source = SOURCE;
+    window.parent.postMessage(message, '*');
+  }
+  function pathOf(el) {
+    var path = [];
+    for (var node = el; node && node.parentElement; node = node.parentElement) {
+      path.unshift(Array.prototype.indexOf.call(node.parentElement.children, node));
+    }
+    return path;
+  }
+  function atPath(path) {
+    var node = document.documentElement;
+    for (var i = 0; i < path.length && node; i++) node = node.children[path[i]] || null;
+    return node;
+  }
+  function isToggle(el) { return el.tagName === 'INPUT' && /^(checkbox|radio)$/i.test(el.type); }
+  function replay(interaction) {
+    var el = atPath(interaction.path);
+    if (!el) return;
+    if (interaction.kind === 'click') {
+      if (el.click) el.click();
+    } else if (interaction.kind === 'input') {
+      el.value = interaction.value || '';
+      el.dispatchEvent(new Event('input', { bubbles: true }));
+      el.dispatchEvent(new Event('change', { bubbles: true }));
+    } else if (interaction.kind === 'order') {
+      var children = Array.prototype.slice.call(el.children);
+      (interaction.value || '').split(',').forEach(function (i) {
+        if (children[Number(i)]) el.appendChild(children[Number(i)]);
+      });
+    } else {
+      el.scrollTop = (interaction.ratioY || 0) * (el.scrollHeight - el.clientHeight);
+      el.scrollLeft = (interaction.ratioX || 0) * (el.scrollWidth - el.clientWidth);
+    }
+  }
+  function report(interaction) { post({ type: 'interaction', interaction: interaction }); }
+  function capture() {
+    document.addEventListener('click', function (e) {
+      var target = e.target;
+      if (!target || !target.closest) return;
+      // A click on a label is followed by one on its control; only that second click is mirrored.
+      var label = target.closest('label');
+      if (label && label.control && label.control !== target) return;
+      // Navigation buttons (branching scenarios) move the deck; replaying them would move it again.
+      if (target.closest('[data-navigate]')) return;
+      report({ kind: 'click', path: pathOf(target) });
+    }, true);
+    document.addEventListener('input', function (e) {
+      var target = e.target;
+      if (!target || !('value' in target) || isToggle(target)) return;
+      report({ kind: 'input', path: pathOf(target), value: target.value });
+    }, true);
+    var pending = null;
+    document.addEventListener('scroll', function (e) {
+      if (pending !== null) return;
+      var target = e.target === document ? document.scrollingElement : e.target;
+      if (!target) return;
+      pending = requestAnimationFrame(function () {
+        pending = null;
+        function ratio(pos, size) { return size > 0 ? pos / size : 0; }
+        report({
+          kind: 'scroll',
+          path: pathOf(target),
+          ratioX: ratio(target.scrollLeft, target.scrollWidth - target.clientWidth),
+          ratioY: ratio(target.scrollTop, target.scrollHeight - target.clientHeight)
+        });
+      });
+    }, true);
+    // Dragging reorders the list as the pointer moves (the ordering interactive); the audience gets
+    // the resulting order once the item is dropped.
+    var drag = null;
+    document.addEventListener('dragstart', function (e) {
+      var item = e.target && e.target.closest ? e.target.closest('[draggable="true"]') : null;
+      var list = item && item.parentElement;
+      drag = list ? { list: list, children: Array.prototype.slice.call(list.children) } : null;
+    }, true);
+    document.addEventListener('dragend', function () {
+      if (!drag) return;
+      var list = drag.list, children = drag.children;
+      drag = null;
+      var order = Array.prototype.map.call(list.children, function (child) { return children.indexOf(child); });
+      if (order.every(function (i, pos) { return i === pos; })) return;
+      report({ kind: 'order', path: pathOf(list), value: order.join(',') });
+    }, true);
+  }
+  var capturing = false;
+  window.addEventListener('message', function (e) {
+    var data = e.data;
+    if (e.source !== window.parent || !data || data.source !== SOURCE || data.type !== 'replay') return;
+    data.interactions.forEach(replay);
+    if (data.capture && !capturing) {
+      capturing = true;
+      capture();
+    }
+  });
+  // Keys pressed while the slide has focus still drive the presenter, unless they go to a field.
+  document.addEventListener('keydown', function (e) {
+    if (e.defaultPrevented || e.altKey || e.ctrlKey || e.metaKey || KEYS.indexOf(e.key) === -1) return;
+    var target = e.target, tag = target && target.tagName;
+    if (tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT' || (target && target.isContentEditable)) {
+      if (e.key === 'Escape') target.blur();
+      return;
+    }
+    if (tag === 'BUTTON' && e.key === ' ') return;
+    e.preventDefault();
+    post({ type: 'key', key: e.key });
+  });
+})();`;
+
+const BRIDGE_ID = 'slide-presenter-bridge';
+
+// The slide as presenter mode renders it. The bridge goes last in <body>, so the element paths of
+// the slide's own content are the same with and without it.
+export function withPresenterBridge(html: string): string {
+  const tag = `<script id="${BRIDGE_ID}">\n${PRESENTER_BRIDGE}\n</script>`;
+  return /<\/body>/i.test(html) ? html.replace(/<\/body>(?![\s\S]*<\/body>)/i, `${tag}\n</body>`) : `${html}\n${tag}`;
+}
+
+export function replayInFrame(frame: Window, interactions: SlideInteraction[], capture = false) {
+  // The sandboxed frame has an opaque origin, so no narrower target origin matches it.
+  frame.postMessage({ source: BRIDGE_SOURCE, type: 'replay', interactions, capture } satisfies FrameCommand, '*');
+}
+
+// The bridge message in `e`, if it came from `frame`.
+export function frameEvent(e: MessageEvent, frame: Window | null): FrameEvent | null {
+  return frame && e.source === frame && e.data?.source === BRIDGE_SOURCE ? (e.data as FrameEvent) : null;
+}
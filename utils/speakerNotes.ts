@@ -0,0 +1,58 @@
+// utils/speakerNotes.ts
+// Reading and formatting the speaker notes and narration that travel with each slide.
+import type { GeneratedSlide, SlideNotes } from '../types';
+import { NARRATION_WORDS_PER_MINUTE } from '../constants';
+
+export const emptyNotes = (): SlideNotes => ({ points: [], narration: '', durationSeconds: 0 });
+
+// Points are edited as lines of a textarea, so blank ones are dropped only when the notes are used.
+export const notePoints = (notes?: SlideNotes): string[] =>
+  (notes?.points ?? []).map(p => p.trim()).filter(Boolean);
+
+export const hasNotes = (notes?: SlideNotes): notes is SlideNotes =>
+  !!notes && (notePoints(notes).length > 0 || notes.narration.trim().length > 0);
+
+export const wordCount = (text: string) => (text.match(/\S+/g) ?? []).length;
+
+export const narrationSeconds = (text: string) =>
+  Math.round((wordCount(text) / NARRATION_WORDS_PER_MINUTE) * 60);
+
+// The target duration when one was set, else an estimate from the narration.
+export const slideSeconds = (notes?: SlideNotes) =>
+  notes ? notes.durationSeconds || narrationSeconds(notes.narration) : 0;
+
+export const deckSeconds = (slides: GeneratedSlide[]) =>
+  slides.reduce((sum, s) => sum + slideSeconds(s.notes), 0);
+
+export const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+
+// Notes as sent to other systems: no blank points, and a duration even when none was set.
+export const finalNotes = (notes?: SlideNotes): SlideNotes | undefined =>
+  hasNotes(notes)
+    ? { points: notePoints(notes), narration: notes.narration.trim(), durationSeconds: slideSeconds(notes) }
+    : undefined;
+
+// Plain-text notes lines for exports that only take text (PowerPoint notes, the presentation player).
+export function notesLines(notes?: SlideNotes): string[] {
+  if (!hasNotes(notes)) return [];
+  const lines = notePoints(notes).map(p => `• ${p}`);
+  if (notes.narration.trim()) lines.push(`Narration (${formatDuration(slideSeconds(notes))}): ${notes.narration.trim()}`);
+  return lines;
+}
+
+// Model output is loosely shaped: points may come as one string, durations as strings.
+export function normalizeNotes(raw: any): SlideNotes | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const points = (Array.isArray(raw.points) ? raw.points : typeof raw.points === 'string' ? raw.points.split('\n') : [])
+    .map((p: unknown) => String(p ?? '').replace(/^\s*[-•*]\s*/, '').trim())
+    .filter(Boolean);
+  const narration = typeof raw.narration === 'string' ? raw.narration.trim() : '';
+  const duration = Math.round(Number(raw.durationSeconds));
+  const notes: SlideNotes = {
+    points,
+    narration,
+    durationSeconds: duration > 0 ? duration : narrationSeconds(narration),
+  };
+  return hasNotes(notes) ? notes : undefined;
+}
@@ -4,16 +4,18 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // server/proxy.ts (`npm run proxy`) holds the provider credentials; none are defined into the bundle.
+    const apiProxy = { target: `http://localhost:${env.PROXY_PORT || 8787}`, changeOrigin: true };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: { '/api': apiProxy },
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      preview: {
+        proxy: { '/api': apiProxy },
       },
+      plugins: [react()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),